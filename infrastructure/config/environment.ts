@@ -2,6 +2,9 @@ export interface EnvironmentConfig {
   environment: string;
   inputBucketName: string;
   outputBucketName: string;
+  configBucketName: string;
+  cacheBucketName: string;
+  jobTableName: string;
   notificationTopicName: string;
   stepFunctionName: string;
   lambdaTimeout: number;
@@ -10,10 +13,30 @@ export interface EnvironmentConfig {
     processWithLLM: number;
     writeSpecification: number;
     sendNotification: number;
+    updateCatalog: number;
+    jobApi: number;
   };
   fileRetentionDays: number;
+  cacheRetentionDays: number;
+  jobRetentionDays: number;
+  jobApiThrottle: {
+    rateLimit: number; // Requests per second across all clients
+    burstLimit: number;
+  };
   maxFileSize: number;
   claudeModel: string;
+  modelFallbackChain: string[];
+  chunkProcessingConcurrency: number;
+  projectFileConcurrency: number;
+  specificationFormat: 'markdown' | 'structured';
+  coverageThreshold: number;
+  review: {
+    enabled: boolean; // Score every written specification against its source after generation
+    threshold: number; // Minimum rubric score (1-5) for faithfulness, completeness and clarity
+    modelId?: string; // Reviewer model; defaults to the generation model chain
+  };
+  outputFormats: Array<'html' | 'asciidoc' | 'confluence'>;
+  outputPathStrategy: 'date' | 'mirror' | 'latest';
   notificationEmail?: string;
   tags: Record<string, string>;
   resourceNaming: {
@@ -40,6 +63,9 @@ export function getConfig(): EnvironmentConfig {
     environment,
     inputBucketName: `spec-generator-input-${environment}`,
     outputBucketName: `spec-generator-output-${environment}`,
+    configBucketName: `spec-generator-config-${environment}`,
+    cacheBucketName: `spec-generator-cache-${environment}`,
+    jobTableName: `spec-generator-jobs-${environment}`,
     notificationTopicName: `spec-generator-notifications-${environment}`,
     stepFunctionName: `spec-generator-workflow-${environment}`,
     lambdaTimeout: 300, // 5 minutes
@@ -48,10 +74,33 @@ export function getConfig(): EnvironmentConfig {
       processWithLLM: 1024,
       writeSpecification: 256,
       sendNotification: 256,
+      updateCatalog: 256,
+      jobApi: 256,
     },
     fileRetentionDays: 7,
+    cacheRetentionDays: 30, // Cached specifications are regenerated after this
+    jobRetentionDays: 90, // Job records expire through the table TTL after this
+    jobApiThrottle: {
+      rateLimit: 10,
+      burstLimit: 20,
+    },
     maxFileSize: 10 * 1024 * 1024, // 10MB in bytes
     claudeModel: 'anthropic.claude-3-sonnet-20240229-v1:0',
+    // Tried in order when the primary model throttles or rejects the request (e.g. context too long)
+    modelFallbackChain: [
+      'anthropic.claude-3-5-sonnet-20240620-v1:0', // Larger context window
+      'amazon.nova-pro-v1:0',
+    ],
+    chunkProcessingConcurrency: 4, // Parallel Bedrock calls per large file
+    projectFileConcurrency: 2, // Files of a project processed in parallel, each with its own chunk concurrency
+    specificationFormat: 'markdown', // 'structured' also writes a schema-validated JSON specification
+    coverageThreshold: 80, // Percent of public outline entries a specification must mention before a follow-up prompt
+    review: {
+      enabled: false,
+      threshold: 3,
+    },
+    outputFormats: ['html', 'confluence'], // Rendered in addition to Markdown; 'asciidoc' is also available
+    outputPathStrategy: 'date', // 'mirror' keeps the input key hierarchy; 'latest' overwrites one key per input
     notificationEmail: process.env.NOTIFICATION_EMAIL,
     tags: {
       Project: 'S3SpecGenerator',
@@ -88,6 +137,8 @@ export function getConfig(): EnvironmentConfig {
           processWithLLM: 2048,
           writeSpecification: 512,
           sendNotification: 512,
+          updateCatalog: 256,
+          jobApi: 256,
         },
         fileRetentionDays: 30,
         tags: {
@@ -116,6 +167,8 @@ export function getConfig(): EnvironmentConfig {
           processWithLLM: 1536,
           writeSpecification: 384,
           sendNotification: 384,
+          updateCatalog: 256,
+          jobApi: 256,
         },
         fileRetentionDays: 14,
         tags: {
@@ -188,6 +241,38 @@ export function validateConfig(config: EnvironmentConfig): { isValid: boolean; e
   if (!bucketNameRegex.test(config.outputBucketName)) {
     errors.push(`Invalid output bucket name: ${config.outputBucketName}`);
   }
+  if (!bucketNameRegex.test(config.configBucketName)) {
+    errors.push(`Invalid config bucket name: ${config.configBucketName}`);
+  }
+  if (!bucketNameRegex.test(config.cacheBucketName)) {
+    errors.push(`Invalid cache bucket name: ${config.cacheBucketName}`);
+  }
+  
+  // Validate model fallback chain
+  const modelChain = [config.claudeModel, ...config.modelFallbackChain];
+  if (modelChain.some(modelId => !modelId.trim())) {
+    errors.push('Model fallback chain contains an empty model id');
+  }
+  if (new Set(modelChain).size !== modelChain.length) {
+    errors.push(`Model fallback chain contains duplicate models: ${modelChain.join(', ')}`);
+  }
+  
+  // Validate chunk processing concurrency (bounded to stay within Bedrock throttling limits)
+  if (config.chunkProcessingConcurrency < 1 || config.chunkProcessingConcurrency > 40) {
+    errors.push(`Invalid chunk processing concurrency: ${config.chunkProcessingConcurrency} (must be 1-40)`);
+  }
+  if (config.projectFileConcurrency < 1 || config.projectFileConcurrency > 40) {
+    errors.push(`Invalid project file concurrency: ${config.projectFileConcurrency} (must be 1-40)`);
+  }
+  if (config.coverageThreshold < 0 || config.coverageThreshold > 100) {
+    errors.push(`Invalid coverage threshold: ${config.coverageThreshold} (must be 0-100 percent)`);
+  }
+  if (!Number.isInteger(config.review.threshold) || config.review.threshold < 1 || config.review.threshold > 5) {
+    errors.push(`Invalid review threshold: ${config.review.threshold} (must be 1-5)`);
+  }
+  if (config.review.modelId !== undefined && !config.review.modelId.trim()) {
+    errors.push('Review model id is empty');
+  }
   
   // Validate Lambda memory sizes
   Object.entries(config.lambdaMemorySize).forEach(([funcName, memorySize]) => {
@@ -209,6 +294,16 @@ export function validateConfig(config: EnvironmentConfig): { isValid: boolean; e
     errors.push(`Invalid file retention days: ${config.fileRetentionDays} (must be 1-365 days)`);
   }
   
+  // Validate cache retention
+  if (config.cacheRetentionDays < 1 || config.cacheRetentionDays > 365) {
+    errors.push(`Invalid cache retention days: ${config.cacheRetentionDays} (must be 1-365 days)`);
+  }
+  
+  // Validate job retention
+  if (config.jobRetentionDays < 1 || config.jobRetentionDays > 365) {
+    errors.push(`Invalid job retention days: ${config.jobRetentionDays} (must be 1-365 days)`);
+  }
+  
   // Validate max file size
   if (config.maxFileSize < 1024 || config.maxFileSize > 52428800) { // 1KB to 50MB
     errors.push(`Invalid max file size: ${config.maxFileSize} (must be 1KB-50MB)`);
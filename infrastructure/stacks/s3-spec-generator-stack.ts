@@ -3,9 +3,12 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as stepfunctions from 'aws-cdk-lib/aws-stepfunctions';
 import * as sfnTasks from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as sns from 'aws-cdk-lib/aws-sns';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as logs from 'aws-cdk-lib/aws-logs';
 import * as events from 'aws-cdk-lib/aws-events';
 import * as targets from 'aws-cdk-lib/aws-events-targets';
@@ -13,6 +16,8 @@ import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
 import { Construct } from 'constructs';
 import { EnvironmentConfig, generateResourceName, validateConfig } from '../config/environment';
+import { getEventKeyNames, getEventKeySuffixes } from '../../src/shared/file-formats';
+import { PROJECT_CONFIG } from '../../src/shared/constants';
 
 export interface S3SpecGeneratorStackProps extends cdk.StackProps {
   config: EnvironmentConfig;
@@ -21,9 +26,14 @@ export interface S3SpecGeneratorStackProps extends cdk.StackProps {
 export class S3SpecGeneratorStack extends cdk.Stack {
   public readonly inputBucket: s3.Bucket;
   public readonly outputBucket: s3.Bucket;
+  public readonly configBucket: s3.Bucket;
+  public readonly cacheBucket: s3.Bucket;
   public readonly stateMachine: stepfunctions.StateMachine;
   public readonly notificationTopic: sns.Topic;
   public readonly deadLetterQueue: sqs.Queue;
+  public readonly catalogQueue: sqs.Queue;
+  public readonly jobTable: dynamodb.Table;
+  public readonly jobApi: apigateway.RestApi;
   public readonly logGroups: { [key: string]: logs.LogGroup };
   public readonly dashboard: cloudwatch.Dashboard;
   public readonly lambdaFunctions: { [key: string]: lambda.Function } = {};
@@ -55,6 +65,12 @@ export class S3SpecGeneratorStack extends cdk.Stack {
           enabled: true,
           expiration: cdk.Duration.days(props.config.fileRetentionDays),
         },
+        {
+          id: 'ExpireWorkingPayloads',
+          enabled: true,
+          prefix: '_working/',
+          expiration: cdk.Duration.days(1),
+        },
         {
           id: 'AbortIncompleteMultipartUploads',
           enabled: true,
@@ -71,7 +87,7 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       bucketName: props.config.outputBucketName,
       encryption: s3.BucketEncryption.S3_MANAGED,
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
-      versioned: true,
+      versioned: true, // The 'latest' output path strategy relies on versions for specification history
       enforceSSL: true, // Require SSL/TLS for all requests
       lifecycleRules: [
         {
@@ -99,6 +115,37 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_ENFORCED,
     });
 
+    // Create S3 configuration bucket for runtime-editable settings such as prompt templates
+    this.configBucket = new s3.Bucket(this, 'ConfigBucket', {
+      bucketName: props.config.configBucketName,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      versioned: true, // Keep previous template versions for rollback
+      enforceSSL: true,
+      removalPolicy: props.config.environment === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+      accessControl: s3.BucketAccessControl.PRIVATE,
+      objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_ENFORCED,
+    });
+
+    // Create S3 cache bucket for specifications keyed on content hash, template version and model
+    this.cacheBucket = new s3.Bucket(this, 'CacheBucket', {
+      bucketName: props.config.cacheBucketName,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      versioned: false,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          id: 'ExpireCachedSpecifications',
+          enabled: true,
+          expiration: cdk.Duration.days(props.config.cacheRetentionDays),
+        },
+      ],
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // Cache entries can always be regenerated
+      accessControl: s3.BucketAccessControl.PRIVATE,
+      objectOwnership: s3.ObjectOwnership.BUCKET_OWNER_ENFORCED,
+    });
+
     // Create SNS topic for notifications
     this.notificationTopic = new sns.Topic(this, 'NotificationTopic', {
       topicName: props.config.notificationTopicName,
@@ -115,6 +162,46 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       visibilityTimeout: cdk.Duration.minutes(5),
     });
 
+    // FIFO queue of catalog entries; a single message group serialises catalog updates
+    const catalogDeadLetterQueue = new sqs.Queue(this, 'CatalogDeadLetterQueue', {
+      queueName: `spec-generator-catalog-dlq-${props.config.environment}.fifo`,
+      fifo: true,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+
+    this.catalogQueue = new sqs.Queue(this, 'CatalogQueue', {
+      queueName: `spec-generator-catalog-${props.config.environment}.fifo`,
+      fifo: true,
+      visibilityTimeout: cdk.Duration.minutes(6), // Six times the UpdateCatalogFunction timeout
+      deadLetterQueue: {
+        queue: catalogDeadLetterQueue,
+        maxReceiveCount: 5,
+      },
+    });
+
+    // Job table with one item per execution; every Lambda records its stage, usage and outcome
+    this.jobTable = new dynamodb.Table(this, 'JobTable', {
+      tableName: props.config.jobTableName,
+      partitionKey: { name: 'jobId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: props.config.environment === 'prod',
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: props.config.environment === 'prod' ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Index names match JOB_TABLE_CONFIG in src/shared/constants.ts
+    this.jobTable.addGlobalSecondaryIndex({
+      indexName: 'bySourceKey',
+      partitionKey: { name: 'sourceKey', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+    this.jobTable.addGlobalSecondaryIndex({
+      indexName: 'byDay',
+      partitionKey: { name: 'day', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+    });
+
     // Create CloudWatch log groups for Lambda functions (needed for security metric filters)
     this.logGroups = this.createLogGroups(props.config);
 
@@ -124,6 +211,9 @@ export class S3SpecGeneratorStack extends cdk.Stack {
     // Create Lambda functions
     this.createLambdaFunctions(props.config);
 
+    // Create the HTTP front door for submitting files and polling job status
+    this.jobApi = this.createJobApi(props.config);
+
     // Create Step Functions state machine
     this.stateMachine = this.createStateMachine(props.config);
 
@@ -786,6 +876,20 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // Log group for UpdateCatalogFunction
+    logGroups.updateCatalog = new logs.LogGroup(this, 'UpdateCatalogFunctionLogGroup', {
+      logGroupName: `/aws/lambda/UpdateCatalogFunction-${config.environment}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Log group for JobApiFunction
+    logGroups.jobApi = new logs.LogGroup(this, 'JobApiFunctionLogGroup', {
+      logGroupName: `/aws/lambda/JobApiFunction-${config.environment}`,
+      retention: logs.RetentionDays.ONE_WEEK,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
     // Log group for Step Functions
     logGroups.stepFunctions = new logs.LogGroup(this, 'StateMachineLogGroup', {
       logGroupName: `/aws/stepfunctions/${config.stepFunctionName}`,
@@ -898,6 +1002,8 @@ export class S3SpecGeneratorStack extends cdk.Stack {
     processWithClaudeRole: iam.Role;
     writeSpecificationRole: iam.Role;
     sendNotificationRole: iam.Role;
+    updateCatalogRole: iam.Role;
+    jobApiRole: iam.Role;
   } {
     // ReadFileFunction IAM Role - least privilege for S3 read operations
     const readFileRole = new iam.Role(this, 'ReadFileFunctionRole', {
@@ -931,6 +1037,20 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: [this.inputBucket.bucketArn],
     }));
 
+    // S3 write permissions for claim-check payloads in the working prefix only
+    readFileRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:PutObject',
+      ],
+      resources: [`${this.inputBucket.bucketArn}/_working/*`],
+      conditions: {
+        StringEquals: {
+          's3:x-amz-server-side-encryption': 'AES256',
+        },
+      },
+    }));
+
     // X-Ray tracing permissions
     readFileRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -941,6 +1061,16 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: ['*'],
     }));
 
+    // Job status updates
+    readFileRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'dynamodb:PutItem',
+        'dynamodb:UpdateItem',
+      ],
+      resources: [this.jobTable.tableArn],
+    }));
+
     // CloudWatch Logs permissions (specific log group)
     readFileRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -963,16 +1093,77 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole')
     );
 
-    // Bedrock permissions for Claude model only
+    // Bedrock permissions for the primary model, every model in the fallback chain and the reviewer only
     processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
       actions: [
         'bedrock:InvokeModel',
       ],
-      resources: [
-        `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-sonnet-20240229-v1:0`,
-        `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-haiku-20240307-v1:0`, // Fallback model
+      resources: Array.from(new Set([config.claudeModel, ...config.modelFallbackChain, ...(config.review.modelId ? [config.review.modelId] : [])]))
+        .flatMap(modelId => this.getBedrockModelArns(modelId)),
+    }));
+
+    // S3 read permissions for prompt templates in the configuration bucket
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:ListBucket',
+      ],
+      resources: [this.configBucket.bucketArn],
+      conditions: {
+        StringLike: {
+          's3:prefix': ['prompt-templates/*'],
+        },
+      },
+    }));
+
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+      ],
+      resources: [`${this.configBucket.bucketArn}/prompt-templates/*`],
+    }));
+
+    // S3 permissions for the specification cache (ListBucket so a miss returns 404, not 403)
+    // GetObject does not send s3:prefix, so the grant cannot be narrowed with that condition key
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:ListBucket',
+      ],
+      resources: [this.cacheBucket.bucketArn],
+    }));
+
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+        's3:PutObject',
+      ],
+      resources: [`${this.cacheBucket.bucketArn}/specifications/*`],
+    }));
+
+    // S3 permissions for claim-check payloads (staged content in, large specifications out)
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+      ],
+      resources: [`${this.inputBucket.bucketArn}/_working/*`],
+    }));
+
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:PutObject',
       ],
+      resources: [`${this.inputBucket.bucketArn}/_working/*`],
+      conditions: {
+        StringEquals: {
+          's3:x-amz-server-side-encryption': 'AES256',
+        },
+      },
     }));
 
     // X-Ray tracing permissions
@@ -985,6 +1176,15 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: ['*'],
     }));
 
+    // Job status updates
+    processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'dynamodb:UpdateItem',
+      ],
+      resources: [this.jobTable.tableArn],
+    }));
+
     // CloudWatch Logs permissions (specific log group)
     processWithClaudeRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -1023,6 +1223,16 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       },
     }));
 
+    // S3 read permissions for the history manifests and previous specifications that are diffed
+    writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+        's3:GetObjectVersion',
+      ],
+      resources: [`${this.outputBucket.bucketArn}/*`],
+    }));
+
     // S3 bucket metadata access for output bucket
     writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -1033,6 +1243,15 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: [this.outputBucket.bucketArn],
     }));
 
+    // S3 read permissions for claim-check payloads staged by ProcessWithClaudeFunction
+    writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+      ],
+      resources: [`${this.inputBucket.bucketArn}/_working/*`],
+    }));
+
     // X-Ray tracing permissions
     writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -1043,6 +1262,24 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: ['*'],
     }));
 
+    // Catalog entries for UpdateCatalogFunction
+    writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'sqs:SendMessage',
+      ],
+      resources: [this.catalogQueue.queueArn],
+    }));
+
+    // Job status updates
+    writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'dynamodb:UpdateItem',
+      ],
+      resources: [this.jobTable.tableArn],
+    }));
+
     // CloudWatch Logs permissions (specific log group)
     writeSpecificationRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -1104,6 +1341,24 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: ['*'],
     }));
 
+    // Job status updates
+    sendNotificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'dynamodb:UpdateItem',
+      ],
+      resources: [this.jobTable.tableArn],
+    }));
+
+    // Catalog entries for failures caught by the state machine
+    sendNotificationRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'sqs:SendMessage',
+      ],
+      resources: [this.catalogQueue.queueArn],
+    }));
+
     // CloudWatch Logs permissions (specific log group)
     sendNotificationRole.addToPolicy(new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -1114,14 +1369,170 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resources: [`arn:aws:logs:${this.region}:${this.account}:log-group:/aws/lambda/SendNotificationFunction-${config.environment}:*`],
     }));
 
+    // UpdateCatalogFunction IAM Role - catalog objects in the output bucket only
+    const updateCatalogRole = new iam.Role(this, 'UpdateCatalogFunctionRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description: 'IAM role for UpdateCatalogFunction with access to catalog objects only',
+      roleName: `UpdateCatalogFunction-Role-${config.environment}`,
+    });
+
+    // Basic Lambda execution permissions
+    updateCatalogRole.addManagedPolicy(
+      iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole')
+    );
+
+    // S3 read permissions for existing catalog manifests
+    updateCatalogRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+      ],
+      resources: [`${this.outputBucket.bucketArn}/catalog/*`],
+    }));
+
+    // S3 bucket listing so missing manifests return NoSuchKey instead of AccessDenied
+    updateCatalogRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:ListBucket',
+      ],
+      resources: [this.outputBucket.bucketArn],
+      conditions: {
+        StringLike: {
+          's3:prefix': ['catalog/*'],
+        },
+      },
+    }));
+
+    // S3 write permissions for catalog manifests and index.html
+    updateCatalogRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:PutObject',
+      ],
+      resources: [`${this.outputBucket.bucketArn}/catalog/*`],
+      conditions: {
+        StringEquals: {
+          's3:x-amz-server-side-encryption': 'AES256',
+        },
+      },
+    }));
+
+    // X-Ray tracing permissions
+    updateCatalogRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'xray:PutTraceSegments',
+        'xray:PutTelemetryRecords',
+      ],
+      resources: ['*'],
+    }));
+
+    // CloudWatch Logs permissions (specific log group)
+    updateCatalogRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'logs:CreateLogStream',
+        'logs:PutLogEvents',
+      ],
+      resources: [`arn:aws:logs:${this.region}:${this.account}:log-group:/aws/lambda/UpdateCatalogFunction-${config.environment}:*`],
+    }));
+
+    // JobApiFunction IAM Role - signs upload and download URLs and reads the job table
+    const jobApiRole = new iam.Role(this, 'JobApiFunctionRole', {
+      assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+      description: 'IAM role for JobApiFunction with job table access and pre-signed URL permissions',
+      roleName: `JobApiFunction-Role-${config.environment}`,
+    });
+
+    // Basic Lambda execution permissions
+    jobApiRole.addManagedPolicy(
+      iam.ManagedPolicy.fromAwsManagedPolicyName('service-role/AWSLambdaBasicExecutionRole')
+    );
+
+    // Pre-signed uploads are limited to the job API prefix and must be encrypted
+    jobApiRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:PutObject',
+      ],
+      resources: [`${this.inputBucket.bucketArn}/uploads/*`],
+      conditions: {
+        StringEquals: {
+          's3:x-amz-server-side-encryption': 'AES256',
+        },
+      },
+    }));
+
+    // Pre-signed specification downloads
+    jobApiRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        's3:GetObject',
+      ],
+      resources: [`${this.outputBucket.bucketArn}/*`],
+    }));
+
+    // Job creation, lookups and listing by day
+    jobApiRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'dynamodb:PutItem',
+        'dynamodb:GetItem',
+        'dynamodb:Query',
+      ],
+      resources: [
+        this.jobTable.tableArn,
+        `${this.jobTable.tableArn}/index/*`,
+      ],
+    }));
+
+    // X-Ray tracing permissions
+    jobApiRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'xray:PutTraceSegments',
+        'xray:PutTelemetryRecords',
+      ],
+      resources: ['*'],
+    }));
+
+    // CloudWatch Logs permissions (specific log group)
+    jobApiRole.addToPolicy(new iam.PolicyStatement({
+      effect: iam.Effect.ALLOW,
+      actions: [
+        'logs:CreateLogStream',
+        'logs:PutLogEvents',
+      ],
+      resources: [`arn:aws:logs:${this.region}:${this.account}:log-group:/aws/lambda/JobApiFunction-${config.environment}:*`],
+    }));
+
     return {
       readFileRole,
       processWithClaudeRole,
       writeSpecificationRole,
       sendNotificationRole,
+      updateCatalogRole,
+      jobApiRole,
     };
   }
 
+  /**
+   * Resolve the ARNs needed to invoke a Bedrock model id
+   * Cross-region inference profile ids (e.g. us.amazon.nova-lite-v1:0) need the profile and
+   * the underlying foundation model in every region the profile routes to
+   */
+  private getBedrockModelArns(modelId: string): string[] {
+    const inferenceProfile = /^(us|eu|apac|us-gov|global)\.(.+)$/.exec(modelId);
+    if (!inferenceProfile) {
+      return [`arn:aws:bedrock:${this.region}::foundation-model/${modelId}`];
+    }
+    return [
+      `arn:aws:bedrock:${this.region}:${this.account}:inference-profile/${modelId}`,
+      `arn:aws:bedrock:*::foundation-model/${inferenceProfile[2]}`,
+    ];
+  }
+
   /**
    * Get common environment variables for Lambda functions
    */
@@ -1130,8 +1541,22 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       ENVIRONMENT: config.environment,
       INPUT_BUCKET_NAME: this.inputBucket.bucketName,
       OUTPUT_BUCKET_NAME: this.outputBucket.bucketName,
+      CONFIG_BUCKET_NAME: this.configBucket.bucketName,
+      PROMPT_TEMPLATE_PREFIX: 'prompt-templates/',
+      CACHE_BUCKET_NAME: this.cacheBucket.bucketName,
       NOTIFICATION_TOPIC_ARN: this.notificationTopic.topicArn,
       BEDROCK_MODEL_ID: config.claudeModel,
+      BEDROCK_MODEL_FALLBACK_CHAIN: config.modelFallbackChain.join(','),
+      SPECIFICATION_FORMAT: config.specificationFormat,
+      COVERAGE_THRESHOLD: config.coverageThreshold.toString(),
+      REVIEW_ENABLED: String(config.review.enabled),
+      REVIEW_THRESHOLD: config.review.threshold.toString(),
+      ...(config.review.modelId ? { REVIEW_MODEL_ID: config.review.modelId } : {}),
+      OUTPUT_FORMATS: config.outputFormats.join(','),
+      OUTPUT_PATH_STRATEGY: config.outputPathStrategy,
+      CATALOG_QUEUE_URL: this.catalogQueue.queueUrl,
+      JOB_TABLE_NAME: this.jobTable.tableName,
+      JOB_RETENTION_DAYS: config.jobRetentionDays.toString(),
       MAX_FILE_SIZE: config.maxFileSize.toString(),
       LOG_LEVEL: config.environment === 'prod' ? 'INFO' : 'DEBUG',
       AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
@@ -1209,6 +1634,85 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       tracing: config.monitoring.enableXRayTracing ? lambda.Tracing.ACTIVE : lambda.Tracing.DISABLED,
       description: 'Sends notifications about processing results',
     });
+
+    // UpdateCatalog Lambda Function, fed one batch at a time from the FIFO catalog queue
+    this.lambdaFunctions.updateCatalog = new lambda.Function(this, 'UpdateCatalogFunction', {
+      functionName: `UpdateCatalogFunction-${config.environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset('dist/lambda/update-catalog'),
+      role: lambdaRoles.updateCatalogRole,
+      timeout: cdk.Duration.seconds(60),
+      memorySize: config.lambdaMemorySize.updateCatalog,
+      environment: commonEnvVars,
+      logGroup: this.logGroups.updateCatalog,
+      tracing: config.monitoring.enableXRayTracing ? lambda.Tracing.ACTIVE : lambda.Tracing.DISABLED,
+      description: 'Updates the output catalog manifests and index',
+    });
+    this.lambdaFunctions.updateCatalog.addEventSource(new lambdaEventSources.SqsEventSource(this.catalogQueue, {
+      batchSize: 10,
+    }));
+
+    // JobApi Lambda Function, invoked by API Gateway
+    this.lambdaFunctions.jobApi = new lambda.Function(this, 'JobApiFunction', {
+      functionName: `JobApiFunction-${config.environment}`,
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromAsset('dist/lambda/job-api'),
+      role: lambdaRoles.jobApiRole,
+      timeout: cdk.Duration.seconds(29), // API Gateway integration limit
+      memorySize: config.lambdaMemorySize.jobApi,
+      environment: commonEnvVars,
+      logGroup: this.logGroups.jobApi,
+      tracing: config.monitoring.enableXRayTracing ? lambda.Tracing.ACTIVE : lambda.Tracing.DISABLED,
+      description: 'HTTP API for submitting files and polling job status',
+    });
+  }
+
+  /**
+   * Create the job API: REST API with an API key, backed by JobApiFunction
+   *   POST /jobs, GET /jobs?since=, GET /jobs/{id}, GET /jobs/{id}/spec
+   */
+  private createJobApi(config: EnvironmentConfig): apigateway.RestApi {
+    const api = new apigateway.RestApi(this, 'JobApi', {
+      restApiName: `spec-generator-jobs-api-${config.environment}`,
+      description: 'Submit files for specification generation and poll job status',
+      cloudWatchRole: false,
+      deployOptions: {
+        stageName: config.environment,
+        tracingEnabled: config.monitoring.enableXRayTracing,
+        metricsEnabled: true,
+        throttlingRateLimit: config.jobApiThrottle.rateLimit,
+        throttlingBurstLimit: config.jobApiThrottle.burstLimit,
+      },
+      defaultMethodOptions: {
+        apiKeyRequired: true,
+      },
+    });
+
+    const integration = new apigateway.LambdaIntegration(this.lambdaFunctions.jobApi);
+    const jobs = api.root.addResource('jobs');
+    jobs.addMethod('POST', integration);
+    jobs.addMethod('GET', integration);
+    const job = jobs.addResource('{id}');
+    job.addMethod('GET', integration);
+    job.addResource('spec').addMethod('GET', integration);
+
+    // Internal tools authenticate with an API key; the value is generated and kept in API Gateway
+    const apiKey = api.addApiKey('JobApiKey', {
+      apiKeyName: `spec-generator-jobs-api-key-${config.environment}`,
+    });
+    const usagePlan = api.addUsagePlan('JobApiUsagePlan', {
+      name: `spec-generator-jobs-api-${config.environment}`,
+      throttle: {
+        rateLimit: config.jobApiThrottle.rateLimit,
+        burstLimit: config.jobApiThrottle.burstLimit,
+      },
+    });
+    usagePlan.addApiKey(apiKey);
+    usagePlan.addApiStage({ stage: api.deploymentStage });
+
+    return api;
   }
 
   /**
@@ -1277,8 +1781,18 @@ export class S3SpecGeneratorStack extends cdk.Stack {
     };
 
     // Define the state machine tasks using CDK v2 syntax
+    // The execution name identifies the job unless the file was submitted through the job API
     const readFileTask = new sfnTasks.LambdaInvoke(this, 'ReadFileTask', {
       lambdaFunction: this.lambdaFunctions.readFile,
+      payload: stepfunctions.TaskInput.fromObject({
+        bucket: stepfunctions.JsonPath.stringAt('$.bucket'),
+        key: stepfunctions.JsonPath.stringAt('$.key'),
+        size: stepfunctions.JsonPath.numberAt('$.size'),
+        etag: stepfunctions.JsonPath.stringAt('$.etag'),
+        eventTime: stepfunctions.JsonPath.stringAt('$.eventTime'),
+        eventName: stepfunctions.JsonPath.stringAt('$.eventName'),
+        executionName: stepfunctions.JsonPath.stringAt('$$.Execution.Name'),
+      }),
       retryOnServiceExceptions: true,
       outputPath: '$.Payload',
     });
@@ -1296,8 +1810,73 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       backoffRate: 2.0,
     });
 
+    // Review gate for single-file, merged and system-level specifications: scores the specification
+    // against its source and regenerates single-file ones once below the threshold; passes the output
+    // through unchanged unless review is enabled
+    const reviewSpecificationTask = new sfnTasks.LambdaInvoke(this, 'ReviewSpecificationTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      payload: stepfunctions.TaskInput.fromObject({
+        review: stepfunctions.JsonPath.objectAt('$'),
+      }),
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    reviewSpecificationTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    // Map-reduce path for large files: one ProcessWithClaude invocation per chunk, then a merge
+    const processChunkTask = new sfnTasks.LambdaInvoke(this, 'ProcessChunkTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    processChunkTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    const processChunksMap = new stepfunctions.Map(this, 'ProcessChunksMap', {
+      itemsPath: '$.chunks',
+      maxConcurrency: config.chunkProcessingConcurrency,
+      itemSelector: {
+        bucket: stepfunctions.JsonPath.stringAt('$.bucket'),
+        key: stepfunctions.JsonPath.stringAt('$.key'),
+        size: stepfunctions.JsonPath.numberAt('$.size'),
+        timestamp: stepfunctions.JsonPath.stringAt('$.timestamp'),
+        etag: stepfunctions.JsonPath.stringAt('$.etag'),
+        fileType: stepfunctions.JsonPath.stringAt('$.fileType'),
+        jobId: stepfunctions.JsonPath.stringAt('$.jobId'),
+        contentReference: stepfunctions.JsonPath.objectAt('$.contentReference'),
+        chunk: stepfunctions.JsonPath.objectAt('$$.Map.Item.Value'),
+      },
+      resultPath: '$.partials',
+    });
+    processChunksMap.itemProcessor(processChunkTask);
+
+    const reduceChunksTask = new sfnTasks.LambdaInvoke(this, 'ReduceChunksTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    reduceChunksTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
     const writeSpecificationTask = new sfnTasks.LambdaInvoke(this, 'WriteSpecificationTask', {
       lambdaFunction: this.lambdaFunctions.writeSpecification,
+      payload: stepfunctions.TaskInput.fromObject({
+        data: stepfunctions.JsonPath.objectAt('$'),
+        executionId: stepfunctions.JsonPath.stringAt('$$.Execution.Id'),
+      }),
       retryOnServiceExceptions: true,
       outputPath: '$.Payload',
     });
@@ -1310,6 +1889,7 @@ export class S3SpecGeneratorStack extends cdk.Stack {
         data: stepfunctions.JsonPath.objectAt('$'),
         executionArn: stepfunctions.JsonPath.stringAt('$$.Execution.Name'),
         executionName: stepfunctions.JsonPath.stringAt('$$.Execution.Name'),
+        sourceKey: stepfunctions.JsonPath.stringAt('$$.Execution.Input.key'),
       }),
       retryOnServiceExceptions: true,
     });
@@ -1321,15 +1901,146 @@ export class S3SpecGeneratorStack extends cdk.Stack {
         data: stepfunctions.JsonPath.objectAt('$.error'),
         executionArn: stepfunctions.JsonPath.stringAt('$$.Execution.Name'),
         executionName: stepfunctions.JsonPath.stringAt('$$.Execution.Name'),
+        sourceKey: stepfunctions.JsonPath.stringAt('$$.Execution.Input.key'),
       }),
       retryOnServiceExceptions: true,
     });
 
-    // Define the workflow chain
-    const definition = readFileTask
-      .next(processWithClaudeTask)
-      .next(writeSpecificationTask)
-      .next(notifySuccessTask);
+    // Project path for archives and manifest prefixes: every file runs the single-file steps above
+    // (chunked or not), then one more invocation synthesises the system-level specification
+    const processProjectFileTask = new sfnTasks.LambdaInvoke(this, 'ProcessProjectFileTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    processProjectFileTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    const processProjectFileChunkTask = new sfnTasks.LambdaInvoke(this, 'ProcessProjectFileChunkTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    processProjectFileChunkTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    const processProjectFileChunksMap = new stepfunctions.Map(this, 'ProcessProjectFileChunksMap', {
+      itemsPath: '$.chunks',
+      maxConcurrency: config.chunkProcessingConcurrency,
+      itemSelector: {
+        bucket: stepfunctions.JsonPath.stringAt('$.bucket'),
+        key: stepfunctions.JsonPath.stringAt('$.key'),
+        size: stepfunctions.JsonPath.numberAt('$.size'),
+        timestamp: stepfunctions.JsonPath.stringAt('$.timestamp'),
+        etag: stepfunctions.JsonPath.stringAt('$.etag'),
+        fileType: stepfunctions.JsonPath.stringAt('$.fileType'),
+        jobId: stepfunctions.JsonPath.stringAt('$.jobId'),
+        contentReference: stepfunctions.JsonPath.objectAt('$.contentReference'),
+        projectKey: stepfunctions.JsonPath.stringAt('$.projectKey'),
+        projectPath: stepfunctions.JsonPath.stringAt('$.projectPath'),
+        dependencyGraphReference: stepfunctions.JsonPath.objectAt('$.dependencyGraphReference'),
+        chunk: stepfunctions.JsonPath.objectAt('$$.Map.Item.Value'),
+      },
+      resultPath: '$.partials',
+    });
+    processProjectFileChunksMap.itemProcessor(processProjectFileChunkTask);
+
+    const reduceProjectFileChunksTask = new sfnTasks.LambdaInvoke(this, 'ReduceProjectFileChunksTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    reduceProjectFileChunksTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    // A file that still throws after its retries is recorded as failed instead of failing the project
+    const projectFileFailed = new stepfunctions.Pass(this, 'ProjectFileFailed', {
+      parameters: {
+        errorType: 'LLM_PROCESSING_ERROR',
+        message: stepfunctions.JsonPath.stringAt('$.error.Error'),
+        originalFile: stepfunctions.JsonPath.stringAt('$.key'),
+        timestamp: stepfunctions.JsonPath.stringAt('$$.State.EnteredTime'),
+      },
+    });
+    processProjectFileTask.addCatch(projectFileFailed, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+    processProjectFileChunksMap.addCatch(projectFileFailed, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+    reduceProjectFileChunksTask.addCatch(projectFileFailed, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
+    const processProjectFilesMap = new stepfunctions.Map(this, 'ProcessProjectFilesMap', {
+      itemsPath: '$.project.files',
+      maxConcurrency: config.projectFileConcurrency,
+      resultPath: '$.fileSpecifications',
+    });
+    processProjectFilesMap.itemProcessor(new stepfunctions.Choice(this, 'IsProjectFileChunked')
+      .when(
+        stepfunctions.Condition.isPresent('$.chunks'),
+        processProjectFileChunksMap.next(reduceProjectFileChunksTask)
+      )
+      .otherwise(processProjectFileTask));
+
+    const synthesizeProjectTask = new sfnTasks.LambdaInvoke(this, 'SynthesizeProjectTask', {
+      lambdaFunction: this.lambdaFunctions.processWithClaude,
+      retryOnServiceExceptions: true,
+      outputPath: '$.Payload',
+    });
+    synthesizeProjectTask.addRetry({
+      errors: ['States.ALL'],
+      interval: cdk.Duration.seconds(5),
+      maxAttempts: 3,
+      backoffRate: 2.0,
+    });
+
+    // Define the workflow chain; ReadFile only emits chunks when the content is too large for one prompt
+    // and a project when the upload is an archive or a manifest
+    reviewSpecificationTask.next(writeSpecificationTask);
+    writeSpecificationTask.next(notifySuccessTask);
+
+    // Files staged for a manifest project are read when its _manifest.json arrives, not one by one.
+    // EventBridge cannot combine a suffix and an anything-but prefix on the key, so they are skipped here.
+    const isProjectMemberUpload = stepfunctions.Condition.and(
+      stepfunctions.Condition.stringMatches('$.key', `${PROJECT_CONFIG.MANIFEST_PREFIX}*`),
+      stepfunctions.Condition.not(stepfunctions.Condition.stringMatches('$.key', '*/_manifest.json'))
+    );
+
+    const definition = new stepfunctions.Choice(this, 'IsProjectMemberUpload')
+      .when(isProjectMemberUpload, new stepfunctions.Succeed(this, 'SkipProjectMemberUpload', {
+        comment: 'Read as part of the project when its _manifest.json is uploaded',
+      }))
+      .otherwise(readFileTask);
+
+    readFileTask
+      .next(new stepfunctions.Choice(this, 'IsProject')
+        .when(
+          stepfunctions.Condition.isPresent('$.project'),
+          processProjectFilesMap.next(synthesizeProjectTask).next(reviewSpecificationTask)
+        )
+        .otherwise(new stepfunctions.Choice(this, 'IsContentChunked')
+          .when(
+            stepfunctions.Condition.isPresent('$.chunks'),
+            processChunksMap.next(reduceChunksTask).next(reviewSpecificationTask)
+          )
+          .otherwise(processWithClaudeTask.next(reviewSpecificationTask))));
 
     // Add error handling
     readFileTask.addCatch(notifyFailureTask, {
@@ -1342,6 +2053,31 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       resultPath: '$.error',
     });
 
+    reviewSpecificationTask.addCatch(notifyFailureTask, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
+    processChunksMap.addCatch(notifyFailureTask, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
+    reduceChunksTask.addCatch(notifyFailureTask, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
+    processProjectFilesMap.addCatch(notifyFailureTask, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
+    synthesizeProjectTask.addCatch(notifyFailureTask, {
+      errors: ['States.ALL'],
+      resultPath: '$.error',
+    });
+
     writeSpecificationTask.addCatch(notifyFailureTask, {
       errors: ['States.ALL'],
       resultPath: '$.error',
@@ -1352,7 +2088,7 @@ export class S3SpecGeneratorStack extends cdk.Stack {
       stateMachineName: config.stepFunctionName,
       definitionBody: stepfunctions.DefinitionBody.fromChainable(definition),
       role: stateMachineRole,
-      timeout: cdk.Duration.minutes(10),
+      timeout: cdk.Duration.hours(2), // Projects run several Bedrock rounds per file, then a synthesis
       logs: {
         destination: this.logGroups.stepFunctions,
         level: stepfunctions.LogLevel.ALL,
@@ -1410,14 +2146,8 @@ export class S3SpecGeneratorStack extends cdk.Stack {
             name: [this.inputBucket.bucketName],
           },
           object: {
-            key: [
-              // Include supported file formats and exclude system files
-              { suffix: '.java' },
-              { suffix: '.rexx' },
-              { suffix: '.py' },
-              { suffix: '.js' },
-              { suffix: '.ts' },
-            ],
+            // Formats from the shared registry; staged payloads and system files do not match
+            key: [...getEventKeySuffixes().map(suffix => ({ suffix })), ...getEventKeyNames()],
           },
         },
       },
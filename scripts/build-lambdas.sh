@@ -10,6 +10,8 @@ mkdir -p dist/lambda/read-file
 mkdir -p dist/lambda/process-with-claude
 mkdir -p dist/lambda/write-specification
 mkdir -p dist/lambda/send-notification
+mkdir -p dist/lambda/update-catalog
+mkdir -p dist/lambda/job-api
 mkdir -p dist/shared
 
 # Compile TypeScript to JavaScript
@@ -68,6 +70,30 @@ cat > dist/lambda/send-notification/package.json << 'EOF'
 }
 EOF
 
+# UpdateCatalog Lambda
+cat > dist/lambda/update-catalog/package.json << 'EOF'
+{
+  "name": "update-catalog-function",
+  "version": "1.0.0",
+  "main": "index.js",
+  "dependencies": {
+    "aws-sdk": "^2.1490.0"
+  }
+}
+EOF
+
+# JobApi Lambda
+cat > dist/lambda/job-api/package.json << 'EOF'
+{
+  "name": "job-api-function",
+  "version": "1.0.0",
+  "main": "index.js",
+  "dependencies": {
+    "aws-sdk": "^2.1490.0"
+  }
+}
+EOF
+
 echo "Copying shared modules to each Lambda function..."
 
 # Copy shared modules to each Lambda function directory
@@ -75,6 +101,8 @@ cp -r dist/shared dist/lambda/read-file/
 cp -r dist/shared dist/lambda/process-with-claude/
 cp -r dist/shared dist/lambda/write-specification/
 cp -r dist/shared dist/lambda/send-notification/
+cp -r dist/shared dist/lambda/update-catalog/
+cp -r dist/shared dist/lambda/job-api/
 
 echo "Fixing import paths in compiled JavaScript..."
 
@@ -83,6 +111,8 @@ sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/read-file/
 sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/process-with-claude/index.js
 sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/write-specification/index.js
 sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/send-notification/index.js
+sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/update-catalog/index.js
+sed -i '' 's|require("../../shared/|require("./shared/|g' dist/lambda/job-api/index.js
 
 echo "Installing dependencies for Lambda functions..."
 
@@ -99,4 +129,10 @@ cd ../../../
 cd dist/lambda/send-notification && npm install --production --silent
 cd ../../../
 
+cd dist/lambda/update-catalog && npm install --production --silent
+cd ../../../
+
+cd dist/lambda/job-api && npm install --production --silent
+cd ../../../
+
 echo "Lambda functions built successfully!"
\ No newline at end of file
@@ -240,7 +240,7 @@ download_all() {
     mkdir -p "$OUTPUT_DIR"
     
     # Use aws s3 sync to download all files
-    if aws s3 sync "s3://$BUCKET_NAME/" "$OUTPUT_DIR/" --region "$REGION" --exclude "*" --include "*.md" --include "*.txt" --include "*.pdf" --include "*.json"; then
+    if aws s3 sync "s3://$BUCKET_NAME/" "$OUTPUT_DIR/" --region "$REGION" --exclude "*" --include "*.md" --include "*.txt" --include "*.pdf" --include "*.json" --include "*.html" --include "*.adoc" --include "*.xhtml"; then
         print_success "All specifications downloaded to: $OUTPUT_DIR"
         
         # Count downloaded files
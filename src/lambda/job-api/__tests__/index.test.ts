@@ -0,0 +1,166 @@
+import { DynamoDB, S3 } from 'aws-sdk';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { handler } from '../index';
+
+describe('JobApiFunction', () => {
+  const mockContext: Context = {
+    awsRequestId: 'test-request-id',
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'test-arn',
+    memoryLimitInMB: '128',
+    getRemainingTimeInMillis: () => 30000,
+    callbackWaitsForEmptyEventLoop: false,
+    logGroupName: 'test-log-group',
+    logStreamName: 'test-log-stream',
+    succeed: jest.fn(),
+    fail: jest.fn(),
+    done: jest.fn(),
+  };
+
+  const request = (httpMethod: string, resource: string, overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent => ({
+    httpMethod,
+    resource,
+    body: null,
+    isBase64Encoded: false,
+    pathParameters: null,
+    queryStringParameters: null,
+    ...overrides
+  } as APIGatewayProxyEvent);
+
+  const job = {
+    jobId: 'b7e3c1f2-9d4a-4c55-8f0e-2a1b3c4d5e6f',
+    status: 'notified',
+    sourceKey: 'uploads/b7e3c1f2-9d4a-4c55-8f0e-2a1b3c4d5e6f/payments.md',
+    sourceBucket: 'test-input-bucket',
+    day: '2024-05-01',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    updatedAt: '2024-05-01T10:01:00.000Z',
+    outputLocation: 's3://test-output-bucket/2024/05/01/payments-2024-05-01-100100000.md',
+    expiresAt: 1722506400
+  };
+
+  // Clients created by the handler modules (aws-sdk is mocked in test/setup.ts)
+  const s3 = (S3 as unknown as jest.Mock).mock.results[0].value;
+  const jobs = (DynamoDB.DocumentClient as unknown as jest.Mock).mock.results[0].value;
+
+  beforeEach(() => {
+    process.env.JOB_TABLE_NAME = 'test-jobs';
+    s3.getSignedUrlPromise = jest.fn((operation: string) => Promise.resolve(`https://signed.example.com/${operation}`));
+    jobs.put.mockReturnValue({ promise: () => Promise.resolve({}) });
+  });
+
+  afterEach(() => {
+    delete process.env.JOB_TABLE_NAME;
+    jest.clearAllMocks();
+  });
+
+  it('should create a queued job with an encrypted upload URL under its own prefix', async () => {
+    const response = await handler(request('POST', '/jobs', { body: JSON.stringify({ filename: 'payments.md' }) }), mockContext);
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body.jobId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers?.Location).toBe(`/jobs/${body.jobId}`);
+    expect(body.upload).toMatchObject({
+      method: 'PUT',
+      url: 'https://signed.example.com/putObject',
+      key: `uploads/${body.jobId}/payments.md`,
+      headers: { 'x-amz-server-side-encryption': 'AES256' }
+    });
+
+    expect(s3.getSignedUrlPromise).toHaveBeenCalledWith('putObject', expect.objectContaining({
+      Bucket: 'test-input-bucket',
+      Key: `uploads/${body.jobId}/payments.md`,
+      ServerSideEncryption: 'AES256'
+    }));
+    expect(jobs.put.mock.calls[0][0].Item).toMatchObject({ jobId: body.jobId, status: 'queued', sourceKey: body.upload.key });
+  });
+
+  it.each([
+    ['missing filename', {}],
+    ['path in filename', { filename: '../secrets/payments.md' }],
+    ['unsupported format', { filename: 'payments.exe' }]
+  ])('should reject a submission with a %s', async (_case, body) => {
+    const response = await handler(request('POST', '/jobs', { body: JSON.stringify(body) }), mockContext);
+
+    expect(response.statusCode).toBe(400);
+    expect(jobs.put).not.toHaveBeenCalled();
+  });
+
+  it('should return the job without internal attributes', async () => {
+    jobs.get.mockReturnValue({ promise: () => Promise.resolve({ Item: job }) });
+
+    const response = await handler(request('GET', '/jobs/{id}', { pathParameters: { id: job.jobId } }), mockContext);
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({ jobId: job.jobId, status: 'notified', outputLocation: job.outputLocation });
+    expect(body.day).toBeUndefined();
+    expect(body.expiresAt).toBeUndefined();
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    jobs.get.mockReturnValue({ promise: () => Promise.resolve({}) });
+
+    const response = await handler(request('GET', '/jobs/{id}', { pathParameters: { id: 'unknown' } }), mockContext);
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should redirect to a short-lived download of the specification', async () => {
+    jobs.get.mockReturnValue({ promise: () => Promise.resolve({ Item: job }) });
+
+    const response = await handler(request('GET', '/jobs/{id}/spec', { pathParameters: { id: job.jobId } }), mockContext);
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers?.Location).toBe('https://signed.example.com/getObject');
+    expect(s3.getSignedUrlPromise).toHaveBeenCalledWith('getObject', expect.objectContaining({
+      Bucket: 'test-output-bucket',
+      Key: '2024/05/01/payments-2024-05-01-100100000.md',
+      Expires: 300
+    }));
+  });
+
+  it('should return 409 while the specification is not written yet', async () => {
+    jobs.get.mockReturnValue({ promise: () => Promise.resolve({ Item: { ...job, status: 'generating', outputLocation: undefined } }) });
+
+    const response = await handler(request('GET', '/jobs/{id}/spec', { pathParameters: { id: job.jobId } }), mockContext);
+
+    expect(response.statusCode).toBe(409);
+  });
+
+  it('should list jobs day by day since the requested time', async () => {
+    jest.useFakeTimers({ now: new Date('2024-05-02T08:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    jobs.query.mockImplementation((params: { ExpressionAttributeValues: Record<string, string> }) => ({
+      promise: () => Promise.resolve({
+        Items: params.ExpressionAttributeValues[':value'] === '2024-05-01' ? [job] : []
+      })
+    }));
+
+    try {
+      const response = await handler(request('GET', '/jobs', {
+        queryStringParameters: { since: '2024-05-01T09:00:00Z' }
+      }), mockContext);
+
+      expect(response.statusCode).toBe(200);
+      expect(jobs.query.mock.calls.map(([params]: [DynamoDB.DocumentClient.QueryInput]) => params.ExpressionAttributeValues))
+        .toEqual([
+          { ':value': '2024-05-02', ':since': '2024-05-01T09:00:00.000Z' },
+          { ':value': '2024-05-01', ':since': '2024-05-01T09:00:00.000Z' }
+        ]);
+      expect(JSON.parse(response.body)).toMatchObject({ count: 1, truncated: false, jobs: [{ jobId: job.jobId }] });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject a listing window longer than the maximum', async () => {
+    const response = await handler(request('GET', '/jobs', {
+      queryStringParameters: { since: '2000-01-01' }
+    }), mockContext);
+
+    expect(response.statusCode).toBe(400);
+    expect(jobs.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+import { randomUUID } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { S3 } from 'aws-sdk';
+import { JobRecord } from '../../shared/types';
+import {
+  isSupportedFileFormat,
+  logInfo,
+  logError,
+  logMetric
+} from '../../shared/utils';
+import { JOB_API_CONFIG } from '../../shared/constants';
+import { describeSupportedFileFormats } from '../../shared/file-formats';
+import { createJob, getJob, getUploadKey, JobQueryOptions, queryJobsByDay } from '../../shared/job-repository';
+import {
+  generatePresignedUploadUrl,
+  generatePresignedUrl,
+  UPLOAD_HEADERS,
+  UPLOAD_URL_EXPIRY_SECONDS
+} from '../../shared/presigned-urls';
+
+const s3 = new S3();
+
+const JOB_ID_PATTERN = /^[A-Za-z0-9-]{1,80}$/;
+
+// Rejected request; returned to the client as a 4xx response
+type ApiError = Error & { statusCode: number };
+
+function createApiError(statusCode: number, message: string): ApiError {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Lambda function behind the job API (API Gateway REST API, proxy integration)
+ *
+ *   POST /jobs              create a job and return a pre-signed upload URL
+ *   GET  /jobs?since=       list jobs created since an ISO timestamp (default: last 24 hours)
+ *   GET  /jobs/{id}         job status, timestamps, token usage and output location
+ *   GET  /jobs/{id}/spec    redirect to a pre-signed download of the specification
+ */
+export const handler = async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+  logInfo('JobApiFunction started', {
+    requestId: context.awsRequestId,
+    method: event.httpMethod,
+    resource: event.resource
+  });
+  logMetric('JobApiInvocations', 1);
+
+  try {
+    const route = `${event.httpMethod} ${event.resource}`;
+    switch (route) {
+      case 'POST /jobs':
+        return await submitJob(event);
+      case 'GET /jobs':
+        return await listJobs(event);
+      case 'GET /jobs/{id}':
+        return await getJobStatus(event);
+      case 'GET /jobs/{id}/spec':
+        return await redirectToSpecification(event);
+      default:
+        throw createApiError(404, `No route for ${route}`);
+    }
+  } catch (error) {
+    if (error instanceof Error && 'statusCode' in error) {
+      logMetric('JobApiClientErrors', 1);
+      return jsonResponse((error as ApiError).statusCode, { error: error.message });
+    }
+
+    logMetric('JobApiErrors', 1);
+    logError('JobApiFunction failed with unexpected error', {
+      error: error instanceof Error ? error.message : String(error),
+      method: event.httpMethod,
+      resource: event.resource
+    });
+    return jsonResponse(500, { error: 'Internal server error' });
+  }
+};
+
+/**
+ * POST /jobs: create a queued job and a pre-signed upload URL under uploads/<jobId>/
+ */
+async function submitJob(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const filename = validateFilename(parseBody(event).filename);
+  const inputBucket = getRequiredEnv('INPUT_BUCKET_NAME');
+
+  const jobId = randomUUID();
+  const key = getUploadKey(jobId, filename);
+  await createJob({ jobId, sourceKey: key, sourceBucket: inputBucket });
+
+  const uploadUrl = await generatePresignedUploadUrl(s3, inputBucket, key);
+
+  logMetric('JobApiSubmissions', 1);
+  logInfo('Job submitted through the API', { jobId, key });
+
+  return jsonResponse(201, {
+    jobId,
+    status: 'queued',
+    upload: {
+      method: 'PUT',
+      url: uploadUrl,
+      headers: UPLOAD_HEADERS,
+      key,
+      expiresInSeconds: UPLOAD_URL_EXPIRY_SECONDS,
+    },
+  }, { Location: `/jobs/${jobId}` });
+}
+
+/**
+ * GET /jobs/{id}
+ */
+async function getJobStatus(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const job = await loadJob(event);
+  return jsonResponse(200, toJobResponse(job));
+}
+
+/**
+ * GET /jobs/{id}/spec: 302 to a short-lived pre-signed download of the Markdown specification
+ */
+async function redirectToSpecification(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const job = await loadJob(event);
+  if (!job.outputLocation) {
+    throw createApiError(409, `Specification is not available for a job with status '${job.status}'`);
+  }
+
+  const url = await generatePresignedUrl(
+    s3,
+    getRequiredEnv('OUTPUT_BUCKET_NAME'),
+    job.outputLocation,
+    JOB_API_CONFIG.DOWNLOAD_REDIRECT_EXPIRY_SECONDS
+  );
+
+  return {
+    statusCode: 302,
+    headers: { Location: url, 'Cache-Control': 'no-store' },
+    body: '',
+  };
+}
+
+/**
+ * GET /jobs?since=&limit=: jobs created since a timestamp, newest first, read day by day from the by-day index
+ */
+async function listJobs(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const params = event.queryStringParameters || {};
+  const now = new Date();
+  const since = parseSince(params.since, now);
+  const limit = parseLimit(params.limit);
+
+  const jobs: JobRecord[] = [];
+  let truncated = false;
+
+  for (const day of listDays(since, now)) {
+    let exclusiveStartKey: JobQueryOptions['exclusiveStartKey'];
+    do {
+      const page = await queryJobsByDay(day, {
+        since: since.toISOString(),
+        limit: limit - jobs.length,
+        exclusiveStartKey,
+      });
+      jobs.push(...page.jobs);
+      exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey && jobs.length < limit);
+
+    if (jobs.length >= limit) {
+      truncated = true;
+      break;
+    }
+  }
+
+  return jsonResponse(200, {
+    since: since.toISOString(),
+    count: jobs.length,
+    truncated,
+    jobs: jobs.map(toJobResponse),
+  });
+}
+
+async function loadJob(event: APIGatewayProxyEvent): Promise<JobRecord> {
+  const jobId = event.pathParameters?.id || '';
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    throw createApiError(400, 'Invalid job id');
+  }
+
+  const job = await getJob(jobId);
+  if (!job) {
+    throw createApiError(404, `Job ${jobId} not found`);
+  }
+  return job;
+}
+
+function parseBody(event: APIGatewayProxyEvent): { filename?: unknown } {
+  if (!event.body) {
+    throw createApiError(400, 'Request body is required');
+  }
+
+  try {
+    const body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf-8') : event.body);
+    if (typeof body !== 'object' || body === null) {
+      throw new Error('Body is not an object');
+    }
+    return body;
+  } catch {
+    throw createApiError(400, 'Request body must be a JSON object');
+  }
+}
+
+/**
+ * The filename becomes the last segment of the upload key, so it must be a plain file name
+ */
+function validateFilename(filename: unknown): string {
+  if (typeof filename !== 'string' || filename.trim() === '') {
+    throw createApiError(400, 'filename is required');
+  }
+  if (filename.length > JOB_API_CONFIG.MAX_FILENAME_LENGTH
+    || /[/\\\u0000-\u001f]/.test(filename)
+    || filename === '.' || filename === '..') {
+    throw createApiError(400, 'filename must be a plain file name without path separators');
+  }
+  if (!isSupportedFileFormat(filename)) {
+    throw createApiError(400, `Unsupported file format; supported formats: ${describeSupportedFileFormats()}`);
+  }
+  return filename;
+}
+
+function parseSince(value: string | undefined, now: Date): Date {
+  if (!value) {
+    return new Date(now.getTime() - JOB_API_CONFIG.DEFAULT_LIST_WINDOW_HOURS * 60 * 60 * 1000);
+  }
+
+  const since = new Date(value);
+  if (isNaN(since.getTime())) {
+    throw createApiError(400, 'since must be an ISO 8601 date or timestamp');
+  }
+  if (since > now) {
+    throw createApiError(400, 'since must not be in the future');
+  }
+  if (now.getTime() - since.getTime() > JOB_API_CONFIG.MAX_LIST_DAYS * 24 * 60 * 60 * 1000) {
+    throw createApiError(400, `since must be within the last ${JOB_API_CONFIG.MAX_LIST_DAYS} days`);
+  }
+  return since;
+}
+
+function parseLimit(value: string | undefined): number {
+  if (!value) {
+    return JOB_API_CONFIG.DEFAULT_LIST_LIMIT;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > JOB_API_CONFIG.MAX_LIST_LIMIT) {
+    throw createApiError(400, `limit must be an integer between 1 and ${JOB_API_CONFIG.MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+/**
+ * UTC days (YYYY-MM-DD) from now back to since, newest first
+ */
+function listDays(since: Date, now: Date): string[] {
+  const days: string[] = [];
+  const firstDay = since.toISOString().slice(0, 10);
+  for (const day = new Date(now); ; day.setUTCDate(day.getUTCDate() - 1)) {
+    const value = day.toISOString().slice(0, 10);
+    days.push(value);
+    if (value <= firstDay) {
+      return days;
+    }
+  }
+}
+
+/**
+ * Job as returned by the API; internal index and TTL attributes are left out
+ */
+function toJobResponse(job: JobRecord): Omit<JobRecord, 'day' | 'expiresAt'> {
+  const { day: _day, expiresAt: _expiresAt, ...response } = job;
+  return response;
+}
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable not set`);
+  }
+  return value;
+}
+
+function jsonResponse(statusCode: number, body: unknown, headers: Record<string, string> = {}): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,626 @@
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { S3 } from 'aws-sdk';
+import { handler } from '../index';
+import { Context } from 'aws-lambda';
+import { ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import {
+  ConverseResponse,
+  FileProcessingEvent,
+  PayloadReference,
+  ProcessingError,
+  ProjectSynthesisEvent,
+  ReduceProcessingEvent
+} from '../../../shared/types';
+import { LLM_CONFIG, PROJECT_CONFIG } from '../../../shared/constants';
+
+// Bedrock client used when LLM_PROVIDER=bedrock; responses are scripted per test
+const mockSend = jest.fn();
+jest.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  BedrockRuntimeClient: jest.fn(() => ({ send: mockSend })),
+  ConverseCommand: jest.fn((input: unknown) => ({ input })),
+}));
+
+// Run the handler offline against the deterministic local provider
+process.env.LLM_PROVIDER = 'local';
+
+describe('ProcessWithClaudeFunction', () => {
+  const mockContext: Context = {
+    awsRequestId: 'test-request-id',
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'test-arn',
+    memoryLimitInMB: '128',
+    getRemainingTimeInMillis: () => 30000,
+    callbackWaitsForEmptyEventLoop: false,
+    logGroupName: 'test-log-group',
+    logStreamName: 'test-log-stream',
+    succeed: jest.fn(),
+    fail: jest.fn(),
+    done: jest.fn(),
+  };
+
+  const fileEvent: FileProcessingEvent = {
+    bucket: 'test-input-bucket',
+    key: 'docs/payments.md',
+    size: 120,
+    timestamp: '2023-10-01T12:00:00Z',
+    etag: 'test-etag',
+    fileType: 'md',
+    content: '# Payments\n\nDaily payment processing.\n\n## Validation\n\nRecords without an account are rejected.\n',
+  };
+
+  // Narrow a handler result to a generated specification
+  const specificationOf = (result: Awaited<ReturnType<typeof handler>>) => {
+    if ('errorType' in result || !('metadata' in result)) {
+      throw new Error(`Expected a specification, got ${JSON.stringify(result)}`);
+    }
+    return result;
+  };
+
+  // S3 client created by the handler module (aws-sdk is mocked in test/setup.ts)
+  const s3 = (S3 as unknown as jest.Mock).mock.results[0].value;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.CACHE_BUCKET_NAME;
+    delete process.env.LLM_FIXTURE_DIR;
+    delete process.env.BEDROCK_MODEL_ID;
+    delete process.env.BEDROCK_MODEL_FALLBACK_CHAIN;
+    delete process.env.SPECIFICATION_FORMAT;
+  });
+
+  it('should generate a templated specification offline with the local provider', async () => {
+    const result = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(result.generatedSpecification).toContain('# Specification: docs/payments.md');
+    expect(result.generatedSpecification).toContain('- Validation');
+    expect(result.metadata.promptTemplateId).toBe('markdown-prd');
+    expect(result.metadata.fallbackCount).toBe(0);
+    expect(result.metadata.truncated).toBe(false);
+  });
+
+  it('should be deterministic for the same input', async () => {
+    const first = specificationOf(await handler(fileEvent, mockContext));
+    const second = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(second.generatedSpecification).toBe(first.generatedSpecification);
+    expect(second.metadata.inputTokens).toBe(first.metadata.inputTokens);
+  });
+
+  it('should replay recorded fixtures and fall back when the primary model throttles', async () => {
+    process.env.LLM_FIXTURE_DIR = join(__dirname, 'fixtures', 'llm');
+    process.env.BEDROCK_MODEL_ID = 'primary-model-v1:0';
+    process.env.BEDROCK_MODEL_FALLBACK_CHAIN = 'fallback-model-v1:0';
+
+    const result = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(result.generatedSpecification).toContain('# Payment Batch Specification');
+    expect(result.metadata.modelId).toBe('fallback-model-v1:0');
+    expect(result.metadata.fallbackCount).toBe(1);
+    expect(result.metadata.inputTokens).toBe(412);
+    expect(result.metadata.outputTokens).toBe(58);
+  });
+
+  it('should return schema-validated JSON in structured mode', async () => {
+    process.env.SPECIFICATION_FORMAT = 'structured';
+    process.env.LLM_FIXTURE_DIR = join(__dirname, 'fixtures', 'llm');
+    process.env.BEDROCK_MODEL_ID = 'structured-model-v1:0';
+
+    const result = specificationOf(await handler(fileEvent, mockContext));
+    const specification = JSON.parse(String(result.generatedSpecification));
+
+    expect(result.metadata.specificationFormat).toBe('structured');
+    expect(specification.functionalRequirements[0].id).toBe('FR-001');
+    expect(specification.openQuestions).toEqual(['Where are rejected records reported?']);
+  });
+
+  it('should return the cached specification on a cache hit', async () => {
+    process.env.CACHE_BUCKET_NAME = 'test-cache-bucket';
+    s3.getObject.mockImplementation((params: { Bucket: string; Key: string }) => ({
+      promise: () => Promise.resolve({
+        Body: JSON.stringify({
+          cacheKey: params.Key.replace(/^specifications\/(.+)\.json$/, '$1'),
+          generatedSpecification: '# Cached Specification\n\nReused for identical content.',
+          inputTokens: 900,
+          outputTokens: 300,
+          continuationCount: 0,
+          modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
+          fallbackCount: 0,
+          originalFile: 'docs/old-name.md',
+          cachedAt: '2023-09-30T12:00:00Z'
+        })
+      })
+    }));
+
+    const result = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(s3.getObject).toHaveBeenCalledWith(expect.objectContaining({ Bucket: 'test-cache-bucket' }));
+    expect(result.generatedSpecification).toBe('# Cached Specification\n\nReused for identical content.');
+    expect(result.metadata.cacheHit).toBe(true);
+    expect(result.metadata.modelId).toBe('anthropic.claude-3-sonnet-20240229-v1:0');
+    expect(result.metadata.inputTokens).toBe(0);
+    expect(s3.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should generate and cache the specification on a cache miss', async () => {
+    process.env.CACHE_BUCKET_NAME = 'test-cache-bucket';
+    s3.getObject.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    });
+    s3.putObject.mockReturnValue({ promise: () => Promise.resolve({}) });
+
+    const result = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(result.metadata.cacheHit).toBe(false);
+    expect(s3.putObject).toHaveBeenCalledWith(expect.objectContaining({
+      Bucket: 'test-cache-bucket',
+      Key: s3.getObject.mock.calls[0][0].Key
+    }));
+    const entry = JSON.parse(s3.putObject.mock.calls[0][0].Body);
+    expect(entry.generatedSpecification).toBe(result.generatedSpecification);
+    expect(entry.originalFile).toBe('docs/payments.md');
+  });
+
+  it('should not cache a specification produced by a fallback model', async () => {
+    process.env.CACHE_BUCKET_NAME = 'test-cache-bucket';
+    process.env.LLM_FIXTURE_DIR = join(__dirname, 'fixtures', 'llm');
+    process.env.BEDROCK_MODEL_ID = 'primary-model-v1:0';
+    process.env.BEDROCK_MODEL_FALLBACK_CHAIN = 'fallback-model-v1:0';
+    s3.getObject.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    });
+
+    const result = specificationOf(await handler(fileEvent, mockContext));
+
+    expect(result.metadata).toMatchObject({ modelId: 'fallback-model-v1:0', fallbackCount: 1, cacheHit: false });
+    expect(s3.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should always stage the specification of a project file', async () => {
+    s3.putObject.mockReturnValue({ promise: () => Promise.resolve({}) });
+
+    const result = specificationOf(await handler({
+      ...fileEvent,
+      key: 'uploads/payroll.zip/docs/payments.md',
+      projectKey: 'uploads/payroll.zip',
+      projectPath: 'docs/payments.md'
+    }, mockContext));
+
+    expect(result.generatedSpecification).toBeUndefined();
+    expect(result.specificationReference?.key).toMatch(/^_working\//);
+    expect(s3.putObject).toHaveBeenCalledWith(expect.objectContaining({ Key: result.specificationReference?.key }));
+  });
+
+  it('should synthesise a system specification from the project file specifications', async () => {
+    const fileSpecification = '# Payments\n\nValidates and posts daily payments.\n';
+    s3.getObject.mockReturnValue({ promise: () => Promise.resolve({ Body: Buffer.from(fileSpecification) }) });
+
+    const { content, ...projectFile } = {
+      ...fileEvent,
+      key: 'uploads/payroll.zip/docs/payments.md',
+      projectKey: 'uploads/payroll.zip',
+      projectPath: 'docs/payments.md'
+    };
+    const event: ProjectSynthesisEvent = {
+      ...projectFile,
+      key: 'uploads/payroll.zip',
+      fileType: 'zip',
+      projectKey: undefined,
+      projectPath: undefined,
+      project: {
+        name: 'payroll',
+        files: [projectFile, { ...projectFile, key: 'uploads/payroll.zip/jcl/NIGHTLY.jcl', fileType: 'jcl', projectPath: 'jcl/NIGHTLY.jcl' }],
+        skippedFiles: [{ path: 'bin/tool.exe', reason: 'Unsupported file format' }]
+      },
+      fileSpecifications: [
+        {
+          specificationReference: {
+            bucket: 'test-input-bucket',
+            key: '_working/payments.payload',
+            sha256: createHash('sha256').update(fileSpecification).digest('hex'),
+            length: Buffer.byteLength(fileSpecification)
+          },
+          metadata: { fileType: 'md', inputTokens: 100, outputTokens: 40, cacheHit: false }
+        },
+        {
+          errorType: 'LLM_PROCESSING_ERROR',
+          message: 'Model throttled',
+          timestamp: '2023-10-01T12:00:00Z',
+          originalFile: 'uploads/payroll.zip/jcl/NIGHTLY.jcl'
+        }
+      ]
+    };
+
+    const result = specificationOf(await handler(event, mockContext));
+
+    expect(result.metadata.promptTemplateId).toBe('project-system');
+    expect(result.metadata.fileCount).toBe(1);
+    expect(result.metadata.inputTokens).toBeGreaterThan(100);
+    expect(result.metadata.project.files.map((file: { path: string }) => file.path)).toEqual(['docs/payments.md']);
+    expect(result.metadata.project.failedFiles).toEqual([{ path: 'jcl/NIGHTLY.jcl', message: 'Model throttled' }]);
+    expect(result.metadata.project.skippedFiles).toHaveLength(1);
+  });
+
+  describe('coverage check', () => {
+    const source = '# post_payment posts a payment\ndef post_payment(payment):\n    pass\n\n\ndef refund(payment):\n    pass\n';
+    const outline = JSON.stringify({
+      fileType: 'py',
+      entries: [
+        { kind: 'function', name: 'post_payment', line: 2, parameters: ['payment'], public: true },
+        { kind: 'function', name: 'refund', line: 6, parameters: ['payment'], public: true },
+        { kind: 'function', name: '_audit', line: 9, public: false }
+      ]
+    });
+    const sourceEvent: FileProcessingEvent = {
+      ...fileEvent,
+      key: 'app/payments.py',
+      fileType: 'py',
+      content: source,
+      outlineReference: {
+        bucket: 'test-input-bucket',
+        key: '_working/outline.payload',
+        sha256: createHash('sha256').update(outline).digest('hex'),
+        length: Buffer.byteLength(outline)
+      }
+    };
+
+    beforeEach(() => {
+      s3.getObject.mockReturnValue({ promise: () => Promise.resolve({ Body: Buffer.from(outline) }) });
+    });
+
+    afterEach(() => {
+      delete process.env.COVERAGE_THRESHOLD;
+    });
+
+    it('should send a follow-up prompt for missing public definitions below the threshold', async () => {
+      const baseline = specificationOf(await handler({ ...sourceEvent, outlineReference: undefined }, mockContext));
+      const result = specificationOf(await handler(sourceEvent, mockContext));
+
+      expect(result.metadata.coverage).toEqual({
+        percentage: 50,
+        documentedCount: 1,
+        totalCount: 2,
+        missing: ['refund'],
+        threshold: 80,
+        followUp: true
+      });
+      expect(result.metadata.inputTokens).toBeGreaterThan(2 * baseline.metadata.inputTokens);
+      expect(result.generatedSpecification?.match(/^# Specification: app\/payments\.py$/gm)).toHaveLength(2);
+    });
+
+    it('should only record coverage at or above the threshold', async () => {
+      process.env.COVERAGE_THRESHOLD = '50';
+
+      const result = specificationOf(await handler(sourceEvent, mockContext));
+
+      expect(result.metadata.coverage).toMatchObject({ percentage: 50, threshold: 50, followUp: false });
+      expect(result.generatedSpecification?.match(/^# Specification: /gm)).toHaveLength(1);
+    });
+  });
+
+  describe('review gate', () => {
+    // Generate a specification with review enabled and serve the staged source back to the reviewer
+    const generate = async () => {
+      s3.putObject.mockReturnValue({ promise: () => Promise.resolve({}) });
+      const output = specificationOf(await handler(fileEvent, mockContext));
+      const staged = s3.putObject.mock.calls.map(([params]: [{ Key: string; Body: Buffer }]) => params)
+        .find((params: { Key: string }) => params.Key === output.metadata.sourceReference.key);
+      s3.getObject.mockReturnValue({ promise: () => Promise.resolve({ Body: staged.Body }) });
+      return output;
+    };
+
+    beforeEach(() => {
+      process.env.REVIEW_ENABLED = 'true';
+      process.env.LLM_FIXTURE_DIR = join(__dirname, 'fixtures', 'llm');
+    });
+
+    afterEach(() => {
+      delete process.env.REVIEW_ENABLED;
+      delete process.env.REVIEW_MODEL_ID;
+    });
+
+    it('should record a passing review and the reviewer token usage', async () => {
+      process.env.REVIEW_MODEL_ID = 'lenient-reviewer-v1:0';
+      const output = await generate();
+
+      const result = specificationOf(await handler({ review: output }, mockContext));
+
+      expect(result.generatedSpecification).toBe(output.generatedSpecification);
+      expect(result.metadata.review).toMatchObject({
+        faithfulness: 5,
+        hallucinations: [],
+        passed: true,
+        threshold: 3,
+        regenerated: false,
+        needsReview: false,
+        modelId: 'lenient-reviewer-v1:0'
+      });
+      expect(result.metadata.inputTokens).toBe(output.metadata.inputTokens + 900);
+    });
+
+    it('should regenerate once with the feedback and flag a specification that still fails', async () => {
+      process.env.REVIEW_MODEL_ID = 'strict-reviewer-v1:0';
+      const output = await generate();
+
+      const result = specificationOf(await handler({ review: output }, mockContext));
+
+      expect(result.metadata.review).toMatchObject({
+        faithfulness: 2,
+        hallucinations: [{ claim: 'Payments above 10,000 are escalated', reason: 'The source has no amount limit' }],
+        passed: false,
+        regenerated: true,
+        needsReview: true
+      });
+      // First generation, regeneration and two reviews
+      expect(result.metadata.inputTokens).toBeGreaterThan(2 * output.metadata.inputTokens + 1800);
+      expect(result.metadata.sourceReference).toEqual(output.metadata.sourceReference);
+    });
+
+    it('should pass the specification through when review is disabled', async () => {
+      const output = await generate();
+      delete process.env.REVIEW_ENABLED;
+
+      expect(await handler({ review: output }, mockContext)).toBe(output);
+    });
+
+    describe('merged and system-level specifications', () => {
+      const staged = new Map<string, string>();
+
+      // Stage a payload the handler reads back through the mocked S3 client
+      const stage = (key: string, body: string): PayloadReference => {
+        staged.set(key, body);
+        return {
+          bucket: 'test-input-bucket',
+          key,
+          sha256: createHash('sha256').update(body).digest('hex'),
+          length: Buffer.byteLength(body)
+        };
+      };
+
+      beforeEach(() => {
+        s3.putObject.mockImplementation((params: { Key: string; Body: Buffer | string }) => {
+          staged.set(params.Key, String(params.Body));
+          return { promise: () => Promise.resolve({}) };
+        });
+        s3.getObject.mockImplementation((params: { Key: string }) => ({
+          promise: () => Promise.resolve({ Body: Buffer.from(staged.get(params.Key) || '') })
+        }));
+      });
+
+      afterEach(() => {
+        staged.clear();
+      });
+
+      it('should review a merged specification against the source and flag it without regenerating', async () => {
+        process.env.REVIEW_MODEL_ID = 'strict-reviewer-v1:0';
+        const chunk = { total: 2, startOffset: 0, endOffset: 0, startLine: 1, endLine: 1 };
+        const partial = { inputTokens: 100, outputTokens: 40, truncated: false, modelId: 'primary-model-v1:0', fallbackCount: 0, cacheHit: false };
+        const reduceEvent: ReduceProcessingEvent = {
+          ...fileEvent,
+          content: undefined,
+          contentReference: stage('_working/source.payload', fileEvent.content || ''),
+          chunks: [{ ...chunk, index: 0 }, { ...chunk, index: 1 }],
+          partials: [
+            { ...partial, chunkIndex: 1, partialReference: stage('_working/partial-1.payload', '## Validation\n\nRejects records without an account.\n') },
+            { ...partial, chunkIndex: 0, partialReference: stage('_working/partial-0.payload', '# Payments\n\nProcesses payments daily.\n') }
+          ]
+        };
+
+        const output = specificationOf(await handler(reduceEvent, mockContext));
+        expect(output.metadata.sourceReference).toEqual(reduceEvent.contentReference);
+
+        const result = specificationOf(await handler({ review: output }, mockContext));
+
+        expect(result.generatedSpecification).toBe(output.generatedSpecification);
+        expect(result.metadata.review).toMatchObject({ faithfulness: 2, passed: false, regenerated: false, needsReview: true });
+        expect(result.metadata.inputTokens).toBe(output.metadata.inputTokens + 900);
+      });
+
+      it('should review a system-level specification against the file specifications', async () => {
+        process.env.REVIEW_MODEL_ID = 'lenient-reviewer-v1:0';
+        const { content, ...projectFile } = { ...fileEvent, key: 'uploads/payroll.zip/docs/payments.md', projectPath: 'docs/payments.md' };
+        const synthesisEvent: ProjectSynthesisEvent = {
+          ...projectFile,
+          key: 'uploads/payroll.zip',
+          fileType: 'zip',
+          projectPath: undefined,
+          project: { name: 'payroll', files: [projectFile], skippedFiles: [] },
+          fileSpecifications: [{
+            specificationReference: stage('_working/payments.payload', '# Payments\n\nValidates and posts daily payments.\n'),
+            metadata: { fileType: 'md', inputTokens: 100, outputTokens: 40, cacheHit: false }
+          }]
+        };
+
+        const output = specificationOf(await handler(synthesisEvent, mockContext));
+        expect(staged.get(output.metadata.sourceReference.key))
+          .toBe('## File: docs/payments.md (Markdown)\n\n# Payments\n\nValidates and posts daily payments.\n');
+
+        const result = specificationOf(await handler({ review: output }, mockContext));
+
+        expect(result.metadata.review).toMatchObject({ passed: true, regenerated: false, needsReview: false });
+        expect(result.metadata.project).toEqual(output.metadata.project);
+      });
+
+      describe('over the synthesis budget', () => {
+        const paths = ['src/PAYCALC.cbl', 'src/PAYPOST.cbl', 'src/PAYRPT.cbl'];
+        // About 60K characters per file, so three files exceed the budget
+        const rules = '- Each record is validated against the account master file before it is posted.\n'.repeat(750);
+
+        // Synthesise the project and return the file specifications it was synthesised from
+        const synthesise = async (fileSpecification: (path: string) => string) => {
+          const { content, ...projectFile } = { ...fileEvent, key: 'uploads/payroll.zip/src/PAYCALC.cbl', fileType: 'cbl' };
+          const files = paths.map(path => ({ ...projectFile, key: `uploads/payroll.zip/${path}`, projectPath: path }));
+          const synthesisEvent: ProjectSynthesisEvent = {
+            ...projectFile,
+            key: 'uploads/payroll.zip',
+            fileType: 'zip',
+            project: { name: 'payroll', files, skippedFiles: [] },
+            fileSpecifications: paths.map(path => ({
+              specificationReference: stage(`_working/${path}.payload`, fileSpecification(path)),
+              metadata: { fileType: 'cbl', inputTokens: 100, outputTokens: 40, cacheHit: false }
+            }))
+          };
+
+          const output = specificationOf(await handler(synthesisEvent, mockContext));
+          return staged.get(output.metadata.sourceReference.key) || '';
+        };
+
+        it('should synthesise from the overview of each file specification', async () => {
+          const sections = await synthesise(path =>
+            `# ${path}\n\n## Overview\n\nComputes pay for ${path}.\n\n## Processing Rules\n\n${rules}`);
+
+          expect(sections.length).toBeLessThanOrEqual(PROJECT_CONFIG.MAX_SYNTHESIS_CHARACTERS);
+          expect(sections).toContain('## File: src/PAYPOST.cbl (COBOL)\n\n# src/PAYPOST.cbl\n\n## Overview\n\nComputes pay for src/PAYPOST.cbl.');
+          expect(sections).not.toContain('## Processing Rules');
+        });
+
+        it('should share the budget between the files when their overviews are too long', async () => {
+          const sections = await synthesise(path => `# ${path}\n\n## Overview\n\nComputes pay for ${path}.\n\n${rules}`);
+
+          expect(sections.length).toBeLessThanOrEqual(PROJECT_CONFIG.MAX_SYNTHESIS_CHARACTERS);
+          paths.forEach(path => expect(sections).toContain(`## File: ${path} (COBOL)\n\n# ${path}\n\n## Overview\n\nComputes pay for ${path}.`));
+          expect(sections.match(/\(shortened\)/g)).toHaveLength(paths.length);
+        });
+      });
+    });
+  });
+
+  describe('Bedrock provider', () => {
+    const section = '## Processing\n\nPayments are validated against the account master file and posted in a nightly batch run.\n\n';
+    const converseResponse = (text: string, stopReason: string): ConverseResponse => ({
+      output: { message: { role: 'assistant', content: [{ text }] } },
+      stopReason,
+      usage: { inputTokens: 100, outputTokens: 50 }
+    });
+    const bedrockError = (name: string) => Object.assign(new Error(`${name}: request failed`), { name });
+    const requestedModels = () => (ConverseCommand as unknown as jest.Mock).mock.calls.map(call => call[0].modelId);
+
+    beforeEach(() => {
+      process.env.LLM_PROVIDER = 'bedrock';
+      process.env.BEDROCK_MODEL_ID = 'primary-model-v1:0';
+      process.env.BEDROCK_MODEL_FALLBACK_CHAIN = 'fallback-model-v1:0';
+    });
+
+    afterEach(() => {
+      process.env.LLM_PROVIDER = 'local';
+      mockSend.mockReset();
+      jest.useRealTimers();
+    });
+
+    it('should continue a generation that stops on max_tokens and stitch the parts', async () => {
+      mockSend
+        .mockResolvedValueOnce(converseResponse(`# Payments\n\n${section}`, 'max_tokens'))
+        .mockResolvedValueOnce(converseResponse('## Validation\n\nRecords without an account are rejected and reported.', 'end_turn'));
+
+      const result = specificationOf(await handler(fileEvent, mockContext));
+
+      expect(result.generatedSpecification).toBe(
+        `# Payments\n\n${section}## Validation\n\nRecords without an account are rejected and reported.`
+      );
+      expect(result.metadata).toMatchObject({ continuationCount: 1, truncated: false, inputTokens: 200, outputTokens: 100 });
+      const continuation = (ConverseCommand as unknown as jest.Mock).mock.calls[1][0].messages;
+      expect(continuation.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant', 'user']);
+      expect(continuation[2].content[0].text).toBe(LLM_CONFIG.CONTINUATION_PROMPT);
+    });
+
+    it('should stop after the maximum number of continuations and flag the specification as truncated', async () => {
+      let part = 0;
+      mockSend.mockImplementation(() => Promise.resolve(converseResponse(`# Part ${++part}\n\n${section}`, 'max_tokens')));
+
+      const result = specificationOf(await handler(fileEvent, mockContext));
+
+      expect(mockSend).toHaveBeenCalledTimes(LLM_CONFIG.MAX_CONTINUATIONS + 1);
+      expect(result.metadata).toMatchObject({ continuationCount: LLM_CONFIG.MAX_CONTINUATIONS, truncated: true });
+    });
+
+    it.each(LLM_CONFIG.FALLBACK_ERROR_NAMES)('should fall back to the next model on %s', async errorName => {
+      mockSend
+        .mockRejectedValueOnce(bedrockError(errorName))
+        .mockResolvedValueOnce(converseResponse(`# Payments\n\n${section}`, 'end_turn'));
+
+      const result = specificationOf(await handler(fileEvent, mockContext));
+
+      expect(requestedModels()).toEqual(['primary-model-v1:0', 'fallback-model-v1:0']);
+      expect(result.metadata).toMatchObject({ modelId: 'fallback-model-v1:0', fallbackCount: 1 });
+    });
+
+    it('should report and not cache a coverage follow-up answered by a fallback model', async () => {
+      const outline = JSON.stringify({
+        fileType: 'py',
+        entries: [
+          { kind: 'function', name: 'post_payment', line: 1, parameters: ['payment'], public: true },
+          { kind: 'function', name: 'refund', line: 5, parameters: ['payment'], public: true }
+        ]
+      });
+      process.env.CACHE_BUCKET_NAME = 'test-cache-bucket';
+      s3.getObject.mockImplementation((params: { Key: string }) => ({
+        promise: () => params.Key === '_working/outline.payload'
+          ? Promise.resolve({ Body: Buffer.from(outline) })
+          : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+      }));
+      mockSend
+        .mockResolvedValueOnce(converseResponse(`# Payments\n\n## post_payment\n\n${section}`, 'end_turn'))
+        .mockRejectedValueOnce(bedrockError('ThrottlingException'))
+        .mockResolvedValueOnce(converseResponse(`## refund\n\n${section}`, 'end_turn'));
+
+      const result = specificationOf(await handler({
+        ...fileEvent,
+        key: 'app/payments.py',
+        fileType: 'py',
+        content: 'def post_payment(payment):\n    pass\n\n\ndef refund(payment):\n    pass\n',
+        outlineReference: {
+          bucket: 'test-input-bucket',
+          key: '_working/outline.payload',
+          sha256: createHash('sha256').update(outline).digest('hex'),
+          length: Buffer.byteLength(outline)
+        }
+      }, mockContext));
+
+      expect(requestedModels()).toEqual(['primary-model-v1:0', 'primary-model-v1:0', 'fallback-model-v1:0']);
+      expect(result.metadata).toMatchObject({ modelId: 'primary-model-v1:0', fallbackCount: 1 });
+      expect(result.metadata.coverage).toMatchObject({ percentage: 100, followUp: true, followUpModelId: 'fallback-model-v1:0' });
+      expect(s3.putObject).not.toHaveBeenCalled();
+    });
+
+    it('should retry the primary model instead of falling back on other errors', async () => {
+      jest.useFakeTimers();
+      mockSend
+        .mockRejectedValueOnce(bedrockError('AccessDeniedException'))
+        .mockResolvedValueOnce(converseResponse(`# Payments\n\n${section}`, 'end_turn'));
+
+      const pending = handler(fileEvent, mockContext);
+      await jest.runAllTimersAsync();
+      const result = specificationOf(await pending);
+
+      expect(requestedModels()).toEqual(['primary-model-v1:0', 'primary-model-v1:0']);
+      expect(result.metadata).toMatchObject({ modelId: 'primary-model-v1:0', fallbackCount: 0 });
+    });
+
+    it('should return the last error when every model in the chain fails', async () => {
+      mockSend.mockRejectedValue(bedrockError('ValidationException'));
+
+      const result = await handler(fileEvent, mockContext);
+
+      expect(requestedModels()).toEqual(['primary-model-v1:0', 'fallback-model-v1:0']);
+      expect(result).toMatchObject({
+        errorType: 'LLM_PROCESSING_ERROR',
+        message: 'Invalid request to Bedrock API',
+        details: { retryable: false }
+      });
+    });
+  });
+
+  it('should pass through errors from the previous step', async () => {
+    const error: ProcessingError = {
+      errorType: 'FILE_READ_ERROR',
+      message: 'File not found',
+      timestamp: '2023-10-01T12:00:00Z',
+      originalFile: 'docs/payments.md'
+    };
+
+    const result = await handler(error, mockContext);
+
+    expect(result).toBe(error);
+  });
+});
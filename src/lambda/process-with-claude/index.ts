@@ -1,6 +1,23 @@
 import { Context } from 'aws-lambda';
-import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
-import { FileProcessingEvent, ConverseMessage, ConverseResponse, ProcessingError } from '../../shared/types';
+import { S3 } from 'aws-sdk';
+import {
+  FileProcessingEvent,
+  ChunkProcessingEvent,
+  ChunkSpecificationResult,
+  CodeOutline,
+  ReduceProcessingEvent,
+  ConverseMessage,
+  ConverseResponse,
+  DependencyGraph,
+  PayloadReference,
+  ProcessingError,
+  ProjectBundleInput,
+  ProjectSynthesisEvent,
+  PromptTemplate,
+  SpecificationCoverage,
+  SpecificationReview,
+  SpecificationReviewResult
+} from '../../shared/types';
 import { 
   createProcessingError, 
   logInfo, 
@@ -8,19 +25,141 @@ import {
   logMetric,
   logPerformanceMetric
 } from '../../shared/utils';
-import { LLM_CONFIG, ERROR_MESSAGES, RETRY_CONFIG } from '../../shared/constants';
+import { COVERAGE_CONFIG, LLM_CONFIG, ERROR_MESSAGES, PROJECT_CONFIG, RETRY_CONFIG, REVIEW_CONFIG } from '../../shared/constants';
+import { exceedsInlineLimit, resolvePayload, stagePayload } from '../../shared/payload-store';
+import {
+  createPromptTemplateVariables,
+  loadPromptTemplates,
+  renderPromptTemplate,
+  selectPromptTemplate
+} from '../../shared/prompt-templates';
+import { getLLMProvider, getLLMProviderName, LLMProvider } from '../../shared/llm-provider';
+import {
+  createSpecificationCacheKey,
+  getCachedSpecification,
+  putCachedSpecification
+} from '../../shared/specification-cache';
+import {
+  createStructuredCorrectionPrompt,
+  createStructuredOutputInstructions,
+  parseStructuredSpecification,
+  renderStructuredSpecificationMarkdown
+} from '../../shared/structured-specification';
+import { markJobFailed, updateJobStatus } from '../../shared/job-repository';
+import { createDependencyPromptContext, describeDependencyGraph } from '../../shared/dependency-graph';
+import { renderCodeOutlinePrompt } from '../../shared/code-outline';
+import { splitSections } from '../../shared/specification-diff';
+import {
+  createCoverageFollowUpPrompt,
+  findUndocumentedEntries,
+  measureSpecificationCoverage
+} from '../../shared/specification-coverage';
+import {
+  createRegenerationPrompt,
+  createReviewCorrectionPrompt,
+  createReviewPrompt,
+  isReviewPassing,
+  parseSpecificationReview
+} from '../../shared/specification-review';
 
-const bedrockClient = new BedrockRuntimeClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const s3 = new S3();
+
+// Large specifications are staged in S3 and passed to WriteSpecificationFunction by reference
+interface LLMProcessingOutput {
+  generatedSpecification?: string;
+  specificationReference?: PayloadReference;
+  metadata: any;
+}
+
+interface LLMResult {
+  generatedSpecification: string;
+  inputTokens: number;
+  outputTokens: number;
+  continuationCount: number;
+  truncated: boolean;
+  modelId: string;
+  fallbackCount: number;
+  cacheHit: boolean;
+  coverageFollowUp?: boolean; // Missing outline entries were requested in a follow-up prompt
+  followUpModelId?: string; // Model that answered the follow-up, when it is not the one that wrote the rest
+}
+
+// Output of a single model in the fallback chain
+type ModelResult = Omit<LLMResult, 'modelId' | 'fallbackCount' | 'cacheHit' | 'coverageFollowUp' | 'followUpModelId'>;
+
+// 'structured' asks the model for a StructuredSpecification JSON object instead of Markdown
+type SpecificationFormat = 'markdown' | 'structured';
+
+// ReviewSpecificationTask wraps the ProcessWithClaudeTask, ReduceChunksTask or SynthesizeProjectTask output
+interface ReviewProcessingEvent {
+  review: LLMProcessingOutput | ProcessingError;
+}
+
+// A validated reviewer response with the usage of the calls that produced it
+interface ReviewRound {
+  review: SpecificationReview;
+  inputTokens: number;
+  outputTokens: number;
+  modelId: string;
+}
 
 /**
  * Lambda function to process file content with LLM via Amazon Bedrock
  * Handles prompt engineering and response validation
- * Supports any Bedrock model (Claude, Nova, etc.)
+ * Supports any Bedrock model (Claude, Nova, etc.); LLM_PROVIDER=local runs offline
+ *
+ * Large files are processed map-reduce style: the Map state invokes this function once per
+ * chunk (event has `chunk`), then once more to merge the partial specs (event has `partials`).
+ * Projects run every file through the same steps, then synthesise a system-level specification
+ * from the per-file ones (event has `fileSpecifications`). Every specification that is written,
+ * merged and system-level ones included, is then scored by the review gate (event has `review`).
  */
 export const handler = async (
-  event: FileProcessingEvent | ProcessingError,
+  event: FileProcessingEvent | ChunkProcessingEvent | ReduceProcessingEvent | ProjectSynthesisEvent | ReviewProcessingEvent | ProcessingError,
   context: Context
-): Promise<{ generatedSpecification: string; metadata: any } | ProcessingError> => {
+): Promise<LLMProcessingOutput | ChunkSpecificationResult | ProcessingError> => {
+  if ('review' in event) {
+    const reviewed = await reviewGeneratedSpecification(event.review, context);
+    if ('metadata' in reviewed && reviewed.metadata.review) {
+      await updateJobStatus(reviewed.metadata.jobId, 'generating', {
+        modelId: reviewed.metadata.modelId,
+        inputTokens: reviewed.metadata.inputTokens,
+        outputTokens: reviewed.metadata.outputTokens,
+      });
+    }
+    return reviewed;
+  }
+
+  // Errors passed through from ReadFileFunction were already recorded on the job
+  if ('errorType' in event) {
+    return processFile(event, context);
+  }
+
+  await updateJobStatus(event.jobId, 'generating');
+  const result = await processFile(event, context);
+
+  // A failed project file does not fail the project; the synthesis step records the job outcome
+  if (event.projectKey) {
+    return result;
+  }
+
+  if ('errorType' in result) {
+    await markJobFailed(event.jobId, result);
+  } else if ('metadata' in result) {
+    await updateJobStatus(event.jobId, 'generating', {
+      modelId: result.metadata.modelId,
+      inputTokens: result.metadata.inputTokens,
+      outputTokens: result.metadata.outputTokens,
+    });
+  }
+
+  return result;
+};
+
+async function processFile(
+  event: FileProcessingEvent | ChunkProcessingEvent | ReduceProcessingEvent | ProjectSynthesisEvent | ProcessingError,
+  context: Context
+): Promise<LLMProcessingOutput | ChunkSpecificationResult | ProcessingError> {
   const startTime = Date.now();
   logInfo('ProcessWithLLM function started', { requestId: context.awsRequestId });
   logMetric('LLMProcessingInvocations', 1);
@@ -32,8 +171,34 @@ export const handler = async (
       return event;
     }
 
-    const fileEvent = event as FileProcessingEvent;
-    
+    if ('fileSpecifications' in event) {
+      return await synthesizeProjectSpecification(event as ProjectSynthesisEvent);
+    }
+
+    // Reduce pass merges the staged partial specifications; it does not need the source content
+    if ('partials' in event) {
+      return await reduceChunkSpecifications(event as ReduceProcessingEvent);
+    }
+
+    let fileEvent = event as FileProcessingEvent;
+
+    // Resolve content that ReadFileFunction staged in S3 (claim check)
+    if (fileEvent.contentReference) {
+      try {
+        const content = await resolvePayload(s3, fileEvent.contentReference);
+        fileEvent = { ...fileEvent, content };
+      } catch (resolveError) {
+        const error = createProcessingError(
+          'LLM_PROCESSING_ERROR',
+          'Failed to resolve staged content from ReadFileFunction',
+          fileEvent.key,
+          { error: resolveError instanceof Error ? resolveError.message : String(resolveError), contentReference: fileEvent.contentReference }
+        );
+        logError('Claim-check resolution failed', error);
+        return error;
+      }
+    }
+
     // Validate that we have the required content
     if (!fileEvent.content) {
       const error = createProcessingError(
@@ -46,53 +211,50 @@ export const handler = async (
       return error;
     }
 
+    // Source files get their static outline; project files are also told what the modules they reference do
+    const outline = await loadCodeOutline(fileEvent.outlineReference, fileEvent.key);
+    const promptContext = await loadPromptContext(fileEvent, outline);
+
+    if ('chunk' in fileEvent) {
+      return await processChunk(fileEvent as ChunkProcessingEvent, promptContext);
+    }
+
+    const template = selectPromptTemplate(await loadPromptTemplates(s3), fileEvent.fileType, fileEvent.key);
+    const specificationFormat = getSpecificationFormat();
+
     logInfo('Processing file content with LLM', { 
       originalFile: fileEvent.key,
       contentLength: fileEvent.content.length,
-      fileType: fileEvent.fileType 
+      fileType: fileEvent.fileType,
+      promptTemplate: `${template.id}@${template.version}`,
+      specificationFormat
     });
 
-    // Generate specification using LLM with retry logic
+    // Generate specification using LLM with retry logic, unless the same content is cached
     const processingStartTime = Date.now();
-    const result = await processWithLLMRetry(fileEvent);
+    const result = await processWithCache(
+      fileEvent,
+      createSpecificationPrompt(fileEvent, template, promptContext),
+      withPromptContext(fileEvent.content, promptContext),
+      `${template.id}@${template.version}`,
+      specificationFormat,
+      outline
+    );
     
     if ('errorType' in result) {
       return result;
     }
 
-    const processingTime = (Date.now() - processingStartTime) / 1000;
-    
-    // Log performance and token usage metrics
-    logPerformanceMetric('ProcessWithLLM', processingStartTime, {
-      originalFile: fileEvent.key,
-      outputLength: result.generatedSpecification.length,
-      inputTokens: result.inputTokens,
-      outputTokens: result.outputTokens
-    });
-    
-    logMetric('LLMProcessingSuccess', 1);
-    logMetric('LLMInputTokens', result.inputTokens);
-    logMetric('LLMOutputTokens', result.outputTokens);
-    
-    logInfo('LLM processing completed successfully', {
-      originalFile: fileEvent.key,
-      processingTimeSeconds: processingTime,
-      outputLength: result.generatedSpecification.length
+    return await createSpecificationOutput(fileEvent, result, processingStartTime, template, {
+      specificationFormat,
+      outlineReference: fileEvent.outlineReference,
+      coverage: outline ? getSpecificationCoverage(fileEvent, outline, result) : undefined,
+      // The review gate scores the specification against the extracted content, not the raw upload
+      sourceReference: isReviewEnabled() && !fileEvent.projectKey
+        ? fileEvent.contentReference || await stagePayload(s3, fileEvent.bucket, fileEvent.content, fileEvent.key)
+        : undefined
     });
 
-    return {
-      generatedSpecification: result.generatedSpecification,
-      metadata: {
-        originalFile: fileEvent.key,
-        originalBucket: fileEvent.bucket,
-        fileType: fileEvent.fileType,
-        processingTimeSeconds: processingTime,
-        inputTokens: result.inputTokens,
-        outputTokens: result.outputTokens,
-        timestamp: new Date().toISOString()
-      }
-    };
-
   } catch (error) {
     logMetric('LLMProcessingErrors', 1);
     logPerformanceMetric('ProcessWithLLM', startTime, { error: true });
@@ -106,14 +268,854 @@ export const handler = async (
     logError('ProcessWithLLM function failed with unexpected error', processingError);
     return processingError;
   }
-};
+}
+
+/**
+ * Log metrics for a generated specification and build the output for WriteSpecificationFunction
+ */
+async function createSpecificationOutput(
+  fileEvent: FileProcessingEvent,
+  result: LLMResult,
+  processingStartTime: number,
+  template: PromptTemplate,
+  additionalMetadata: Record<string, any> = {}
+): Promise<LLMProcessingOutput> {
+  const processingTime = (Date.now() - processingStartTime) / 1000;
+  
+  // Log performance and token usage metrics
+  logPerformanceMetric('ProcessWithLLM', processingStartTime, {
+    originalFile: fileEvent.key,
+    outputLength: result.generatedSpecification.length,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens
+  });
+  
+  logMetric('LLMProcessingSuccess', 1);
+  logMetric('LLMInputTokens', result.inputTokens);
+  logMetric('LLMOutputTokens', result.outputTokens);
+  
+  logInfo('LLM processing completed successfully', {
+    originalFile: fileEvent.key,
+    processingTimeSeconds: processingTime,
+    outputLength: result.generatedSpecification.length
+  });
+
+  const output: LLMProcessingOutput = {
+    metadata: {
+      originalFile: fileEvent.key,
+      originalBucket: fileEvent.bucket,
+      originalEtag: fileEvent.etag,
+      jobId: fileEvent.jobId,
+      fileType: fileEvent.fileType,
+      processingTimeSeconds: processingTime,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      promptTemplateId: template.id,
+      promptTemplateVersion: template.version,
+      continuationCount: result.continuationCount,
+      truncated: result.truncated,
+      modelId: result.modelId,
+      fallbackCount: result.fallbackCount,
+      cacheHit: result.cacheHit,
+      timestamp: new Date().toISOString(),
+      ...additionalMetadata
+    }
+  };
+
+  // Project file specifications are collected by a Map state, so they never travel inline
+  if (fileEvent.projectKey || exceedsInlineLimit(result.generatedSpecification)) {
+    output.specificationReference = await stagePayload(s3, fileEvent.bucket, result.generatedSpecification, fileEvent.key);
+  } else {
+    output.generatedSpecification = result.generatedSpecification;
+  }
+
+  return output;
+}
+
+/**
+ * Map step: summarise one chunk into a partial specification and stage it in S3
+ */
+async function processChunk(
+  chunkEvent: ChunkProcessingEvent,
+  promptContext: string
+): Promise<ChunkSpecificationResult | ProcessingError> {
+  const { chunk } = chunkEvent;
+  const chunkContent = (chunkEvent.content || '').slice(chunk.startOffset, chunk.endOffset);
+
+  logInfo('Processing chunk with LLM', {
+    originalFile: chunkEvent.key,
+    chunk: `${chunk.index + 1}/${chunk.total}`,
+    lines: `${chunk.startLine}-${chunk.endLine}`,
+    label: chunk.label,
+    contentLength: chunkContent.length
+  });
+
+  const result = await processWithCache(
+    chunkEvent,
+    createChunkPrompt(chunkEvent, chunkContent, promptContext),
+    withPromptContext(chunkContent, promptContext),
+    `chunk-partial:${chunk.index + 1}/${chunk.total}`
+  );
+  if ('errorType' in result) {
+    return { ...result, details: { ...result.details, chunkIndex: chunk.index } };
+  }
+
+  const partialReference = await stagePayload(s3, chunkEvent.bucket, result.generatedSpecification, chunkEvent.key);
+
+  logMetric('LLMChunkProcessingSuccess', 1);
+  logMetric('LLMInputTokens', result.inputTokens);
+  logMetric('LLMOutputTokens', result.outputTokens);
+
+  return {
+    chunkIndex: chunk.index,
+    partialReference,
+    inputTokens: result.inputTokens,
+    outputTokens: result.outputTokens,
+    truncated: result.truncated,
+    modelId: result.modelId,
+    fallbackCount: result.fallbackCount,
+    cacheHit: result.cacheHit
+  };
+}
+
+/**
+ * Reduce step: merge the partial specifications from every chunk into one document
+ */
+async function reduceChunkSpecifications(reduceEvent: ReduceProcessingEvent): Promise<LLMProcessingOutput | ProcessingError> {
+  const failedChunk = reduceEvent.partials.find((partial): partial is ProcessingError => 'errorType' in partial);
+  if (failedChunk) {
+    logError('Chunk processing failed, skipping reduce step', failedChunk);
+    return failedChunk;
+  }
+
+  const partials = (reduceEvent.partials as ChunkSpecificationResult[])
+    .slice()
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  const partialSpecifications = await Promise.all(
+    partials.map(partial => resolvePayload(s3, partial.partialReference))
+  );
+
+  logInfo('Reducing chunk specifications with LLM', {
+    originalFile: reduceEvent.key,
+    chunkCount: partials.length,
+    partialsLength: partialSpecifications.reduce((total, partial) => total + partial.length, 0)
+  });
+
+  const template = selectPromptTemplate(await loadPromptTemplates(s3), reduceEvent.fileType, reduceEvent.key);
+  const outline = await loadCodeOutline(reduceEvent.outlineReference, reduceEvent.key);
+  const promptContext = await loadPromptContext(reduceEvent, outline);
+  const specificationFormat = getSpecificationFormat();
+  const processingStartTime = Date.now();
+  const result = await processWithCache(
+    reduceEvent,
+    createReducePrompt(reduceEvent, partialSpecifications, template, promptContext),
+    withPromptContext(partialSpecifications.join('\n'), promptContext),
+    `reduce:${template.id}@${template.version}`,
+    specificationFormat,
+    outline
+  );
+  if ('errorType' in result) {
+    return result;
+  }
+
+  // Report the token usage of the whole map-reduce run, not just the merge call
+  const mapInputTokens = partials.reduce((total, partial) => total + partial.inputTokens, 0);
+  const mapOutputTokens = partials.reduce((total, partial) => total + partial.outputTokens, 0);
+
+  return createSpecificationOutput(
+    reduceEvent,
+    {
+      generatedSpecification: result.generatedSpecification,
+      inputTokens: result.inputTokens + mapInputTokens,
+      outputTokens: result.outputTokens + mapOutputTokens,
+      continuationCount: result.continuationCount,
+      // A truncated partial spec means content is missing from the merged document too
+      truncated: result.truncated || partials.some(partial => partial.truncated),
+      modelId: result.modelId,
+      fallbackCount: result.fallbackCount + partials.reduce((total, partial) => total + partial.fallbackCount, 0),
+      cacheHit: result.cacheHit && partials.every(partial => partial.cacheHit)
+    },
+    processingStartTime,
+    template,
+    {
+      chunkCount: partials.length,
+      specificationFormat,
+      outlineReference: reduceEvent.outlineReference,
+      coverage: outline ? getSpecificationCoverage(reduceEvent, outline, result) : undefined,
+      // Chunked content is always staged by ReadFileFunction; project files are reviewed as part of the project
+      sourceReference: isReviewEnabled() && !reduceEvent.projectKey ? reduceEvent.contentReference : undefined
+    }
+  );
+}
+
+/**
+ * Project synthesis: write a system-level specification from the specifications of every file
+ * Failed files are reported in the bundle; the project fails only when no file succeeded.
+ */
+async function synthesizeProjectSpecification(
+  synthesisEvent: ProjectSynthesisEvent
+): Promise<LLMProcessingOutput | ProcessingError> {
+  const { project, fileSpecifications } = synthesisEvent;
+  const files: ProjectBundleInput['files'] = [];
+  const failedFiles: ProjectBundleInput['failedFiles'] = [];
+
+  // Map state results are in the same order as the project files
+  fileSpecifications.forEach((result, index) => {
+    const path = project.files[index]?.projectPath || `file-${index + 1}`;
+    if ('errorType' in result) {
+      failedFiles.push({ path, message: result.message });
+    } else {
+      files.push({ path, specificationReference: result.specificationReference, metadata: result.metadata });
+    }
+  });
+
+  if (files.length === 0) {
+    const firstError = fileSpecifications.find((result): result is ProcessingError => 'errorType' in result);
+    logError('Every project file failed, skipping synthesis', { projectKey: synthesisEvent.key, failedFiles });
+    return firstError || createProcessingError('LLM_PROCESSING_ERROR', 'Project has no file specifications', synthesisEvent.key);
+  }
+
+  const specifications = await Promise.all(
+    files.map(file => resolvePayload(s3, file.specificationReference))
+  );
+  const dependencyGraph = await loadDependencyGraph(project.dependencyGraphReference, synthesisEvent.key);
+  const dependencyList = dependencyGraph ? describeDependencyGraph(dependencyGraph) : '';
+  const sections = createSynthesisSections(synthesisEvent.key, files, specifications.map(toMarkdown), dependencyList);
+
+  logInfo('Synthesising project specification with LLM', {
+    originalFile: synthesisEvent.key,
+    project: project.name,
+    fileCount: files.length,
+    failedCount: failedFiles.length,
+    sectionsLength: sections.length
+  });
+
+  const template = selectPromptTemplate(await loadPromptTemplates(s3), synthesisEvent.fileType, synthesisEvent.key);
+  const specificationFormat = getSpecificationFormat();
+  const processingStartTime = Date.now();
+  const result = await processWithCache(
+    synthesisEvent,
+    renderPromptTemplate(template, createPromptTemplateVariables(synthesisEvent.key, synthesisEvent.fileType, sections)),
+    sections,
+    `project:${template.id}@${template.version}`,
+    specificationFormat
+  );
+  if ('errorType' in result) {
+    return result;
+  }
+
+  // Report the token usage of the whole project, not just the synthesis call
+  const fileMetadata = files.map(file => file.metadata);
+  const bundle: ProjectBundleInput = {
+    name: project.name,
+    files,
+    failedFiles,
+    skippedFiles: project.skippedFiles,
+    dependencyGraphReference: project.dependencyGraphReference
+  };
+
+  return createSpecificationOutput(
+    synthesisEvent,
+    {
+      generatedSpecification: result.generatedSpecification,
+      inputTokens: result.inputTokens + fileMetadata.reduce((total, metadata) => total + (metadata.inputTokens || 0), 0),
+      outputTokens: result.outputTokens + fileMetadata.reduce((total, metadata) => total + (metadata.outputTokens || 0), 0),
+      continuationCount: result.continuationCount,
+      truncated: result.truncated,
+      modelId: result.modelId,
+      fallbackCount: result.fallbackCount,
+      cacheHit: result.cacheHit && fileMetadata.every(metadata => metadata.cacheHit)
+    },
+    processingStartTime,
+    template,
+    {
+      specificationFormat,
+      fileCount: files.length,
+      project: bundle,
+      // The system-level specification is reviewed against the file specifications it was synthesised from
+      sourceReference: isReviewEnabled() ? await stagePayload(s3, synthesisEvent.bucket, sections, synthesisEvent.key) : undefined
+    }
+  );
+}
+
+/**
+ * File specifications and dependencies for the synthesis prompt, within PROJECT_CONFIG.MAX_SYNTHESIS_CHARACTERS
+ * Over the budget each file is cut to its overview section; if that is still too long, every file
+ * gets an equal share of the budget. The full specifications are still written to the spec bundle.
+ */
+function createSynthesisSections(
+  projectKey: string,
+  files: ProjectBundleInput['files'],
+  specifications: string[],
+  dependencyList: string
+): string {
+  const budget = PROJECT_CONFIG.MAX_SYNTHESIS_CHARACTERS;
+  // The dependency list may take up to a quarter of the budget
+  const dependencySection = dependencyList
+    ? `## Resolved Dependencies (from calls and imports in the source)\n\n${truncateLines(dependencyList, Math.floor(budget / 4))}`
+    : undefined;
+  const headings = files.map(file =>
+    `## File: ${file.path} (${createPromptTemplateVariables(file.path, file.metadata.fileType, '').language})`);
+  const render = (bodies: string[], note?: string) => [
+    ...(note ? [note] : []),
+    ...(dependencySection ? [dependencySection] : []),
+    ...headings.map((heading, index) => `${heading}\n\n${bodies[index]}`),
+  ].join('\n\n');
+
+  const full = render(specifications);
+  if (full.length <= budget) {
+    return full;
+  }
+
+  const note = 'The file specifications below are shortened to fit this prompt; build the system view from what they describe.';
+  const overviews = specifications.map(getOverviewSection);
+  let sections = render(overviews, note);
+  if (sections.length > budget) {
+    const share = Math.floor((budget - render(overviews.map(() => ''), note).length) / files.length);
+    sections = render(overviews.map(overview => truncateText(overview, share)), note);
+  }
+
+  logInfo('File specifications shortened to fit the synthesis prompt', {
+    originalFile: projectKey,
+    fullLength: full.length,
+    sectionsLength: sections.length,
+    budget
+  });
+  logMetric('ProjectSynthesisShortened', 1);
+  return sections;
+}
+
+/**
+ * Title and overview of a specification: the first section named Overview, Summary or Purpose,
+ * otherwise the first section with content
+ */
+function getOverviewSection(specification: string): string {
+  const sections = splitSections(specification);
+  const title = sections.find(section => section.level === 1)?.title;
+  const overview = sections.find(section => /overview|summary|purpose/i.test(section.title) && section.lines.length > 0)
+    || sections.find(section => section.lines.length > 0);
+  if (!overview) {
+    return specification;
+  }
+
+  const heading = overview.level > 0 && overview.title !== title ? `## ${overview.title}\n\n` : '';
+  return `${title ? `# ${title}\n\n` : ''}${heading}${overview.lines.join('\n')}`;
+}
+
+/**
+ * Cut text to a length, marking where it was cut
+ */
+function truncateText(text: string, maxLength: number): string {
+  const marker = '\n\n(shortened)';
+  return text.length <= maxLength ? text : `${text.slice(0, Math.max(maxLength - marker.length, 0)).trimEnd()}${marker}`;
+}
+
+/**
+ * Cut a list to a length at a line boundary, saying how many lines were left out
+ */
+function truncateLines(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of lines) {
+    // Leave room for the closing line
+    if (length + line.length + 1 > maxLength - 40) {
+      break;
+    }
+    kept.push(line);
+    length += line.length + 1;
+  }
+  return [...kept, `- (${lines.length - kept.length} more not listed)`].join('\n');
+}
+
+/**
+ * Review gate: score a generated specification against its source on the review rubric
+ * Below the threshold it is regenerated once with the reviewer feedback; if the new specification
+ * still fails, it is flagged for WriteSpecificationFunction to write under the needs-review prefix.
+ * The gate is best effort: a review that cannot be completed leaves the specification as it was.
+ */
+async function reviewGeneratedSpecification(
+  output: LLMProcessingOutput | ProcessingError,
+  context: Context
+): Promise<LLMProcessingOutput | ProcessingError> {
+  if ('errorType' in output) {
+    logError('Received error from previous step, passing through', output);
+    return output;
+  }
+
+  const metadata = output.metadata;
+  if (!isReviewEnabled() || !metadata.sourceReference) {
+    return output;
+  }
+
+  logInfo('Reviewing generated specification', { requestId: context.awsRequestId, originalFile: metadata.originalFile });
+
+  try {
+    const content = await resolvePayload(s3, metadata.sourceReference);
+    const fileEvent: FileProcessingEvent = {
+      bucket: metadata.originalBucket,
+      key: metadata.originalFile,
+      size: Buffer.byteLength(content),
+      timestamp: metadata.timestamp,
+      etag: metadata.originalEtag,
+      fileType: metadata.fileType,
+      jobId: metadata.jobId,
+      content,
+      outlineReference: metadata.outlineReference
+    };
+    const specification = output.generatedSpecification
+      ?? await resolvePayload(s3, output.specificationReference as PayloadReference);
+    const threshold = getReviewThreshold();
+
+    const firstRound = await reviewSpecification(fileEvent, specification);
+    if ('errorType' in firstRound) {
+      logError('Specification review failed, writing the specification unreviewed', firstRound);
+      logMetric('SpecificationReviewErrors', 1);
+      return output;
+    }
+
+    const passed = isReviewPassing(firstRound.review, threshold);
+    logMetric('SpecificationReviewFaithfulness', firstRound.review.faithfulness, 'None');
+    logMetric('SpecificationReviewHallucinations', firstRound.review.hallucinations.length);
+    logInfo('Specification reviewed', {
+      originalFile: fileEvent.key,
+      faithfulness: firstRound.review.faithfulness,
+      completeness: firstRound.review.completeness,
+      clarity: firstRound.review.clarity,
+      hallucinationCount: firstRound.review.hallucinations.length,
+      passed
+    });
+
+    if (passed) {
+      return withReview(output, [firstRound], { passed, threshold, regenerated: false, needsReview: false });
+    }
+
+    // Merged and system-level specifications are not regenerated: that would mean re-running every chunk or file
+    if (metadata.chunkCount || metadata.project) {
+      logMetric('SpecificationsNeedingReview', 1);
+      return withReview(output, [firstRound], { passed, threshold, regenerated: false, needsReview: true });
+    }
+
+    // Regenerate once from the original prompt, with the rejected attempt's review appended
+    logMetric('SpecificationReviewRegenerations', 1);
+    const regenerationStartTime = Date.now();
+    const template = selectPromptTemplate(await loadPromptTemplates(s3), fileEvent.fileType, fileEvent.key);
+    const outline = await loadCodeOutline(fileEvent.outlineReference, fileEvent.key);
+    const prompt = createRegenerationPrompt(
+      createSpecificationPrompt(fileEvent, template, await loadPromptContext(fileEvent, outline)),
+      firstRound.review,
+      threshold
+    );
+    const regenerated = metadata.specificationFormat === 'structured'
+      ? await generateStructuredSpecification(fileEvent, prompt)
+      : await processWithLLMRetry(fileEvent, prompt);
+    if ('errorType' in regenerated) {
+      logError('Regeneration after review failed, flagging the specification for review', regenerated);
+      return withReview(output, [firstRound], { passed, threshold, regenerated: false, needsReview: true });
+    }
+
+    const secondRound = await reviewSpecification(fileEvent, regenerated.generatedSpecification);
+    const regeneratedPassed = !('errorType' in secondRound) && isReviewPassing(secondRound.review, threshold);
+    if (!regeneratedPassed) {
+      logMetric('SpecificationsNeedingReview', 1);
+    }
+
+    const regeneratedOutput = await createSpecificationOutput(fileEvent, regenerated, regenerationStartTime, template, {
+      specificationFormat: metadata.specificationFormat,
+      outlineReference: metadata.outlineReference,
+      coverage: outline ? getSpecificationCoverage(fileEvent, outline, regenerated) : undefined,
+      sourceReference: metadata.sourceReference
+    });
+    // Report the time and usage of the whole gate, first generation included
+    regeneratedOutput.metadata.processingTimeSeconds += metadata.processingTimeSeconds;
+    regeneratedOutput.metadata.inputTokens += metadata.inputTokens;
+    regeneratedOutput.metadata.outputTokens += metadata.outputTokens;
+
+    // When the second review could not be completed, the first one is reported
+    const rounds = 'errorType' in secondRound ? [firstRound] : [firstRound, secondRound];
+    return withReview(regeneratedOutput, rounds, {
+      passed: regeneratedPassed,
+      threshold,
+      regenerated: true,
+      needsReview: !regeneratedPassed
+    });
+  } catch (error) {
+    logError('Specification review failed, writing the specification unreviewed', {
+      originalFile: metadata.originalFile,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('SpecificationReviewErrors', 1);
+    return output;
+  }
+}
+
+/**
+ * Ask the reviewer for the rubric, feeding validation errors back when the response does not match it
+ */
+async function reviewSpecification(fileEvent: FileProcessingEvent, specification: string): Promise<ReviewRound | ProcessingError> {
+  const reviewPrompt = createReviewPrompt(fileEvent.key, fileEvent.fileType, fileEvent.content || '', toMarkdown(specification));
+  const modelChain = process.env.REVIEW_MODEL_ID ? [process.env.REVIEW_MODEL_ID] : getModelChain();
+  let attemptPrompt = reviewPrompt;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= REVIEW_CONFIG.MAX_ATTEMPTS; attempt++) {
+    // 'structured' skips the Markdown checks; the rubric is validated below
+    const result = await processWithLLMRetry(fileEvent, attemptPrompt, 'structured', modelChain);
+    if ('errorType' in result) {
+      return result;
+    }
+
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+    const parsed = parseSpecificationReview(result.generatedSpecification);
+    if (parsed.review) {
+      return { review: parsed.review, inputTokens, outputTokens, modelId: result.modelId };
+    }
+
+    errors = parsed.errors;
+    logError('Reviewer response does not match the rubric', { originalFile: fileEvent.key, attempt, errors });
+    attemptPrompt = createReviewCorrectionPrompt(reviewPrompt, result.generatedSpecification, errors);
+  }
+
+  return createProcessingError(
+    'LLM_PROCESSING_ERROR',
+    `Reviewer response did not match the rubric after ${REVIEW_CONFIG.MAX_ATTEMPTS} attempts`,
+    fileEvent.key,
+    { validationErrors: errors, retryable: false }
+  );
+}
+
+/**
+ * Attach the review outcome to an output and add the reviewer's token usage to its totals
+ */
+function withReview(
+  output: LLMProcessingOutput,
+  rounds: ReviewRound[],
+  outcome: Pick<SpecificationReviewResult, 'passed' | 'threshold' | 'regenerated' | 'needsReview'>
+): LLMProcessingOutput {
+  const lastRound = rounds[rounds.length - 1];
+  const review: SpecificationReviewResult = { ...lastRound.review, ...outcome, modelId: lastRound.modelId };
+
+  return {
+    ...output,
+    metadata: {
+      ...output.metadata,
+      inputTokens: output.metadata.inputTokens + rounds.reduce((total, round) => total + round.inputTokens, 0),
+      outputTokens: output.metadata.outputTokens + rounds.reduce((total, round) => total + round.outputTokens, 0),
+      review
+    }
+  };
+}
+
+function isReviewEnabled(): boolean {
+  return process.env.REVIEW_ENABLED === 'true';
+}
+
+function getReviewThreshold(): number {
+  const threshold = Number(process.env.REVIEW_THRESHOLD);
+  return process.env.REVIEW_THRESHOLD && threshold >= 1 && threshold <= 5 ? threshold : REVIEW_CONFIG.DEFAULT_THRESHOLD;
+}
+
+/**
+ * Prompt header with the code outline of the file and the summaries of the project modules it references
+ */
+async function loadPromptContext(fileEvent: FileProcessingEvent, outline?: CodeOutline): Promise<string> {
+  const graph = await loadDependencyGraph(fileEvent.dependencyGraphReference, fileEvent.key);
+
+  return [
+    outline ? renderCodeOutlinePrompt(outline) : '',
+    graph && fileEvent.projectPath ? createDependencyPromptContext(graph, fileEvent.projectPath) : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Resolve the staged code outline of a source file; like the graph, it is skipped when it cannot be read
+ */
+async function loadCodeOutline(
+  reference: PayloadReference | undefined,
+  originalFile: string
+): Promise<CodeOutline | undefined> {
+  if (!reference) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await resolvePayload(s3, reference)) as CodeOutline;
+  } catch (error) {
+    logError('Failed to load code outline, continuing without it', {
+      originalFile,
+      outlineReference: reference,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the staged dependency graph of a project
+ * The graph only enriches prompts, so a graph that cannot be read is logged and skipped.
+ */
+async function loadDependencyGraph(
+  reference: PayloadReference | undefined,
+  originalFile: string
+): Promise<DependencyGraph | undefined> {
+  if (!reference) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await resolvePayload(s3, reference)) as DependencyGraph;
+  } catch (error) {
+    logError('Failed to load project dependency graph, continuing without it', {
+      originalFile,
+      dependencyGraphReference: reference,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Prefix a prompt (or cached content) with the outline and dependency context of a file
+ */
+function withPromptContext(text: string, promptContext: string): string {
+  return promptContext ? `${promptContext}\n\n${text}` : text;
+}
+
+/**
+ * Structured file specifications are fed to the synthesis prompt as Markdown
+ */
+function toMarkdown(specification: string): string {
+  const parsed = specification.trimStart().startsWith('{') ? parseStructuredSpecification(specification) : undefined;
+  return parsed?.specification ? renderStructuredSpecificationMarkdown(parsed.specification) : specification;
+}
+
+/**
+ * Return the cached specification for the same content, prompt template and primary model,
+ * or generate one with the LLM and cache it. Truncated output is not cached, and neither is
+ * output from a fallback model, since the entry is keyed on the primary model.
+ */
+async function processWithCache(
+  fileEvent: FileProcessingEvent,
+  prompt: string,
+  content: string,
+  promptTemplate: string,
+  specificationFormat: SpecificationFormat = 'markdown',
+  outline?: CodeOutline
+): Promise<LLMResult | ProcessingError> {
+  // The coverage follow-up runs before caching, so cache hits include the sections it added
+  const generate = async (): Promise<LLMResult | ProcessingError> => {
+    if (specificationFormat === 'structured') {
+      return generateStructuredSpecification(fileEvent, prompt);
+    }
+    const result = await processWithLLMRetry(fileEvent, prompt);
+    return outline && !('errorType' in result) ? completeSpecificationCoverage(fileEvent, prompt, result, outline) : result;
+  };
+
+  const cacheBucket = process.env.CACHE_BUCKET_NAME;
+  if (!cacheBucket) {
+    return generate();
+  }
+
+  const cacheKey = createSpecificationCacheKey({
+    content,
+    promptTemplate: specificationFormat === 'structured' ? `${promptTemplate}+structured` : promptTemplate,
+    modelId: getModelChain()[0],
+    provider: getLLMProviderName()
+  });
+
+  const cached = await getCachedSpecification(s3, cacheBucket, cacheKey);
+  if (cached) {
+    logMetric('SpecificationCacheHits', 1);
+    logInfo('Specification cache hit, skipping LLM', {
+      originalFile: fileEvent.key,
+      cacheKey,
+      cachedFrom: cached.originalFile,
+      cachedAt: cached.cachedAt
+    });
+
+    // No tokens are spent on a hit; the model that originally produced the spec is reported
+    return {
+      generatedSpecification: cached.generatedSpecification,
+      inputTokens: 0,
+      outputTokens: 0,
+      continuationCount: cached.continuationCount,
+      truncated: false,
+      modelId: cached.modelId,
+      fallbackCount: 0,
+      cacheHit: true
+    };
+  }
+
+  logMetric('SpecificationCacheMisses', 1);
+  const result = await generate();
+
+  if (!('errorType' in result) && !result.truncated && result.fallbackCount === 0) {
+    await putCachedSpecification(s3, cacheBucket, {
+      cacheKey,
+      generatedSpecification: result.generatedSpecification,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      continuationCount: result.continuationCount,
+      modelId: result.modelId,
+      fallbackCount: result.fallbackCount,
+      originalFile: fileEvent.key,
+      cachedAt: new Date().toISOString()
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Ask the model for a StructuredSpecification, feeding schema validation errors back to it
+ * The validated object is returned as pretty-printed JSON in `generatedSpecification`
+ */
+async function generateStructuredSpecification(
+  fileEvent: FileProcessingEvent,
+  prompt: string
+): Promise<LLMResult | ProcessingError> {
+  const structuredPrompt = `${prompt}\n\n${createStructuredOutputInstructions()}`;
+  let attemptPrompt = structuredPrompt;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let continuationCount = 0;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= LLM_CONFIG.STRUCTURED_OUTPUT_MAX_ATTEMPTS; attempt++) {
+    const result = await processWithLLMRetry(fileEvent, attemptPrompt, 'structured');
+    if ('errorType' in result) {
+      return result;
+    }
+
+    inputTokens += result.inputTokens;
+    outputTokens += result.outputTokens;
+    continuationCount += result.continuationCount;
+
+    const parsed = parseStructuredSpecification(result.generatedSpecification);
+    if (parsed.specification) {
+      return {
+        ...result,
+        generatedSpecification: JSON.stringify(parsed.specification, null, 2),
+        inputTokens,
+        outputTokens,
+        continuationCount
+      };
+    }
+
+    // Cap the errors echoed back so a badly malformed response does not blow up the prompt
+    errors = parsed.errors.slice(0, LLM_CONFIG.STRUCTURED_OUTPUT_MAX_REPORTED_ERRORS);
+    logMetric('StructuredSpecificationValidationFailures', 1);
+    logError('Structured specification failed schema validation', {
+      originalFile: fileEvent.key,
+      attempt,
+      errorCount: parsed.errors.length,
+      errors
+    });
+    attemptPrompt = createStructuredCorrectionPrompt(structuredPrompt, result.generatedSpecification, errors);
+  }
+
+  return createProcessingError(
+    'LLM_PROCESSING_ERROR',
+    `Structured specification failed schema validation after ${LLM_CONFIG.STRUCTURED_OUTPUT_MAX_ATTEMPTS} attempts`,
+    fileEvent.key,
+    { validationErrors: errors, retryable: false }
+  );
+}
+
+/**
+ * Ask for the public outline entries a Markdown specification does not mention when coverage is below
+ * the threshold, and append the sections returned. A failed follow-up keeps the original specification.
+ */
+async function completeSpecificationCoverage(
+  fileEvent: FileProcessingEvent,
+  prompt: string,
+  result: LLMResult,
+  outline: CodeOutline
+): Promise<LLMResult> {
+  const threshold = getCoverageThreshold();
+  const coverage = measureSpecificationCoverage(outline, result.generatedSpecification, threshold);
+  if (!coverage || coverage.percentage >= threshold) {
+    return result;
+  }
+
+  logInfo('Specification coverage below threshold, requesting missing entries', {
+    originalFile: fileEvent.key,
+    coveragePercentage: coverage.percentage,
+    threshold,
+    missing: coverage.missing
+  });
+  logMetric('CoverageFollowUps', 1);
+
+  const missing = findUndocumentedEntries(outline, result.generatedSpecification);
+  const followUp = await processWithLLMRetry(fileEvent, createCoverageFollowUpPrompt(prompt, missing));
+  if ('errorType' in followUp) {
+    logError('Coverage follow-up failed, keeping the original specification', followUp);
+    return result;
+  }
+
+  return {
+    ...result,
+    generatedSpecification: `${result.generatedSpecification.trimEnd()}\n\n${followUp.generatedSpecification.trim()}\n`,
+    inputTokens: result.inputTokens + followUp.inputTokens,
+    outputTokens: result.outputTokens + followUp.outputTokens,
+    continuationCount: result.continuationCount + followUp.continuationCount,
+    truncated: result.truncated || followUp.truncated,
+    // A follow-up answered by a fallback model makes the whole specification fallback output (never cached)
+    fallbackCount: Math.max(result.fallbackCount, followUp.fallbackCount),
+    coverageFollowUp: true,
+    followUpModelId: followUp.modelId !== result.modelId ? followUp.modelId : undefined
+  };
+}
+
+/**
+ * Coverage of the final specification, recorded in S3 metadata and notifications
+ */
+function getSpecificationCoverage(
+  fileEvent: FileProcessingEvent,
+  outline: CodeOutline,
+  result: LLMResult
+): SpecificationCoverage | undefined {
+  const coverage = measureSpecificationCoverage(outline, toMarkdown(result.generatedSpecification), getCoverageThreshold());
+  if (!coverage) {
+    return undefined;
+  }
+
+  logMetric('SpecificationCoverage', coverage.percentage, 'Percent');
+  logInfo('Specification coverage measured', {
+    originalFile: fileEvent.key,
+    coveragePercentage: coverage.percentage,
+    documentedCount: coverage.documentedCount,
+    totalCount: coverage.totalCount
+  });
+  return { ...coverage, followUp: result.coverageFollowUp === true, followUpModelId: result.followUpModelId };
+}
+
+function getCoverageThreshold(): number {
+  const threshold = Number(process.env.COVERAGE_THRESHOLD);
+  return process.env.COVERAGE_THRESHOLD && threshold >= 0 && threshold <= 100 ? threshold : COVERAGE_CONFIG.DEFAULT_THRESHOLD;
+}
+
+function getSpecificationFormat(): SpecificationFormat {
+  return process.env.SPECIFICATION_FORMAT === 'structured' ? 'structured' : 'markdown';
+}
 
 /**
  * Process content with LLM using retry logic
  */
 async function processWithLLMRetry(
-  fileEvent: FileProcessingEvent
-): Promise<{ generatedSpecification: string; inputTokens: number; outputTokens: number } | ProcessingError> {
+  fileEvent: FileProcessingEvent,
+  prompt: string,
+  specificationFormat: SpecificationFormat = 'markdown',
+  modelChain: string[] = getModelChain()
+): Promise<LLMResult | ProcessingError> {
   
   let lastError: any;
   
@@ -123,7 +1125,7 @@ async function processWithLLMRetry(
         originalFile: fileEvent.key
       });
 
-      const result = await processWithLLM(fileEvent);
+      const result = await processWithLLM(fileEvent, prompt, specificationFormat, modelChain);
       
       if ('errorType' in result) {
         lastError = result;
@@ -166,58 +1168,156 @@ async function processWithLLMRetry(
 }
 
 /**
- * Process file content with LLM via Bedrock Converse API
+ * Process file content with the configured LLM provider
+ * Walks the model chain in order, moving to the next model on throttling, validation
+ * (e.g. context too long) and model availability errors
  */
 async function processWithLLM(
-  fileEvent: FileProcessingEvent
-): Promise<{ generatedSpecification: string; inputTokens: number; outputTokens: number } | ProcessingError> {
-  
+  fileEvent: FileProcessingEvent,
+  prompt: string,
+  specificationFormat: SpecificationFormat,
+  modelChain: string[]
+): Promise<LLMResult | ProcessingError> {
+  let provider: LLMProvider;
   try {
-    
-    // Create prompt based on file type and content
-    const prompt = createSpecificationPrompt(fileEvent);
-    
-    // Get model ID from environment or use default
-    const modelId = process.env.BEDROCK_MODEL_ID || 
-      'us.amazon.nova-lite-v1:0';
-  
-    // Prepare messages in Converse API format
-    const messages: ConverseMessage[] = [
-      {
-        role: 'user',
-        content: [{ text: prompt }]
+    provider = getLLMProvider();
+  } catch (error) {
+    return createProcessingError(
+      'LLM_PROCESSING_ERROR',
+      error instanceof Error ? error.message : String(error),
+      fileEvent.key,
+      { retryable: false }
+    );
+  }
+
+  const estimatedInputTokens = provider.countTokens(LLM_CONFIG.SYSTEM_PROMPT + prompt);
+  let lastError: unknown;
+
+  for (let fallbackCount = 0; fallbackCount < modelChain.length; fallbackCount++) {
+    const modelId = modelChain[fallbackCount];
+    const nextModelId = modelChain[fallbackCount + 1];
+
+    // Skip models whose context window cannot hold the prompt instead of waiting for a ValidationException
+    const { contextWindowTokens } = provider.getModelInfo(modelId);
+    if (nextModelId && estimatedInputTokens + LLM_CONFIG.MAX_TOKENS > contextWindowTokens) {
+      logMetric('LLMModelFallbacks', 1);
+      logInfo('Prompt exceeds model context window, falling back to next model in chain', {
+        originalFile: fileEvent.key,
+        modelId,
+        nextModelId,
+        estimatedInputTokens,
+        contextWindowTokens
+      });
+      continue;
+    }
+
+    try {
+      const result = await processWithModel(provider, fileEvent, prompt, modelId, specificationFormat);
+      if ('errorType' in result) {
+        return result;
       }
-    ];
 
-    // Invoke model via Bedrock Converse API
-    const command = new ConverseCommand({
-      modelId,
-      messages,
-      system: [{ text: LLM_CONFIG.SYSTEM_PROMPT }],
-      inferenceConfig: {
-        maxTokens: LLM_CONFIG.MAX_TOKENS,
-        temperature: LLM_CONFIG.TEMPERATURE
+      if (fallbackCount > 0) {
+        logMetric('LLMFallbackSuccess', 1);
       }
-    });
+      return { ...result, modelId, fallbackCount, cacheHit: false };
+
+    } catch (error) {
+      lastError = error;
+
+      if (!nextModelId || !isFallbackError(error)) {
+        break;
+      }
+
+      logMetric('LLMModelFallbacks', 1);
+      logError('Model request failed, falling back to next model in chain', {
+        originalFile: fileEvent.key,
+        modelId,
+        nextModelId,
+        error: error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+      });
+    }
+  }
+
+  return createBedrockError(lastError, fileEvent.key);
+}
 
-    const response = await bedrockClient.send(command);
+/**
+ * Primary model from BEDROCK_MODEL_ID followed by BEDROCK_MODEL_FALLBACK_CHAIN, without duplicates
+ */
+function getModelChain(): string[] {
+  const primaryModelId = process.env.BEDROCK_MODEL_ID || 'us.amazon.nova-lite-v1:0';
+  const fallbackModelIds = (process.env.BEDROCK_MODEL_FALLBACK_CHAIN || '')
+    .split(',')
+    .map(modelId => modelId.trim())
+    .filter(Boolean);
+
+  return Array.from(new Set([primaryModelId, ...fallbackModelIds]));
+}
+
+function isFallbackError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const errorNames: readonly string[] = LLM_CONFIG.FALLBACK_ERROR_NAMES;
+  return errorNames.includes(error.name)
+    || errorNames.some(name => error.message.includes(name))
+    || error.message.includes('rate limit');
+}
+
+/**
+ * Generate the specification with one model, continuing while it stops on max_tokens
+ * Provider API errors are thrown so the caller can fall back to the next model
+ */
+async function processWithModel(
+  provider: LLMProvider,
+  fileEvent: FileProcessingEvent,
+  prompt: string,
+  modelId: string,
+  specificationFormat: SpecificationFormat
+): Promise<ModelResult | ProcessingError> {
+  // Prepare messages in Converse API format
+  const messages: ConverseMessage[] = [
+    {
+      role: 'user',
+      content: [{ text: prompt }]
+    }
+  ];
+
+  let generatedSpecification = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let continuationCount = 0;
+  let truncated = false;
+
+  // Keep asking the model to continue while it stops on max_tokens, up to the continuation cap
+  for (;;) {
+    // Invoke model via the provider's Converse API
+    const converseResponse = await provider.converse({
+      modelId,
+      messages: [...messages],
+      systemPrompt: LLM_CONFIG.SYSTEM_PROMPT,
+      maxTokens: LLM_CONFIG.MAX_TOKENS,
+      temperature: LLM_CONFIG.TEMPERATURE
+    });
     
-    if (!response.output?.message) {
+    if (!converseResponse.output?.message) {
       return createProcessingError(
         'LLM_PROCESSING_ERROR',
-        'Empty response from Bedrock',
+        'Empty response from LLM provider',
         fileEvent.key,
-        { retryable: true }
+        { provider: provider.name, modelId, retryable: true }
       );
     }
 
-    const converseResponse = response as ConverseResponse;
-
-    logInfo('Received response from Bedrock', {
+    logInfo('Received response from LLM provider', {
       originalFile: fileEvent.key,
+      provider: provider.name,
+      modelId,
       inputTokens: converseResponse.usage?.inputTokens,
       outputTokens: converseResponse.usage?.outputTokens,
-      stopReason: converseResponse.stopReason
+      stopReason: converseResponse.stopReason,
+      continuation: continuationCount
     });
 
     // Validate and extract specification content
@@ -226,82 +1326,173 @@ async function processWithLLM(
       return validationResult;
     }
 
-    const generatedSpecification = converseResponse.output.message.content[0].text;
+    const text = converseResponse.output.message.content[0].text;
+    generatedSpecification = stitchContinuation(generatedSpecification, text);
+    inputTokens += converseResponse.usage?.inputTokens || 0;
+    outputTokens += converseResponse.usage?.outputTokens || 0;
 
-    // Validate generated markdown
-    const markdownValidation = validateMarkdownSpecification(generatedSpecification, fileEvent.key);
-    if (markdownValidation) {
-      return markdownValidation;
+    if (converseResponse.stopReason !== 'max_tokens') {
+      break;
     }
 
-    return {
-      generatedSpecification,
-      inputTokens: converseResponse.usage?.inputTokens || 0,
-      outputTokens: converseResponse.usage?.outputTokens || 0
-    };
-
-  } catch (error) {
-    // Handle specific Bedrock errors
-    if (error instanceof Error) {
-      if (error.message.includes('ThrottlingException') || error.message.includes('rate limit')) {
-        return createProcessingError(
-          'LLM_PROCESSING_ERROR',
-          'Bedrock API rate limit exceeded',
-          fileEvent.key,
-          { error: error.message, retryable: true }
-        );
-      }
-      
-      if (error.message.includes('ValidationException')) {
-        return createProcessingError(
-          'LLM_PROCESSING_ERROR',
-          'Invalid request to Bedrock API',
-          fileEvent.key,
-          { error: error.message, retryable: false }
-        );
-      }
+    if (continuationCount >= LLM_CONFIG.MAX_CONTINUATIONS) {
+      truncated = true;
+      logMetric('LLMTruncatedResponses', 1);
+      logError('Specification still truncated after maximum continuations', {
+        originalFile: fileEvent.key,
+        modelId,
+        continuations: continuationCount,
+        outputLength: generatedSpecification.length
+      });
+      break;
     }
 
-    return createProcessingError(
-      'LLM_PROCESSING_ERROR',
-      ERROR_MESSAGES.LLM_API_ERROR,
-      fileEvent.key,
-      { error: error instanceof Error ? error.message : String(error), retryable: true }
+    // Carry the partial output as the assistant turn and ask for the rest
+    continuationCount++;
+    logMetric('LLMContinuations', 1);
+    messages.push(
+      { role: 'assistant', content: [{ text }] },
+      { role: 'user', content: [{ text: LLM_CONFIG.CONTINUATION_PROMPT }] }
     );
   }
+
+  // Validate generated markdown; structured output is validated against the schema by the caller
+  const markdownValidation = specificationFormat === 'markdown'
+    ? validateMarkdownSpecification(generatedSpecification, fileEvent.key)
+    : null;
+  if (markdownValidation) {
+    return markdownValidation;
+  }
+
+  return {
+    generatedSpecification,
+    inputTokens,
+    outputTokens,
+    continuationCount,
+    truncated
+  };
+}
+
+/**
+ * Map the Bedrock error from the last model tried to a processing error
+ */
+function createBedrockError(error: unknown, originalFile: string): ProcessingError {
+  // Handle specific Bedrock errors
+  if (error instanceof Error) {
+    if (error.name === 'ThrottlingException' || error.message.includes('ThrottlingException') || error.message.includes('rate limit')) {
+      return createProcessingError(
+        'LLM_PROCESSING_ERROR',
+        'Bedrock API rate limit exceeded',
+        originalFile,
+        { error: error.message, retryable: true }
+      );
+    }
+    
+    if (error.name === 'ValidationException' || error.message.includes('ValidationException')) {
+      return createProcessingError(
+        'LLM_PROCESSING_ERROR',
+        'Invalid request to Bedrock API',
+        originalFile,
+        { error: error.message, retryable: false }
+      );
+    }
+  }
+
+  return createProcessingError(
+    'LLM_PROCESSING_ERROR',
+    ERROR_MESSAGES.LLM_API_ERROR,
+    originalFile,
+    { error: error instanceof Error ? error.message : String(error), retryable: true }
+  );
+}
+
+/**
+ * Append a continuation to the text generated so far, dropping any overlap the model repeated
+ */
+function stitchContinuation(previous: string, continuation: string): string {
+  if (!previous) {
+    return continuation;
+  }
+
+  const maxOverlap = Math.min(200, previous.length, continuation.length);
+  for (let length = maxOverlap; length >= 20; length--) {
+    if (previous.endsWith(continuation.slice(0, length))) {
+      return previous + continuation.slice(length);
+    }
+  }
+  return previous + continuation;
 }
 
 /**
- * Create specification generation prompt based on file content and type
+ * Create specification generation prompt from the template selected for the file
  */
-function createSpecificationPrompt(fileEvent: FileProcessingEvent): string {
-  const basePrompt = `Generate a comprehensive technical specification document in markdown format from the following content. 
+function createSpecificationPrompt(
+  fileEvent: FileProcessingEvent,
+  template: PromptTemplate,
+  promptContext = ''
+): string {
+  const variables = createPromptTemplateVariables(fileEvent.key, fileEvent.fileType, fileEvent.content || '');
+  return withPromptContext(renderPromptTemplate(template, variables), promptContext);
+}
+
+/**
+ * Create the map prompt that summarises a single chunk into a partial specification
+ */
+function createChunkPrompt(chunkEvent: ChunkProcessingEvent, chunkContent: string, promptContext = ''): string {
+  const { chunk } = chunkEvent;
+  const location = `lines ${chunk.startLine}-${chunk.endLine}${chunk.label ? `, starting at "${chunk.label}"` : ''}`;
+
+  return withPromptContext(`You are documenting part ${chunk.index + 1} of ${chunk.total} of a larger file. Generate a partial technical specification in markdown format covering only this part; it will later be merged with the partial specifications of the other parts.
 
-The specification should include:
-1. **Overview** - A clear summary of what the content describes
-2. **Requirements** - Functional and non-functional requirements extracted from the content
-3. **Technical Details** - Any technical specifications, architecture, or implementation details
-4. **Additional Sections** - Any other relevant sections based on the content type
+The partial specification should include:
+1. **Summary** - What this part of the file is responsible for
+2. **Components** - Each class, function, procedure, label or section in this part and its responsibility
+3. **Requirements and Behaviour** - Business rules, validations, calculations and error handling found here
+4. **Data and Interfaces** - Inputs, outputs, data structures, files, tables and external calls
+5. **Cross-References** - Anything this part uses or references that is defined elsewhere in the file
 
 Guidelines:
 - Use proper markdown formatting with headers, lists, and code blocks where appropriate
-- Be comprehensive but concise
-- Preserve important technical details and requirements
-- Structure the information logically
-- If the content is incomplete or unclear, note what additional information would be needed
+- Name components exactly as they appear in the source so the parts can be merged reliably
+- Do not speculate about code outside this part; list it under Cross-References instead
 
-Original file: ${fileEvent.key}
-File type: ${fileEvent.fileType}
-Content length: ${fileEvent.content.length} characters
+Original file: ${chunkEvent.key}
+File type: ${chunkEvent.fileType}
+Part: ${chunk.index + 1} of ${chunk.total} (${location})
 
 Content to process:
 ---
-${fileEvent.content}
+${chunkContent}
 ---
 
-Generate the specification document:`;
+Generate the partial specification:`, promptContext);
+}
+
+/**
+ * Create the reduce prompt: the file's template applied to the partial specifications,
+ * prefixed with instructions to merge them into one document
+ */
+function createReducePrompt(
+  reduceEvent: ReduceProcessingEvent,
+  partialSpecifications: string[],
+  template: PromptTemplate,
+  promptContext = ''
+): string {
+  const sections = partialSpecifications.map((partial, index) => {
+    const chunk = reduceEvent.chunks[index];
+    const location = chunk ? ` (lines ${chunk.startLine}-${chunk.endLine}${chunk.label ? `, "${chunk.label}"` : ''})` : '';
+    return `=== Part ${index + 1} of ${partialSpecifications.length}${location} ===\n${partial}`;
+  }).join('\n\n');
+
+  const variables = createPromptTemplateVariables(reduceEvent.key, reduceEvent.fileType, sections);
+
+  return withPromptContext(`The content below is not the original file: it is ${partialSpecifications.length} partial specifications generated independently from consecutive parts of ${reduceEvent.key}. Merge them into one coherent document following the instructions below.
+- Produce one document, not a list of parts
+- Merge duplicated components and requirements, and resolve cross-references between parts
+- Preserve important technical details from every part
+- Note any cross-references that no part defines as open questions
 
-  return basePrompt;
+${renderPromptTemplate(template, variables)}`, promptContext);
 }
 
 /**
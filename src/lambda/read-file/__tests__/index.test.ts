@@ -0,0 +1,185 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { S3 } from 'aws-sdk';
+import { Context } from 'aws-lambda';
+import { handler } from '../index';
+import { FileProcessingEvent, ProcessingError, ProjectProcessingEvent } from '../../../shared/types';
+import { S3_CONFIG } from '../../../shared/constants';
+
+const readFixture = (kind: string, name: string): Buffer =>
+  readFileSync(join(__dirname, '..', '..', '..', 'shared', '__tests__', 'fixtures', kind, name));
+
+describe('ReadFileFunction', () => {
+  const mockContext: Context = {
+    awsRequestId: 'test-request-id',
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'test-arn',
+    memoryLimitInMB: '128',
+    getRemainingTimeInMillis: () => 30000,
+    callbackWaitsForEmptyEventLoop: false,
+    logGroupName: 'test-log-group',
+    logStreamName: 'test-log-stream',
+    succeed: jest.fn(),
+    fail: jest.fn(),
+    done: jest.fn(),
+  };
+
+  const s3Event = (key: string, size = 1024) => ({
+    bucket: 'test-input-bucket',
+    key,
+    size,
+    etag: 'test-etag',
+    eventTime: '2024-05-01T12:00:00Z',
+    eventName: 'Object Created',
+    executionName: 'test-execution'
+  });
+
+  // Narrow a handler result to a single-file or project event
+  const fileOf = (result: FileProcessingEvent | ProjectProcessingEvent | ProcessingError): FileProcessingEvent => {
+    if ('errorType' in result || 'project' in result) {
+      throw new Error(`Expected a file event, got ${JSON.stringify(result)}`);
+    }
+    return result;
+  };
+  const projectOf = (result: FileProcessingEvent | ProjectProcessingEvent | ProcessingError): ProjectProcessingEvent => {
+    if (!('project' in result)) {
+      throw new Error(`Expected a project event, got ${JSON.stringify(result)}`);
+    }
+    return result;
+  };
+
+  // S3 client created by the handler module (aws-sdk is mocked in test/setup.ts)
+  const s3 = (S3 as unknown as jest.Mock).mock.results[0].value;
+  const objects = new Map<string, Buffer>();
+  const staged = new Map<string, string>();
+
+  beforeEach(() => {
+    s3.getObject.mockImplementation((params: { Key: string }) => ({
+      promise: () => objects.has(params.Key)
+        ? Promise.resolve({ Body: objects.get(params.Key) })
+        : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    }));
+    s3.putObject.mockImplementation((params: { Key: string; Body: Buffer | string }) => {
+      staged.set(params.Key, String(params.Body));
+      return { promise: () => Promise.resolve({}) };
+    });
+  });
+
+  afterEach(() => {
+    objects.clear();
+    staged.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should pass small content inline with the page counts of a PDF', async () => {
+    objects.set('docs/multi-page.pdf', readFixture('pdf', 'multi-page.pdf'));
+
+    const result = fileOf(await handler(s3Event('docs/multi-page.pdf'), mockContext));
+
+    expect(result).toMatchObject({ key: 'docs/multi-page.pdf', fileType: 'pdf', jobId: 'test-execution', pageCount: 3 });
+    expect(result.content).toContain('[Page 2 of 3]\nSecond page body');
+    expect(result.pages).toEqual([
+      { pageNumber: 1, characterCount: 18 },
+      { pageNumber: 2, characterCount: 16 },
+      { pageNumber: 3, characterCount: 18 },
+    ]);
+    expect(result.contentReference).toBeUndefined();
+    expect(s3.putObject).not.toHaveBeenCalled();
+  });
+
+  it('should stage content above the payload limit and pass it by reference', async () => {
+    const paragraph = 'Orders are validated against the customer account before they are queued for fulfilment.\n\n';
+    const body = Buffer.from(paragraph.repeat(Math.ceil(S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT / paragraph.length) + 1));
+    objects.set('docs/orders.md', body);
+
+    const result = fileOf(await handler(s3Event('docs/orders.md', body.length), mockContext));
+
+    expect(result.content).toBeUndefined();
+    expect(result.contentReference?.key).toMatch(new RegExp(`^${S3_CONFIG.WORKING_PREFIX}`));
+    expect(staged.get(result.contentReference?.key || '')).toContain(paragraph.trim());
+  });
+
+  it('should convert DOCX and RTF documents to text', async () => {
+    objects.set('docs/order-service.docx', readFixture('docx', 'structure.docx'));
+    objects.set('docs/requirements.rtf', readFixture('rtf', 'paragraphs.rtf'));
+
+    const docx = fileOf(await handler(s3Event('docs/order-service.docx'), mockContext));
+    const rtf = fileOf(await handler(s3Event('docs/requirements.rtf'), mockContext));
+
+    expect(docx.content).toContain('# Order Service\n\nOrders are **validated** before they are persisted & queued.');
+    expect(rtf.content).toContain('Order Service Requirements\n\nThe service must accept orders from the web channel.');
+  });
+
+  it('should return the extractor error for an encrypted PDF', async () => {
+    objects.set('docs/encrypted.pdf', readFixture('pdf', 'encrypted.pdf'));
+
+    const result = await handler(s3Event('docs/encrypted.pdf'), mockContext);
+
+    expect(result).toMatchObject({
+      errorType: 'PDF_ENCRYPTED',
+      originalFile: 'docs/encrypted.pdf',
+      details: { retryable: false }
+    });
+  });
+
+  it('should reject a legacy Word document by its magic bytes', async () => {
+    objects.set('docs/legacy.doc', readFixture('docx', 'legacy.doc'));
+
+    const result = await handler(s3Event('docs/legacy.doc'), mockContext);
+
+    expect(result).toMatchObject({
+      errorType: 'LEGACY_DOC_FORMAT',
+      originalFile: 'docs/legacy.doc',
+      details: { detectedFormat: 'OLE2 compound document', retryable: false }
+    });
+  });
+
+  it('should fan a manifest project out to one staged event per readable file', async () => {
+    const members: Record<string, Buffer> = {
+      'manual.pdf': readFixture('pdf', 'multi-page.pdf'),
+      'design/order-service.docx': readFixture('docx', 'structure.docx'),
+      'requirements.rtf': readFixture('rtf', 'paragraphs.rtf'),
+      'locked.pdf': readFixture('pdf', 'encrypted.pdf'),
+      'old.doc': readFixture('docx', 'legacy.doc')
+    };
+    objects.set('projects/orders/_manifest.json', Buffer.from(JSON.stringify({ name: 'Orders' })));
+    Object.entries(members).forEach(([path, body]) => objects.set(`projects/orders/${path}`, body));
+    s3.listObjectsV2.mockReturnValue({
+      promise: () => Promise.resolve({
+        Contents: ['_manifest.json', ...Object.keys(members)].map(path => ({ Key: `projects/orders/${path}`, Size: 1024 }))
+      })
+    });
+
+    const result = projectOf(await handler(s3Event('projects/orders/_manifest.json'), mockContext));
+
+    expect(result.project.name).toBe('Orders');
+    expect(result.project.files.map(file => [file.projectPath, file.fileType])).toEqual([
+      ['manual.pdf', 'pdf'],
+      ['design/order-service.docx', 'docx'],
+      ['requirements.rtf', 'rtf']
+    ]);
+    expect(result.project.skippedFiles).toEqual([
+      { path: 'locked.pdf', reason: 'PDF is encrypted or password protected and its text cannot be extracted' },
+      { path: 'old.doc', reason: 'Unsupported file format' }
+    ]);
+
+    const [manual] = result.project.files;
+    expect(manual).toMatchObject({
+      key: 'projects/orders/manual.pdf',
+      projectKey: 'projects/orders/_manifest.json',
+      jobId: 'test-execution',
+      pageCount: 3,
+      pages: [
+        { pageNumber: 1, characterCount: 18 },
+        { pageNumber: 2, characterCount: 16 },
+        { pageNumber: 3, characterCount: 18 }
+      ],
+      dependencyGraphReference: result.project.dependencyGraphReference
+    });
+    result.project.files.forEach(file => {
+      expect(file.content).toBeUndefined();
+      expect(staged.has(file.contentReference?.key || '')).toBe(true);
+    });
+  });
+});
@@ -1,9 +1,15 @@
 import { Context } from 'aws-lambda';
 import { S3 } from 'aws-sdk';
-import { FileProcessingEvent, ProcessingError } from '../../shared/types';
+import {
+  FileProcessingEvent,
+  PageCharacterCount,
+  PayloadReference,
+  ProcessingError,
+  ProjectProcessingEvent,
+  ProjectSkippedFile
+} from '../../shared/types';
 import {
   validateFileSize,
-  isSupportedFileFormat,
   createProcessingError,
   logInfo,
   logError,
@@ -12,9 +18,30 @@ import {
   createXRaySubsegment,
   addXRayAnnotations,
   addXRayMetadata,
-  getFileExtension
+  getFileExtension,
+  getFileType
 } from '../../shared/utils';
-import { S3_CONFIG, ERROR_MESSAGES, SUPPORTED_FILE_FORMATS, CONTENT_VALIDATION } from '../../shared/constants';
+import { S3_CONFIG, ERROR_MESSAGES, CONTENT_VALIDATION, PROJECT_CONFIG } from '../../shared/constants';
+import { FileFormat, getFileFormat, getSupportedFileFormats, isProjectFormat } from '../../shared/file-formats';
+import { extractPdfText } from '../../shared/pdf-extractor';
+import { extractDocxMarkdown } from '../../shared/docx-extractor';
+import { extractRtfText } from '../../shared/rtf-parser';
+import { exceedsInlineLimit, stagePayload } from '../../shared/payload-store';
+import { splitIntoChunks } from '../../shared/chunking';
+import { decodeEbcdic, isLikelyEbcdic } from '../../shared/ebcdic';
+import { normalizeSourceContent } from '../../shared/source-normalizers';
+import {
+  getManifestMemberPrefix,
+  getProjectName,
+  listArchiveMembers,
+  normalizeProjectPath,
+  parseProjectManifest,
+  ProjectManifest,
+  ProjectMember
+} from '../../shared/project-archive';
+import { buildDependencyGraph, DependencySource } from '../../shared/dependency-graph';
+import { extractCodeOutline } from '../../shared/code-outline';
+import { createJob, markJobFailed, resolveJobId, updateJobStatus } from '../../shared/job-repository';
 
 const s3 = new S3();
 
@@ -26,6 +53,7 @@ interface StepFunctionsS3Event {
   etag: string;
   eventTime: string;
   eventName: string;
+  executionName?: string;
 }
 
 /**
@@ -33,7 +61,46 @@ interface StepFunctionsS3Event {
  * Handles file format validation and size checking
  * Receives S3 file references from Step Functions (not file content)
  */
-export const handler = async (event: StepFunctionsS3Event, context: Context): Promise<FileProcessingEvent | ProcessingError> => {
+export const handler = async (
+  event: StepFunctionsS3Event,
+  context: Context
+): Promise<FileProcessingEvent | ProjectProcessingEvent | ProcessingError> => {
+  // Jobs are created here unless the job API already created them, so they are queued and
+  // reading in the same invocation
+  const sourceKey = event.key ? safeDecodeS3Key(event.key) : undefined;
+  const jobId = resolveJobId(sourceKey, event.executionName);
+  if (event.bucket && sourceKey) {
+    await createJob({
+      jobId,
+      sourceKey,
+      sourceBucket: event.bucket,
+      sourceEtag: event.etag,
+      queuedAt: event.eventTime,
+    });
+    await updateJobStatus(jobId, 'reading');
+  }
+
+  const result = await readFile(event, context);
+  if ('errorType' in result) {
+    await markJobFailed(jobId, result);
+    return result;
+  }
+
+  if ('project' in result) {
+    return {
+      ...result,
+      jobId,
+      project: { ...result.project, files: result.project.files.map(file => ({ ...file, jobId })) }
+    };
+  }
+
+  return { ...result, jobId };
+};
+
+async function readFile(
+  event: StepFunctionsS3Event,
+  context: Context
+): Promise<FileProcessingEvent | ProjectProcessingEvent | ProcessingError> {
   const startTime = Date.now();
   logInfo('ReadFileFunction started', { requestId: context.awsRequestId });
   logMetric('ReadFileInvocations', 1);
@@ -45,7 +112,7 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
     }
 
     const bucket = event.bucket;
-    const key = decodeURIComponent(event.key.replace(/\+/g, ' '));
+    const key = decodeS3Key(event.key);
     const size = event.size;
     const etag = event.etag;
 
@@ -53,7 +120,7 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
 
     // Add X-Ray annotations for better trace filtering
     addXRayAnnotations({
-      fileType: getFileExtension(key),
+      fileType: getFileType(key),
       fileSize: size,
       bucket: bucket,
     });
@@ -77,38 +144,31 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
       return error;
     }
 
-    // Additional check for Step Functions payload limit (256KB)
-    // Leave buffer for metadata and other state data
-    if (size > S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT) {
-      const error = createProcessingError(
-        'FILE_TOO_LARGE_FOR_STEP_FUNCTIONS',
-        `File size (${size} bytes) exceeds Step Functions payload limit. Maximum supported size is ${S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT} bytes.`,
-        key,
-        { actualSize: size, maxSize: S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT }
-      );
-      logError('File exceeds Step Functions payload limit', error);
-      return error;
-    }
-
-    // Validate file format
-    if (!isSupportedFileFormat(key)) {
-      const extension = getFileExtension(key);
+    // Validate file format (legacy formats are read so they can be identified and rejected specifically)
+    const format = getFileFormat(key);
+    if (!format) {
       const error = createProcessingError(
         'FILE_READ_ERROR',
         ERROR_MESSAGES.UNSUPPORTED_FORMAT,
         key,
         {
-          actualFormat: extension,
-          supportedFormats: SUPPORTED_FILE_FORMATS
+          actualFormat: getFileExtension(key),
+          supportedFormats: getSupportedFileFormats().flatMap(supported => supported.extensions)
         }
       );
       logError('File format validation failed', error);
       return error;
     }
 
+    // Archives and manifest prefixes fan out to one specification per file (project mode)
+    if (isProjectFormat(format)) {
+      return await readProject(bucket, key, size, etag, format);
+    }
+
     // Read file content from S3
     let fileContent: string;
     let processedContent: string;
+    let pages: PageCharacterCount[] | undefined;
     try {
       const s3Object = await createXRaySubsegment('s3-get-object', async () => {
         return s3.getObject({
@@ -121,17 +181,16 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
         throw new Error('File body is empty');
       }
 
-      const extension = getFileExtension(key);
-
-      // Process content based on file type
+      // Process content with the format's extractor
       const body = s3Object.Body as Buffer;
-      const contentResult = await processFileContent(body, extension, key);
+      const contentResult = await processFileContent(body, format, key);
       if (contentResult.error) {
         return contentResult.error;
       }
 
       fileContent = contentResult.rawContent;
       processedContent = contentResult.processedContent;
+      pages = contentResult.pages;
 
       // Validate processed content
       const validationResult = validateProcessedContent(processedContent, key);
@@ -142,7 +201,8 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
       logInfo('File content extracted and processed successfully', {
         rawContentLength: fileContent.length,
         processedContentLength: processedContent.length,
-        fileType: extension
+        fileType: format.id,
+        pageCount: pages?.length
       });
 
     } catch (s3Error) {
@@ -163,21 +223,66 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
       size,
       timestamp: new Date().toISOString(),
       etag,
-      content: processedContent,
-      fileType: getFileExtension(key)
+      fileType: format.id
     };
 
+    // Large content is split on structural boundaries and summarised chunk by chunk
+    const chunks = splitIntoChunks(processedContent, processingEvent.fileType);
+    if (chunks.length > 1) {
+      processingEvent.chunks = chunks;
+      logInfo('Content split into chunks for map-reduce processing', {
+        fileProcessed: key,
+        chunkCount: chunks.length,
+        chunkLabels: chunks.map(chunk => chunk.label).filter(Boolean)
+      });
+      logMetric('ReadFileChunkCount', chunks.length);
+    }
+
+    // Content above the Step Functions payload limit, or shared by every chunk iteration,
+    // is staged in S3 and passed by reference
+    if (processingEvent.chunks || exceedsInlineLimit(processedContent)) {
+      try {
+        processingEvent.contentReference = await createXRaySubsegment('s3-stage-payload', async () => {
+          return stagePayload(s3, bucket, processedContent, key);
+        });
+        logMetric('ReadFileContentStaged', 1);
+      } catch (stageError) {
+        const error = createProcessingError(
+          'FILE_READ_ERROR',
+          'Failed to stage extracted content for processing',
+          key,
+          stageError
+        );
+        logError('Claim-check staging failed', error);
+        return error;
+      }
+    } else {
+      processingEvent.content = processedContent;
+    }
+
+    if (pages) {
+      processingEvent.pageCount = pages.length;
+      processingEvent.pages = pages;
+    }
+
+    const outlineReference = await stageCodeOutline(bucket, key, processedContent, format.id);
+    if (outlineReference) {
+      processingEvent.outlineReference = outlineReference;
+    }
+
     // Log performance metrics
     logPerformanceMetric('ReadFile', startTime, {
       fileProcessed: key,
       contentSize: processedContent.length,
-      fileType: getFileExtension(key)
+      fileType: format.id
     });
 
     logMetric('ReadFileSuccess', 1);
     logInfo('ReadFileFunction completed successfully', {
       fileProcessed: key,
-      contentSize: processedContent.length
+      contentSize: processedContent.length,
+      contentStaged: !!processingEvent.contentReference,
+      chunkCount: processingEvent.chunks?.length || 1
     });
 
     return processingEvent;
@@ -195,72 +300,340 @@ export const handler = async (event: StepFunctionsS3Event, context: Context): Pr
     logError('ReadFileFunction failed with unexpected error', processingError);
     return processingError;
   }
-};
+}
 
 /**
- * Process file content based on file type
+ * Stage the static outline of a source file; the outline is optional, so failures are logged and ignored
+ */
+async function stageCodeOutline(
+  bucket: string,
+  key: string,
+  content: string,
+  fileType: string
+): Promise<PayloadReference | undefined> {
+  const outline = extractCodeOutline(content, fileType, key);
+  if (!outline) {
+    return undefined;
+  }
+
+  try {
+    const reference = await stagePayload(s3, bucket, JSON.stringify(outline), key);
+    logMetric('ReadFileOutlineEntries', outline.entries.length);
+    return reference;
+  } catch (stageError) {
+    logError('Code outline staging failed', createProcessingError(
+      'FILE_READ_ERROR',
+      'Failed to stage code outline',
+      key,
+      stageError
+    ));
+    return undefined;
+  }
+}
+
+/**
+ * Extract every supported file of an archive or manifest prefix and stage its content
+ * Files that cannot be read are listed as skipped; the project fails only when none is left.
+ */
+async function readProject(
+  bucket: string,
+  key: string,
+  size: number,
+  etag: string,
+  format: FileFormat
+): Promise<ProjectProcessingEvent | ProcessingError> {
+  const timestamp = new Date().toISOString();
+  const s3Object = await s3.getObject({ Bucket: bucket, Key: key }).promise();
+  const body = s3Object.Body as Buffer;
+
+  let manifest: ProjectManifest | undefined;
+  let members: ProjectMember[];
+  let skippedFiles: ProjectSkippedFile[];
+  let memberKeyPrefix: string;
+  try {
+    if (format.extractor === 'manifest') {
+      const manifestPrefix = getManifestMemberPrefix(key);
+      if (!manifestPrefix) {
+        throw new Error(`Manifest must be uploaded as ${PROJECT_CONFIG.MANIFEST_PREFIX}<name>/_manifest.json next to the project files`);
+      }
+      manifest = parseProjectManifest(body);
+      memberKeyPrefix = manifestPrefix;
+      ({ members, skippedFiles } = await listManifestMembers(bucket, memberKeyPrefix, key, manifest));
+    } else {
+      memberKeyPrefix = `${key}/`;
+      ({ members, skippedFiles } = listArchiveMembers(body, format.extractor as 'zip' | 'tar'));
+    }
+  } catch (listError) {
+    const error = createProcessingError(
+      'FILE_READ_ERROR',
+      format.extractor === 'manifest' ? 'Invalid project manifest' : 'Failed to read project archive',
+      key,
+      { error: listError instanceof Error ? listError.message : String(listError), format: format.id }
+    );
+    logError('Project listing failed', error);
+    return error;
+  }
+
+  const files: FileProcessingEvent[] = [];
+  const sources: DependencySource[] = [];
+  let totalBytes = 0;
+  for (const member of members) {
+    const memberFormat = getFileFormat(member.path);
+    const skip = (reason: string) => skippedFiles.push({ path: member.path, reason });
+
+    if (!memberFormat || memberFormat.legacy || isProjectFormat(memberFormat)) {
+      skip('Unsupported file format');
+      continue;
+    }
+    if (files.length >= PROJECT_CONFIG.MAX_FILES) {
+      skip(`Project file limit of ${PROJECT_CONFIG.MAX_FILES} reached`);
+      continue;
+    }
+    if (member.size !== undefined && !validateFileSize(member.size, S3_CONFIG.MAX_FILE_SIZE_BYTES)) {
+      skip(ERROR_MESSAGES.FILE_TOO_LARGE);
+      continue;
+    }
+
+    const memberKey = `${memberKeyPrefix}${member.path}`;
+    try {
+      const memberBody = await member.read();
+      totalBytes += memberBody.length;
+      if (totalBytes > PROJECT_CONFIG.MAX_TOTAL_BYTES) {
+        skip('Project size limit reached');
+        continue;
+      }
+
+      const contentResult = await processFileContent(memberBody, memberFormat, memberKey);
+      const contentError = contentResult.error || validateProcessedContent(contentResult.processedContent, memberKey);
+      if (contentError) {
+        skip(contentError.message);
+        continue;
+      }
+
+      const content = contentResult.processedContent;
+      const chunks = splitIntoChunks(content, memberFormat.id);
+      const outlineReference = await stageCodeOutline(bucket, memberKey, content, memberFormat.id);
+      files.push({
+        bucket,
+        key: memberKey,
+        size: memberBody.length,
+        timestamp,
+        etag,
+        fileType: memberFormat.id,
+        contentReference: await stagePayload(s3, bucket, content, memberKey),
+        ...(chunks.length > 1 ? { chunks } : {}),
+        ...(contentResult.pages ? { pageCount: contentResult.pages.length, pages: contentResult.pages } : {}),
+        ...(outlineReference ? { outlineReference } : {}),
+        projectKey: key,
+        projectPath: member.path,
+      });
+      sources.push({ path: member.path, fileType: memberFormat.id, content });
+    } catch (memberError) {
+      skip(memberError instanceof Error ? memberError.message : String(memberError));
+    }
+  }
+
+  logInfo('Project files extracted', {
+    projectKey: key,
+    fileCount: files.length,
+    skippedCount: skippedFiles.length
+  });
+  logMetric('ReadFileProjectFiles', files.length);
+
+  if (files.length === 0) {
+    const error = createProcessingError(
+      'FILE_READ_ERROR',
+      'Project contains no supported files',
+      key,
+      { skippedFiles: skippedFiles.slice(0, PROJECT_CONFIG.MAX_LISTED_SKIPPED_FILES) }
+    );
+    logError('Project has no files to process', error);
+    return error;
+  }
+
+  // Calls and imports between the files feed each file's prompt and the system-level diagram
+  const dependencyGraph = buildDependencyGraph(sources);
+  const dependencyGraphReference = await stagePayload(s3, bucket, JSON.stringify(dependencyGraph), key);
+  logInfo('Project dependency graph built', {
+    projectKey: key,
+    edgeCount: dependencyGraph.edges.length,
+    unresolvedCount: dependencyGraph.unresolved.length
+  });
+
+  return {
+    bucket,
+    key,
+    size,
+    timestamp,
+    etag,
+    fileType: format.id,
+    project: {
+      name: getProjectName(key, manifest),
+      files: files.map(file => ({ ...file, dependencyGraphReference })),
+      skippedFiles: skippedFiles.slice(0, PROJECT_CONFIG.MAX_LISTED_SKIPPED_FILES),
+      dependencyGraphReference,
+    },
+  };
+}
+
+/**
+ * Files under a manifest's prefix: the listed paths, or every object below it
+ * Staged payloads and nested manifests are never part of a project.
+ */
+async function listManifestMembers(
+  bucket: string,
+  prefix: string,
+  manifestKey: string,
+  manifest: ProjectManifest
+): Promise<{ members: ProjectMember[]; skippedFiles: ProjectSkippedFile[] }> {
+  const readObject = (memberKey: string) => async () =>
+    (await s3.getObject({ Bucket: bucket, Key: memberKey }).promise()).Body as Buffer;
+
+  if (manifest.files) {
+    const members: ProjectMember[] = [];
+    const skippedFiles: ProjectSkippedFile[] = [];
+    for (const file of manifest.files) {
+      const path = normalizeProjectPath(file);
+      if (path) {
+        members.push({ path, read: readObject(`${prefix}${path}`) });
+      } else {
+        skippedFiles.push({ path: file, reason: 'Path leaves the manifest prefix' });
+      }
+    }
+    return { members, skippedFiles };
+  }
+
+  const members: ProjectMember[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const listing = await s3.listObjectsV2({
+      Bucket: bucket,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }).promise();
+
+    for (const object of listing.Contents || []) {
+      if (!object.Key || object.Key === manifestKey || object.Key.startsWith(S3_CONFIG.WORKING_PREFIX)
+        || getFileFormat(object.Key)?.extractor === 'manifest') {
+        continue;
+      }
+      members.push({ path: object.Key.slice(prefix.length), size: object.Size, read: readObject(object.Key) });
+    }
+    continuationToken = listing.NextContinuationToken;
+  } while (continuationToken);
+
+  return { members, skippedFiles: [] };
+}
+
+/**
+ * Decode an S3 event key (URL encoded, spaces as '+')
+ */
+function decodeS3Key(key: string): string {
+  return decodeURIComponent(key.replace(/\+/g, ' '));
+}
+
+function safeDecodeS3Key(key: string): string {
+  try {
+    return decodeS3Key(key);
+  } catch {
+    return key;
+  }
+}
+
+/**
+ * Process file content with the extractor declared for its format
  */
 async function processFileContent(
   body: Buffer,
-  fileType: string,
+  format: FileFormat,
   filename: string
-): Promise<{ rawContent: string; processedContent: string; error?: ProcessingError }> {
+): Promise<{ rawContent: string; processedContent: string; pages?: PageCharacterCount[]; error?: ProcessingError }> {
 
   try {
     let rawContent: string;
     let processedContent: string;
-
-    switch (fileType) {
-      case 'txt':
-      case 'md':
-      case 'java':
-      case 'rexx':
-      case 'py':
-      case 'js':
-      case 'ts':
-        // Plain text files and source code files - direct UTF-8 conversion
-        rawContent = body.toString('utf-8');
-        processedContent = cleanTextContent(rawContent);
+    let pages: PageCharacterCount[] | undefined;
+
+    switch (format.extractor) {
+      case 'text':
+        // Plain text files and source code files - UTF-8, or EBCDIC for mainframe exports
+        if (format.ebcdic && isLikelyEbcdic(body)) {
+          rawContent = decodeEbcdic(body);
+          logInfo('EBCDIC content decoded', { filename, type: format.id, lineCount: rawContent.split('\n').length });
+          logMetric('ReadFileEbcdicDecoded', 1);
+        } else {
+          rawContent = body.toString('utf-8');
+        }
+        processedContent = cleanTextContent(normalizeSourceContent(rawContent, format.normalizer));
         break;
 
       case 'rtf':
-        // RTF files - extract plain text (basic implementation)
-        rawContent = body.toString('utf-8');
-        processedContent = extractRTFText(rawContent);
+        // RTF files - tokenize and decode to plain text paragraphs
+        rawContent = body.toString('latin1');
+        processedContent = cleanTextContent(extractRtfText(body));
         break;
 
-      case 'pdf':
-        // PDF files - for now, store as base64 and add placeholder text
-        rawContent = body.toString('base64');
-        processedContent = `[PDF Content - ${filename}]\nNote: PDF content extraction requires additional processing. File stored as base64 for downstream processing.`;
-        logInfo('PDF file detected - basic processing applied', { filename });
+      case 'pdf': {
+        // PDF files - extract page text in reading order with page boundary markers
+        const pdfResult = extractPdfText(body, filename);
+        if ('errorType' in pdfResult) {
+          logError('PDF text extraction failed', pdfResult);
+          return { rawContent: '', processedContent: '', error: pdfResult };
+        }
+        rawContent = pdfResult.text;
+        processedContent = cleanTextContent(pdfResult.text);
+        pages = pdfResult.pageCharacterCounts;
+        logInfo('PDF text extracted', {
+          filename,
+          pageCount: pdfResult.pageCount,
+          pageCharacterCounts: pages
+        });
         break;
+      }
+
+      case 'word': {
+        // Word documents - Word also saves RTF content under a .doc name
+        if (body.subarray(0, 5).toString('latin1') === '{\\rtf') {
+          rawContent = body.toString('latin1');
+          processedContent = cleanTextContent(extractRtfText(body));
+          break;
+        }
 
-      case 'doc':
-      case 'docx':
-        // DOC/DOCX files - for now, store as base64 and add placeholder text
-        rawContent = body.toString('base64');
-        processedContent = `[Document Content - ${filename}]\nNote: Document content extraction requires additional processing. File stored as base64 for downstream processing.`;
-        logInfo('Document file detected - basic processing applied', { filename, type: fileType });
+        // DOCX - convert headings, lists, tables and comments to Markdown; legacy .doc is rejected
+        const docxResult = extractDocxMarkdown(body, filename);
+        if ('errorType' in docxResult) {
+          logError('Document content extraction failed', docxResult);
+          return { rawContent: '', processedContent: '', error: docxResult };
+        }
+        rawContent = docxResult.markdown;
+        processedContent = cleanTextContent(docxResult.markdown);
+        logInfo('Document converted to Markdown', {
+          filename,
+          type: format.id,
+          headingCount: docxResult.headingCount,
+          tableCount: docxResult.tableCount,
+          commentCount: docxResult.commentCount
+        });
         break;
+      }
 
       default:
         // Fallback for unsupported formats
         const error = createProcessingError(
           'FILE_READ_ERROR',
-          `Unsupported file type for content processing: ${fileType}`,
+          `Unsupported file type for content processing: ${format.id}`,
           filename,
-          { fileType }
+          { fileType: format.id, extractor: format.extractor }
         );
         return { rawContent: '', processedContent: '', error };
     }
 
-    return { rawContent, processedContent };
+    return { rawContent, processedContent, pages };
 
   } catch (error) {
     const processingError = createProcessingError(
       'FILE_READ_ERROR',
-      `Failed to process content for file type ${fileType}`,
+      `Failed to process content for file type ${format.id}`,
       filename,
       error
     );
@@ -282,28 +655,6 @@ function cleanTextContent(content: string): string {
     .trim();
 }
 
-/**
- * Extract plain text from RTF content (basic implementation)
- */
-function extractRTFText(rtfContent: string): string {
-  try {
-    // Basic RTF text extraction - remove RTF control codes
-    let text = rtfContent
-      // Remove RTF header and control words
-      .replace(/\\[a-z]+\d*\s?/gi, '')
-      // Remove braces
-      .replace(/[{}]/g, '')
-      // Clean up whitespace
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    return cleanTextContent(text);
-  } catch (error) {
-    logError('RTF text extraction failed, returning raw content', error);
-    return rtfContent;
-  }
-}
-
 /**
  * Validate processed content meets minimum requirements
  */
@@ -1,3 +1,4 @@
+import { DynamoDB, SNS, SQS } from 'aws-sdk';
 import { handler } from '../index';
 import { Context } from 'aws-lambda';
 import { SpecificationOutput, ProcessingError } from '../../../shared/types';
@@ -11,7 +12,17 @@ jest.mock('aws-sdk', () => ({
   })),
   S3: jest.fn().mockImplementation(() => ({
     getSignedUrlPromise: jest.fn().mockResolvedValue('https://example.com/presigned-url')
-  }))
+  })),
+  SQS: jest.fn().mockImplementation(() => ({
+    sendMessage: jest.fn().mockReturnValue({
+      promise: jest.fn().mockResolvedValue({})
+    })
+  })),
+  DynamoDB: {
+    DocumentClient: jest.fn().mockImplementation(() => ({
+      update: jest.fn()
+    }))
+  }
 }));
 
 // Mock environment variables
@@ -81,6 +92,30 @@ describe('SendNotificationFunction', () => {
     expect(result.messageId).toBe('test-message-id');
   });
 
+  it('should name the model and the number of fallbacks before it', async () => {
+    const sns = (SNS as unknown as jest.Mock).mock.results[0].value;
+    const notify = async (fallbackCount: number): Promise<string> => {
+      await handler({
+        type: 'success',
+        data: {
+          originalFile: 'test-document.pdf',
+          generatedAt: '2023-10-01T12:00:00Z',
+          outputLocation: 's3://test-output-bucket/2023/10/01/test-document-20231001120000.md',
+          processingTimeSeconds: 45.2,
+          wordCount: 1250,
+          modelId: 'fallback-model',
+          fallbackCount
+        },
+        executionArn: 'arn:aws:states:us-east-1:123456789012:execution:test-state-machine:test-execution'
+      }, mockContext);
+      return sns.publish.mock.calls[sns.publish.mock.calls.length - 1][0].Message;
+    };
+
+    expect(await notify(1)).toContain('🤖 Model: fallback-model (after 1 fallback)\n');
+    expect(await notify(2)).toContain('🤖 Model: fallback-model (after 2 fallbacks)\n');
+    expect(await notify(0)).toContain('🤖 Model: fallback-model\n');
+  });
+
   it('should send failure notification', async () => {
     const failureEvent = {
       type: 'failure' as const,
@@ -98,6 +133,78 @@ describe('SendNotificationFunction', () => {
     expect(result.messageId).toBe('test-message-id');
   });
 
+  it('should add failures caught by the state machine to the catalog once per execution', async () => {
+    process.env.CATALOG_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/catalog.fifo';
+    const sqs = (SQS as unknown as jest.Mock).mock.results[0].value;
+    const failureEvent = {
+      type: 'failure' as const,
+      data: { Error: 'States.Timeout', Cause: 'Task timed out' } as unknown as ProcessingError,
+      executionName: 'test-execution',
+      sourceKey: 'docs/api.md'
+    };
+
+    // Failures without a timestamp are dated on delivery; a redelivery in the same instant must match
+    jest.useFakeTimers({ now: new Date('2023-10-01T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      await handler(failureEvent, mockContext);
+      await handler(failureEvent, mockContext);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const entries = sqs.sendMessage.mock.calls.map((call: Array<{ MessageBody: string }>) => JSON.parse(call[0].MessageBody));
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toEqual(entries[0]);
+    expect(entries[0]).toMatchObject({
+      processingId: 'failed-test-execution',
+      sourceFile: 'docs/api.md',
+      status: 'failure',
+      errorType: 'States.Timeout',
+      errorMessage: 'Task timed out',
+      generatedAt: '2023-10-01T12:00:00.000Z'
+    });
+    expect(sqs.sendMessage.mock.calls[0][0].MessageDeduplicationId).toBe('failed-test-execution');
+
+    delete process.env.CATALOG_QUEUE_URL;
+  });
+
+  it('should record the job outcome and catalog failure when the notification cannot be published', async () => {
+    process.env.JOB_TABLE_NAME = 'test-jobs';
+    process.env.CATALOG_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/catalog.fifo';
+    const sns = (SNS as unknown as jest.Mock).mock.results[0].value;
+    const sqs = (SQS as unknown as jest.Mock).mock.results[0].value;
+    const documentClient = (DynamoDB.DocumentClient as unknown as jest.Mock).mock.results[0].value;
+    documentClient.update.mockReturnValue({ promise: () => Promise.resolve({}) });
+    sns.publish.mockReturnValueOnce({
+      promise: () => Promise.reject(Object.assign(new Error('Rate exceeded'), { code: 'Throttling' }))
+    });
+    sqs.sendMessage.mockClear();
+
+    const failureEvent = {
+      type: 'failure' as const,
+      data: { Error: 'States.Timeout', Cause: 'Task timed out' } as unknown as ProcessingError,
+      executionName: 'test-execution',
+      sourceKey: 'docs/api.md'
+    };
+
+    try {
+      await expect(handler(failureEvent, mockContext)).rejects.toThrow('Rate exceeded');
+    } finally {
+      delete process.env.JOB_TABLE_NAME;
+      delete process.env.CATALOG_QUEUE_URL;
+    }
+
+    expect(documentClient.update).toHaveBeenCalledWith(expect.objectContaining({
+      Key: { jobId: 'test-execution' },
+      ExpressionAttributeValues: expect.objectContaining({ ':status': 'failed' })
+    }));
+    expect(sqs.sendMessage).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(sqs.sendMessage.mock.calls[0][0].MessageBody)).toMatchObject({
+      processingId: 'failed-test-execution',
+      status: 'failure'
+    });
+  });
+
   it('should handle missing environment variables', async () => {
     delete process.env.NOTIFICATION_TOPIC_ARN;
 
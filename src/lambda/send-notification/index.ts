@@ -1,20 +1,39 @@
 import { Context } from 'aws-lambda';
-import { SNS, S3 } from 'aws-sdk';
+import { SNS, S3, SQS } from 'aws-sdk';
 import { SpecificationOutput, ProcessingError } from '../../shared/types';
 import { 
   logInfo, 
   logError,
   logMetric
 } from '../../shared/utils';
+import { describeSpecificationChanges } from '../../shared/specification-diff';
+import { markJobFailed, resolveJobId, updateJobStatus } from '../../shared/job-repository';
+import { generatePresignedUrl } from '../../shared/presigned-urls';
+import { describeSupportedFileFormats } from '../../shared/file-formats';
+import { REVIEW_CONFIG } from '../../shared/constants';
+import { createFailedCatalogEntry, queueCatalogEntry } from '../../shared/catalog';
 
 const sns = new SNS();
 const s3 = new S3();
+const sqs = new SQS();
+
+const MAX_LISTED_SECTIONS = 10;
+const MAX_LISTED_FAILED_FILES = 10;
+const MAX_LISTED_MISSING_ENTRIES = 10;
+const MAX_LISTED_HALLUCINATIONS = 5;
+
+// Error caught by a Step Functions Catch (a Lambda threw instead of returning a ProcessingError)
+interface StepFunctionsError {
+  Error?: string;
+  Cause?: string;
+}
 
 interface NotificationEvent {
   type: 'success' | 'failure';
   data: SpecificationOutput | ProcessingError;
   executionArn?: string;
   executionName?: string;
+  sourceKey?: string; // Key from the execution input, used to resolve the job id
 }
 
 /**
@@ -42,7 +61,9 @@ export const handler = async (
 
     if (event.type === 'success') {
       const successData = event.data as SpecificationOutput;
-      subject = `✅ S3 Spec Generator - Processing Complete`;
+      subject = successData.truncated
+        ? `⚠️ S3 Spec Generator - Processing Complete (Specification Truncated)`
+        : `✅ S3 Spec Generator - Processing Complete`;
       message = await createSuccessMessage(successData, event.executionArn);
       logMetric('SuccessNotifications', 1);
     } else {
@@ -94,9 +115,46 @@ export const handler = async (
 
     // Re-throw to allow Step Functions to handle the error
     throw error;
+  } finally {
+    // The execution is over whether or not the notification went out; both helpers are best-effort
+    await recordJobOutcome(event);
+    await recordCatalogFailure(event);
   }
 };
 
+/**
+ * Record the final job status
+ */
+async function recordJobOutcome(event: NotificationEvent): Promise<void> {
+  const jobId = resolveJobId(event.sourceKey, event.executionName);
+  if (event.type === 'success' && !('errorType' in event.data)) {
+    await updateJobStatus(jobId, 'notified');
+    return;
+  }
+
+  // Errors returned by a Lambda were already recorded; Catch errors are recorded here
+  const data = event.data as ProcessingError | StepFunctionsError;
+  await markJobFailed(jobId, 'errorType' in data
+    ? data
+    : { errorType: data.Error, message: data.Cause });
+}
+
+/**
+ * Add failures caught by the state machine to the output catalog
+ * Uses the same execution-derived id as WriteSpecificationFunction, so a failure is listed once
+ */
+async function recordCatalogFailure(event: NotificationEvent): Promise<void> {
+  if (event.type !== 'failure') {
+    return;
+  }
+
+  const data = event.data as ProcessingError | StepFunctionsError;
+  const failure = 'errorType' in data
+    ? { ...data, originalFile: data.originalFile || event.sourceKey }
+    : { errorType: data.Error, message: data.Cause, originalFile: event.sourceKey };
+  await queueCatalogEntry(sqs, createFailedCatalogEntry(failure, event.executionName));
+}
+
 /**
  * Create success notification message with detailed information and pre-signed URL
  */
@@ -108,7 +166,7 @@ async function createSuccessMessage(data: SpecificationOutput, executionArn?: st
   try {
     const outputBucketName = process.env.OUTPUT_BUCKET_NAME;
     if (outputBucketName && data.outputLocation) {
-      const presignedUrl = await generatePresignedUrl(outputBucketName, data.outputLocation);
+      const presignedUrl = await generatePresignedUrl(s3, outputBucketName, data.outputLocation);
       downloadUrl = presignedUrl;
       logInfo('Pre-signed URL generated successfully', { 
         outputLocation: data.outputLocation,
@@ -123,16 +181,27 @@ async function createSuccessMessage(data: SpecificationOutput, executionArn?: st
     downloadUrl = `Failed to generate download link. Please access via AWS Console: ${data.outputLocation}`;
   }
   
+  const truncationWarning = data.truncated
+    ? `
+⚠️  WARNING: The specification is incomplete. The model reached its output limit and was still
+    truncated after ${data.continuationCount ?? 0} continuation requests. Review the end of the document.
+`
+    : '';
+
   return `
 🎉 Specification Generation Completed Successfully!
-
+${truncationWarning}
 📄 Original File: ${data.originalFile}
 📝 Generated Specification: ${data.outputLocation}
-⏱️  Processing Time: ${data.processingTimeSeconds} seconds
+${data.structuredOutputLocation ? `🧾 Structured Specification (JSON): ${data.structuredOutputLocation}\n` : ''}\
+${data.diffLocation ? `🔀 Changes Since Previous Version: ${data.diffLocation}\n` : ''}\
+${(data.outputLocations || []).filter(output => !['markdown', 'json', 'diff', 'index', 'outline', 'review'].includes(output.format))
+  .map(output => `📎 ${output.format.toUpperCase()} Rendering: ${output.location}\n`).join('')}⏱️  Processing Time: ${data.processingTimeSeconds} seconds
 📊 Word Count: ${data.wordCount || 'N/A'}
 🔤 File Type: ${data.fileType || 'N/A'}
-
-💰 Token Usage:
+🤖 Model: ${data.modelId || 'N/A'}${data.fallbackCount ? ` (after ${data.fallbackCount} ${data.fallbackCount === 1 ? 'fallback' : 'fallbacks'})` : ''}
+${data.cacheHit ? '♻️  Cache Hit: reused a cached specification for identical content; no tokens were spent\n' : ''}
+${createReviewSummary(data)}${createCoverageSummary(data)}${createProjectSummary(data)}${createChangeSummary(data)}💰 Token Usage:
    • Input Tokens: ${data.inputTokens || 'N/A'}
    • Output Tokens: ${data.outputTokens || 'N/A'}
 
@@ -152,6 +221,85 @@ The specification document has been successfully generated and is ready for down
 `.trim();
 }
 
+/**
+ * Review gate outcome; empty when the specification was not reviewed
+ */
+function createReviewSummary(data: SpecificationOutput): string {
+  const review = data.review;
+  if (!review) {
+    return '';
+  }
+
+  const status = review.needsReview
+    ? `⚠️  NEEDS REVIEW: still below the threshold of ${review.threshold}${review.regenerated ? ' after regeneration' : ''}; written under ${REVIEW_CONFIG.NEEDS_REVIEW_PREFIX}`
+    : review.regenerated ? 'passed after regeneration with the reviewer feedback' : 'passed';
+  const hallucinations = review.hallucinations.slice(0, MAX_LISTED_HALLUCINATIONS)
+    .map(flag => `   • Unsupported: ${flag.claim}\n`).join('');
+
+  return `🧐 Review: ${status}
+   • Faithfulness ${review.faithfulness}/5, completeness ${review.completeness}/5, clarity ${review.clarity}/5, ${review.hallucinations.length} hallucination flags
+${hallucinations}
+`;
+}
+
+/**
+ * Coverage of the code outline; empty for files without one
+ */
+function createCoverageSummary(data: SpecificationOutput): string {
+  const coverage = data.coverage;
+  if (!coverage) {
+    return '';
+  }
+
+  const status = coverage.percentage >= coverage.threshold ? '' : ` ⚠️  below the ${coverage.threshold}% threshold`;
+  const missing = coverage.missing.length > 0
+    ? `   • Not documented: ${coverage.missing.slice(0, MAX_LISTED_MISSING_ENTRIES).join('; ')}${coverage.totalCount - coverage.documentedCount > MAX_LISTED_MISSING_ENTRIES ? `; and ${coverage.totalCount - coverage.documentedCount - MAX_LISTED_MISSING_ENTRIES} more` : ''}\n`
+    : '';
+
+  return `🧭 Coverage: ${coverage.percentage}% (${coverage.documentedCount} of ${coverage.totalCount} public definitions documented)${status}
+${coverage.followUp ? `   • A follow-up prompt was sent for the missing definitions${coverage.followUpModelId ? ` and answered by ${coverage.followUpModelId}` : ''}\n` : ''}${missing}
+`;
+}
+
+/**
+ * Spec bundle block for projects; empty for single-file uploads
+ */
+function createProjectSummary(data: SpecificationOutput): string {
+  const bundle = data.bundle;
+  if (!bundle) {
+    return '';
+  }
+
+  const failedFiles = bundle.failedFiles.length > 0
+    ? `   • Failed: ${bundle.failedFiles.slice(0, MAX_LISTED_FAILED_FILES).map(file => file.path).join('; ')}${bundle.failedFiles.length > MAX_LISTED_FAILED_FILES ? `; and ${bundle.failedFiles.length - MAX_LISTED_FAILED_FILES} more` : ''}\n`
+    : '';
+
+  return `🗂️  Project: ${bundle.name}
+   • Index: ${bundle.indexLocation}
+   • Files: ${bundle.files.length} specified, ${bundle.failedFiles.length} failed, ${bundle.skippedFiles.length} skipped
+${failedFiles}
+`;
+}
+
+/**
+ * "What changed" block for regenerated specifications; empty for the first version of a source
+ */
+function createChangeSummary(data: SpecificationOutput): string {
+  const summary = data.changeSummary;
+  if (!summary) {
+    return '';
+  }
+
+  const listSections = (label: string, sections: string[]): string => sections.length > 0
+    ? `   • ${label}: ${sections.slice(0, MAX_LISTED_SECTIONS).join('; ')}${sections.length > MAX_LISTED_SECTIONS ? `; and ${sections.length - MAX_LISTED_SECTIONS} more` : ''}\n`
+    : '';
+
+  return `🔀 What Changed (since ${summary.previousGeneratedAt}):
+   • ${describeSpecificationChanges(summary)}, ${summary.unchangedSectionCount} unchanged
+${listSections('Changed', summary.changedSections)}${listSections('Added', summary.addedSections)}${listSections('Removed', summary.removedSections)}
+`;
+}
+
 /**
  * Create failure notification message with error details
  */
@@ -172,7 +320,7 @@ function createFailureMessage(data: ProcessingError, executionArn?: string): str
 
 🛠️ Troubleshooting:
    • Check CloudWatch logs for detailed error information
-   • Verify file format is supported (txt, pdf, doc, docx, md, rtf)
+   • Verify file format is supported: ${describeSupportedFileFormats()}
    • Ensure file size is under 10MB
    • Check AWS service quotas and permissions
 
@@ -199,73 +347,3 @@ function extractExecutionId(executionArn: string): string {
   const parts = executionArn.split(':');
   return parts[parts.length - 1] || 'unknown';
 }
-
-/**
- * Generate a pre-signed URL for downloading the specification file
- */
-async function generatePresignedUrl(bucketName: string, keyOrUri: string): Promise<string> {
-  // Extract the key from S3 URI if provided in s3://bucket/key format
-  const key = extractS3KeyFromUri(keyOrUri, bucketName);
-  
-  const params = {
-    Bucket: bucketName,
-    Key: key,
-    Expires: 24 * 60 * 60, // 24 hours in seconds
-    ResponseContentDisposition: `attachment; filename="${extractFilenameFromKey(key)}"`,
-    ResponseContentType: 'text/markdown',
-  };
-
-  try {
-    const url = await s3.getSignedUrlPromise('getObject', params);
-    logInfo('Pre-signed URL generated', {
-      bucketName,
-      originalInput: keyOrUri,
-      extractedKey: key,
-      urlGenerated: true
-    });
-    return url;
-  } catch (error) {
-    logError('Failed to generate pre-signed URL', {
-      bucketName,
-      originalInput: keyOrUri,
-      extractedKey: key,
-      error: error instanceof Error ? error.message : String(error)
-    });
-    throw error;
-  }
-}
-
-/**
- * Extract S3 key from URI or return as-is if already a key
- */
-function extractS3KeyFromUri(keyOrUri: string, expectedBucket: string): string {
-  // Check if it's an S3 URI (s3://bucket/key format)
-  if (keyOrUri.startsWith('s3://')) {
-    const uriParts = keyOrUri.replace('s3://', '').split('/');
-    const bucket = uriParts[0];
-    const key = uriParts.slice(1).join('/');
-    
-    // Validate that the bucket matches what we expect
-    if (bucket !== expectedBucket) {
-      logError('S3 URI bucket mismatch', {
-        expectedBucket,
-        actualBucket: bucket,
-        fullUri: keyOrUri
-      });
-      throw new Error(`S3 URI bucket mismatch: expected ${expectedBucket}, got ${bucket}`);
-    }
-    
-    return key;
-  }
-  
-  // If it doesn't start with s3://, assume it's already a key
-  return keyOrUri;
-}
-
-/**
- * Extract filename from S3 key path
- */
-function extractFilenameFromKey(key: string): string {
-  const parts = key.split('/');
-  return parts[parts.length - 1] || 'specification.md';
-}
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { S3 } from 'aws-sdk';
+import { Context, SQSEvent } from 'aws-lambda';
+import { handler } from '../index';
+import { CatalogEntry } from '../../../shared/catalog';
+
+// The part of a putObject request the assertions read
+interface WrittenObject {
+  Key: string;
+  Body: string;
+  ContentType?: string;
+}
+
+describe('UpdateCatalogFunction', () => {
+  const mockContext: Context = {
+    awsRequestId: 'test-request-id',
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'test-arn',
+    memoryLimitInMB: '128',
+    getRemainingTimeInMillis: () => 30000,
+    callbackWaitsForEmptyEventLoop: false,
+    logGroupName: 'test-log-group',
+    logStreamName: 'test-log-stream',
+    succeed: jest.fn(),
+    fail: jest.fn(),
+    done: jest.fn(),
+  };
+
+  const entry = (processingId: string, generatedAt: string, overrides: Partial<CatalogEntry> = {}): CatalogEntry => ({
+    processingId,
+    sourceFile: `docs/${processingId}.md`,
+    status: 'success',
+    generatedAt,
+    outputLocation: `s3://test-output-bucket/2024/05/01/${processingId}.md`,
+    fileType: 'md',
+    wordCount: 100,
+    modelId: 'test-model',
+    truncated: false,
+    ...overrides
+  });
+
+  const sqsEvent = (entries: CatalogEntry[]): SQSEvent => ({
+    Records: entries.map(catalogEntry => ({ body: JSON.stringify(catalogEntry) }))
+  } as unknown as SQSEvent);
+
+  // S3 client created by the handler module (aws-sdk is mocked in test/setup.ts)
+  const s3 = (S3 as unknown as jest.Mock).mock.results[0].value;
+  const written = (key: string): WrittenObject => {
+    const objects = new Map<string, WrittenObject>(
+      s3.putObject.mock.calls.map(([params]: [WrittenObject]) => [params.Key, params])
+    );
+    const object = objects.get(key);
+    if (!object) {
+      throw new Error(`Expected ${key} to be written`);
+    }
+    return object;
+  };
+
+  beforeEach(() => {
+    s3.putObject.mockReturnValue({ promise: () => Promise.resolve({}) });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add entries to their daily manifest, the rolling index and index.html', async () => {
+    const existingIndex = { updatedAt: '2024-04-30T00:00:00Z', entryCount: 1, entries: [entry('old', '2024-04-30T09:00:00Z')] };
+    s3.getObject.mockImplementation((params: { Key: string }) => ({
+      promise: () => params.Key === 'catalog/index.json'
+        ? Promise.resolve({ Body: JSON.stringify(existingIndex) })
+        : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    }));
+
+    await handler(sqsEvent([
+      entry('first', '2024-05-01T10:00:00Z'),
+      entry('failed', '2024-05-02T08:00:00Z', { status: 'failure', outputLocation: undefined, errorMessage: 'Model <unavailable>' })
+    ]), mockContext);
+
+    expect(JSON.parse(written('catalog/daily/2024-05-01.json').Body).entries.map((e: CatalogEntry) => e.processingId))
+      .toEqual(['first']);
+    expect(JSON.parse(written('catalog/daily/2024-05-02.json').Body).entries.map((e: CatalogEntry) => e.processingId))
+      .toEqual(['failed']);
+    expect(JSON.parse(written('catalog/index.json').Body).entries.map((e: CatalogEntry) => e.processingId))
+      .toEqual(['failed', 'first', 'old']);
+
+    const html = written('catalog/index.html');
+    expect(html.ContentType).toBe('text/html; charset=utf-8');
+    expect(html.Body).toContain('<a href="../2024/05/01/first.md">2024/05/01/first.md</a>');
+    expect(html.Body).toContain('Model &lt;unavailable&gt;');
+  });
+
+  it('should not duplicate redelivered entries', async () => {
+    const existingDay = { updatedAt: '2024-05-01T10:00:01Z', entryCount: 1, entries: [entry('first', '2024-05-01T10:00:00Z')] };
+    s3.getObject.mockReturnValue({ promise: () => Promise.resolve({ Body: JSON.stringify(existingDay) }) });
+
+    await handler(sqsEvent([entry('first', '2024-05-01T10:00:00Z')]), mockContext);
+
+    expect(JSON.parse(written('catalog/daily/2024-05-01.json').Body).entryCount).toBe(1);
+  });
+
+  it('should throw so SQS redelivers the batch when S3 fails', async () => {
+    s3.getObject.mockReturnValue({ promise: () => Promise.reject(Object.assign(new Error('Slow down'), { code: 'SlowDown' })) });
+
+    await expect(handler(sqsEvent([entry('first', '2024-05-01T10:00:00Z')]), mockContext)).rejects.toThrow('Slow down');
+    expect(s3.putObject).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { Context, SQSEvent } from 'aws-lambda';
+import { S3 } from 'aws-sdk';
+import {
+  CatalogEntry,
+  CatalogManifest,
+  getDailyCatalogKey,
+  mergeCatalogEntries,
+  renderCatalogHtml
+} from '../../shared/catalog';
+import { CATALOG_CONFIG } from '../../shared/constants';
+import {
+  logInfo,
+  logError,
+  logMetric,
+  logPerformanceMetric
+} from '../../shared/utils';
+
+const s3 = new S3();
+
+/**
+ * Lambda function to apply catalog entries from the FIFO catalog queue
+ * Updates the daily manifests, the rolling index.json and index.html in the output bucket.
+ * Failures are thrown so SQS redelivers the whole batch; merging is idempotent per processing id.
+ */
+export const handler = async (event: SQSEvent, context: Context): Promise<void> => {
+  const startTime = Date.now();
+  logInfo('UpdateCatalogFunction started', { requestId: context.awsRequestId, messageCount: event.Records.length });
+  logMetric('UpdateCatalogInvocations', 1);
+
+  const outputBucket = process.env.OUTPUT_BUCKET_NAME;
+  if (!outputBucket) {
+    throw new Error('OUTPUT_BUCKET_NAME environment variable not set');
+  }
+
+  try {
+    const entries: CatalogEntry[] = event.Records.map(record => JSON.parse(record.body));
+
+    // Group entries by the day they were generated
+    const entriesByDay = new Map<string, CatalogEntry[]>();
+    for (const entry of entries) {
+      const key = getDailyCatalogKey(entry);
+      entriesByDay.set(key, [...(entriesByDay.get(key) || []), entry]);
+    }
+
+    for (const [key, dayEntries] of entriesByDay) {
+      const manifest = mergeCatalogEntries(await getCatalogManifest(outputBucket, key), dayEntries);
+      await putCatalogObject(outputBucket, key, JSON.stringify(manifest, null, 2), 'application/json');
+    }
+
+    const index = mergeCatalogEntries(
+      await getCatalogManifest(outputBucket, CATALOG_CONFIG.INDEX_KEY),
+      entries,
+      CATALOG_CONFIG.INDEX_MAX_ENTRIES
+    );
+    await putCatalogObject(outputBucket, CATALOG_CONFIG.INDEX_KEY, JSON.stringify(index, null, 2), 'application/json');
+    await putCatalogObject(outputBucket, CATALOG_CONFIG.INDEX_HTML_KEY, renderCatalogHtml(index), 'text/html; charset=utf-8');
+
+    logMetric('CatalogEntriesApplied', entries.length);
+    logPerformanceMetric('UpdateCatalog', startTime, { entryCount: entries.length, days: entriesByDay.size });
+
+  } catch (error) {
+    logMetric('UpdateCatalogErrors', 1);
+    logError('UpdateCatalogFunction failed', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+};
+
+/**
+ * Load a catalog manifest; undefined when it does not exist yet
+ */
+async function getCatalogManifest(bucket: string, key: string): Promise<CatalogManifest | undefined> {
+  try {
+    const s3Object = await s3.getObject({ Bucket: bucket, Key: key }).promise();
+    return JSON.parse(String(s3Object.Body));
+  } catch (error) {
+    if ((error as { code?: string }).code === 'NoSuchKey') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function putCatalogObject(bucket: string, key: string, body: string, contentType: string): Promise<void> {
+  await s3.putObject({
+    Bucket: bucket,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+    ServerSideEncryption: 'AES256',
+  }).promise();
+}
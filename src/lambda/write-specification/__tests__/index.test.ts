@@ -0,0 +1,388 @@
+import { DynamoDB, S3, SQS } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { handler, WriteSpecificationEvent, WriteSpecificationInput } from '../index';
+import { Context } from 'aws-lambda';
+import { parseSpecificationFrontMatter } from '../../../shared/front-matter';
+import { ProcessingError, SpecificationOutput } from '../../../shared/types';
+
+// The part of a putObject request the assertions read
+interface PutObjectParams {
+  Key: string;
+  Body: string;
+  Metadata?: S3.Metadata;
+}
+
+describe('WriteSpecificationFunction', () => {
+  const mockContext: Context = {
+    awsRequestId: 'test-request-id',
+    functionName: 'test-function',
+    functionVersion: '1',
+    invokedFunctionArn: 'test-arn',
+    memoryLimitInMB: '128',
+    getRemainingTimeInMillis: () => 30000,
+    callbackWaitsForEmptyEventLoop: false,
+    logGroupName: 'test-log-group',
+    logStreamName: 'test-log-stream',
+    succeed: jest.fn(),
+    fail: jest.fn(),
+    done: jest.fn(),
+  };
+
+  const executionId = 'arn:aws:states:us-east-1:123456789012:execution:spec-generator-workflow-test:run-2';
+
+  const input: WriteSpecificationInput = {
+    generatedSpecification: '# Payments\n\n## Validation\n\n- Reject amounts above the daily limit\n',
+    metadata: {
+      originalFile: 'docs/payments.md',
+      originalBucket: 'test-input-bucket',
+      originalEtag: 'etag-2',
+      fileType: 'md',
+      processingTimeSeconds: 3.5,
+      inputTokens: 400,
+      outputTokens: 120,
+      promptTemplateId: 'markdown-prd',
+      promptTemplateVersion: '1',
+      modelId: 'test-model',
+      timestamp: '2024-05-02T12:00:00Z'
+    }
+  };
+  const event: WriteSpecificationEvent = { data: input, executionId };
+
+  // Narrow a handler result to a written specification
+  const outputOf = (result: SpecificationOutput | ProcessingError): SpecificationOutput => {
+    if ('errorType' in result) {
+      throw new Error(`Expected a specification output, got ${JSON.stringify(result)}`);
+    }
+    return result;
+  };
+
+  const previousSpecification = `---
+source_key: "docs/payments.md"
+processing_id: "lnaf8xq8-k3j9x"
+---
+
+# Payments
+
+## Validation
+
+- Reject negative amounts
+`;
+
+  const manifest = {
+    sourceKey: 'docs/payments.md',
+    sourceBucket: 'test-input-bucket',
+    updatedAt: '2024-05-01T12:00:01Z',
+    versions: [{
+      processingId: 'lnaf8xq8-k3j9x',
+      sourceEtag: 'etag-1',
+      generatedAt: '2024-05-01T12:00:00Z',
+      location: 's3://test-output-bucket/2024/05/01/payments-2024-05-01-120000000.md',
+      key: '2024/05/01/payments-2024-05-01-120000000.md',
+      versionId: 'version-1',
+      wordCount: 6
+    }]
+  };
+
+  // Clients created by the handler modules (aws-sdk is mocked in test/setup.ts)
+  const s3 = (S3 as unknown as jest.Mock).mock.results[0].value;
+  const putObjects = (): PutObjectParams[] => s3.putObject.mock.calls.map(([params]: [PutObjectParams]) => params);
+  const putObject = (matches: (key: string) => boolean): PutObjectParams => {
+    const params = putObjects().find(({ Key }) => matches(Key));
+    if (!params) {
+      throw new Error('Expected a matching object to be written');
+    }
+    return params;
+  };
+  const jobs = (DynamoDB.DocumentClient as unknown as jest.Mock).mock.results[0].value;
+  const sqs = (SQS as unknown as jest.Mock).mock.results[0].value;
+
+  beforeEach(() => {
+    process.env.OUTPUT_FORMATS = '';
+    s3.putObject.mockReturnValue({ promise: () => Promise.resolve({ VersionId: 'version-2' }) });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.OUTPUT_FORMATS;
+  });
+
+  it('should write YAML front matter and start a history manifest for a new source', async () => {
+    s3.getObject.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    });
+
+    const result = outputOf(await handler(event, mockContext));
+
+    expect(result.changeSummary).toBeUndefined();
+    expect(result.historyManifestLocation).toBe('s3://test-output-bucket/history/docs/payments.md.json');
+
+    const [specification, manifestPut] = putObjects();
+    const { frontMatter, body } = parseSpecificationFrontMatter(specification.Body);
+    expect(frontMatter).toMatchObject({
+      title: 'Payments',
+      source_key: 'docs/payments.md',
+      source_bucket: 'test-input-bucket',
+      source_etag: 'etag-2',
+      model_id: 'test-model',
+      execution_id: executionId,
+      input_tokens: 400
+    });
+    expect(body.startsWith('# Payments')).toBe(true);
+
+    expect(manifestPut.Key).toBe('history/docs/payments.md.json');
+    expect(JSON.parse(manifestPut.Body).versions).toEqual([expect.objectContaining({
+      key: specification.Key,
+      versionId: 'version-2',
+      sourceEtag: 'etag-2',
+      executionId
+    })]);
+  });
+
+  it('should diff against the previous version and append it to the history', async () => {
+    s3.getObject.mockImplementation((params: { Key: string; VersionId?: string }) => ({
+      promise: () => Promise.resolve({
+        Body: params.Key === 'history/docs/payments.md.json' ? JSON.stringify(manifest) : previousSpecification
+      })
+    }));
+
+    const result = outputOf(await handler(event, mockContext));
+
+    expect(s3.getObject).toHaveBeenCalledWith(expect.objectContaining({ Key: manifest.versions[0].key, VersionId: 'version-1' }));
+    expect(result.changeSummary).toMatchObject({
+      previousProcessingId: 'lnaf8xq8-k3j9x',
+      changedSections: ['Payments > Validation'],
+      addedSections: [],
+      removedSections: []
+    });
+    expect(result.diffLocation).toMatch(/\.diff\.md$/);
+
+    const diffPut = putObject(key => key.endsWith('.diff.md'));
+    expect(diffPut.Body).toContain('- - Reject negative amounts');
+    expect(diffPut.Body).toContain('+ - Reject amounts above the daily limit');
+
+    const manifestPut = putObject(key => key.startsWith('history/'));
+    expect(JSON.parse(manifestPut.Body).versions.map((version: { processingId: string }) => version.processingId))
+      .toEqual(['lnaf8xq8-k3j9x', result.processingId]);
+  });
+
+  it('should load the history once and record one version when a write is retried', async () => {
+    process.env.OUTPUT_FORMATS = 'html';
+    s3.getObject.mockImplementation((params: { Key: string; VersionId?: string }) => ({
+      promise: () => Promise.resolve({
+        Body: params.Key === 'history/docs/payments.md.json' ? JSON.stringify(manifest) : previousSpecification
+      })
+    }));
+    let htmlAttempts = 0;
+    s3.putObject.mockImplementation((params: PutObjectParams) => ({
+      promise: () => params.Key.endsWith('.html') && ++htmlAttempts === 1
+        ? Promise.reject(new Error('SlowDown: Please reduce your request rate.'))
+        : Promise.resolve({ VersionId: 'version-2' })
+    }));
+
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    let result: SpecificationOutput;
+    try {
+      const pending = handler(event, mockContext);
+      await jest.runAllTimersAsync();
+      result = outputOf(await pending);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(htmlAttempts).toBe(2);
+    expect(s3.getObject.mock.calls.filter(([params]: [{ Key: string }]) => params.Key.startsWith('history/'))).toHaveLength(1);
+    expect(result.changeSummary).toMatchObject({ previousProcessingId: 'lnaf8xq8-k3j9x' });
+
+    const manifestPuts = putObjects().filter(({ Key }) => Key.startsWith('history/'));
+    expect(manifestPuts).toHaveLength(1);
+    expect(JSON.parse(manifestPuts[0].Body).versions.map((version: { processingId: string }) => version.processingId))
+      .toEqual(['lnaf8xq8-k3j9x', result.processingId]);
+  });
+
+  it('should record the writing stage and output location on the job', async () => {
+    jobs.update.mockReturnValue({ promise: () => Promise.resolve({}) });
+    s3.getObject.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    });
+    process.env.JOB_TABLE_NAME = 'test-jobs';
+
+    try {
+      const jobEvent = { ...event, data: { ...input, metadata: { ...input.metadata, jobId: 'run-2' } } };
+      const result = outputOf(await handler(jobEvent, mockContext));
+
+      const updates: DynamoDB.DocumentClient.UpdateItemInput[] = jobs.update.mock.calls
+        .map(([params]: [DynamoDB.DocumentClient.UpdateItemInput]) => params);
+      expect(updates.map(params => [params.Key.jobId, params.ExpressionAttributeValues?.[':status']]))
+        .toEqual([['run-2', 'writing'], ['run-2', 'writing']]);
+      expect(updates[1].ExpressionAttributeValues?.[':a0']).toBe(result.outputLocation);
+    } finally {
+      delete process.env.JOB_TABLE_NAME;
+    }
+  });
+
+  it('should write the code outline as JSON next to the specification', async () => {
+    const outline = JSON.stringify({ fileType: 'py', entries: [{ kind: 'function', name: 'post_payment', line: 3, public: true }] });
+    s3.getObject.mockImplementation((params: { Key: string }) => ({
+      promise: () => params.Key === '_working/outline.payload'
+        ? Promise.resolve({ Body: Buffer.from(outline) })
+        : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    }));
+    const outlineReference = {
+      bucket: 'test-input-bucket',
+      key: '_working/outline.payload',
+      sha256: createHash('sha256').update(outline).digest('hex'),
+      length: Buffer.byteLength(outline)
+    };
+
+    const result = outputOf(await handler({
+      ...event,
+      data: { ...input, metadata: { ...input.metadata, outlineReference } }
+    }, mockContext));
+
+    const outlineLocation = result.outputLocation.replace(/\.md$/, '.outline.json');
+    expect(result.outputLocations).toContainEqual({ format: 'outline', location: outlineLocation, contentType: 'application/json' });
+
+    const outlinePut = putObject(key => key.endsWith('.outline.json'));
+    expect(JSON.parse(outlinePut.Body)).toEqual(JSON.parse(outline));
+  });
+
+  it('should write a specification that failed review under the needs-review prefix with the review', async () => {
+    s3.getObject.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    });
+    const review = {
+      faithfulness: 2,
+      completeness: 4,
+      clarity: 4,
+      hallucinations: [{ claim: 'Payments above 10,000 are escalated', reason: 'The source has no amount limit' }],
+      feedback: 'Remove the escalation rule.',
+      passed: false,
+      threshold: 3,
+      regenerated: true,
+      needsReview: true,
+      modelId: 'reviewer-model'
+    };
+
+    const result = outputOf(await handler({
+      ...event,
+      data: { ...input, metadata: { ...input.metadata, review } }
+    }, mockContext));
+
+    expect(result.outputLocation).toMatch(/^s3:\/\/test-output-bucket\/needs-review\/\d{4}\/\d{2}\/\d{2}\/payments-/);
+    expect(result.review).toEqual(review);
+
+    const specification = putObject(key => key.endsWith('.md') && !key.startsWith('history/'));
+    expect(specification.Metadata).toMatchObject({ 'review-passed': 'false', 'needs-review': 'true' });
+    expect(parseSpecificationFrontMatter(specification.Body).frontMatter).toMatchObject({ review_passed: false, needs_review: true });
+
+    const reviewPut = putObject(key => key.endsWith('.review.json'));
+    expect(reviewPut.Key).toBe(specification.Key.replace(/\.md$/, '.review.json'));
+    expect(JSON.parse(reviewPut.Body)).toEqual(review);
+  });
+
+  it('should write a spec bundle with per-file specifications and an index for projects', async () => {
+    const fileSpecification = '# Payment Calculation\n\nCalculates gross pay.\n';
+    const dependencyGraph = JSON.stringify({
+      nodes: [{ path: 'jcl/NIGHTLY.jcl', fileType: 'jcl', summary: '' }, { path: 'src/PAYCALC.cbl', fileType: 'cbl', summary: '' }],
+      edges: [{ from: 'jcl/NIGHTLY.jcl', to: 'src/PAYCALC.cbl', reference: 'PAYCALC' }],
+      unresolved: []
+    });
+    const staged: Record<string, string> = {
+      '_working/paycalc.payload': fileSpecification,
+      '_working/graph.payload': dependencyGraph
+    };
+    const reference = (key: string) => ({
+      bucket: 'test-input-bucket',
+      key,
+      sha256: createHash('sha256').update(staged[key]).digest('hex'),
+      length: Buffer.byteLength(staged[key])
+    });
+    s3.getObject.mockImplementation((params: { Key: string }) => ({
+      promise: () => staged[params.Key]
+        ? Promise.resolve({ Body: Buffer.from(staged[params.Key]) })
+        : Promise.reject(Object.assign(new Error('The specified key does not exist.'), { code: 'NoSuchKey' }))
+    }));
+
+    const projectEvent = {
+      data: {
+        generatedSpecification: '# Payroll System\n\n## System Overview\n\nNightly payroll run.\n',
+        metadata: {
+          ...input.metadata,
+          originalFile: 'uploads/payroll.zip',
+          fileType: 'zip',
+          promptTemplateId: 'project-system',
+          project: {
+            name: 'payroll',
+            files: [{
+              path: 'src/PAYCALC.cbl',
+              specificationReference: reference('_working/paycalc.payload'),
+              metadata: { ...input.metadata, originalFile: 'uploads/payroll.zip/src/PAYCALC.cbl', fileType: 'cbl' }
+            }],
+            failedFiles: [{ path: 'jcl/NIGHTLY.jcl', message: 'Model throttled' }],
+            skippedFiles: [{ path: 'bin/tool.exe', reason: 'Unsupported file format' }],
+            dependencyGraphReference: reference('_working/graph.payload')
+          }
+        }
+      },
+      executionId
+    };
+
+    const result = outputOf(await handler(projectEvent, mockContext));
+
+    const base = result.outputLocation.replace(/\.md$/, '');
+    expect(result.bundle).toMatchObject({
+      name: 'payroll',
+      indexLocation: `${base}/index.md`,
+      files: [{ path: 'src/PAYCALC.cbl', fileType: 'cbl', location: `${base}/files/src/PAYCALC.cbl.md` }],
+      failedFiles: [{ path: 'jcl/NIGHTLY.jcl', message: 'Model throttled' }]
+    });
+    expect(result.outputLocations).toContainEqual(expect.objectContaining({ format: 'index', location: `${base}/index.md` }));
+
+    const systemPut = putObject(key => key === result.outputLocation.replace('s3://test-output-bucket/', ''));
+    expect(systemPut.Body).toContain('## Dependency Graph\n\nResolved from the calls and imports in the project files.\n\n```mermaid\ngraph LR');
+    expect(systemPut.Body).toContain('  n0 --> n1\n```');
+
+    const filePut = putObject(key => key.endsWith('/files/src/PAYCALC.cbl.md'));
+    const { frontMatter, body } = parseSpecificationFrontMatter(filePut.Body);
+    expect(frontMatter).toMatchObject({ title: 'Payment Calculation', source_key: 'uploads/payroll.zip/src/PAYCALC.cbl' });
+    expect(body.startsWith('# Payment Calculation')).toBe(true);
+
+    const indexPut = putObject(key => key.endsWith('/index.md'));
+    expect(indexPut.Body).toContain('| [src/PAYCALC.cbl](files/src/PAYCALC.cbl.md) | cbl |');
+    expect(indexPut.Body).toContain('| jcl/NIGHTLY.jcl | Model throttled |');
+    expect(indexPut.Body).toContain('| bin/tool.exe | Unsupported file format |');
+  });
+
+  it('should pass through errors from the previous step', async () => {
+    const error: ProcessingError = {
+      errorType: 'LLM_PROCESSING_ERROR',
+      message: 'Model unavailable',
+      timestamp: '2024-05-02T12:00:00Z',
+      originalFile: 'docs/payments.md'
+    };
+
+    const result = await handler({ data: error, executionId }, mockContext);
+
+    expect(result).toBe(error);
+  });
+
+  it('should key catalog failure entries on the execution so retries replace one row', async () => {
+    process.env.CATALOG_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789012/catalog.fifo';
+    sqs.sendMessage.mockReturnValue({ promise: () => Promise.resolve({}) });
+    const error: ProcessingError = {
+      errorType: 'LLM_PROCESSING_ERROR',
+      message: 'Model unavailable',
+      timestamp: '2024-05-02T12:00:00Z',
+      originalFile: 'docs/payments.md'
+    };
+
+    await handler({ data: error, executionId }, mockContext);
+    await handler({ data: error, executionId }, mockContext);
+
+    const entries = sqs.sendMessage.mock.calls.map((call: Array<{ MessageBody: string }>) => JSON.parse(call[0].MessageBody));
+    expect(entries.map((entry: { processingId: string }) => entry.processingId)).toEqual(['failed-run-2', 'failed-run-2']);
+    expect(entries[0]).toMatchObject({ status: 'failure', errorType: 'LLM_PROCESSING_ERROR', sourceFile: 'docs/payments.md' });
+
+    delete process.env.CATALOG_QUEUE_URL;
+  });
+});
@@ -1,8 +1,23 @@
 import { Context } from 'aws-lambda';
-import { S3 } from 'aws-sdk';
-import { ProcessingError, SpecificationOutput } from '../../shared/types';
+import { S3, SQS } from 'aws-sdk';
+import {
+  CodeOutline,
+  DependencyGraph,
+  OutputLocation,
+  PayloadReference,
+  ProcessingError,
+  ProjectBundleInput,
+  SpecificationBundle,
+  SpecificationChangeSummary,
+  SpecificationCoverage,
+  SpecificationFrontMatter,
+  SpecificationOutput,
+  SpecificationReviewResult,
+  StructuredSpecification
+} from '../../shared/types';
 import { 
   generateOutputPath,
+  getOutputPathStrategy,
   createProcessingError, 
   createProcessingStatus,
   createProcessingMetadata,
@@ -12,35 +27,122 @@ import {
   logMetric,
   logPerformanceMetric
 } from '../../shared/utils';
-import { ERROR_MESSAGES, RETRY_CONFIG } from '../../shared/constants';
+import { ERROR_MESSAGES, HISTORY_CONFIG, OUTLINE_CONFIG, RETRY_CONFIG, REVIEW_CONFIG } from '../../shared/constants';
+import { resolvePayload } from '../../shared/payload-store';
+import { parseStructuredSpecification, renderStructuredSpecificationMarkdown } from '../../shared/structured-specification';
+import { getOutputFormats, SPECIFICATION_RENDERERS } from '../../shared/specification-renderers';
+import { addFrontMatter } from '../../shared/front-matter';
+import { createCatalogEntry, createFailedCatalogEntry, queueCatalogEntry } from '../../shared/catalog';
+import {
+  getProjectFileSpecificationKey,
+  getProjectIndexKey,
+  renderProjectIndexMarkdown
+} from '../../shared/project-bundle';
+import { renderDependencyGraphMarkdown } from '../../shared/dependency-graph';
+import { markJobFailed, updateJobStatus } from '../../shared/job-repository';
+import {
+  appendHistoryVersion,
+  getHistoryManifest,
+  getHistoryManifestKey,
+  getSpecificationVersionBody,
+  SpecificationHistoryManifest,
+  SpecificationVersion
+} from '../../shared/specification-history';
+import {
+  diffSpecificationSections,
+  renderSpecificationDiffMarkdown,
+  summarizeSpecificationDiff
+} from '../../shared/specification-diff';
 
 const s3 = new S3();
+const sqs = new SQS();
 
-interface WriteSpecificationInput {
-  generatedSpecification: string;
+export interface WriteSpecificationInput {
+  generatedSpecification: string; // Resolved from specificationReference when staged in S3
+  specificationReference?: PayloadReference;
   metadata: {
     originalFile: string;
     originalBucket: string;
+    originalEtag?: string;
+    jobId?: string;
     fileType: string;
     processingTimeSeconds: number;
     inputTokens: number;
     outputTokens: number;
+    promptTemplateId?: string;
+    promptTemplateVersion?: string;
+    continuationCount?: number;
+    truncated?: boolean;
+    modelId?: string;
+    fallbackCount?: number;
+    cacheHit?: boolean;
+    specificationFormat?: 'markdown' | 'structured';
+    project?: ProjectBundleInput; // Set for projects; written as a spec bundle next to the system specification
+    outlineReference?: PayloadReference; // Staged CodeOutline; written as JSON next to the specification
+    coverage?: SpecificationCoverage;
+    review?: SpecificationReviewResult; // Set by the review gate; written as JSON next to the specification
     timestamp: string;
   };
 }
 
+// History manifest and the previous specification, loaded before the new one is written
+interface SpecificationHistoryState {
+  manifest: SpecificationHistoryManifest;
+  previousVersion?: SpecificationVersion;
+  previousBody?: string;
+}
+
+// A completed write and the version to record in the history manifest once no retry can follow
+interface SpecificationWriteResult {
+  output: SpecificationOutput;
+  version: SpecificationVersion;
+}
+
+// The state machine wraps the ProcessWithClaude output with the execution it belongs to
+export interface WriteSpecificationEvent {
+  data: WriteSpecificationInput | ProcessingError;
+  executionId?: string;
+}
+
 /**
  * Lambda function to write generated specifications to S3 output bucket
  * Handles filename generation, date-based folder structure, and metadata preservation
+ * Every outcome, including errors passed through from earlier steps, is sent to the output catalog
  */
 export const handler = async (
-  event: WriteSpecificationInput | ProcessingError,
+  wrappedEvent: WriteSpecificationEvent | WriteSpecificationInput | ProcessingError,
   context: Context
 ): Promise<SpecificationOutput | ProcessingError> => {
+  // Errors passed through from earlier steps were already recorded on the job
+  const event = 'data' in wrappedEvent ? wrappedEvent.data : wrappedEvent;
+  const jobId = 'errorType' in event ? undefined : event.metadata?.jobId;
+  await updateJobStatus(jobId, 'writing');
+
+  const result = await writeSpecification(wrappedEvent, context);
+  if ('errorType' in result) {
+    await markJobFailed(jobId, result);
+  } else {
+    await updateJobStatus(jobId, 'writing', { outputLocation: result.outputLocation });
+  }
+
+  const executionId = 'data' in wrappedEvent ? wrappedEvent.executionId : undefined;
+  await queueCatalogEntry(sqs, 'errorType' in result ? createFailedCatalogEntry(result, executionId) : createCatalogEntry(result));
+  return result;
+};
+
+async function writeSpecification(
+  wrappedEvent: WriteSpecificationEvent | WriteSpecificationInput | ProcessingError,
+  context: Context
+): Promise<SpecificationOutput | ProcessingError> {
   const startTime = Date.now();
   logInfo('WriteSpecificationFunction started', { requestId: context.awsRequestId });
   logMetric('WriteSpecificationInvocations', 1);
 
+  // Direct invocations may pass the ProcessWithClaude output without the envelope
+  const { data: event, executionId } = 'data' in wrappedEvent
+    ? wrappedEvent
+    : { data: wrappedEvent, executionId: undefined };
+
   try {
     // Check if input event is an error from previous step
     if ('errorType' in event) {
@@ -48,8 +150,25 @@ export const handler = async (
       return event;
     }
 
-    const input = event as WriteSpecificationInput;
-    
+    let input = event as WriteSpecificationInput;
+
+    // Resolve a specification that ProcessWithClaudeFunction staged in S3 (claim check)
+    if (input.specificationReference) {
+      try {
+        const generatedSpecification = await resolvePayload(s3, input.specificationReference);
+        input = { ...input, generatedSpecification };
+      } catch (resolveError) {
+        const error = createProcessingError(
+          'OUTPUT_WRITE_ERROR',
+          'Failed to resolve staged specification from ProcessWithClaudeFunction',
+          input.metadata.originalFile,
+          { error: resolveError instanceof Error ? resolveError.message : String(resolveError), specificationReference: input.specificationReference }
+        );
+        logError('Claim-check resolution failed', error);
+        return error;
+      }
+    }
+
     logInfo('Writing specification to output bucket', {
       originalFile: input.metadata.originalFile,
       specificationLength: input.generatedSpecification.length,
@@ -58,7 +177,7 @@ export const handler = async (
 
     // Write specification with retry logic
     const startTime = Date.now();
-    const writeResult = await writeSpecificationWithRetry(input, context);
+    const writeResult = await writeSpecificationWithRetry(input, executionId);
     
     if ('errorType' in writeResult) {
       return writeResult;
@@ -97,17 +216,24 @@ export const handler = async (
     logError('WriteSpecificationFunction failed with unexpected error', processingError);
     return processingError;
   }
-};
+}
 
 /**
  * Write specification to S3 with retry logic
  */
 async function writeSpecificationWithRetry(
   input: WriteSpecificationInput,
-  _context: Context
+  executionId?: string
 ): Promise<SpecificationOutput | ProcessingError> {
   
   let lastError: any;
+
+  // Read once before the first attempt, so 'latest' paths are diffed before being overwritten
+  // and a retry diffs against the previous run rather than its own earlier attempt
+  const outputBucket = process.env.OUTPUT_BUCKET_NAME;
+  const history = outputBucket
+    ? await loadSpecificationHistory(outputBucket, input.metadata.originalFile, input.metadata.originalBucket)
+    : undefined;
   
   for (let attempt = 1; attempt <= RETRY_CONFIG.MAX_ATTEMPTS; attempt++) {
     try {
@@ -115,7 +241,7 @@ async function writeSpecificationWithRetry(
         originalFile: input.metadata.originalFile
       });
 
-      const result = await writeSpecificationToS3(input);
+      const result = await writeSpecificationToS3(input, history, executionId);
       
       if ('errorType' in result) {
         lastError = result;
@@ -133,7 +259,9 @@ async function writeSpecificationWithRetry(
           continue;
         }
       } else {
-        return result;
+        return history && outputBucket
+          ? recordSpecificationHistory(outputBucket, history, result)
+          : result.output;
       }
       
     } catch (error) {
@@ -160,8 +288,10 @@ async function writeSpecificationWithRetry(
  Write specification to S3 output bucket
  */
 async function writeSpecificationToS3(
-  input: WriteSpecificationInput
-): Promise<SpecificationOutput | ProcessingError> {
+  input: WriteSpecificationInput,
+  history: SpecificationHistoryState | undefined,
+  executionId?: string
+): Promise<SpecificationWriteResult | ProcessingError> {
   
   try {
     const outputBucket = process.env.OUTPUT_BUCKET_NAME;
@@ -174,30 +304,72 @@ async function writeSpecificationToS3(
       );
     }
 
-    // Generate output path with date-based folder structure
-    const outputPath = generateOutputPath(input.metadata.originalFile);
+    // Generate output path with the configured strategy (date-based folders by default);
+    // specifications the review gate could not pass are kept apart under the needs-review prefix
+    const outputPathStrategy = getOutputPathStrategy(process.env.OUTPUT_PATH_STRATEGY);
+    const reviewPrefix = input.metadata.review?.needsReview ? REVIEW_CONFIG.NEEDS_REVIEW_PREFIX : '';
+    const outputPath = `${reviewPrefix}${generateOutputPath(input.metadata.originalFile, outputPathStrategy)}`;
     
     logInfo('Generated output path', {
       originalFile: input.metadata.originalFile,
       outputPath,
+      outputPathStrategy,
       outputBucket
     });
 
-    // Prepare specification content with metadata header
-    const specificationWithMetadata = addMetadataHeader(input.generatedSpecification, input.metadata);
-    
+    // Structured specifications are written as JSON alongside a Markdown rendering of them
+    let markdownSpecification = input.generatedSpecification;
+    let structuredSpecification: StructuredSpecification | undefined;
+    if (input.metadata.specificationFormat === 'structured') {
+      const parsed = parseStructuredSpecification(input.generatedSpecification);
+      if (!parsed.specification) {
+        return createProcessingError(
+          'OUTPUT_WRITE_ERROR',
+          'Structured specification from ProcessWithClaudeFunction does not match the schema',
+          input.metadata.originalFile,
+          { validationErrors: parsed.errors, retryable: false }
+        );
+      }
+      structuredSpecification = parsed.specification;
+      markdownSpecification = renderStructuredSpecificationMarkdown(structuredSpecification);
+    }
+
+    // Projects get their dependency graph as a Mermaid diagram in the system-level specification
+    const dependencyGraphReference = input.metadata.project?.dependencyGraphReference;
+    if (dependencyGraphReference) {
+      markdownSpecification = await appendDependencyGraph(markdownSpecification, dependencyGraphReference, input.metadata.originalFile);
+    }
+
+    // Additional formats are written next to the Markdown with their own extension
+    const renderers = getOutputFormats(process.env.OUTPUT_FORMATS)
+      .filter(format => format !== 'markdown')
+      .map(format => SPECIFICATION_RENDERERS[format]);
+    const renderedPaths = renderers.map(renderer => outputPath.replace(/\.md$/, `.${renderer.extension}`));
+    const diffPath = outputPath.replace(/\.md$/, `.${HISTORY_CONFIG.DIFF_EXTENSION}`);
+    const outlinePath = outputPath.replace(/\.md$/, `.${OUTLINE_CONFIG.EXTENSION}`);
+    const reviewPath = outputPath.replace(/\.md$/, `.${REVIEW_CONFIG.EXTENSION}`);
+
     // Validate output path format
-    if (!validateOutputPath(outputPath)) {
+    const pathExtensions: Array<[string, string]> = [
+      [outputPath, 'md'],
+      ...renderedPaths.map((path, index): [string, string] => [path, renderers[index].extension]),
+      [diffPath, HISTORY_CONFIG.DIFF_EXTENSION],
+      [outlinePath, OUTLINE_CONFIG.EXTENSION],
+      [reviewPath, REVIEW_CONFIG.EXTENSION],
+    ];
+    const invalidPath = pathExtensions
+      .find(([path, extension]) => !validateOutputPath(path.slice(reviewPrefix.length), extension, outputPathStrategy))?.[0];
+    if (invalidPath) {
       return createProcessingError(
         'OUTPUT_WRITE_ERROR',
         'Generated output path does not match expected format',
         input.metadata.originalFile,
-        { outputPath, retryable: false }
+        { outputPath: invalidPath, outputPathStrategy, retryable: false }
       );
     }
 
     // Calculate word count for the specification
-    const wordCount = countWords(input.generatedSpecification);
+    const wordCount = countWords(markdownSpecification);
 
     // Create comprehensive metadata
     const s3Metadata = createProcessingMetadata(
@@ -207,7 +379,28 @@ async function writeSpecificationToS3(
       input.metadata.processingTimeSeconds,
       input.metadata.inputTokens,
       input.metadata.outputTokens,
-      wordCount
+      wordCount,
+      input.metadata.promptTemplateId
+        ? { id: input.metadata.promptTemplateId, version: input.metadata.promptTemplateVersion || 'unknown' }
+        : undefined,
+      {
+        'continuation-count': input.metadata.continuationCount || 0,
+        'truncated': input.metadata.truncated === true,
+        'model-id': input.metadata.modelId || 'unknown',
+        'fallback-count': input.metadata.fallbackCount || 0,
+        'cache-hit': input.metadata.cacheHit === true,
+        'specification-format': input.metadata.specificationFormat || 'markdown',
+        ...createCoverageMetadata(input.metadata.coverage),
+        ...createReviewMetadata(input.metadata.review)
+      }
+    );
+
+    // Processing metadata as YAML front matter, readable with parseSpecificationFrontMatter
+    const title = /^#\s+(.+)$/m.exec(markdownSpecification)?.[1].trim()
+      || `Specification: ${input.metadata.originalFile}`;
+    const specificationWithMetadata = addFrontMatter(
+      markdownSpecification,
+      createFrontMatter(input, title, wordCount, s3Metadata, executionId)
     );
 
     // Write to S3 with metadata
@@ -215,7 +408,7 @@ async function writeSpecificationToS3(
       Bucket: outputBucket,
       Key: outputPath,
       Body: specificationWithMetadata,
-      ContentType: 'text/markdown',
+      ContentType: SPECIFICATION_RENDERERS.markdown.contentType,
       Metadata: s3Metadata,
       ServerSideEncryption: 'AES256' // Ensure encryption as per requirements
     };
@@ -227,7 +420,132 @@ async function writeSpecificationToS3(
       wordCount
     });
 
-    await s3.putObject(putObjectParams).promise();
+    const putResult = await s3.putObject(putObjectParams).promise();
+
+    const outputLocations: OutputLocation[] = [{
+      format: 'markdown',
+      location: `s3://${outputBucket}/${outputPath}`,
+      contentType: SPECIFICATION_RENDERERS.markdown.contentType
+    }];
+
+    const structuredOutputPath = structuredSpecification ? outputPath.replace(/\.md$/, '.json') : undefined;
+    if (structuredSpecification && structuredOutputPath) {
+      logInfo('Writing structured specification to S3', {
+        bucket: outputBucket,
+        key: structuredOutputPath
+      });
+
+      await s3.putObject({
+        Bucket: outputBucket,
+        Key: structuredOutputPath,
+        Body: JSON.stringify(structuredSpecification, null, 2),
+        ContentType: 'application/json',
+        Metadata: s3Metadata,
+        ServerSideEncryption: 'AES256'
+      }).promise();
+
+      outputLocations.push({
+        format: 'json',
+        location: `s3://${outputBucket}/${structuredOutputPath}`,
+        contentType: 'application/json'
+      });
+    }
+
+    // Rendered formats carry the specification body only; the metadata stays in S3 object metadata
+    for (let i = 0; i < renderers.length; i++) {
+      const renderer = renderers[i];
+      const body = renderer.render(markdownSpecification, { title });
+
+      logInfo('Writing rendered specification to S3', {
+        bucket: outputBucket,
+        key: renderedPaths[i],
+        format: renderer.format,
+        contentLength: body.length
+      });
+
+      await s3.putObject({
+        Bucket: outputBucket,
+        Key: renderedPaths[i],
+        Body: body,
+        ContentType: renderer.contentType,
+        Metadata: s3Metadata,
+        ServerSideEncryption: 'AES256'
+      }).promise();
+
+      outputLocations.push({
+        format: renderer.format,
+        location: `s3://${outputBucket}/${renderedPaths[i]}`,
+        contentType: renderer.contentType
+      });
+    }
+
+    // The static code outline the prompt was built from, for reviewing what the specification covers
+    if (input.metadata.outlineReference) {
+      const outlineLocation = await writeCodeOutline(outputBucket, outlinePath, input.metadata.outlineReference, s3Metadata, input.metadata.originalFile);
+      if (outlineLocation) {
+        outputLocations.push({ format: 'outline', location: outlineLocation, contentType: 'application/json' });
+      }
+    }
+
+    // The reviewer's rubric scores and hallucination flags, for whoever picks up a flagged specification
+    if (input.metadata.review) {
+      await s3.putObject({
+        Bucket: outputBucket,
+        Key: reviewPath,
+        Body: JSON.stringify(input.metadata.review, null, 2),
+        ContentType: 'application/json',
+        Metadata: s3Metadata,
+        ServerSideEncryption: 'AES256'
+      }).promise();
+      outputLocations.push({ format: 'review', location: `s3://${outputBucket}/${reviewPath}`, contentType: 'application/json' });
+    }
+
+    // Diff against the previous specification for the same source key
+    const current = {
+      processingId: s3Metadata['processing-id'],
+      generatedAt: input.metadata.timestamp,
+      location: `s3://${outputBucket}/${outputPath}`
+    };
+    let diffLocation: string | undefined;
+    let changeSummary: SpecificationChangeSummary | undefined;
+    if (history?.previousVersion && history.previousBody !== undefined) {
+      try {
+        const diff = diffSpecificationSections(history.previousBody, markdownSpecification);
+        changeSummary = summarizeSpecificationDiff(diff, history.previousVersion);
+        const diffDocument = renderSpecificationDiffMarkdown(input.metadata.originalFile, diff, history.previousVersion, current);
+
+        await s3.putObject({
+          Bucket: outputBucket,
+          Key: diffPath,
+          Body: diffDocument,
+          ContentType: SPECIFICATION_RENDERERS.markdown.contentType,
+          Metadata: s3Metadata,
+          ServerSideEncryption: 'AES256'
+        }).promise();
+
+        diffLocation = `s3://${outputBucket}/${diffPath}`;
+        outputLocations.push({ format: 'diff', location: diffLocation, contentType: SPECIFICATION_RENDERERS.markdown.contentType });
+        logInfo('Specification diff written to S3', { key: diffPath, ...changeSummary });
+      } catch (diffError) {
+        // History is best effort: the specification itself has been written
+        logError('Failed to write specification diff', {
+          originalFile: input.metadata.originalFile,
+          error: diffError instanceof Error ? diffError.message : String(diffError)
+        });
+        logMetric('SpecificationHistoryErrors', 1);
+      }
+    }
+
+    // Projects also get one specification per file and an index page linking them
+    let bundle: SpecificationBundle | undefined;
+    if (input.metadata.project) {
+      bundle = await writeProjectBundle(outputBucket, outputPath, input, executionId);
+      outputLocations.push({
+        format: 'index',
+        location: bundle.indexLocation,
+        contentType: SPECIFICATION_RENDERERS.markdown.contentType
+      });
+    }
 
     // Create processing status for success tracking
     const processingStatus = createProcessingStatus(
@@ -246,7 +564,22 @@ async function writeSpecificationToS3(
       processingId: s3Metadata['processing-id'],
       fileType: input.metadata.fileType,
       inputTokens: input.metadata.inputTokens,
-      outputTokens: input.metadata.outputTokens
+      outputTokens: input.metadata.outputTokens,
+      promptTemplateId: input.metadata.promptTemplateId,
+      promptTemplateVersion: input.metadata.promptTemplateVersion,
+      continuationCount: input.metadata.continuationCount,
+      truncated: input.metadata.truncated === true,
+      modelId: input.metadata.modelId,
+      fallbackCount: input.metadata.fallbackCount,
+      cacheHit: input.metadata.cacheHit === true,
+      specificationFormat: input.metadata.specificationFormat || 'markdown',
+      structuredOutputLocation: structuredOutputPath ? `s3://${outputBucket}/${structuredOutputPath}` : undefined,
+      outputLocations,
+      diffLocation,
+      changeSummary,
+      bundle,
+      coverage: input.metadata.coverage,
+      review: input.metadata.review
     };
 
     logInfo('Specification written successfully to S3', {
@@ -256,7 +589,19 @@ async function writeSpecificationToS3(
       processingStatus
     });
 
-    return specificationOutput;
+    return {
+      output: specificationOutput,
+      version: {
+        ...current,
+        key: outputPath,
+        versionId: putResult.VersionId,
+        sourceEtag: input.metadata.originalEtag,
+        executionId,
+        diffLocation,
+        modelId: input.metadata.modelId,
+        wordCount
+      }
+    };
 
   } catch (error) {
     // Handle specific S3 errors
@@ -313,24 +658,278 @@ async function writeSpecificationToS3(
 }
 
 /**
- * Add metadata header to the generated specification
+ * Write the per-file specifications of a project and the index page of its bundle
+ */
+async function writeProjectBundle(
+  outputBucket: string,
+  outputPath: string,
+  input: WriteSpecificationInput,
+  executionId?: string
+): Promise<SpecificationBundle> {
+  const project = input.metadata.project as ProjectBundleInput;
+  const files: SpecificationBundle['files'] = [];
+
+  for (const file of project.files) {
+    const fileInput: WriteSpecificationInput = {
+      generatedSpecification: await resolvePayload(s3, file.specificationReference),
+      metadata: file.metadata
+    };
+
+    let markdownSpecification = fileInput.generatedSpecification;
+    if (file.metadata.specificationFormat === 'structured') {
+      const parsed = parseStructuredSpecification(markdownSpecification);
+      if (parsed.specification) {
+        markdownSpecification = renderStructuredSpecificationMarkdown(parsed.specification);
+      }
+    }
+
+    const wordCount = countWords(markdownSpecification);
+    const s3Metadata = createProcessingMetadata(
+      file.metadata.originalFile,
+      file.metadata.originalBucket,
+      file.metadata.fileType,
+      file.metadata.processingTimeSeconds,
+      file.metadata.inputTokens,
+      file.metadata.outputTokens,
+      wordCount,
+      file.metadata.promptTemplateId
+        ? { id: file.metadata.promptTemplateId, version: file.metadata.promptTemplateVersion || 'unknown' }
+        : undefined,
+      {
+        'project-file': input.metadata.originalFile,
+        'model-id': file.metadata.modelId || 'unknown',
+        ...createCoverageMetadata(file.metadata.coverage)
+      }
+    );
+    const title = /^#\s+(.+)$/m.exec(markdownSpecification)?.[1].trim() || `Specification: ${file.path}`;
+    const key = getProjectFileSpecificationKey(outputPath, file.path);
+
+    await s3.putObject({
+      Bucket: outputBucket,
+      Key: key,
+      Body: addFrontMatter(markdownSpecification, createFrontMatter(fileInput, title, wordCount, s3Metadata, executionId)),
+      ContentType: SPECIFICATION_RENDERERS.markdown.contentType,
+      Metadata: s3Metadata,
+      ServerSideEncryption: 'AES256'
+    }).promise();
+
+    if (file.metadata.outlineReference) {
+      await writeCodeOutline(outputBucket, key.replace(/\.md$/, `.${OUTLINE_CONFIG.EXTENSION}`), file.metadata.outlineReference, s3Metadata, file.metadata.originalFile);
+    }
+
+    files.push({
+      path: file.path,
+      sourceKey: file.metadata.originalFile,
+      fileType: file.metadata.fileType,
+      location: `s3://${outputBucket}/${key}`
+    });
+  }
+
+  const indexKey = getProjectIndexKey(outputPath);
+  const bundle: SpecificationBundle = {
+    name: project.name,
+    indexLocation: `s3://${outputBucket}/${indexKey}`,
+    files,
+    failedFiles: project.failedFiles,
+    skippedFiles: project.skippedFiles
+  };
+
+  await s3.putObject({
+    Bucket: outputBucket,
+    Key: indexKey,
+    Body: renderProjectIndexMarkdown(bundle, input.metadata.originalFile, outputPath, input.metadata.timestamp),
+    ContentType: SPECIFICATION_RENDERERS.markdown.contentType,
+    ServerSideEncryption: 'AES256'
+  }).promise();
+
+  logInfo('Project spec bundle written to S3', {
+    originalFile: input.metadata.originalFile,
+    indexKey,
+    fileCount: files.length,
+    failedCount: bundle.failedFiles.length,
+    skippedCount: bundle.skippedFiles.length
+  });
+  logMetric('ProjectBundleFiles', files.length);
+
+  return bundle;
+}
+
+/**
+ * Append the project dependency graph; the specification is written without it if the graph cannot be read
  */
-function addMetadataHeader(specification: string, metadata: any): string {
-  const header = `---
-# Generated Specification Document
+async function appendDependencyGraph(
+  specification: string,
+  reference: PayloadReference,
+  originalFile: string
+): Promise<string> {
+  try {
+    const graph = JSON.parse(await resolvePayload(s3, reference)) as DependencyGraph;
+    if (graph.nodes.length === 0) {
+      return specification;
+    }
+    return `${specification.trimEnd()}\n\n${renderDependencyGraphMarkdown(graph)}\n`;
+  } catch (error) {
+    logError('Failed to load project dependency graph, writing specification without it', {
+      originalFile,
+      dependencyGraphReference: reference,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('DependencyGraphErrors', 1);
+    return specification;
+  }
+}
 
-**Original File:** ${metadata.originalFile}  
-**Generated At:** ${metadata.timestamp}  
-**Processing Time:** ${metadata.processingTimeSeconds} seconds  
-**File Type:** ${metadata.fileType}  
-**Input Tokens:** ${metadata.inputTokens}  
-**Output Tokens:** ${metadata.outputTokens}  
+/**
+ * Write a staged code outline as JSON; the outline is supplementary, so failures are logged and skipped
+ */
+async function writeCodeOutline(
+  outputBucket: string,
+  key: string,
+  reference: PayloadReference,
+  s3Metadata: Record<string, string>,
+  originalFile: string
+): Promise<string | undefined> {
+  try {
+    const outline = JSON.parse(await resolvePayload(s3, reference)) as CodeOutline;
+    await s3.putObject({
+      Bucket: outputBucket,
+      Key: key,
+      Body: JSON.stringify(outline, null, 2),
+      ContentType: 'application/json',
+      Metadata: s3Metadata,
+      ServerSideEncryption: 'AES256'
+    }).promise();
+    return `s3://${outputBucket}/${key}`;
+  } catch (error) {
+    logError('Failed to write code outline', {
+      originalFile,
+      outlineReference: reference,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('CodeOutlineErrors', 1);
+    return undefined;
+  }
+}
 
----
+/**
+ * Record a completed write as the latest version in the history manifest
+ * Failures are logged and leave the specification without a history entry rather than failing the write.
+ */
+async function recordSpecificationHistory(
+  outputBucket: string,
+  history: SpecificationHistoryState,
+  result: SpecificationWriteResult
+): Promise<SpecificationOutput> {
+  const sourceKey = history.manifest.sourceKey;
+  try {
+    await appendHistoryVersion(s3, outputBucket, history.manifest, result.version);
+    return { ...result.output, historyManifestLocation: `s3://${outputBucket}/${getHistoryManifestKey(sourceKey)}` };
+  } catch (error) {
+    logError('Failed to record specification history', {
+      originalFile: sourceKey,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('SpecificationHistoryErrors', 1);
+    return result.output;
+  }
+}
 
-`;
+/**
+ * Load the history manifest and the body of the previous specification for a source key
+ * Failures are logged and disable history for this run rather than failing the write.
+ */
+async function loadSpecificationHistory(
+  outputBucket: string,
+  sourceKey: string,
+  sourceBucket: string
+): Promise<SpecificationHistoryState | undefined> {
+  try {
+    const manifest = await getHistoryManifest(s3, outputBucket, sourceKey)
+      || { sourceKey, sourceBucket, updatedAt: new Date().toISOString(), versions: [] };
+    const previousVersion = manifest.versions[manifest.versions.length - 1];
+    const previousBody = previousVersion
+      ? await getSpecificationVersionBody(s3, outputBucket, previousVersion)
+      : undefined;
+
+    return { manifest, previousVersion, previousBody };
+  } catch (error) {
+    logError('Failed to load specification history, skipping diff', {
+      originalFile: sourceKey,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('SpecificationHistoryErrors', 1);
+    return undefined;
+  }
+}
 
-  return header + specification;
+/**
+ * Build the YAML front matter for the Markdown specification
+ */
+function createFrontMatter(
+  input: WriteSpecificationInput,
+  title: string,
+  wordCount: number,
+  s3Metadata: Record<string, string>,
+  executionId?: string
+): SpecificationFrontMatter {
+  const { metadata } = input;
+  return {
+    title,
+    source_key: metadata.originalFile,
+    source_bucket: metadata.originalBucket,
+    source_etag: metadata.originalEtag,
+    file_type: metadata.fileType,
+    generated_at: metadata.timestamp,
+    processing_id: s3Metadata['processing-id'],
+    execution_id: executionId,
+    model_id: metadata.modelId,
+    fallback_count: metadata.fallbackCount || 0,
+    cache_hit: metadata.cacheHit === true,
+    prompt_template_id: metadata.promptTemplateId,
+    prompt_template_version: metadata.promptTemplateVersion,
+    specification_format: metadata.specificationFormat || 'markdown',
+    input_tokens: metadata.inputTokens,
+    output_tokens: metadata.outputTokens,
+    processing_time_seconds: metadata.processingTimeSeconds,
+    word_count: wordCount,
+    continuation_count: metadata.continuationCount || 0,
+    truncated: metadata.truncated === true,
+    coverage_percentage: metadata.coverage?.percentage,
+    review_passed: metadata.review?.passed,
+    needs_review: metadata.review?.needsReview
+  };
+}
+
+/**
+ * S3 metadata for the review gate; empty when the specification was not reviewed
+ */
+function createReviewMetadata(review?: SpecificationReviewResult): Record<string, string | number | boolean> {
+  if (!review) {
+    return {};
+  }
+
+  return {
+    'review-passed': review.passed,
+    'review-scores': `faithfulness=${review.faithfulness},completeness=${review.completeness},clarity=${review.clarity}`,
+    'review-hallucinations': review.hallucinations.length,
+    'review-regenerated': review.regenerated,
+    'needs-review': review.needsReview
+  };
+}
+
+/**
+ * S3 metadata for the coverage check; empty for files without a code outline
+ */
+function createCoverageMetadata(coverage?: SpecificationCoverage): Record<string, string | number | boolean> {
+  if (!coverage) {
+    return {};
+  }
+
+  return {
+    'coverage-percentage': coverage.percentage,
+    'coverage-documented': `${coverage.documentedCount}/${coverage.totalCount}`,
+    'coverage-follow-up': coverage.followUp
+  };
 }
 
 /**
@@ -0,0 +1,63 @@
+import { splitIntoChunks } from '../chunking';
+import { CHUNKING_CONFIG } from '../constants';
+import { ContentChunk } from '../types';
+
+const chunkText = (content: string, chunks: ContentChunk[]) =>
+  chunks.map(chunk => content.slice(chunk.startOffset, chunk.endOffset));
+
+describe('splitIntoChunks', () => {
+  it('should return a single chunk for content exactly at the limit', () => {
+    const content = 'a'.repeat(CHUNKING_CONFIG.MAX_CHUNK_CHARACTERS);
+
+    const chunks = splitIntoChunks(content, 'txt');
+
+    expect(chunks).toEqual([{ index: 0, total: 1, startOffset: 0, endOffset: content.length, startLine: 1, endLine: 1 }]);
+  });
+
+  it('should split one character past the limit on a line boundary', () => {
+    const content = `${'a'.repeat(29)}\n${'b'.repeat(30)}`;
+
+    expect(content).toHaveLength(60);
+    expect(chunkText(content, splitIntoChunks(content, 'txt', 59))).toEqual([`${'a'.repeat(29)}\n`, 'b'.repeat(30)]);
+  });
+
+  it('should split at structural boundaries and label each chunk', () => {
+    const content = 'def a():\n    return 1\n\ndef b():\n    return 2\n\ndef c():\n    return 3\n';
+
+    const chunks = splitIntoChunks(content, 'py', 30);
+
+    expect(chunks.map(chunk => chunk.label)).toEqual(['def a():', 'def b():', 'def c():']);
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 3], [4, 6], [7, 9]]);
+    expect(chunkText(content, chunks).join('')).toBe(content);
+  });
+
+  it('should pack paragraphs greedily without leaving an empty trailing chunk', () => {
+    const content = 'line one\nline two\nline three\nline four\nline five\n';
+
+    const chunks = splitIntoChunks(content, 'txt', 20);
+
+    expect(chunkText(content, chunks)).toEqual(['line one\nline two\n', 'line three\n', 'line four\nline five\n']);
+    expect(chunks.map(chunk => chunk.total)).toEqual([3, 3, 3]);
+  });
+
+  it('should keep a single line longer than the limit whole in its own chunk', () => {
+    const longLine = 'x'.repeat(120);
+    const content = `first\n${longLine}\nlast`;
+
+    const chunks = splitIntoChunks(content, 'txt', 50);
+
+    expect(chunkText(content, chunks)).toEqual(['first\n', `${longLine}\n`, 'last']);
+    expect(chunks[1]).toMatchObject({ startLine: 2, endLine: 2 });
+  });
+
+  it('should split an oversized structural segment into labelled parts on line breaks', () => {
+    const body = Array.from({ length: 6 }, (_, i) => `    x${i} = ${i}`).join('\n');
+    const content = `def large():\n${body}\n`;
+
+    const chunks = splitIntoChunks(content, 'py', 40);
+
+    expect(chunks.map(chunk => chunk.label)).toEqual(['def large(): (part 1)', 'def large(): (part 2)', 'def large(): (part 3)']);
+    expect(chunkText(content, chunks).every(text => text.length <= 40)).toBe(true);
+    expect(chunkText(content, chunks).join('')).toBe(content);
+  });
+});
@@ -0,0 +1,148 @@
+import { extractCodeOutline, renderCodeOutlinePrompt } from '../code-outline';
+
+describe('code outline', () => {
+  it('should outline a REXX exec with its labels and PARSE ARG signatures', () => {
+    const outline = extractCodeOutline(`/* REXX */
+parse upper arg dataset member .
+call validate dataset
+signal on syntax
+exit 0
+
+validate: procedure
+  parse arg name, 'strict'
+  return 0
+
+syntax:
+  say 'Syntax error'
+  exit 8
+`, 'rexx', 'exec/LOADPAY.rexx');
+
+    expect(outline?.entries).toEqual([
+      { kind: 'program', name: 'LOADPAY', line: 1, public: true, parameters: ['dataset', 'member'] },
+      { kind: 'label', name: 'validate', line: 7, public: true, parameters: ['name'] },
+      { kind: 'label', name: 'syntax', line: 11, public: false },
+    ]);
+  });
+
+  it('should outline Python classes, methods and decorators', () => {
+    const outline = extractCodeOutline(`import functools
+
+
+@functools.lru_cache(maxsize=32)
+def load_rates(region: str, *, refresh=False):
+    def helper():
+        pass
+    return {}
+
+
+class PaymentService(BaseService):
+    @retry
+    async def post(self, payment, amount: int = 0):
+        pass
+
+    def _audit(self, event):
+        pass
+`, 'py', 'app/payments/service.py');
+
+    expect(outline?.entries).toEqual([
+      {
+        kind: 'function',
+        name: 'load_rates',
+        line: 5,
+        parameters: ['region', '*', 'refresh'],
+        decorators: ['@functools.lru_cache'],
+        public: true,
+        parent: undefined,
+      },
+      { kind: 'class', name: 'PaymentService', line: 11, parameters: ['BaseService'], public: true, parent: undefined, decorators: undefined },
+      { kind: 'method', name: 'post', line: 13, parameters: ['payment', 'amount'], parent: 'PaymentService', decorators: ['@retry'], public: true },
+      { kind: 'method', name: '_audit', line: 16, parameters: ['event'], parent: 'PaymentService', decorators: undefined, public: false },
+    ]);
+  });
+
+  it('should outline Java types, constructors and methods but not statements', () => {
+    const outline = extractCodeOutline(`package com.acme.pay;
+
+/** Posts payments. */
+public class PaymentController {
+  private final PaymentRepository repository;
+
+  public PaymentController(PaymentRepository repository) {
+    this.repository = repository;
+  }
+
+  @Override
+  public List<Payment> list(String account, int limit) {
+    if (limit < 0) {
+      throw new IllegalArgumentException("limit");
+    }
+    return repository.find(account, limit);
+  }
+
+  private void audit(Payment payment) {
+  }
+}
+`, 'java', 'src/main/java/com/acme/pay/PaymentController.java');
+
+    expect(outline?.entries.map(entry => [entry.kind, entry.name, entry.line, entry.public])).toEqual([
+      ['class', 'PaymentController', 4, true],
+      ['constructor', 'PaymentController', 7, true],
+      ['method', 'list', 12, true],
+      ['method', 'audit', 19, false],
+    ]);
+    expect(outline?.entries[2]).toMatchObject({
+      parameters: ['String account', 'int limit'],
+      parent: 'PaymentController',
+      decorators: ['@Override'],
+    });
+  });
+
+  it('should outline TypeScript and CommonJS exports', () => {
+    const outline = extractCodeOutline(`import { api } from './api';
+
+// export function commented(out) {}
+export async function postPayment(payment: Payment, options?: Options): Promise<void> {}
+export const formatAmount = (amount: number, currency = 'EUR') => '';
+export interface Payment { id: string }
+export { api as client };
+module.exports = { legacy: postPayment };
+`, 'ts', 'web/src/payments.ts');
+
+    expect(outline?.entries.map(entry => [entry.kind, entry.name, entry.parameters])).toEqual([
+      ['function', 'postPayment', ['payment', 'options']],
+      ['function', 'formatAmount', ['amount', 'currency']],
+      ['interface', 'Payment', undefined],
+      ['variable', 'client', undefined],
+      ['variable', 'legacy', undefined],
+    ]);
+  });
+
+  it('should outline PL/I procedures and mark the main entry point public', () => {
+    const outline = extractCodeOutline(`/* Payroll calculation */
+PAYCALC: PROCEDURE(PARM) OPTIONS(MAIN);
+  DCL PARM CHAR(100) VARYING;
+  CALL GROSS(PARM);
+GROSS: PROC(EMP, RATE);
+END GROSS;
+END PAYCALC;
+`, 'pli', 'src/PAYCALC.pli');
+
+    expect(outline?.entries).toEqual([
+      { kind: 'procedure', name: 'PAYCALC', line: 2, parameters: ['PARM'], public: true },
+      { kind: 'procedure', name: 'GROSS', line: 5, parameters: ['EMP', 'RATE'], public: false },
+    ]);
+  });
+
+  it('should skip formats without an extractor and sources without definitions', () => {
+    expect(extractCodeOutline('IDENTIFICATION DIVISION.', 'cbl', 'PAYCALC.cbl')).toBeUndefined();
+    expect(extractCodeOutline('import os\n', 'py', 'empty.py')).toBeUndefined();
+  });
+
+  it('should render the outline as a prompt header', () => {
+    const outline = extractCodeOutline('class Ledger:\n    def post(self, entry):\n        pass\n', 'py', 'ledger.py');
+    const prompt = renderCodeOutlinePrompt(outline!);
+
+    expect(prompt).toContain('(2 entries)');
+    expect(prompt).toContain('- class Ledger at line 1, public\n  - method post(entry) at line 2, public');
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  buildDependencyGraph,
+  createDependencyPromptContext,
+  DependencySource,
+  renderDependencyGraphMarkdown,
+  summarizeModule
+} from '../dependency-graph';
+
+describe('dependency graph', () => {
+  const sources: DependencySource[] = [
+    {
+      path: 'exec/NIGHTLY.rexx',
+      fileType: 'rexx',
+      content: `/* REXX */
+/* Nightly batch driver: validates and posts payments */
+  call VALIDATE batch
+  call POSTPAY
+  call AUDITLOG 'done'
+  call cleanup
+  exit 0
+cleanup:
+  return
+`,
+    },
+    {
+      path: 'exec/VALIDATE.rex',
+      fileType: 'rexx',
+      content: `/* REXX - Validate payment records */
+parse arg batch
+check: return 0
+`,
+    },
+    {
+      path: 'exec/POSTPAY.rexx',
+      fileType: 'rexx',
+      content: '/* REXX */\nsay "posting"\n',
+    },
+    {
+      path: 'app/payments/service.py',
+      fileType: 'py',
+      content: `"""Payment service: applies fees and posts payments."""
+import os
+from .fees import apply_fee
+from app.payments import models
+from ..shared import (
+    audit,
+)
+
+
+def post_payment(payment):
+    return apply_fee(payment)
+
+
+class PaymentService:
+    pass
+`,
+    },
+    { path: 'app/payments/fees.py', fileType: 'py', content: 'def apply_fee(payment):\n    return payment\n' },
+    { path: 'app/payments/models.py', fileType: 'py', content: 'class Payment:\n    pass\n' },
+    { path: 'app/shared/audit.py', fileType: 'py', content: 'def record(event):\n    pass\n' },
+    {
+      path: 'src/main/java/com/acme/pay/PaymentController.java',
+      fileType: 'java',
+      content: `package com.acme.pay;
+
+import com.acme.pay.model.*;
+import com.acme.pay.missing.Ledger;
+import java.util.List;
+
+public class PaymentController {
+  private final PaymentRepository repository;
+}
+`,
+    },
+    {
+      path: 'src/main/java/com/acme/pay/PaymentRepository.java',
+      fileType: 'java',
+      content: 'package com.acme.pay;\n\n/** Stores payments. */\npublic interface PaymentRepository {\n}\n',
+    },
+    {
+      path: 'src/main/java/com/acme/pay/model/Payment.java',
+      fileType: 'java',
+      content: 'package com.acme.pay.model;\n\npublic class Payment {\n}\n',
+    },
+    {
+      path: 'web/src/app.ts',
+      fileType: 'ts',
+      content: `import { api } from './api/client.js';
+import express from 'express';
+const util = require('../lib/util');
+import './missing';
+`,
+    },
+    { path: 'web/src/api/client.ts', fileType: 'ts', content: '/** HTTP client for the payment API */\nexport const api = {};\n' },
+    { path: 'web/lib/util.js', fileType: 'js', content: 'export function format(value) {}\n' },
+  ];
+
+  const graph = buildDependencyGraph(sources);
+  const edgesFrom = (path: string) => graph.edges.filter(edge => edge.from === path).map(edge => edge.to);
+  const unresolvedFrom = (path: string) => graph.unresolved.filter(reference => reference.from === path).map(reference => reference.reference);
+
+  it('should resolve REXX external calls by member name and report calls outside the project', () => {
+    expect(edgesFrom('exec/NIGHTLY.rexx')).toEqual(['exec/VALIDATE.rex', 'exec/POSTPAY.rexx']);
+    expect(unresolvedFrom('exec/NIGHTLY.rexx')).toEqual(['AUDITLOG']);
+  });
+
+  it('should resolve absolute, relative and parenthesised Python imports', () => {
+    expect(edgesFrom('app/payments/service.py')).toEqual([
+      'app/payments/fees.py',
+      'app/payments/models.py',
+      'app/shared/audit.py'
+    ]);
+    expect(unresolvedFrom('app/payments/service.py')).toEqual([]);
+  });
+
+  it('should resolve Java imports, wildcard imports and same-package classes', () => {
+    expect(edgesFrom('src/main/java/com/acme/pay/PaymentController.java')).toEqual([
+      'src/main/java/com/acme/pay/model/Payment.java',
+      'src/main/java/com/acme/pay/PaymentRepository.java'
+    ]);
+    expect(unresolvedFrom('src/main/java/com/acme/pay/PaymentController.java')).toEqual([]);
+  });
+
+  it('should resolve relative JS/TS imports and ignore packages', () => {
+    expect(edgesFrom('web/src/app.ts')).toEqual(['web/src/api/client.ts', 'web/lib/util.js']);
+    expect(unresolvedFrom('web/src/app.ts')).toEqual(['./missing']);
+  });
+
+  it('should summarise modules from their leading comment and definitions', () => {
+    expect(summarizeModule(sources[1].content, 'rexx')).toBe('REXX - Validate payment records Defines check.');
+    expect(summarizeModule(sources[3].content, 'py'))
+      .toBe('Payment service: applies fees and posts payments. Defines post_payment, PaymentService.');
+    expect(graph.nodes.find(node => node.path === 'web/src/api/client.ts')?.summary)
+      .toBe('HTTP client for the payment API Defines api.');
+  });
+
+  it('should give each file the summaries of the modules it references', () => {
+    const context = createDependencyPromptContext(graph, 'exec/NIGHTLY.rexx');
+
+    expect(context).toContain('- exec/VALIDATE.rex (referenced as VALIDATE): REXX - Validate payment records');
+    expect(context).toContain('not part of the upload: AUDITLOG');
+    expect(createDependencyPromptContext(graph, 'exec/POSTPAY.rexx')).toBe('');
+  });
+
+  it('should render the graph as a Mermaid diagram', () => {
+    const markdown = renderDependencyGraphMarkdown(graph);
+
+    expect(markdown).toContain('```mermaid\ngraph LR\n  n0["exec/NIGHTLY.rexx"]');
+    expect(markdown).toContain('  n0 --> n1');
+    expect(markdown).toContain('Not part of the project: `AUDITLOG`, `./missing`');
+  });
+});
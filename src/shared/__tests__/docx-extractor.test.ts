@@ -0,0 +1,56 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractDocxMarkdown, isOleCompoundFile } from '../docx-extractor';
+
+const readFixture = (name: string): Buffer => readFileSync(join(__dirname, 'fixtures', 'docx', name));
+
+describe('extractDocxMarkdown', () => {
+  it('should convert headings, emphasis, lists and tables to Markdown', () => {
+    const result = extractDocxMarkdown(readFixture('structure.docx'), 'structure.docx');
+
+    if ('errorType' in result) {
+      throw new Error(result.message);
+    }
+    expect(result.markdown.split('\n\n')).toEqual([
+      '# Order Service',
+      'Orders are **validated** before they are persisted & queued.',
+      '## Inputs',
+      '- Web channel\n   - Mobile app\n- Batch file\n1. Receive the order\n2. Validate the order',
+      '| Field | Type |\n| --- | --- |\n| amount | decimal |\n| a \\| b | text |',
+    ]);
+    expect(result.headingCount).toBe(2);
+    expect(result.tableCount).toBe(1);
+    expect(result.commentCount).toBe(0);
+  });
+
+  it('should reject legacy Word 97-2003 documents by their magic bytes', () => {
+    const body = readFixture('legacy.doc');
+    const result = extractDocxMarkdown(body, 'legacy.doc');
+
+    expect(isOleCompoundFile(body)).toBe(true);
+    expect(result).toMatchObject({
+      errorType: 'LEGACY_DOC_FORMAT',
+      originalFile: 'legacy.doc',
+      details: { detectedFormat: 'OLE2 compound document', retryable: false },
+    });
+  });
+
+  it('should report password-protected documents instead of calling them legacy', () => {
+    const result = extractDocxMarkdown(readFixture('encrypted.docx'), 'encrypted.docx');
+
+    expect(result).toMatchObject({
+      errorType: 'FILE_READ_ERROR',
+      message: 'Document is password protected and its content cannot be extracted',
+      details: { retryable: false },
+    });
+  });
+
+  it('should reject content that is neither a ZIP package nor an OLE document', () => {
+    const result = extractDocxMarkdown(Buffer.from('plain text'), 'notes.docx');
+
+    expect(result).toMatchObject({
+      errorType: 'FILE_READ_ERROR',
+      message: 'File is not a valid DOCX (Office Open XML) document',
+    });
+  });
+});
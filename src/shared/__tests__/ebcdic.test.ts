@@ -0,0 +1,32 @@
+import { decodeEbcdic, isLikelyEbcdic } from '../ebcdic';
+
+// Encode text as IBM-037 by inverting the decoder, one byte at a time
+const EBCDIC_BYTES = new Map(
+  Array.from({ length: 256 }, (_, byte) => [decodeEbcdic(Buffer.from([byte])), byte] as [string, number])
+);
+const toEbcdic = (text: string): Buffer => Buffer.from([...text].map(char => EBCDIC_BYTES.get(char)!));
+
+describe('EBCDIC decoding', () => {
+  const program = '       IDENTIFICATION DIVISION.\n       PROGRAM-ID. PAYCALC.\n';
+
+  it('should decode IBM-037 letters, digits and punctuation', () => {
+    expect(decodeEbcdic(Buffer.from([0xc8, 0x85, 0x93, 0x93, 0x96, 0x40, 0xf0, 0xf7, 0x4b, 0xba, 0xbb]))).toBe('Hello 07.[]');
+  });
+
+  it('should detect EBCDIC text and leave ASCII, UTF-8 and Latin-1 text alone', () => {
+    expect(isLikelyEbcdic(toEbcdic(program))).toBe(true);
+    expect(isLikelyEbcdic(Buffer.from(program, 'utf-8'))).toBe(false);
+    expect(isLikelyEbcdic(Buffer.from('Gebühr für Überweisung berechnen', 'utf-8'))).toBe(false);
+    expect(isLikelyEbcdic(Buffer.from('Gebühr für Überweisung berechnen', 'latin1'))).toBe(false);
+  });
+
+  it('should turn NL into line feeds', () => {
+    expect(decodeEbcdic(toEbcdic(program))).toBe(program);
+  });
+
+  it('should split fixed-length records when there are no line separators', () => {
+    const records = ['//PAYJOB   JOB (ACCT)', '//STEP01   EXEC PGM=PAYCALC'].map(record => record.padEnd(80));
+
+    expect(decodeEbcdic(toEbcdic(records.join('')))).toBe('//PAYJOB   JOB (ACCT)\n//STEP01   EXEC PGM=PAYCALC');
+  });
+});
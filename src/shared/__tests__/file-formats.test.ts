@@ -0,0 +1,76 @@
+import {
+  describeSupportedFileFormats,
+  FILE_FORMATS,
+  getEventKeyNames,
+  getEventKeySuffixes,
+  getFileFormat,
+  getFileTypesForPromptTemplate
+} from '../file-formats';
+import { getFileType, isLegacyFileFormat, isSupportedFileFormat } from '../utils';
+import { BUILT_IN_PROMPT_TEMPLATES, createPromptTemplateVariables } from '../prompt-templates';
+
+describe('file format registry', () => {
+  it('should declare each extension for only one format', () => {
+    const extensions = FILE_FORMATS.flatMap(format => format.extensions);
+    expect(new Set(extensions).size).toBe(extensions.length);
+  });
+
+  it('should resolve formats by extension regardless of case and path', () => {
+    expect(getFileFormat('docs/Payments.MARKDOWN')?.id).toBe('md');
+    expect(getFileFormat('jobs/NIGHTLY.rex')?.id).toBe('rexx');
+    expect(getFileFormat('archive.v1/README')).toBeUndefined();
+    expect(getFileType('src/app.mjs')).toBe('js');
+    expect(getFileType('payments.exe')).toBe('exe');
+  });
+
+  it('should accept supported formats and flag legacy formats separately', () => {
+    expect(isSupportedFileFormat('requirements.docx')).toBe(true);
+    expect(isSupportedFileFormat('requirements.doc')).toBe(false);
+    expect(isLegacyFileFormat('requirements.doc')).toBe(true);
+    expect(isSupportedFileFormat('payments.exe')).toBe(false);
+  });
+
+  it('should trigger the pipeline for every declared extension, including legacy formats', () => {
+    const suffixes = getEventKeySuffixes();
+
+    for (const extension of FILE_FORMATS.flatMap(format => format.extensions)) {
+      expect(suffixes).toContain(`.${extension}`);
+      expect(suffixes).toContain(`.${extension.toUpperCase()}`);
+    }
+    expect(suffixes).not.toContain('.payload');
+  });
+
+  it('should trigger the pipeline for manifests in a folder and at the bucket root', () => {
+    const manifestKeys = ['projects/payroll/_manifest.json', '_manifest.json'];
+
+    expect(manifestKeys.filter(key =>
+      getEventKeySuffixes().some(suffix => key.endsWith(suffix)) || getEventKeyNames().includes(key)
+    )).toEqual(manifestKeys);
+  });
+
+  it('should only reference built-in prompt templates', () => {
+    const templateIds = BUILT_IN_PROMPT_TEMPLATES.map(template => template.id);
+
+    for (const format of FILE_FORMATS) {
+      expect(templateIds).toContain(format.promptTemplateId);
+    }
+    expect(BUILT_IN_PROMPT_TEMPLATES.find(template => template.id === 'source-code')?.fileTypes)
+      .toEqual(getFileTypesForPromptTemplate('source-code'));
+  });
+
+  it('should give every language on the shared source-code template its own guidance', () => {
+    for (const fileType of getFileTypesForPromptTemplate('source-code')) {
+      expect(getFileFormat(`module.${fileType}`)?.promptGuidance).toBeTruthy();
+    }
+    expect(createPromptTemplateVariables('src/pay.go', 'go', 'package pay').languageGuidance).toContain('goroutines');
+  });
+
+  it('should describe supported formats without legacy formats', () => {
+    const description = describeSupportedFileFormats();
+
+    expect(description).toContain('Markdown (.md, .markdown)');
+    expect(description).toContain('Word document (.docx)');
+    expect(description).not.toContain('.doc,');
+    expect(description).not.toMatch(/\.doc\)/);
+  });
+});
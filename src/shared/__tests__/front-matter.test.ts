@@ -0,0 +1,74 @@
+import {
+  addFrontMatter,
+  parseFrontMatter,
+  parseSpecificationFrontMatter,
+  serializeFrontMatter
+} from '../front-matter';
+
+describe('serializeFrontMatter', () => {
+  it('should quote strings and keep numbers, booleans and null unquoted', () => {
+    const yaml = serializeFrontMatter({
+      title: 'Order "Service": v2',
+      version: 'yes',
+      input_tokens: 1200,
+      truncated: false,
+      execution_id: null,
+      skipped: undefined
+    });
+
+    expect(yaml).toBe([
+      '---',
+      'title: "Order \\"Service\\": v2"',
+      'version: "yes"',
+      'input_tokens: 1200',
+      'truncated: false',
+      'execution_id: null',
+      '---',
+      ''
+    ].join('\n'));
+  });
+
+  it('should reject keys that are not plain identifiers', () => {
+    expect(() => serializeFrontMatter({ 'bad key': 'x' })).toThrow('Invalid front matter key');
+  });
+});
+
+describe('parseFrontMatter', () => {
+  it('should round-trip serialized values and return the body', () => {
+    const data = {
+      title: 'Line one\nline two # not a comment',
+      source_key: 'docs/payments.md',
+      generated_at: '2023-10-01T12:00:00Z',
+      word_count: 42,
+      processing_time_seconds: 1.5,
+      cache_hit: true
+    };
+
+    const parsed = parseFrontMatter(addFrontMatter('# Payments\n\nBody text.\n', data));
+
+    expect(parsed.hasFrontMatter).toBe(true);
+    expect(parsed.frontMatter).toEqual(data);
+    expect(parsed.body).toBe('# Payments\n\nBody text.\n');
+  });
+
+  it('should read plain, single-quoted and commented YAML scalars', () => {
+    const parsed = parseFrontMatter("---\r\nauthor: 'O''Brien'\r\ndraft: True # review first\r\nsummary: plain text\r\nempty:\r\n---\r\nBody");
+
+    expect(parsed.frontMatter).toEqual({ author: "O'Brien", draft: true, summary: 'plain text', empty: null });
+    expect(parsed.body).toBe('Body');
+  });
+
+  it('should leave documents without front matter unchanged', () => {
+    const document = '# Title\n\n---\n\nAfter a rule.';
+
+    expect(parseFrontMatter(document)).toEqual({ frontMatter: {}, body: document, hasFrontMatter: false });
+  });
+});
+
+describe('parseSpecificationFrontMatter', () => {
+  it('should only return specification metadata when the source key is present', () => {
+    expect(parseSpecificationFrontMatter('---\ntitle: "Notes"\n---\n\nText').frontMatter).toBeUndefined();
+    expect(parseSpecificationFrontMatter('---\nsource_key: "a.md"\ninput_tokens: 10\n---\n\nText').frontMatter)
+      .toEqual({ source_key: 'a.md', input_tokens: 10 });
+  });
+});
@@ -0,0 +1,121 @@
+import { DynamoDB } from 'aws-sdk';
+import {
+  createJob,
+  markJobFailed,
+  queryJobsByDay,
+  resolveJobId,
+  updateJobStatus
+} from '../job-repository';
+
+describe('job repository', () => {
+  // DocumentClient created by the repository module (aws-sdk is mocked in test/setup.ts)
+  const client = (DynamoDB.DocumentClient as unknown as jest.Mock).mock.results[0].value;
+  const resolved = (value: unknown = {}) => ({ promise: () => Promise.resolve(value) });
+
+  beforeEach(() => {
+    process.env.JOB_TABLE_NAME = 'test-jobs';
+  });
+
+  afterEach(() => {
+    delete process.env.JOB_TABLE_NAME;
+    jest.clearAllMocks();
+  });
+
+  it('should create a queued job keyed on the upload day', async () => {
+    client.put.mockReturnValue(resolved());
+
+    await createJob({
+      jobId: 'exec-1',
+      sourceKey: 'docs/api.md',
+      sourceBucket: 'test-input-bucket',
+      sourceEtag: 'abc',
+      queuedAt: '2024-05-01T23:59:00Z'
+    });
+
+    const params = client.put.mock.calls[0][0];
+    expect(params.TableName).toBe('test-jobs');
+    expect(params.ConditionExpression).toBe('attribute_not_exists(jobId)');
+    expect(params.Item).toMatchObject({
+      jobId: 'exec-1',
+      status: 'queued',
+      sourceKey: 'docs/api.md',
+      day: '2024-05-01',
+      createdAt: '2024-05-01T23:59:00.000Z',
+      queuedAt: '2024-05-01T23:59:00.000Z',
+      expiresAt: Date.parse('2024-05-01T23:59:00Z') / 1000 + 90 * 24 * 60 * 60
+    });
+  });
+
+  it('should set the status, its first timestamp and extra fields without overwriting a failure', async () => {
+    client.update.mockReturnValue(resolved());
+
+    await updateJobStatus('exec-1', 'generating', { inputTokens: 120, outputTokens: 40, modelId: undefined });
+
+    const params = client.update.mock.calls[0][0];
+    expect(params.Key).toEqual({ jobId: 'exec-1' });
+    expect(params.UpdateExpression).toBe(
+      'SET #status = :status, updatedAt = :now, #statusAt = if_not_exists(#statusAt, :now), #a0 = :a0, #a1 = :a1'
+    );
+    expect(params.ConditionExpression).toBe('attribute_exists(jobId) AND #status <> :failed');
+    expect(params.ExpressionAttributeNames).toEqual({
+      '#status': 'status', '#statusAt': 'generatingAt', '#a0': 'inputTokens', '#a1': 'outputTokens'
+    });
+  });
+
+  it('should record failures on any existing job', async () => {
+    client.update.mockReturnValue(resolved());
+
+    await markJobFailed('exec-1', { errorType: 'LLM_PROCESSING_ERROR', message: 'Throttled' });
+
+    const params = client.update.mock.calls[0][0];
+    expect(params.ConditionExpression).toBe('attribute_exists(jobId)');
+    expect(params.ExpressionAttributeValues).toMatchObject({
+      ':status': 'failed', ':a0': 'LLM_PROCESSING_ERROR', ':a1': 'Throttled'
+    });
+    expect(params.ExpressionAttributeValues[':failed']).toBeUndefined();
+  });
+
+  it('should not create a partial job when the job record does not exist', async () => {
+    client.update.mockReturnValue({
+      promise: () => Promise.reject(Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' }))
+    });
+
+    await expect(updateJobStatus('missing-job', 'generating')).resolves.toBeUndefined();
+    await expect(markJobFailed('missing-job', { errorType: 'FILE_READ_ERROR' })).resolves.toBeUndefined();
+    expect(client.update.mock.calls.map((call: Array<{ ConditionExpression: string }>) => call[0].ConditionExpression))
+      .toEqual(['attribute_exists(jobId) AND #status <> :failed', 'attribute_exists(jobId)']);
+  });
+
+  it('should never throw when tracking fails or is not configured', async () => {
+    client.update.mockReturnValue({ promise: () => Promise.reject(new Error('Table not found')) });
+
+    await expect(updateJobStatus('exec-1', 'writing')).resolves.toBeUndefined();
+    await expect(updateJobStatus(undefined, 'writing')).resolves.toBeUndefined();
+
+    delete process.env.JOB_TABLE_NAME;
+    await updateJobStatus('exec-1', 'writing');
+    expect(client.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the job id in the key for job API uploads and the execution name otherwise', () => {
+    expect(resolveJobId('uploads/b7e3c1f2-9d4a-4c55-8f0e-2a1b3c4d5e6f/payments.md', 'exec-1'))
+      .toBe('b7e3c1f2-9d4a-4c55-8f0e-2a1b3c4d5e6f');
+    expect(resolveJobId('docs/payments.md', 'exec-1')).toBe('exec-1');
+    expect(resolveJobId('uploads/nested/dir/payments.md', 'exec-1')).toBe('exec-1');
+  });
+
+  it('should query a day newest first', async () => {
+    client.query.mockReturnValue(resolved({ Items: [{ jobId: 'exec-2' }], LastEvaluatedKey: { jobId: 'exec-2' } }));
+
+    const result = await queryJobsByDay('2024-05-01', { limit: 1 });
+
+    expect(client.query.mock.calls[0][0]).toMatchObject({
+      IndexName: 'byDay',
+      ExpressionAttributeNames: { '#pk': 'day' },
+      ExpressionAttributeValues: { ':value': '2024-05-01' },
+      ScanIndexForward: false,
+      Limit: 1
+    });
+    expect(result).toEqual({ jobs: [{ jobId: 'exec-2' }], lastEvaluatedKey: { jobId: 'exec-2' } });
+  });
+});
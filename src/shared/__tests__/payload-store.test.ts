@@ -0,0 +1,68 @@
+import { S3 } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { S3_CONFIG } from '../constants';
+import { exceedsInlineLimit, resolveInlineOrReference, resolvePayload, stagePayload } from '../payload-store';
+
+describe('payload store', () => {
+  // aws-sdk is mocked in test/setup.ts
+  const s3 = new S3();
+  const putObject = s3.putObject as unknown as jest.Mock;
+  const getObject = s3.getObject as unknown as jest.Mock;
+  const resolved = (value: unknown = {}) => ({ promise: () => Promise.resolve(value) });
+  const sha256 = (text: string) => createHash('sha256').update(text, 'utf-8').digest('hex');
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep content up to the Step Functions payload limit inline', () => {
+    const limit = S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT;
+
+    expect(exceedsInlineLimit('a'.repeat(limit))).toBe(false);
+    expect(exceedsInlineLimit('a'.repeat(limit + 1))).toBe(true);
+    // The limit is measured in UTF-8 bytes, not characters
+    expect(exceedsInlineLimit('é'.repeat(limit / 2 + 1))).toBe(true);
+  });
+
+  it('should stage content under a content-addressed working key', async () => {
+    putObject.mockReturnValue(resolved());
+    const content = 'IDENTIFICATION DIVISION.\n';
+
+    const reference = await stagePayload(s3, 'test-input-bucket', content, 'legacy/PAY CALC.cbl');
+
+    expect(reference).toEqual({
+      bucket: 'test-input-bucket',
+      key: `_working/${sha256(content)}.payload`,
+      sha256: sha256(content),
+      length: Buffer.byteLength(content),
+    });
+    expect(putObject.mock.calls[0][0]).toMatchObject({
+      Bucket: 'test-input-bucket',
+      Key: reference.key,
+      Metadata: { 'source-key': 'legacy%2FPAY%20CALC.cbl' },
+      ServerSideEncryption: 'AES256',
+    });
+  });
+
+  it('should resolve a staged reference and verify its hash', async () => {
+    const content = 'Staged specification content';
+    const reference = { bucket: 'b', key: `_working/${sha256(content)}.payload`, sha256: sha256(content), length: content.length };
+    getObject.mockReturnValue(resolved({ Body: Buffer.from(content) }));
+
+    await expect(resolvePayload(s3, reference)).resolves.toBe(content);
+    expect(getObject).toHaveBeenCalledWith({ Bucket: 'b', Key: reference.key });
+
+    getObject.mockReturnValue(resolved({ Body: Buffer.from('tampered content') }));
+    await expect(resolvePayload(s3, reference)).rejects.toThrow('does not match its reference');
+  });
+
+  it('should prefer a reference over inline content', async () => {
+    const content = 'from s3';
+    getObject.mockReturnValue(resolved({ Body: Buffer.from(content) }));
+
+    await expect(resolveInlineOrReference(s3, 'inline', undefined)).resolves.toBe('inline');
+    await expect(resolveInlineOrReference(s3, 'inline', {
+      bucket: 'b', key: 'k', sha256: sha256(content), length: content.length,
+    })).resolves.toBe(content);
+  });
+});
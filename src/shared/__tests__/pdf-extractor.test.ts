@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractPdfText } from '../pdf-extractor';
+
+const readFixture = (name: string): Buffer => readFileSync(join(__dirname, 'fixtures', 'pdf', name));
+
+describe('extractPdfText', () => {
+  it('should extract text from a Flate-compressed content stream', () => {
+    const result = extractPdfText(readFixture('flate.pdf'), 'flate.pdf');
+
+    if ('errorType' in result) {
+      throw new Error(result.message);
+    }
+    expect(result.pageCount).toBe(1);
+    expect(result.text).toBe(
+      '[Page 1 of 1]\n' +
+      'Order Service Requirements\n' +
+      'Orders are validated before they are persisted.'
+    );
+  });
+
+  it('should keep page order and report per-page character counts', () => {
+    const result = extractPdfText(readFixture('multi-page.pdf'), 'multi-page.pdf');
+
+    if ('errorType' in result) {
+      throw new Error(result.message);
+    }
+    expect(result.pageCount).toBe(3);
+    expect(result.text.split('\n\n')).toEqual([
+      '[Page 1 of 3]\nFirst page heading',
+      '[Page 2 of 3]\nSecond page body',
+      '[Page 3 of 3]\nThird page summary',
+    ]);
+    expect(result.pageCharacterCounts).toEqual([
+      { pageNumber: 1, characterCount: 18 },
+      { pageNumber: 2, characterCount: 16 },
+      { pageNumber: 3, characterCount: 18 },
+    ]);
+  });
+
+  it('should decode WinAnsi bytes 0x80-0x9F as Windows-1252 punctuation', () => {
+    const result = extractPdfText(readFixture('winansi.pdf'), 'winansi.pdf');
+
+    if ('errorType' in result) {
+      throw new Error(result.message);
+    }
+    expect(result.pages[0].text).toBe('Price €5 – “quoted” • done™');
+    expect(result.text).not.toMatch(/[\u0080-\u009f]/);
+  });
+
+  it('should return PDF_ENCRYPTED for a document with an /Encrypt trailer entry', () => {
+    const result = extractPdfText(readFixture('encrypted.pdf'), 'encrypted.pdf');
+
+    expect(result).toMatchObject({
+      errorType: 'PDF_ENCRYPTED',
+      originalFile: 'encrypted.pdf',
+      details: { retryable: false },
+    });
+  });
+
+  it('should return FILE_READ_ERROR for a corrupt document without pages', () => {
+    const result = extractPdfText(readFixture('corrupt.pdf'), 'corrupt.pdf');
+
+    expect(result).toMatchObject({
+      errorType: 'FILE_READ_ERROR',
+      message: 'PDF does not contain any pages',
+    });
+  });
+
+  it('should reject content without a PDF header', () => {
+    const result = extractPdfText(Buffer.from('not a pdf'), 'notes.pdf');
+
+    expect(result).toMatchObject({
+      errorType: 'FILE_READ_ERROR',
+      message: 'File does not have a valid PDF header',
+    });
+  });
+});
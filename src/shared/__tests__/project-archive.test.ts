@@ -0,0 +1,101 @@
+import { gzipSync } from 'zlib';
+import {
+  getManifestMemberPrefix,
+  getProjectName,
+  listArchiveMembers,
+  normalizeProjectPath,
+  parseProjectManifest
+} from '../project-archive';
+import { getFileFormat } from '../file-formats';
+
+/**
+ * Build a ustar archive from name/content pairs
+ */
+function createTar(files: Array<[string, string]>): Buffer {
+  const blocks = files.flatMap(([name, content]) => {
+    const data = Buffer.from(content, 'utf8');
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000644\0', 100, 'latin1');
+    header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124, 'latin1');
+    header.write('        ', 148, 'latin1');
+    header.write(name.endsWith('/') ? '5' : '0', 156, 'latin1');
+    header.write('ustar\0' + '00', 257, 'latin1');
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+
+    const padded = Buffer.alloc(Math.ceil(data.length / 512) * 512);
+    data.copy(padded);
+    return [header, padded];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+describe('project archives', () => {
+  const tar = createTar([
+    ['payroll/', ''],
+    ['payroll/src/PAYCALC.cbl', '       IDENTIFICATION DIVISION.\n'],
+    ['payroll/jcl/NIGHTLY.jcl', '//NIGHTLY JOB (ACCT)\n'],
+    ['payroll/.DS_Store', 'metadata'],
+    ['__MACOSX/payroll/src/._PAYCALC.cbl', 'metadata'],
+    ['../outside.sh', 'echo escaped'],
+  ]);
+
+  it('should list archive files and leave out directories and operating system metadata', async () => {
+    const { members, skippedFiles } = listArchiveMembers(tar, 'tar');
+
+    expect(members.map(member => member.path)).toEqual(['payroll/src/PAYCALC.cbl', 'payroll/jcl/NIGHTLY.jcl']);
+    expect((await members[1].read()).toString()).toBe('//NIGHTLY JOB (ACCT)\n');
+    expect(skippedFiles).toEqual([{ path: '../outside.sh', reason: 'Path leaves the archive root' }]);
+  });
+
+  it('should read gzip-compressed tar archives', () => {
+    const { members } = listArchiveMembers(gzipSync(tar), 'tar');
+
+    expect(members).toHaveLength(2);
+    expect(members[0].size).toBe(32);
+  });
+
+  it('should reject corrupt tar headers', () => {
+    const corrupt = Buffer.from(tar);
+    corrupt[0] = 'X'.charCodeAt(0);
+
+    expect(() => listArchiveMembers(corrupt, 'tar')).toThrow('Corrupt tar header');
+  });
+
+  it('should identify archives and manifests as project formats', () => {
+    expect(getFileFormat('uploads/payroll.tar.gz')?.id).toBe('tar');
+    expect(getFileFormat('uploads/payroll.TGZ')?.id).toBe('tar');
+    expect(getFileFormat('uploads/payroll.zip')?.id).toBe('zip');
+    expect(getFileFormat('projects/payroll/_manifest.json')?.id).toBe('manifest');
+    expect(getFileFormat('projects/payroll/settings.json')).toBeUndefined();
+  });
+
+  it('should parse manifests and validate their fields', () => {
+    expect(parseProjectManifest(Buffer.from(''))).toEqual({});
+    expect(parseProjectManifest(Buffer.from('{"name":"Payroll","files":["src/PAYCALC.cbl"]}')))
+      .toEqual({ name: 'Payroll', files: ['src/PAYCALC.cbl'] });
+    expect(() => parseProjectManifest(Buffer.from('["src/PAYCALC.cbl"]'))).toThrow('JSON object');
+    expect(() => parseProjectManifest(Buffer.from('{"files":"src"}'))).toThrow('array of paths');
+  });
+
+  it('should keep project paths inside the project root', () => {
+    expect(normalizeProjectPath('./src\\PAYCALC.cbl')).toBe('src/PAYCALC.cbl');
+    expect(normalizeProjectPath('src/../../etc/passwd')).toBeUndefined();
+    expect(normalizeProjectPath('/')).toBeUndefined();
+  });
+
+  it('should name projects after the manifest, archive or manifest folder', () => {
+    expect(getProjectName('projects/payroll/_manifest.json', { name: ' Payroll ' })).toBe('Payroll');
+    expect(getProjectName('projects/payroll/_manifest.json', {})).toBe('payroll');
+    expect(getProjectName('uploads/payroll-v2.tar.gz')).toBe('payroll-v2');
+  });
+
+  it('should only accept manifests in a folder under projects/', () => {
+    expect(getManifestMemberPrefix('projects/payroll/_manifest.json')).toBe('projects/payroll/');
+    expect(getManifestMemberPrefix('projects/payroll/v2/_manifest.json')).toBe('projects/payroll/v2/');
+    expect(getManifestMemberPrefix('projects/_manifest.json')).toBeUndefined();
+    expect(getManifestMemberPrefix('payroll/_manifest.json')).toBeUndefined();
+    expect(getManifestMemberPrefix('_manifest.json')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { S3 } from 'aws-sdk';
+import { PROMPT_TEMPLATE_CONFIG } from '../constants';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  createPromptTemplateVariables,
+  loadPromptTemplates,
+  renderPromptTemplate,
+  selectPromptTemplate
+} from '../prompt-templates';
+import { PromptTemplate } from '../types';
+
+describe('prompt templates', () => {
+  // aws-sdk is mocked in test/setup.ts
+  const s3 = new S3();
+  const listObjectsV2 = s3.listObjectsV2 as unknown as jest.Mock;
+  const getObject = s3.getObject as unknown as jest.Mock;
+  const resolved = (value: unknown = {}) => ({ promise: () => Promise.resolve(value) });
+  const rejected = (error: Error) => ({ promise: () => Promise.reject(error) });
+
+  const template = (id: string, fileTypes: string[], keyPrefix?: string): PromptTemplate => ({
+    id,
+    version: '1',
+    fileTypes,
+    keyPrefix,
+    template: `${id}: {{content}}`
+  });
+
+  // Serve template definitions from the configuration bucket by key
+  const stageTemplates = (definitions: Record<string, unknown>) => {
+    getObject.mockImplementation((params: { Key: string }) => {
+      const definition = definitions[params.Key];
+      return resolved({ Body: typeof definition === 'string' ? definition : JSON.stringify(definition) });
+    });
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('loadPromptTemplates', () => {
+    const ttl = PROMPT_TEMPLATE_CONFIG.CACHE_TTL_SECONDS * 1000;
+    let now = Date.parse('2024-05-01T12:00:00Z');
+
+    // Templates are cached per container; each test starts well past the last test's cache
+    beforeEach(() => {
+      now += 10 * ttl;
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+      process.env.CONFIG_BUCKET_NAME = 'test-config-bucket';
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      delete process.env.CONFIG_BUCKET_NAME;
+    });
+
+    it('should merge configured templates from every listing page over the built-ins', async () => {
+      listObjectsV2
+        .mockReturnValueOnce(resolved({
+          Contents: [{ Key: 'prompt-templates/generic.json' }, { Key: 'prompt-templates/README.md' }],
+          IsTruncated: true,
+          NextContinuationToken: 'page-2'
+        }))
+        .mockReturnValueOnce(resolved({ Contents: [{ Key: 'prompt-templates/payments.json' }], IsTruncated: false }));
+      stageTemplates({
+        'prompt-templates/generic.json': { id: 'generic', version: 2, fileTypes: ['*'], template: 'Summarise {{content}}' },
+        'prompt-templates/payments.json': {
+          id: 'payments-cobol',
+          version: '1',
+          fileTypes: ['CBL'],
+          keyPrefix: 'legacy/payments/',
+          template: 'Payments module {{fileName}}: {{content}}'
+        }
+      });
+
+      const templates = await loadPromptTemplates(s3);
+
+      expect(listObjectsV2.mock.calls.map(([params]) => params)).toEqual([
+        { Bucket: 'test-config-bucket', Prefix: 'prompt-templates/', ContinuationToken: undefined },
+        { Bucket: 'test-config-bucket', Prefix: 'prompt-templates/', ContinuationToken: 'page-2' }
+      ]);
+      expect(getObject).toHaveBeenCalledTimes(2);
+      expect(templates.slice(0, 2)).toEqual([
+        { id: 'generic', version: '2', description: undefined, fileTypes: ['*'], keyPrefix: undefined, template: 'Summarise {{content}}' },
+        expect.objectContaining({ id: 'payments-cobol', fileTypes: ['cbl'], keyPrefix: 'legacy/payments/' })
+      ]);
+      expect(templates.filter(({ id }) => id === 'generic')).toHaveLength(1);
+      expect(templates).toHaveLength(BUILT_IN_PROMPT_TEMPLATES.length + 1);
+    });
+
+    it('should skip definitions without {{content}}, without file types or with invalid JSON', async () => {
+      listObjectsV2.mockReturnValue(resolved({
+        Contents: ['valid', 'no-content', 'no-file-types', 'not-json'].map(name => ({ Key: `prompt-templates/${name}.json` }))
+      }));
+      stageTemplates({
+        'prompt-templates/valid.json': { id: 'valid', version: '1', fileTypes: ['md'], template: '{{ content }}' },
+        'prompt-templates/no-content.json': { id: 'no-content', version: '1', fileTypes: ['md'], template: 'Describe {{fileName}}' },
+        'prompt-templates/no-file-types.json': { id: 'no-file-types', version: '1', fileTypes: [], template: '{{content}}' },
+        'prompt-templates/not-json.json': '{ "id": "not-json", '
+      });
+
+      const templates = await loadPromptTemplates(s3);
+
+      expect(templates.map(({ id }) => id)).toEqual(['valid', ...BUILT_IN_PROMPT_TEMPLATES.map(({ id }) => id)]);
+    });
+
+    it('should use the built-ins while the configuration bucket fails without caching the failure', async () => {
+      listObjectsV2
+        .mockReturnValueOnce(rejected(Object.assign(new Error('Access Denied'), { code: 'AccessDenied' })))
+        .mockReturnValueOnce(resolved({ Contents: [{ Key: 'prompt-templates/generic.json' }] }));
+      stageTemplates({ 'prompt-templates/generic.json': { id: 'generic', version: '2', fileTypes: ['*'], template: '{{content}}' } });
+
+      expect(await loadPromptTemplates(s3)).toEqual(BUILT_IN_PROMPT_TEMPLATES);
+
+      const retried = await loadPromptTemplates(s3);
+      expect(listObjectsV2).toHaveBeenCalledTimes(2);
+      expect(retried[0]).toMatchObject({ id: 'generic', version: '2' });
+    });
+
+    it('should reuse loaded templates until the cache TTL expires', async () => {
+      listObjectsV2.mockReturnValue(resolved({ Contents: [] }));
+
+      await loadPromptTemplates(s3);
+      jest.setSystemTime(now + ttl - 1);
+      await loadPromptTemplates(s3);
+      expect(listObjectsV2).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(now + ttl);
+      await loadPromptTemplates(s3);
+      expect(listObjectsV2).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the built-ins without a configuration bucket', async () => {
+      delete process.env.CONFIG_BUCKET_NAME;
+
+      expect(await loadPromptTemplates(s3)).toEqual(BUILT_IN_PROMPT_TEMPLATES);
+      expect(listObjectsV2).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('selectPromptTemplate', () => {
+    const generic = template('generic', ['*']);
+
+    it('should prefer the longest matching key prefix', () => {
+      const templates = [
+        generic,
+        template('legacy', ['*'], 'legacy/'),
+        template('legacy-payments', ['*'], 'legacy/payments/'),
+        template('cobol', ['cbl'])
+      ];
+
+      expect(selectPromptTemplate(templates, 'cbl', 'legacy/payments/PAYCALC.cbl').id).toBe('legacy-payments');
+      expect(selectPromptTemplate(templates, 'cbl', 'legacy/billing/BILL.cbl').id).toBe('legacy');
+      expect(selectPromptTemplate(templates, 'cbl', 'src/PAYCALC.cbl').id).toBe('cobol');
+    });
+
+    it('should prefer an exact file type over the wildcard for the same prefix', () => {
+      const templates = [template('legacy-any', ['*'], 'legacy/'), template('legacy-cobol', ['cbl'], 'legacy/'), generic];
+
+      expect(selectPromptTemplate(templates, 'CBL', 'legacy/PAYCALC.cbl').id).toBe('legacy-cobol');
+      expect(selectPromptTemplate(templates, 'jcl', 'legacy/NIGHTLY.jcl').id).toBe('legacy-any');
+    });
+
+    it('should fall back to the generic template when nothing matches', () => {
+      const templates = [template('cobol', ['cbl']), template('docs', ['md'], 'docs/'), generic];
+
+      expect(selectPromptTemplate(templates, 'md', 'notes/README.md')).toBe(generic);
+      expect(selectPromptTemplate([template('cobol', ['cbl'])], 'md', 'notes/README.md')).toBe(BUILT_IN_PROMPT_TEMPLATES[0]);
+    });
+  });
+
+  describe('renderPromptTemplate', () => {
+    it('should fill known placeholders and leave unknown placeholders untouched', () => {
+      const variables = createPromptTemplateVariables('legacy/PAYCALC.cbl', 'cbl', 'PROCEDURE DIVISION.\n    STOP RUN.');
+      const prompt = renderPromptTemplate(
+        { ...template('custom', ['cbl']), template: 'File {{ fileName }} ({{lineCount}} lines) by {{author}}:\n{{content}}' },
+        variables
+      );
+
+      expect(prompt).toBe('File PAYCALC.cbl (2 lines) by {{author}}:\nPROCEDURE DIVISION.\n    STOP RUN.');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractRtfText } from '../rtf-parser';
+
+const readFixture = (name: string): Buffer => readFileSync(join(__dirname, 'fixtures', 'rtf', name));
+
+describe('extractRtfText', () => {
+  it('should keep paragraphs and drop font, colour, stylesheet and info tables', () => {
+    const text = extractRtfText(readFixture('paragraphs.rtf'));
+
+    expect(text).toBe(
+      'Order Service Requirements\n\n' +
+      'The service must accept orders from the web channel.\n\n' +
+      'Orders are validated before\nthey are persisted.\n\n' +
+      '\tIndented paragraph with a tab.'
+    );
+    expect(text).not.toContain('Calibri');
+    expect(text).not.toContain('Jane Analyst');
+    expect(text).not.toContain('Riched20');
+  });
+
+  it('should decode hex escapes, unicode escapes and control symbols', () => {
+    const text = extractRtfText(readFixture('escapes.rtf'));
+
+    expect(text.split('\n\n')).toEqual([
+      'Café costs €5 – price in euro.',
+      'Unicode with fallback: € and “quoted”.',
+      'Surrogate pair: 😀',
+      'Escaped braces { and } and backslash \\ and non\u00a0breaking and hy-phen and softhyphen.',
+      'Curly “quotes” and ‘single’ – — • done.',
+    ]);
+  });
+
+  it('should decode bytes using the document and font code pages', () => {
+    const text = extractRtfText(readFixture('codepage.rtf'));
+
+    expect(text).toBe('Привет мир\n\nαειαα\n\nNaïve');
+  });
+
+  it('should skip pictures, headers, objects and field instructions but keep field results and tables', () => {
+    const text = extractRtfText(readFixture('destinations.rtf'));
+
+    expect(text).toBe(
+      'Visible before picture.\n\n' +
+      'Specification link\n\n' +
+      'Bookmarked text\n\n' +
+      'Name | Type |\namount | decimal |\n' +
+      'After table.'
+    );
+    expect(text).not.toContain('HYPERLINK');
+    expect(text).not.toContain('89504e47');
+    expect(text).not.toContain('Page header text');
+    expect(text).not.toContain('Embedded result');
+  });
+
+  it('should accept string input and skip \\bin data', () => {
+    const text = extractRtfText('{\\rtf1\\ansi Before {\\*\\blipuid 1}\\bin3 {}}after}');
+
+    expect(text).toBe('Before after');
+  });
+});
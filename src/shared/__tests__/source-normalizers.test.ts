@@ -0,0 +1,40 @@
+import { normalizeSourceContent } from '../source-normalizers';
+
+describe('source normalizers', () => {
+  it('should strip COBOL sequence and identification areas but keep the indicator column', () => {
+    const source = [
+      '000100 IDENTIFICATION DIVISION.                                         PAYCALC ',
+      '000200 PROGRAM-ID. PAYCALC.                                             PAYCALC ',
+      '000300*  CALCULATE NET PAY                                              PAYCALC ',
+      '000400',
+      '000500 PROCEDURE DIVISION.                                              PAYCALC ',
+      '000600     COMPUTE WS-NET = WS-GROSS - WS-TAX.                          PAYCALC ',
+    ].join('\n');
+
+    expect(normalizeSourceContent(source, 'cobol')).toBe([
+      ' IDENTIFICATION DIVISION.',
+      ' PROGRAM-ID. PAYCALC.',
+      '*  CALCULATE NET PAY',
+      '',
+      ' PROCEDURE DIVISION.',
+      '     COMPUTE WS-NET = WS-GROSS - WS-TAX.',
+    ].join('\n'));
+  });
+
+  it('should leave free-format COBOL untouched', () => {
+    const source = '>>SOURCE FORMAT IS FREE\nIDENTIFICATION DIVISION.\nPROGRAM-ID. PAYCALC.';
+
+    expect(normalizeSourceContent(source, 'cobol')).toBe(source);
+  });
+
+  it('should strip sequence numbers in columns 73-80 only when most lines carry them', () => {
+    const numbered = [
+      '//PAYJOB   JOB (ACCT),CLASS=A'.padEnd(72) + '00010000',
+      '//STEP01   EXEC PGM=PAYCALC'.padEnd(72) + '00020000',
+    ].join('\n');
+    const script = `SELECT ACCOUNT_ID FROM ACCOUNTS WHERE BALANCE > 0 AND OPENED_ON > DATE('2001-01-01') OR ID = 12345678\nCOMMIT;`;
+
+    expect(normalizeSourceContent(numbered, 'sequence-numbers')).toBe('//PAYJOB   JOB (ACCT),CLASS=A\n//STEP01   EXEC PGM=PAYCALC');
+    expect(normalizeSourceContent(script, 'sequence-numbers')).toBe(script);
+  });
+});
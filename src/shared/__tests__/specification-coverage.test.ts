@@ -0,0 +1,62 @@
+import {
+  createCoverageFollowUpPrompt,
+  findUndocumentedEntries,
+  measureSpecificationCoverage
+} from '../specification-coverage';
+import { CodeOutline } from '../types';
+
+describe('specification coverage', () => {
+  const outline: CodeOutline = {
+    fileType: 'java',
+    entries: [
+      { kind: 'class', name: 'PaymentController', line: 3, public: true },
+      { kind: 'method', name: 'list', line: 5, parameters: ['String account'], parent: 'PaymentController', public: true },
+      { kind: 'method', name: 'list', line: 9, parameters: ['String account', 'int limit'], parent: 'PaymentController', public: true },
+      { kind: 'method', name: 'postPayment', line: 13, parameters: ['Payment payment'], parent: 'PaymentController', public: true },
+      { kind: 'method', name: 'audit', line: 17, parameters: ['Payment payment'], parent: 'PaymentController', public: false },
+    ],
+  };
+
+  it('should count public entries named in the specification, once per overloaded method', () => {
+    const specification = '# Payments\n\n`PaymentController` exposes `list(account)` to callers.\n';
+
+    expect(measureSpecificationCoverage(outline, specification, 80)).toEqual({
+      percentage: 66,
+      documentedCount: 2,
+      totalCount: 3,
+      missing: ['PaymentController.postPayment'],
+      threshold: 80,
+    });
+  });
+
+  it('should match whole identifiers, ignoring case only for case-insensitive languages', () => {
+    const specification = 'The controller lists payments; POSTPAYMENT and PaymentControllerTest are unrelated.';
+    expect(findUndocumentedEntries(outline, specification).map(entry => entry.name))
+      .toEqual(['PaymentController', 'list', 'postPayment']);
+
+    const rexx: CodeOutline = {
+      fileType: 'rexx',
+      entries: [
+        { kind: 'program', name: 'LOADPAY', line: 1, public: true },
+        { kind: 'label', name: 'validate', line: 7, public: true },
+      ],
+    };
+    expect(measureSpecificationCoverage(rexx, 'The VALIDATE routine checks the dataset.', 80)?.percentage).toBe(100);
+  });
+
+  it('should not score outlines without public entries', () => {
+    const internalOnly: CodeOutline = { fileType: 'py', entries: [{ kind: 'function', name: '_helper', line: 1, public: false }] };
+
+    expect(measureSpecificationCoverage(internalOnly, '# Helpers', 80)).toBeUndefined();
+  });
+
+  it('should ask only for the missing definitions', () => {
+    const prompt = createCoverageFollowUpPrompt('Original prompt', findUndocumentedEntries(outline, 'PaymentController'));
+
+    expect(prompt.startsWith('Original prompt\n\n')).toBe(true);
+    expect(prompt).toContain('- method list(String account) at line 5, public (in PaymentController)');
+    expect(prompt).toContain('- method postPayment(Payment payment) at line 13, public (in PaymentController)');
+    expect(prompt).not.toContain('audit');
+    expect(prompt).toContain('Write only the additional markdown sections');
+  });
+});
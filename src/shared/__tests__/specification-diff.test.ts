@@ -0,0 +1,111 @@
+import {
+  describeSpecificationChanges,
+  diffSpecificationSections,
+  renderSpecificationDiffMarkdown,
+  splitSections,
+  summarizeSpecificationDiff
+} from '../specification-diff';
+
+const previous = `# Payments
+
+## Overview
+
+Daily payment processing.
+
+## Validation
+
+- Reject records without an account
+- Reject negative amounts
+
+\`\`\`
+# not a heading
+\`\`\`
+
+## Reporting
+
+Totals are emailed.
+`;
+
+const current = `# Payments
+
+## Overview
+
+Daily payment processing.
+
+## Validation
+
+- Reject records without an account
+- Reject amounts above the daily limit
+
+\`\`\`
+# not a heading
+\`\`\`
+
+## Auditing
+
+Every rejection is logged.
+`;
+
+const previousVersion = {
+  processingId: 'lnaf8xq8-k3j9x',
+  generatedAt: '2024-05-01T12:00:00Z',
+  location: 's3://out/docs/payments-2024-05-01-120000000.md'
+};
+
+describe('splitSections', () => {
+  it('should key sections on their heading path and ignore headings in code fences', () => {
+    const sections = splitSections(previous);
+
+    expect(sections.map(section => section.key)).toEqual([
+      'Payments',
+      'Payments > Overview',
+      'Payments > Validation',
+      'Payments > Reporting'
+    ]);
+    expect(sections[2].lines).toContain('# not a heading');
+  });
+
+  it('should number repeated heading paths', () => {
+    const keys = splitSections('## Notes\n\na\n\n## Notes\n\nb\n').map(section => section.key);
+
+    expect(keys).toEqual(['Notes', 'Notes (2)']);
+  });
+});
+
+describe('diffSpecificationSections', () => {
+  it('should report added, removed and changed sections', () => {
+    const diff = diffSpecificationSections(previous, current);
+    const summary = summarizeSpecificationDiff(diff, previousVersion);
+
+    expect(summary.addedSections).toEqual(['Payments > Auditing']);
+    expect(summary.removedSections).toEqual(['Payments > Reporting']);
+    expect(summary.changedSections).toEqual(['Payments > Validation']);
+    expect(summary.unchangedSectionCount).toBe(2);
+    expect(describeSpecificationChanges(summary)).toBe('1 section changed, 1 added, 1 removed');
+    expect(diff.changed[0].lines.filter(line => line.type !== 'context')).toEqual([
+      { type: 'added', text: '- Reject amounts above the daily limit' },
+      { type: 'removed', text: '- Reject negative amounts' }
+    ]);
+  });
+
+  it('should report no changes for identical specifications', () => {
+    const summary = summarizeSpecificationDiff(diffSpecificationSections(previous, previous), previousVersion);
+
+    expect(describeSpecificationChanges(summary)).toBe('No section changes');
+  });
+});
+
+describe('renderSpecificationDiffMarkdown', () => {
+  it('should render a diff block for each changed section', () => {
+    const markdown = renderSpecificationDiffMarkdown(
+      'docs/payments.md',
+      diffSpecificationSections(previous, current),
+      previousVersion,
+      { ...previousVersion, processingId: 'lnb1c2d3-x7y8z', generatedAt: '2024-05-02T12:00:00Z' }
+    );
+
+    expect(markdown).toContain('# Specification changes: docs/payments.md');
+    expect(markdown).toContain('## Added sections\n\n- Payments > Auditing');
+    expect(markdown).toContain('### Payments > Validation\n\n````diff\n  - Reject records without an account\n+ - Reject amounts above the daily limit\n- - Reject negative amounts\n');
+  });
+});
@@ -0,0 +1,102 @@
+import { parseMarkdown } from '../markdown-parser';
+import { getOutputFormats, SPECIFICATION_RENDERERS } from '../specification-renderers';
+
+const markdown = `# Order Service
+
+Handles **order** intake with \`OrderValidator\`.  
+See [the API](https://example.com/api) and [this](javascript:alert).
+
+## Requirements
+
+1. Accept orders
+   - from the web channel
+2. Reject invalid orders
+
+| Field | Notes |
+| :--- | ---: |
+| id | must be \\| unique |
+
+\`\`\`java
+if (a && b) { return "]]>"; }
+\`\`\`
+`;
+
+describe('parseMarkdown', () => {
+  it('should parse headings with unique ids, nested lists and tables', () => {
+    const blocks = parseMarkdown('# Title\n\n## Title\n\n- a\n  - b\n- c\n\n| x | y |\n| - | - |\n| 1 | 2 |\n');
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'heading', 'list', 'table']);
+    expect(blocks.slice(0, 2).map(block => block.type === 'heading' && block.id)).toEqual(['title', 'title-1']);
+
+    const list = blocks[2];
+    expect(list.type === 'list' && list.items.length).toBe(2);
+    expect(list.type === 'list' && list.items[0].map(block => block.type)).toEqual(['paragraph', 'list']);
+  });
+  it('should keep balanced parentheses and angle-bracket destinations in link URLs', () => {
+    const [paragraph] = parseMarkdown(
+      'See [ISO 8583](https://en.wikipedia.org/wiki/ISO_8583_(message_format) "Wikipedia") (background) ' +
+      'and [the guide](<https://example.com/a b(c>).'
+    );
+
+    expect(paragraph.type === 'paragraph' && paragraph.children).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', href: 'https://en.wikipedia.org/wiki/ISO_8583_(message_format)', children: [{ type: 'text', text: 'ISO 8583' }] },
+      { type: 'text', text: ' (background) and ' },
+      { type: 'link', href: 'https://example.com/a b(c', children: [{ type: 'text', text: 'the guide' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+});
+
+describe('specification renderers', () => {
+  it('should always include markdown and ignore unknown formats', () => {
+    expect(getOutputFormats('html, confluence,pdf')).toEqual(['markdown', 'html', 'confluence']);
+    expect(getOutputFormats(undefined)).toEqual(['markdown']);
+  });
+
+  it('should render an HTML document with a table of contents', () => {
+    const html = SPECIFICATION_RENDERERS.html.render(markdown, { title: 'Order Service' });
+
+    expect(html).toContain('<title>Order Service</title>');
+    expect(html).toContain('<li><a href="#order-service">Order Service</a>\n<ul>\n<li><a href="#requirements">Requirements</a></li>');
+    expect(html).toContain('<h2 id="requirements">Requirements</h2>');
+    expect(html).toContain('<code>OrderValidator</code>.<br>See <a href="https://example.com/api">the API</a> and this.');
+    expect(html).toContain('<li>Accept orders\n<ul>\n<li>from the web channel</li>\n</ul>\n</li>');
+    expect(html).toContain('<td style="text-align: right">must be | unique</td>');
+    expect(html).toContain('<pre><code class="language-java">if (a &amp;&amp; b) { return &quot;]]&gt;&quot;; }</code></pre>');
+  });
+
+  it('should render AsciiDoc', () => {
+    const asciidoc = SPECIFICATION_RENDERERS.asciidoc.render(markdown, { title: 'Order Service' });
+
+    expect(asciidoc.startsWith('= Order Service\n:toc:\n')).toBe(true);
+    expect(asciidoc).toContain('[[requirements]]\n=== Requirements');
+    expect(asciidoc).toContain('Handles *order* intake with `+OrderValidator+`. +\nSee https://example.com/api[the API]');
+    expect(asciidoc).toContain('. Accept orders\n** from the web channel\n. Reject invalid orders');
+    expect(asciidoc).toContain('[cols="<,>",options="header"]\n|===\n| Field | Notes\n| id | must be \\| unique\n|===');
+    expect(asciidoc).toContain('[source,java]\n----\nif (a && b) { return "]]>"; }\n----');
+  });
+
+  it('should render Confluence storage format', () => {
+    const storage = SPECIFICATION_RENDERERS.confluence.render(markdown, { title: 'Order Service' });
+
+    expect(storage.startsWith('<ac:structured-macro ac:name="toc" />\n<h1>Order Service</h1>')).toBe(true);
+    expect(storage).toContain('<br />See');
+    expect(storage).toContain(
+      '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">java</ac:parameter>' +
+      '<ac:plain-text-body><![CDATA[if (a && b) { return "]]]]><![CDATA[>"; }]]></ac:plain-text-body></ac:structured-macro>'
+    );
+    expect(SPECIFICATION_RENDERERS.confluence.contentType).toBe('application/xhtml+xml; charset=utf-8');
+  });
+
+  it('should render links whose URL contains parentheses', () => {
+    const linked = 'Read [the ISO 8583 article](https://en.wikipedia.org/wiki/ISO_8583_(message_format)) first.';
+
+    expect(SPECIFICATION_RENDERERS.html.render(linked, { title: 'Links' }))
+      .toContain('Read <a href="https://en.wikipedia.org/wiki/ISO_8583_(message_format)">the ISO 8583 article</a> first.');
+    expect(SPECIFICATION_RENDERERS.asciidoc.render(linked, { title: 'Links' }))
+      .toContain('Read https://en.wikipedia.org/wiki/ISO_8583_(message_format)[the ISO 8583 article] first.');
+    expect(SPECIFICATION_RENDERERS.confluence.render(linked, { title: 'Links' }))
+      .toContain('Read <a href="https://en.wikipedia.org/wiki/ISO_8583_(message_format)">the ISO 8583 article</a> first.');
+  });
+});
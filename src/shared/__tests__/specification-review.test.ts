@@ -0,0 +1,52 @@
+import {
+  createRegenerationPrompt,
+  isReviewPassing,
+  parseSpecificationReview
+} from '../specification-review';
+
+describe('specification review', () => {
+  const response = `Here is my review:
+\`\`\`json
+{"faithfulness": 2, "completeness": 4, "clarity": 5, "hallucinations": [{"claim": "Payments are retried hourly", "reason": "No retry in the source"}], "feedback": "Drop the retry rule."}
+\`\`\``;
+
+  it('should parse the rubric from a response with surrounding prose', () => {
+    expect(parseSpecificationReview(response)).toEqual({
+      review: {
+        faithfulness: 2,
+        completeness: 4,
+        clarity: 5,
+        hallucinations: [{ claim: 'Payments are retried hourly', reason: 'No retry in the source' }],
+        feedback: 'Drop the retry rule.'
+      },
+      errors: []
+    });
+  });
+
+  it('should report responses that do not match the rubric', () => {
+    expect(parseSpecificationReview('Looks good to me').errors).toEqual(['Response does not contain a JSON object']);
+    expect(parseSpecificationReview('{"faithfulness": 6, "completeness": 3.5, "clarity": 4, "hallucinations": [{}]}').errors).toEqual([
+      '$.faithfulness must be an integer from 1 to 5',
+      '$.completeness must be an integer from 1 to 5',
+      '$.hallucinations[0] must have string claim and reason',
+      '$.feedback must be a string'
+    ]);
+  });
+
+  it('should pass only when every criterion reaches the threshold and nothing is hallucinated', () => {
+    const { review } = parseSpecificationReview(response);
+
+    expect(isReviewPassing(review!, 2)).toBe(false);
+    expect(isReviewPassing({ ...review!, hallucinations: [] }, 2)).toBe(true);
+    expect(isReviewPassing({ ...review!, hallucinations: [] }, 3)).toBe(false);
+  });
+
+  it('should append the scores, flags and feedback to the original prompt', () => {
+    const prompt = createRegenerationPrompt('Original prompt', parseSpecificationReview(response).review!, 3);
+
+    expect(prompt.startsWith('Original prompt\n\n')).toBe(true);
+    expect(prompt).toContain('- faithfulness: 2/5 (below 3)\n- completeness: 4/5\n- clarity: 5/5');
+    expect(prompt).toContain('- "Payments are retried hourly": No retry in the source');
+    expect(prompt).toContain('Reviewer feedback:\nDrop the retry rule.');
+  });
+});
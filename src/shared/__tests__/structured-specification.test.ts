@@ -0,0 +1,77 @@
+import {
+  parseStructuredSpecification,
+  renderStructuredSpecificationMarkdown,
+  validateStructuredSpecification
+} from '../structured-specification';
+import { StructuredSpecification } from '../types';
+
+const specification: StructuredSpecification = {
+  title: 'Payment Batch',
+  overview: 'Validates the daily payment file and posts accepted payments to the ledger.',
+  functionalRequirements: [
+    {
+      id: 'FR-001',
+      title: 'Reject records without an account',
+      description: 'Records with a blank account number are written to the reject file.',
+      priority: 'must',
+      acceptanceCriteria: ['A record with a blank account is rejected with reason code R01'],
+      source: 'VALIDATE label'
+    }
+  ],
+  nonFunctionalRequirements: [
+    { id: 'NFR-001', category: 'Performance', description: 'Completes within the | overnight window' }
+  ],
+  interfaces: [
+    { name: 'PAYIN', type: 'dataset', description: 'Daily payment file', inputs: ['Fixed 80-byte records'] }
+  ],
+  dataEntities: [
+    { name: 'Payment', description: 'One payment record', fields: [{ name: 'account', type: 'string' }] }
+  ],
+  openQuestions: []
+};
+
+describe('structured specifications', () => {
+  it('should parse a valid specification wrapped in markdown fences', () => {
+    const result = parseStructuredSpecification('```json\n' + JSON.stringify(specification) + '\n```');
+
+    expect(result.errors).toEqual([]);
+    expect(result.specification).toEqual(specification);
+  });
+
+  it('should report schema violations with their paths', () => {
+    const errors = validateStructuredSpecification({
+      ...specification,
+      overview: '',
+      functionalRequirements: [{ ...specification.functionalRequirements[0], id: 'REQ-1', priority: 'high' }],
+      dataEntities: undefined
+    });
+
+    expect(errors).toEqual([
+      '$.dataEntities is required',
+      '$.overview must not be empty',
+      '$.functionalRequirements[0].id must match ^FR-\\d{3,}$',
+      '$.functionalRequirements[0].priority must be one of must, should, could'
+    ]);
+  });
+
+  it('should reject duplicate requirement ids and unparseable responses', () => {
+    const duplicated = {
+      ...specification,
+      functionalRequirements: [specification.functionalRequirements[0], specification.functionalRequirements[0]]
+    };
+
+    expect(validateStructuredSpecification(duplicated)).toEqual(['Duplicate requirement ids: FR-001']);
+    expect(parseStructuredSpecification('# Not JSON').errors).toEqual(['Response does not contain a JSON object']);
+  });
+
+  it('should render the specification as markdown', () => {
+    const markdown = renderStructuredSpecificationMarkdown(specification);
+
+    expect(markdown).toContain('# Payment Batch\n\n## Overview');
+    expect(markdown).toContain('### FR-001: Reject records without an account');
+    expect(markdown).toContain('- A record with a blank account is rejected with reason code R01');
+    expect(markdown).toContain('| NFR-001 | Performance | Completes within the \\| overnight window |');
+    expect(markdown).toContain('### PAYIN (dataset)');
+    expect(markdown).toContain('## Open Questions\n\n_None._');
+  });
+});
@@ -0,0 +1,49 @@
+import { generateOutputPath, getOutputPathStrategy, validateOutputPath } from '../utils';
+
+describe('output path strategies', () => {
+  beforeAll(() => {
+    jest.useFakeTimers().setSystemTime(new Date(2024, 4, 1, 12, 0, 0));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep date-based paths as the default and drop input directories', () => {
+    const path = generateOutputPath('projectA/src/calc.rexx');
+
+    expect(path).toMatch(/^2024\/05\/01\/calc-\d{4}-\d{2}-\d{2}-\d{9}\.md$/);
+    expect(validateOutputPath(path)).toBe(true);
+  });
+
+  it('should mirror the input key hierarchy so equal file names do not collide', () => {
+    const pathA = generateOutputPath('projectA/src/calc.rexx', 'mirror');
+    const pathB = generateOutputPath('projectB/src/calc.rexx', 'mirror');
+
+    expect(pathA).toMatch(/^projectA\/src\/calc-\d{4}-\d{2}-\d{2}-\d{9}\.md$/);
+    expect(pathB.startsWith('projectB/src/calc-')).toBe(true);
+    expect(validateOutputPath(pathA, 'md', 'mirror')).toBe(true);
+    expect(validateOutputPath(pathA.replace(/\.md$/, '.confluence.xhtml'), 'confluence.xhtml', 'mirror')).toBe(true);
+    expect(validateOutputPath('projectA/src/calc.md', 'md', 'mirror')).toBe(false);
+  });
+
+  it('should use a stable key per input for the latest strategy', () => {
+    const path = generateOutputPath('projectA/src/calc.rexx', 'latest');
+
+    expect(path).toBe('projectA/src/calc.rexx.md');
+    expect(generateOutputPath('projectA/src/calc.rexx', 'latest')).toBe(path);
+    expect(validateOutputPath(path, 'md', 'latest')).toBe(true);
+  });
+
+  it('should reject empty and relative path segments', () => {
+    expect(validateOutputPath('/projectA/calc.rexx.md', 'md', 'latest')).toBe(false);
+    expect(validateOutputPath('projectA//calc.rexx.md', 'md', 'latest')).toBe(false);
+    expect(validateOutputPath('projectA/../calc.rexx.md', 'md', 'latest')).toBe(false);
+  });
+
+  it('should fall back to the date strategy for unknown values', () => {
+    expect(getOutputPathStrategy(' Mirror ')).toBe('mirror');
+    expect(getOutputPathStrategy('constructor')).toBe('date');
+    expect(getOutputPathStrategy(undefined)).toBe('date');
+  });
+});
@@ -0,0 +1,34 @@
+import { childElement, childElements, descendantElements, parseXml, textContent } from '../xml-parser';
+
+describe('parseXml', () => {
+  it('should build an element tree with attributes and decoded text', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?>\n<!-- generated -->' +
+      '<w:p w:rsid="00A1"><w:r><w:t xml:space="preserve">A &amp; B &lt;&#x20AC;&#36;&gt;</w:t></w:r><w:r/></w:p>'
+    );
+
+    expect(root.name).toBe('w:p');
+    expect(root.attributes).toEqual({ 'w:rsid': '00A1' });
+    expect(childElements(root, 'w:r')).toHaveLength(2);
+    expect(textContent(root)).toBe('A & B <€$>');
+  });
+
+  it('should keep CDATA verbatim and skip doctype declarations', () => {
+    const root = parseXml('<!DOCTYPE note><note><![CDATA[<raw> & text]]></note>');
+
+    expect(textContent(root)).toBe('<raw> & text');
+  });
+
+  it('should tolerate quoted > in attributes and unclosed children', () => {
+    const root = parseXml('<table title="a > b"><row><cell>1</row><row><cell>2</cell></row></table>');
+
+    expect(root.attributes['title']).toBe('a > b');
+    expect(childElements(root, 'row')).toHaveLength(2);
+    expect(descendantElements(root, 'cell').map(textContent)).toEqual(['1', '2']);
+    expect(childElement(root, 'missing')).toBeUndefined();
+  });
+
+  it('should throw when there is no root element', () => {
+    expect(() => parseXml('<!-- only a comment -->')).toThrow('XML document has no root element');
+  });
+});
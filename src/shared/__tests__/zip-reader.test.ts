@@ -0,0 +1,38 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { isZipArchive, readZipEntries } from '../zip-reader';
+
+const structureDocx = readFileSync(join(__dirname, 'fixtures', 'docx', 'structure.docx'));
+
+describe('readZipEntries', () => {
+  it('should list entries from the central directory', () => {
+    const entries = readZipEntries(structureDocx);
+
+    expect(isZipArchive(structureDocx)).toBe(true);
+    expect(entries.map(entry => entry.name)).toEqual([
+      '[Content_Types].xml',
+      'word/styles.xml',
+      'word/numbering.xml',
+      'word/document.xml',
+    ]);
+    expect(entries.every(entry => !entry.isDirectory && !entry.isEncrypted)).toBe(true);
+  });
+
+  it('should read stored and deflated entries', () => {
+    const entries = new Map(readZipEntries(structureDocx).map(entry => [entry.name, entry]));
+    const stored = entries.get('word/styles.xml')!;
+    const deflated = entries.get('word/document.xml')!;
+
+    expect(stored.compressedSize).toBe(stored.uncompressedSize);
+    expect(stored.read().toString('utf-8')).toContain('w:styleId="Heading1"');
+    expect(deflated.compressedSize).toBeLessThan(deflated.uncompressedSize);
+    expect(deflated.read()).toHaveLength(deflated.uncompressedSize);
+    expect(deflated.read().toString('utf-8')).toContain('<w:body>');
+  });
+
+  it('should reject buffers without an end of central directory record', () => {
+    expect(isZipArchive(Buffer.from('not a zip'))).toBe(false);
+    expect(() => readZipEntries(structureDocx.subarray(0, structureDocx.length - 22)))
+      .toThrow('ZIP end of central directory record not found');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Output catalog for the S3 Specification Generator
+ *
+ * WriteSpecificationFunction sends one CatalogEntry per execution to a FIFO queue, and
+ * SendNotificationFunction sends one for failures caught by the state machine; the
+ * UpdateCatalogFunction applies them to a JSON manifest per day, a rolling index.json and a
+ * browsable index.html in the output bucket. All entries share one message group, so catalog
+ * updates are applied one batch at a time and read-modify-write cycles never overlap.
+ */
+
+import { SQS } from 'aws-sdk';
+import { CATALOG_CONFIG } from './constants';
+import { escapeXml } from './specification-renderers';
+import { SpecificationOutput } from './types';
+import { generateProcessingId, logError, logMetric } from './utils';
+
+export interface CatalogEntry {
+  processingId: string;
+  sourceFile: string;
+  status: 'success' | 'failure';
+  generatedAt: string;
+  outputLocation?: string;
+  fileType?: string;
+  wordCount?: number;
+  modelId?: string;
+  truncated?: boolean;
+  errorType?: string; // ProcessingError type, or the Step Functions error name for caught failures
+  errorMessage?: string;
+}
+
+export interface CatalogManifest {
+  updatedAt: string;
+  entryCount: number;
+  entries: CatalogEntry[]; // Newest first
+}
+
+/**
+ * Catalog entry for a written specification
+ */
+export function createCatalogEntry(output: SpecificationOutput): CatalogEntry {
+  return {
+    processingId: output.processingId || generateProcessingId(),
+    sourceFile: output.originalFile,
+    status: 'success',
+    generatedAt: output.generatedAt,
+    outputLocation: output.outputLocation,
+    fileType: output.fileType,
+    wordCount: output.wordCount,
+    modelId: output.modelId,
+    truncated: output.truncated === true,
+  };
+}
+
+/**
+ * Catalog entry for a failed execution
+ * The id is derived from the execution, so retries and redelivered messages replace one row
+ */
+export function createFailedCatalogEntry(
+  error: { errorType?: string; message?: string; timestamp?: string; originalFile?: string },
+  execution: string | undefined
+): CatalogEntry {
+  return {
+    processingId: execution ? `failed-${execution.split(':').pop()}` : generateProcessingId(),
+    sourceFile: error.originalFile || 'unknown',
+    status: 'failure',
+    generatedAt: error.timestamp || new Date().toISOString(),
+    errorType: error.errorType || 'UNKNOWN_ERROR',
+    errorMessage: error.message,
+  };
+}
+
+/**
+ * Queue a catalog entry for UpdateCatalogFunction; failures are logged and never fail the caller
+ */
+export async function queueCatalogEntry(sqs: SQS, entry: CatalogEntry): Promise<void> {
+  const queueUrl = process.env.CATALOG_QUEUE_URL;
+  if (!queueUrl) {
+    return;
+  }
+
+  try {
+    await sqs.sendMessage({
+      QueueUrl: queueUrl,
+      MessageBody: JSON.stringify(entry),
+      MessageGroupId: CATALOG_CONFIG.MESSAGE_GROUP_ID,
+      MessageDeduplicationId: entry.processingId,
+    }).promise();
+  } catch (error) {
+    logError('Failed to queue catalog entry', {
+      originalFile: entry.sourceFile,
+      processingId: entry.processingId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    logMetric('CatalogQueueErrors', 1);
+  }
+}
+
+/**
+ * Key of the daily manifest an entry belongs to (UTC date of generation)
+ */
+export function getDailyCatalogKey(entry: CatalogEntry): string {
+  const date = new Date(entry.generatedAt);
+  const day = isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  return `${CATALOG_CONFIG.DAILY_PREFIX}${day.slice(0, 10)}.json`;
+}
+
+/**
+ * Apply entries to a manifest; re-delivered entries replace their earlier copy (keyed on processing id)
+ */
+export function mergeCatalogEntries(
+  manifest: CatalogManifest | undefined,
+  entries: CatalogEntry[],
+  maxEntries?: number
+): CatalogManifest {
+  const byProcessingId = new Map<string, CatalogEntry>();
+  for (const entry of [...(manifest?.entries || []), ...entries]) {
+    byProcessingId.set(entry.processingId, entry);
+  }
+
+  const merged = Array.from(byProcessingId.values())
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))
+    .slice(0, maxEntries);
+
+  return {
+    updatedAt: new Date().toISOString(),
+    entryCount: merged.length,
+    entries: merged,
+  };
+}
+
+/**
+ * Render the rolling index as a standalone HTML page
+ * Output links are relative to catalog/index.html, so they work when the bucket is served as a site.
+ */
+export function renderCatalogHtml(manifest: CatalogManifest): string {
+  const rows = manifest.entries.map(entry => {
+    const outputKey = entry.outputLocation?.replace(/^s3:\/\/[^/]+\//, '');
+    const output = outputKey
+      ? `<a href="../${outputKey.split('/').map(encodeURIComponent).join('/')}">${escapeXml(outputKey)}</a>`
+      : escapeXml(entry.errorMessage || '');
+    return `<tr class="${entry.status}">`
+      + `<td>${escapeXml(entry.generatedAt)}</td>`
+      + `<td>${escapeXml(entry.sourceFile)}</td>`
+      + `<td>${output}</td>`
+      + `<td>${escapeXml(entry.fileType || '')}</td>`
+      + `<td>${entry.wordCount ?? ''}</td>`
+      + `<td>${escapeXml(entry.modelId || '')}</td>`
+      + `<td>${entry.status}${entry.truncated ? ' (truncated)' : ''}</td>`
+      + '</tr>';
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Specification Catalog</title>
+<style>
+body{font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;margin:2rem;color:#1f2328}
+table{border-collapse:collapse;width:100%}th,td{border:1px solid #d0d7de;padding:0.4rem 0.8rem;text-align:left}
+tr.failure td{background:#fff1f0}
+</style>
+</head>
+<body>
+<h1>Specification Catalog</h1>
+<p>${manifest.entryCount} most recent specifications, updated ${escapeXml(manifest.updatedAt)}.</p>
+<table>
+<thead><tr><th>Generated</th><th>Source File</th><th>Specification</th><th>Type</th><th>Words</th><th>Model</th><th>Status</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,202 @@
+/**
+ * Structural content chunking for the S3 Specification Generator
+ *
+ * Large sources are split on structural boundaries (classes, functions, REXX labels, COBOL
+ * divisions and paragraphs, JCL steps, SQL statements, Markdown headings, page markers) and packed greedily into chunks below a size limit,
+ * so each chunk can be summarised independently and merged in a reduce pass.
+ */
+
+import { ContentChunk } from './types';
+import { CHUNKING_CONFIG } from './constants';
+
+// Lines that start a new structural unit, by file type
+const BOUNDARY_PATTERNS: Record<string, RegExp[]> = {
+  java: [
+    /^\s{0,4}(?:@\w+\s+)*(?:(?:public|protected|private|static|final|abstract|sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+\w+/,
+    /^\s{0,4}(?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\s+)+[\w<>\[\]?,.\s]+\s+\w+\s*\(/,
+  ],
+  js: [
+    /^\s{0,2}(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function\*?|class)\s+[\w$]+/,
+    /^\s{0,2}(?:export\s+)?(?:const|let|var)\s+[\w$]+\s*=\s*(?:async\s+)?(?:function|\([^)]*\)\s*=>|[\w$]+\s*=>)/,
+    /^\s{2}(?:static\s+)?(?:async\s+)?(?:get\s+|set\s+)?[\w$]+\s*\([^)]*\)\s*\{/,
+  ],
+  ts: [
+    /^\s{0,2}(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|namespace)\s+[\w$]+/,
+    /^\s{0,2}(?:export\s+)?(?:const|let|var)\s+[\w$]+(?:\s*:\s*[^=]+)?\s*=\s*(?:async\s+)?(?:function|\([^)]*\)\s*(?::\s*[^=]+)?=>|[\w$]+\s*=>)/,
+    /^\s{2}(?:(?:public|protected|private|static|readonly|abstract|override|async)\s+)*(?:get\s+|set\s+)?[\w$]+\s*(?:<[^>]*>)?\([^)]*\)\s*(?::\s*[^{]+)?\{/,
+  ],
+  py: [
+    /^(?:@[\w.]+|(?:async\s+)?def\s+\w+|class\s+\w+)/,
+    /^\s{4}(?:@[\w.]+|(?:async\s+)?def\s+\w+)/,
+  ],
+  rexx: [
+    /^\s*[A-Za-z_@#$!?][\w.@#$!?]*\s*:(?!:)/,
+    /^\s*::\s*(?:routine|method|class|requires)\b/i,
+  ],
+  go: [
+    /^(?:func|type)\s+/,
+  ],
+  cs: [
+    /^\s{0,8}(?:(?:public|internal|protected|private|static|sealed|abstract|partial|readonly)\s+)*(?:class|interface|struct|enum|record)\s+\w+/,
+    /^\s{4,8}(?:(?:public|internal|protected|private|static|virtual|override|abstract|async|sealed)\s+)+[\w<>\[\],.?\s]+\s+\w+\s*\(/,
+  ],
+  pli: [
+    /^\s*[A-Za-z_@#$][\w@#$]*\s*:\s*(?:PROC|PROCEDURE)\b/i,
+  ],
+  // Normalised fixed-format COBOL keeps the indicator column, so Area A starts at index 1
+  cbl: [
+    /^\s{0,4}[A-Z0-9][A-Z0-9-]*\s+(?:DIVISION|SECTION)\b/i,
+    /^\s{0,4}[A-Z0-9][A-Z0-9-]*\.\s*$/i,
+  ],
+  cpy: [
+    /^\s{0,4}01\s+[A-Z0-9][A-Z0-9-]*/i,
+  ],
+  jcl: [
+    /^\/\/[A-Z@#$][A-Z0-9@#$]{0,7}\s+(?:JOB|EXEC|PROC)\b/i,
+  ],
+  sql: [
+    /^\s*(?:CREATE|ALTER|DROP)\s+(?:OR\s+REPLACE\s+)?(?:UNIQUE\s+)?(?:TABLE|VIEW|INDEX|PROCEDURE|FUNCTION|TRIGGER|PACKAGE)\b/i,
+    /^(?:SELECT|INSERT|UPDATE|DELETE|MERGE|WITH)\b/i,
+  ],
+  sh: [
+    /^(?:function\s+[\w-]+|[\w-]+\s*\(\s*\))/,
+  ],
+  md: [
+    /^#{1,3}\s/,
+  ],
+};
+
+// PDF page markers and blank-line separated paragraphs for prose formats
+const PAGE_MARKER_PATTERN = /^\[Page \d+ of \d+\]$/;
+
+interface Segment {
+  startLine: number;
+  endLine: number;
+  label?: string;
+}
+
+/**
+ * Split content into chunks on structural boundaries
+ * Content that fits in a single chunk is returned as one chunk covering everything
+ */
+export function splitIntoChunks(
+  content: string,
+  fileType: string,
+  maxChunkCharacters: number = CHUNKING_CONFIG.MAX_CHUNK_CHARACTERS
+): ContentChunk[] {
+  const lines = content.split('\n');
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+  // The last line has no newline after it
+  lineOffsets.push(content.length);
+
+  const lengthOf = (startLine: number, endLine: number) => lineOffsets[endLine] - lineOffsets[startLine];
+
+  if (content.length <= maxChunkCharacters) {
+    return [createChunk(0, 1, { startLine: 0, endLine: lines.length }, lineOffsets)];
+  }
+
+  const segments = findSegments(lines, fileType)
+    .flatMap(segment => splitOversizedSegment(segment, lengthOf, maxChunkCharacters));
+
+  // Greedily pack consecutive segments into chunks below the size limit
+  const packed: Segment[] = [];
+  for (const segment of segments) {
+    const current = packed[packed.length - 1];
+    if (current && lengthOf(current.startLine, segment.endLine) <= maxChunkCharacters) {
+      current.endLine = segment.endLine;
+      current.label = current.label || segment.label;
+    } else {
+      packed.push({ ...segment });
+    }
+  }
+
+  return packed.map((segment, index) => createChunk(index, packed.length, segment, lineOffsets));
+}
+
+/**
+ * Find structural segments: each starts at a boundary line and runs to the next one
+ */
+function findSegments(lines: string[], fileType: string): Segment[] {
+  const patterns = BOUNDARY_PATTERNS[fileType];
+  const boundaries: number[] = [0];
+
+  for (let i = 1; i < lines.length; i++) {
+    if (isBoundary(lines, i, patterns)) {
+      boundaries.push(i);
+    }
+  }
+
+  return boundaries.map((startLine, index) => ({
+    startLine,
+    endLine: index + 1 < boundaries.length ? boundaries[index + 1] : lines.length,
+    label: isLabelLine(lines[startLine], patterns) ? lines[startLine].trim().slice(0, 80) : undefined,
+  }));
+}
+
+function isLabelLine(line: string, patterns: RegExp[] | undefined): boolean {
+  return patterns ? patterns.some(pattern => pattern.test(line)) : PAGE_MARKER_PATTERN.test(line.trim());
+}
+
+function isBoundary(lines: string[], index: number, patterns: RegExp[] | undefined): boolean {
+  const line = lines[index];
+
+  if (!patterns) {
+    // Prose: page markers, or the first line of a paragraph after a blank line
+    return PAGE_MARKER_PATTERN.test(line.trim()) || (line.trim() !== '' && lines[index - 1].trim() === '');
+  }
+
+  if (!patterns.some(pattern => pattern.test(line))) {
+    return false;
+  }
+
+  // Keep decorators and annotations attached to the declaration they precede
+  const previous = lines[index - 1].trim();
+  return !(previous.startsWith('@') && !previous.startsWith('@interface'));
+}
+
+/**
+ * Split a segment larger than the chunk limit on line boundaries
+ */
+function splitOversizedSegment(
+  segment: Segment,
+  lengthOf: (startLine: number, endLine: number) => number,
+  maxChunkCharacters: number
+): Segment[] {
+  if (lengthOf(segment.startLine, segment.endLine) <= maxChunkCharacters) {
+    return [segment];
+  }
+
+  const pieces: Segment[] = [];
+  let start = segment.startLine;
+  for (let line = segment.startLine + 1; line <= segment.endLine; line++) {
+    if (line === segment.endLine || lengthOf(start, line + 1) > maxChunkCharacters) {
+      pieces.push({
+        startLine: start,
+        endLine: line,
+        label: segment.label ? `${segment.label} (part ${pieces.length + 1})` : undefined,
+      });
+      start = line;
+    }
+  }
+  return pieces;
+}
+
+function createChunk(index: number, total: number, segment: Segment, lineOffsets: number[]): ContentChunk {
+  const chunk: ContentChunk = {
+    index,
+    total,
+    startOffset: lineOffsets[segment.startLine],
+    endOffset: lineOffsets[segment.endLine],
+    startLine: segment.startLine + 1,
+    endLine: segment.endLine,
+  };
+  if (segment.label) {
+    chunk.label = segment.label;
+  }
+  return chunk;
+}
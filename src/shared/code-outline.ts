@@ -0,0 +1,340 @@
+/**
+ * Static code outline extraction for the S3 Specification Generator
+ *
+ * ReadFileFunction extracts a lightweight outline of source files (REXX labels and PARSE ARG
+ * signatures, Python classes, functions and decorators, Java classes and methods, JS/TS exports,
+ * PL/I procedures). The outline is added to the prompt as a skeleton the specification must
+ * cover, and written as JSON next to the specification.
+ */
+
+import { CodeOutline, CodeOutlineEntry } from './types';
+import { OUTLINE_CONFIG } from './constants';
+
+type OutlineExtractor = (content: string, fileName: string) => CodeOutlineEntry[];
+
+const OUTLINE_EXTRACTORS: Record<string, OutlineExtractor> = {
+  rexx: extractRexxOutline,
+  py: extractPythonOutline,
+  java: extractJavaOutline,
+  js: extractScriptOutline,
+  ts: extractScriptOutline,
+  pli: extractPliOutline,
+};
+
+// REXX condition traps; reached through SIGNAL ON, not documented as routines
+const REXX_CONDITION_LABELS = new Set(['ERROR', 'FAILURE', 'HALT', 'NOVALUE', 'NOTREADY', 'SYNTAX', 'LOSTDIGITS']);
+
+/**
+ * Extract the outline of a source file; undefined for formats without an extractor or with no entries
+ */
+export function extractCodeOutline(content: string, fileType: string, key: string): CodeOutline | undefined {
+  const extractor = OUTLINE_EXTRACTORS[fileType];
+  if (!extractor) {
+    return undefined;
+  }
+
+  const entries = extractor(content, key.split('/').pop() || key);
+  return entries.length > 0 ? { fileType, entries } : undefined;
+}
+
+/**
+ * Prompt header listing the outline as a skeleton for the specification
+ */
+export function renderCodeOutlinePrompt(outline: CodeOutline): string {
+  const listed = outline.entries.slice(0, OUTLINE_CONFIG.MAX_PROMPT_ENTRIES);
+  const lines = [
+    `Code outline extracted statically from the source (${outline.entries.length} entries). Use it as the skeleton of the specification and document every entry marked public:`,
+    ...listed.map(entry => `${entry.parent ? '  ' : ''}- ${describeOutlineEntry(entry)}`),
+  ];
+  if (outline.entries.length > listed.length) {
+    lines.push(`- ... and ${outline.entries.length - listed.length} more entries`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One-line description of an entry, e.g. "method post(payment) at line 12, public, decorated @retry"
+ */
+export function describeOutlineEntry(entry: CodeOutlineEntry): string {
+  const signature = entry.parameters ? `${entry.name}(${entry.parameters.join(', ')})` : entry.name;
+  const decorators = entry.decorators?.length ? `, decorated ${entry.decorators.join(' ')}` : '';
+  return `${entry.kind} ${signature} at line ${entry.line}${entry.public ? ', public' : ''}${decorators}`;
+}
+
+/**
+ * The exec itself (with the PARSE ARG before its first label) and every label with the ARG that follows it
+ */
+function extractRexxOutline(content: string, fileName: string): CodeOutlineEntry[] {
+  const lines = blankBlockComments(content).split('\n');
+  const entries: CodeOutlineEntry[] = [{
+    kind: 'program',
+    name: fileName.replace(/\.[^.]*$/, '').toUpperCase(),
+    line: 1,
+    public: true,
+  }];
+
+  let current = entries[0];
+  lines.forEach((line, index) => {
+    let statement = line;
+    const label = /^\s*([A-Za-z@#$!?_][\w@#$!?.]*)\s*:(?!=)\s*(.*)$/.exec(line);
+    if (label) {
+      current = {
+        kind: 'label',
+        name: label[1],
+        line: index + 1,
+        public: !REXX_CONDITION_LABELS.has(label[1].toUpperCase()),
+      };
+      entries.push(current);
+      statement = label[2];
+    }
+
+    // The first ARG of a routine is its signature
+    const args = /^\s*(?:parse\s+(?:upper\s+)?arg|arg)\b(.*)$/i.exec(statement);
+    if (args && !current.parameters) {
+      current.parameters = args[1].split(/[\s,]+/).filter(name => name && name !== '.' && !/^['"]/.test(name));
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Classes and functions with their decorators; methods are nested under their class by indentation
+ */
+function extractPythonOutline(content: string): CodeOutlineEntry[] {
+  const lineAt = createLineLocator(content);
+  const entries: CodeOutlineEntry[] = [];
+  const classes: Array<{ name: string; indent: number }> = [];
+  let decorators: string[] = [];
+  const pattern = /^([ \t]*)(?:(@[\w.]+(?:\([^\n]*\))?)|(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)\s*(\()?)/gm;
+
+  for (const match of content.matchAll(pattern)) {
+    const [, indentation, decorator, keyword, name, openParen] = match;
+    if (decorator) {
+      decorators.push(decorator.replace(/\(.*$/, ''));
+      continue;
+    }
+
+    const indent = indentation.replace(/\t/g, '    ').length;
+    while (classes.length > 0 && classes[classes.length - 1].indent >= indent) {
+      classes.pop();
+    }
+    const parent = classes[classes.length - 1]?.name;
+    const parameters = openParen ? readParameters(content, match.index + match[0].length - 1) : undefined;
+    const isNested = indent > 0 && !parent;
+
+    if (!isNested) {
+      entries.push({
+        kind: keyword === 'class' ? 'class' : parent ? 'method' : 'function',
+        name,
+        line: lineAt(match.index),
+        parameters: keyword === 'class'
+          ? parameters
+          : parameters?.map(parameter => parameter.split(/[:=]/)[0].trim()).filter(parameter => parameter !== 'self' && parameter !== 'cls'),
+        parent,
+        decorators: decorators.length > 0 ? decorators : undefined,
+        public: !name.startsWith('_'),
+      });
+    }
+    if (keyword === 'class') {
+      classes.push({ name, indent });
+    }
+    decorators = [];
+  }
+
+  return entries;
+}
+
+/**
+ * Types and their methods and constructors; the enclosing type is the last one declared before a method
+ */
+function extractJavaOutline(content: string): CodeOutlineEntry[] {
+  const code = blankComments(content);
+  const lineAt = createLineLocator(code);
+  const entries: CodeOutlineEntry[] = [];
+  const typePattern = /^[ \t]*((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed)\s+)*)(class|interface|enum|record|@interface)\s+(\w+)/gm;
+  const methodPattern = /^[ \t]*((?:@\w+(?:\([^)]*\))?\s+)*)((?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\s+)*)(?:<[^>]+>\s+)?([\w.<>[\]?, \t]+?[ \t]+)?(\w+)\s*\(/gm;
+  const types: Array<{ name: string; index: number; kind: string }> = [];
+
+  for (const match of code.matchAll(typePattern)) {
+    const [, modifiers, kind, name] = match;
+    types.push({ name, index: match.index, kind });
+    entries.push({
+      kind: kind === '@interface' ? 'annotation' : kind as CodeOutlineEntry['kind'],
+      name,
+      line: lineAt(match.index),
+      public: /\bpublic\b/.test(modifiers),
+    });
+  }
+
+  for (const match of code.matchAll(methodPattern)) {
+    const [, annotations, modifiers, returnType, name] = match;
+    const parentType = [...types].reverse().find(type => type.index < match.index);
+    const isConstructor = !returnType && name === parentType?.name;
+    // Statements such as `if (`, `return foo(` and calls look like methods without a return type
+    if (!parentType || (!returnType && !isConstructor) || /^(?:if|for|while|switch|catch|return|new|else|throw)$/.test(name)
+      || (returnType && /\b(?:return|new|throw|else|case)\b/.test(returnType))) {
+      continue;
+    }
+
+    const parameters = readParameters(code, match.index + match[0].length - 1);
+    entries.push({
+      kind: isConstructor ? 'constructor' : 'method',
+      name,
+      // Annotations may sit on the lines above; the declaration line is the one with the name
+      line: lineAt(match.index + match[0].lastIndexOf(name)),
+      parameters,
+      parent: parentType.name,
+      decorators: annotations.trim() ? annotations.trim().split(/\s+(?=@)/).map(annotation => annotation.replace(/\([\s\S]*$/, '')) : undefined,
+      public: /\bpublic\b/.test(modifiers) || (parentType.kind === 'interface' && !/\bprivate\b/.test(modifiers)),
+    });
+  }
+
+  return entries.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Exported functions, classes, constants, types and CommonJS exports
+ */
+function extractScriptOutline(content: string): CodeOutlineEntry[] {
+  const code = blankComments(content);
+  const lineAt = createLineLocator(code);
+  const entries: CodeOutlineEntry[] = [];
+  const declaration = /^[ \t]*export\s+(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum)\s+([\w$]+)/gm;
+
+  for (const match of code.matchAll(declaration)) {
+    const [, , keyword, name] = match;
+    const kind = keyword.startsWith('function') ? 'function'
+      : ['const', 'let', 'var'].includes(keyword) ? 'variable'
+      : keyword as CodeOutlineEntry['kind'];
+    let parameters: string[] | undefined;
+
+    if (kind === 'function') {
+      parameters = readParameters(code, code.indexOf('(', match.index + match[0].length));
+    } else if (kind === 'variable') {
+      // Arrow functions and function expressions assigned to an exported constant
+      const initializer = /^\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b[^(]*)?\(/.exec(code.slice(match.index + match[0].length));
+      if (initializer) {
+        parameters = readParameters(code, match.index + match[0].length + initializer[0].length - 1);
+      }
+    }
+
+    entries.push({
+      kind: parameters && kind === 'variable' ? 'function' : kind,
+      name,
+      line: lineAt(match.index),
+      parameters: parameters?.map(parameter => parameter.split(/[:=]/)[0].replace(/\?$/, '').trim()),
+      public: true,
+    });
+  }
+
+  for (const match of code.matchAll(/^[ \t]*export\s+(?:type\s+)?\{([^}]*)\}/gm)) {
+    for (const specifier of match[1].split(',').map(name => name.trim()).filter(Boolean)) {
+      entries.push({
+        kind: 'variable',
+        name: specifier.split(/\s+as\s+/).pop() as string,
+        line: lineAt(match.index),
+        public: true,
+      });
+    }
+  }
+
+  for (const match of code.matchAll(/^[ \t]*(?:module\.)?exports\.([\w$]+)\s*=/gm)) {
+    entries.push({ kind: 'variable', name: match[1], line: lineAt(match.index), public: true });
+  }
+  const moduleExports = /^[ \t]*module\.exports\s*=\s*\{([^}]*)\}/m.exec(code);
+  if (moduleExports) {
+    for (const property of moduleExports[1].split(',').map(name => name.split(':')[0].trim()).filter(Boolean)) {
+      entries.push({ kind: 'variable', name: property, line: lineAt(moduleExports.index), public: true });
+    }
+  }
+
+  return entries.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * PROCEDUREs with their parameters; OPTIONS(MAIN) marks the external entry point
+ */
+function extractPliOutline(content: string): CodeOutlineEntry[] {
+  const code = blankBlockComments(content);
+  const lineAt = createLineLocator(code);
+  const pattern = /([A-Za-z@#$][\w@#$]*)\s*:\s*(?:PROC|PROCEDURE)\b\s*(\()?([^;]*);/gi;
+
+  return [...code.matchAll(pattern)].map((match, index) => ({
+    kind: 'procedure' as const,
+    name: match[1],
+    line: lineAt(match.index),
+    parameters: match[2] ? readParameters(code, code.indexOf('(', match.index + match[1].length)) : undefined,
+    // Nested procedures are internal; the first (outermost) procedure is the external entry point
+    public: index === 0 || /OPTIONS\s*\(\s*MAIN/i.test(match[3]),
+  }));
+}
+
+/**
+ * Comma-separated parameters between the parenthesis at openIndex and its match, which may span lines
+ */
+function readParameters(code: string, openIndex: number): string[] {
+  let depth = 0;
+  let current = '';
+  const parameters: string[] = [];
+
+  for (let i = openIndex; i < code.length; i++) {
+    const char = code[i];
+    if ('([{<'.includes(char)) {
+      depth++;
+      if (depth === 1) {
+        continue;
+      }
+    } else if (')]}>'.includes(char) && !(char === '>' && code[i - 1] === '=')) {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+    } else if (char === ',' && depth === 1) {
+      parameters.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parameters.push(current);
+
+  return parameters.map(parameter => parameter.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Map character offsets to 1-based line numbers
+ */
+function createLineLocator(content: string): (index: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return index => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  };
+}
+
+/**
+ * Replace comments with spaces, keeping offsets and line numbers intact
+ */
+function blankComments(content: string): string {
+  return blankBlockComments(content).replace(/\/\/[^\n]*/g, match => ' '.repeat(match.length));
+}
+
+function blankBlockComments(content: string): string {
+  return content.replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ' '));
+}
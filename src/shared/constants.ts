@@ -2,19 +2,7 @@
  * Shared constants for the S3 Specification Generator
  */
 
-export const SUPPORTED_FILE_FORMATS = [
-  'txt',
-  'pdf', 
-  'doc',
-  'docx',
-  'md',
-  'rtf',
-  "java",
-  "rexx",
-  "py",
-  "js",
-  "ts"
-] as const;
+// Supported file formats are declared in file-formats.ts
 
 export const LAMBDA_TIMEOUTS = {
   READ_FILE: 120, // 2 minutes
@@ -32,12 +20,112 @@ export const LLM_CONFIG = {
   MAX_TOKENS: 4000,
   TEMPERATURE: 0.3,
   SYSTEM_PROMPT: 'You are a technical writer who creates clear, structured specification documents.',
+  // Follow-up turns requested when the model stops on max_tokens
+  MAX_CONTINUATIONS: 3,
+  CONTINUATION_PROMPT: 'Your previous response was cut off because it reached the output limit. Continue the specification exactly where you stopped. Do not repeat any earlier text and do not add any introduction or commentary.',
+  // Schema validation rounds for SPECIFICATION_FORMAT=structured; errors are fed back each round
+  STRUCTURED_OUTPUT_MAX_ATTEMPTS: 3,
+  STRUCTURED_OUTPUT_MAX_REPORTED_ERRORS: 20,
+  // Bedrock errors that move the request to the next model in BEDROCK_MODEL_FALLBACK_CHAIN
+  FALLBACK_ERROR_NAMES: [
+    'ThrottlingException',
+    'ValidationException',
+    'ModelNotReadyException',
+    'ModelTimeoutException',
+    'ModelErrorException',
+    'ServiceUnavailableException',
+  ],
+} as const;
+
+export const PROMPT_TEMPLATE_CONFIG = {
+  DEFAULT_PREFIX: 'prompt-templates/',
+  CACHE_TTL_SECONDS: 300,
+} as const;
+
+export const CACHE_CONFIG = {
+  KEY_PREFIX: 'specifications/',
+  SCHEMA_VERSION: '1', // Bump to invalidate every cached specification
+  MISS_ERROR_CODES: ['NoSuchKey', 'NotFound'], // S3 error codes treated as a plain miss; others are logged
+} as const;
+
+export const HISTORY_CONFIG = {
+  MANIFEST_PREFIX: 'history/', // history/<source key>.json in the output bucket
+  DIFF_EXTENSION: 'diff.md',
+} as const;
+
+export const CATALOG_CONFIG = {
+  DAILY_PREFIX: 'catalog/daily/', // catalog/daily/YYYY-MM-DD.json in the output bucket
+  INDEX_KEY: 'catalog/index.json',
+  INDEX_HTML_KEY: 'catalog/index.html',
+  INDEX_MAX_ENTRIES: 1000, // Rolling index keeps the most recent entries; daily manifests keep all
+  MESSAGE_GROUP_ID: 'catalog', // One FIFO message group serialises every catalog update
+} as const;
+
+export const JOB_TABLE_CONFIG = {
+  SOURCE_KEY_INDEX: 'bySourceKey', // Partition key sourceKey, sort key createdAt
+  DAY_INDEX: 'byDay', // Partition key day (YYYY-MM-DD), sort key createdAt
+  UPLOAD_PREFIX: 'uploads/', // Files submitted through the job API are uploaded to uploads/<jobId>/<filename>
+  DEFAULT_RETENTION_DAYS: 90,
+} as const;
+
+export const JOB_API_CONFIG = {
+  DEFAULT_LIST_WINDOW_HOURS: 24, // GET /jobs without ?since=
+  MAX_LIST_DAYS: 31,
+  DEFAULT_LIST_LIMIT: 50,
+  MAX_LIST_LIMIT: 200,
+  MAX_FILENAME_LENGTH: 255,
+  DOWNLOAD_REDIRECT_EXPIRY_SECONDS: 5 * 60, // Followed immediately by GET /jobs/{id}/spec clients
+} as const;
+
+export const PROJECT_CONFIG = {
+  MAX_FILES: 50, // Keeps the Map state input and output within the Step Functions payload limit
+  MAX_TOTAL_BYTES: 50 * 1024 * 1024, // Uncompressed size of all files read from one project
+  MAX_LISTED_SKIPPED_FILES: 100,
+  MAX_SYNTHESIS_CHARACTERS: 120 * 1024, // ~30K tokens of file specifications in the synthesis prompt
+  BUNDLE_FILES_PREFIX: 'files/', // <bundle>/files/<path>.md next to <bundle>/index.md
+  BUNDLE_INDEX_NAME: 'index.md',
+  // Manifest projects are staged under projects/<name>/; only the _manifest.json there starts an execution
+  MANIFEST_PREFIX: 'projects/',
+} as const;
+
+export const DEPENDENCY_GRAPH_CONFIG = {
+  MAX_DESCRIPTION_LENGTH: 160, // Leading comment or docstring quoted in a module summary
+  MAX_SUMMARY_SYMBOLS: 8, // Defined functions, classes or labels listed in a module summary
+  MAX_PROMPT_DEPENDENCIES: 15, // Referenced modules summarised in one file's prompt
+} as const;
+
+export const OUTLINE_CONFIG = {
+  EXTENSION: 'outline.json', // Written next to the specification
+  MAX_PROMPT_ENTRIES: 200, // Outline entries listed in the prompt header
+} as const;
+
+export const COVERAGE_CONFIG = {
+  DEFAULT_THRESHOLD: 80, // Percent of public outline entries; overridden with COVERAGE_THRESHOLD
+  MAX_FOLLOW_UP_ENTRIES: 50, // Missing entries listed in one follow-up prompt
+  MAX_REPORTED_MISSING: 25, // Missing names kept in the output, S3 metadata and notifications
+} as const;
+
+export const REVIEW_CONFIG = {
+  DEFAULT_THRESHOLD: 3, // Minimum rubric score (1-5) per criterion; overridden with REVIEW_THRESHOLD
+  MAX_ATTEMPTS: 2, // Review rounds when the reviewer response does not match the rubric
+  MAX_REPORTED_HALLUCINATIONS: 20, // Flags kept in the output, review JSON and notifications
+  MAX_FEEDBACK_LENGTH: 2000,
+  NEEDS_REVIEW_PREFIX: 'needs-review/', // Output prefix for specifications still below threshold after the gate
+  EXTENSION: 'review.json', // Written next to the specification
+} as const;
+
+export const CHUNKING_CONFIG = {
+  MAX_CHUNK_CHARACTERS: 60 * 1024, // ~15K tokens per chunk prompt
 } as const;
 
 export const S3_CONFIG = {
   FILE_RETENTION_DAYS: 7,
   MAX_FILE_SIZE_BYTES: 10 * 1024 * 1024, // 10MB
   STEP_FUNCTIONS_PAYLOAD_LIMIT: 200 * 1024, // 200KB (with buffer for metadata)
+  // Larger payloads are staged here and passed by reference; the suffix keeps them out of the upload trigger
+  WORKING_PREFIX: '_working/',
+  WORKING_PAYLOAD_SUFFIX: '.payload',
+  WORKING_PAYLOAD_RETENTION_DAYS: 1,
 } as const;
 
 export const CONTENT_VALIDATION = {
@@ -0,0 +1,405 @@
+/**
+ * Dependency graph for project uploads in the S3 Specification Generator
+ *
+ * ReadFileFunction resolves the calls and imports of every project file against the other files
+ * of the project (REXX external calls, Python imports, Java imports and packages, JS/TS imports).
+ * Each file's prompt gets short summaries of the modules it references, and the system-level
+ * specification gets the graph as a Mermaid diagram.
+ */
+
+import { DependencyGraph } from './types';
+import { DEPENDENCY_GRAPH_CONFIG } from './constants';
+
+export interface DependencySource {
+  path: string;
+  fileType: string;
+  content: string;
+}
+
+// A reference found in a file, before it is resolved against the project
+interface ModuleReference {
+  reference: string;
+  candidates: string[]; // Project paths, 'suffix:<path>' for Python modules or 'member:<NAME>' for REXX execs
+  matchAll?: boolean; // Every matching candidate is a dependency (Java imports); otherwise the first match
+  internal: boolean; // Reported as unresolved when no candidate matches
+}
+
+// REXX instructions that follow CALL but are not routine names
+const REXX_CALL_KEYWORDS = new Set(['ON', 'OFF']);
+
+const JS_EXTENSIONS = ['', '.ts', '.js', '.mjs', '.cjs', '/index.ts', '/index.js'];
+
+/**
+ * Resolve the references of every file against the other files of the project
+ */
+export function buildDependencyGraph(sources: DependencySource[]): DependencyGraph {
+  const javaClasses = indexJavaClasses(sources);
+  const edges: DependencyGraph['edges'] = [];
+  const unresolved: DependencyGraph['unresolved'] = [];
+
+  for (const source of sources) {
+    const seen = new Set<string>();
+    for (const moduleReference of findReferences(source, sources, javaClasses)) {
+      const { reference, internal } = moduleReference;
+      const targets = resolveReference(moduleReference, sources, source.fileType)
+        .filter(target => target !== source.path);
+
+      if (targets.length === 0) {
+        if (internal && !seen.has(`?${reference}`)) {
+          seen.add(`?${reference}`);
+          unresolved.push({ from: source.path, reference });
+        }
+        continue;
+      }
+      for (const target of targets) {
+        if (!seen.has(target)) {
+          seen.add(target);
+          edges.push({ from: source.path, to: target, reference });
+        }
+      }
+    }
+  }
+
+  return {
+    nodes: sources.map(source => ({
+      path: source.path,
+      fileType: source.fileType,
+      summary: summarizeModule(source.content, source.fileType),
+    })),
+    edges,
+    unresolved,
+  };
+}
+
+/**
+ * Prompt preamble for one project file: what the modules it references do
+ * Empty when the file references nothing inside or outside the project.
+ */
+export function createDependencyPromptContext(graph: DependencyGraph, path: string): string {
+  const dependencies = graph.edges
+    .filter(edge => edge.from === path)
+    .slice(0, DEPENDENCY_GRAPH_CONFIG.MAX_PROMPT_DEPENDENCIES)
+    .map(edge => {
+      const node = graph.nodes.find(candidate => candidate.path === edge.to);
+      return `- ${edge.to} (referenced as ${edge.reference}): ${node?.summary || 'no summary available'}`;
+    });
+  const missing = graph.unresolved.filter(reference => reference.from === path).map(reference => reference.reference);
+
+  if (dependencies.length === 0 && missing.length === 0) {
+    return '';
+  }
+
+  const lines = [`This file (${path}) is part of a larger project.`];
+  if (dependencies.length > 0) {
+    lines.push(
+      'It references the following modules of the same project. Use these summaries to describe what each dependency does; their own specifications are generated separately:',
+      ...dependencies
+    );
+  }
+  if (missing.length > 0) {
+    lines.push(`It also references routines or modules that are not part of the upload: ${missing.join(', ')}. List them as external dependencies.`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Plain-text edge list for the system-level prompt, so module relationships are grounded in the source
+ */
+export function describeDependencyGraph(graph: DependencyGraph): string {
+  return [
+    ...graph.edges.map(edge => `- ${edge.from} -> ${edge.to} (${edge.reference})`),
+    ...graph.unresolved.map(reference => `- ${reference.from} -> ${reference.reference} (not part of the project)`),
+  ].join('\n');
+}
+
+/**
+ * Render the graph as a Mermaid flowchart; files without dependencies are shown on their own
+ */
+export function renderDependencyMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.path, `n${index}`]));
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.path)}["${escapeMermaidLabel(node.path)}"]`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * "Dependency Graph" section appended to the system-level specification
+ */
+export function renderDependencyGraphMarkdown(graph: DependencyGraph): string {
+  const external = unique(graph.unresolved.map(reference => reference.reference));
+  return [
+    '## Dependency Graph',
+    '',
+    'Resolved from the calls and imports in the project files.',
+    '',
+    '```mermaid',
+    renderDependencyMermaid(graph),
+    '```',
+    ...(external.length > 0 ? ['', `Not part of the project: ${external.map(name => `\`${name}\``).join(', ')}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Short summary of a module: its leading comment or docstring and the symbols it defines
+ */
+export function summarizeModule(content: string, fileType: string): string {
+  const description = truncate(extractLeadingComment(content, fileType), DEPENDENCY_GRAPH_CONFIG.MAX_DESCRIPTION_LENGTH);
+  const symbols = findDefinedSymbols(content, fileType).slice(0, DEPENDENCY_GRAPH_CONFIG.MAX_SUMMARY_SYMBOLS);
+  const definitions = symbols.length > 0 ? `Defines ${symbols.join(', ')}.` : '';
+  return [description, definitions].filter(Boolean).join(' ');
+}
+
+function findReferences(
+  source: DependencySource,
+  sources: DependencySource[],
+  javaClasses: Map<string, string>
+): ModuleReference[] {
+  switch (source.fileType) {
+    case 'rexx':
+      return findRexxReferences(source.content);
+    case 'py':
+      return findPythonReferences(source);
+    case 'java':
+      return findJavaReferences(source, sources, javaClasses);
+    case 'js':
+    case 'ts':
+      return findScriptReferences(source);
+    default:
+      return [];
+  }
+}
+
+/**
+ * CALLs to routines that are not internal labels; execs are resolved by member name
+ */
+function findRexxReferences(content: string): ModuleReference[] {
+  const code = stripBlockComments(content);
+  const labels = new Set(findRexxLabels(code).map(label => label.toUpperCase()));
+  const references: ModuleReference[] = [];
+
+  for (const match of code.matchAll(/(?:^|[;\n])\s*call\s+['"]?([A-Za-z@#$!?_][\w@#$!?.]*)/gi)) {
+    const name = match[1].toUpperCase();
+    if (!labels.has(name) && !REXX_CALL_KEYWORDS.has(name)) {
+      references.push({ reference: match[1], candidates: [`member:${name}`], internal: true });
+    }
+  }
+  return references;
+}
+
+/**
+ * import a.b, from a.b import c, and relative imports resolved against the file's package
+ */
+function findPythonReferences(source: DependencySource): ModuleReference[] {
+  const directory = source.path.split('/').slice(0, -1);
+  const references: ModuleReference[] = [];
+
+  for (const match of source.content.matchAll(/^\s*from\s+(\.*)([\w.]*)\s+import\s+(\([^)]*\)|[^\n#]+)/gm)) {
+    const [, dots, module, names] = match;
+    const importedNames = names.replace(/[()]/g, '').split(',').map(name => name.trim().split(/\s+/)[0]).filter(Boolean);
+    const base = dots
+      ? [...directory.slice(0, Math.max(0, directory.length - (dots.length - 1))), ...(module ? module.split('.') : [])].join('/')
+      : module.replace(/\./g, '/');
+    // Imported names may be submodules of the package, which are more specific than the package itself
+    const modulePaths = [...importedNames.filter(name => name !== '*').map(name => [base, name].filter(Boolean).join('/')), base];
+
+    references.push({
+      reference: `${dots}${module}`,
+      candidates: modulePaths.filter(Boolean).flatMap(path => dots ? pythonPaths(path) : pythonPaths(path).map(suffix => `suffix:${suffix}`)),
+      internal: dots.length > 0,
+    });
+  }
+
+  for (const match of source.content.matchAll(/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm)) {
+    for (const module of match[1].split(',').map(part => part.trim().split(/\s+/)[0])) {
+      references.push({
+        reference: module,
+        candidates: pythonPaths(module.replace(/\./g, '/')).map(suffix => `suffix:${suffix}`),
+        internal: false,
+      });
+    }
+  }
+  return references;
+}
+
+/**
+ * Explicit and wildcard imports, plus classes of the same package used by their simple name
+ */
+function findJavaReferences(
+  source: DependencySource,
+  sources: DependencySource[],
+  javaClasses: Map<string, string>
+): ModuleReference[] {
+  const references: ModuleReference[] = [];
+  const projectPackages = new Set([...javaClasses.keys()].map(name => name.slice(0, name.lastIndexOf('.'))));
+
+  for (const match of source.content.matchAll(/^\s*import\s+(static\s+)?([\w.]+)(\.\*)?\s*;/gm)) {
+    const [, isStatic, name, wildcard] = match;
+    const segments = name.split('.');
+    // Static imports name a member; the class is the longest prefix that is a known class
+    const classNames = isStatic ? segments.map((_, index) => segments.slice(0, index + 1).join('.')) : [name];
+    const candidates = wildcard
+      ? [...javaClasses.entries()].filter(([className]) => className.slice(0, className.lastIndexOf('.')) === name).map(([, path]) => path)
+      : classNames.map(className => javaClasses.get(className)).filter((path): path is string => !!path);
+    const packageName = wildcard ? name : segments.slice(0, -1).join('.');
+
+    references.push({ reference: `${name}${wildcard || ''}`, candidates, matchAll: true, internal: projectPackages.has(packageName) });
+  }
+
+  const packageName = readJavaPackage(source.content);
+  const code = stripBlockComments(source.content);
+  for (const other of sources) {
+    const className = other.path.split('/').pop()?.replace(/\.java$/, '') || '';
+    if (other.fileType === 'java' && other.path !== source.path && readJavaPackage(other.content) === packageName
+      && new RegExp(`\\b${className}\\b`).test(code)) {
+      references.push({ reference: className, candidates: [other.path], internal: false });
+    }
+  }
+  return references;
+}
+
+/**
+ * Relative import/export/require specifiers; packages from node_modules are not part of the project
+ */
+function findScriptReferences(source: DependencySource): ModuleReference[] {
+  const directory = source.path.split('/').slice(0, -1);
+  const references: ModuleReference[] = [];
+  const pattern = /(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+
+  for (const match of source.content.matchAll(pattern)) {
+    const specifier = match[1];
+    const resolved = joinPath(directory, specifier);
+    if (resolved === undefined) {
+      continue;
+    }
+    // TypeScript ESM imports name the compiled .js file
+    const base = source.fileType === 'ts' ? resolved.replace(/\.js$/, '') : resolved;
+    references.push({
+      reference: specifier,
+      candidates: JS_EXTENSIONS.map(extension => `${base}${extension}`),
+      internal: true,
+    });
+  }
+  return references;
+}
+
+function resolveReference(reference: ModuleReference, sources: DependencySource[], fileType: string): string[] {
+  const matches = reference.candidates
+    .map(candidate => sources.find(source => matchesCandidate(source, candidate, fileType))?.path)
+    .filter((path): path is string => !!path);
+  return reference.matchAll ? unique(matches) : matches.slice(0, 1);
+}
+
+function matchesCandidate(source: DependencySource, candidate: string, fileType: string): boolean {
+  if (candidate.startsWith('member:')) {
+    const memberName = (source.path.split('/').pop() || '').replace(/\.[^.]*$/, '').toUpperCase();
+    return source.fileType === fileType && memberName === candidate.slice('member:'.length);
+  }
+  if (candidate.startsWith('suffix:')) {
+    const suffix = candidate.slice('suffix:'.length);
+    return source.path === suffix || source.path.endsWith(`/${suffix}`);
+  }
+  return source.path === candidate;
+}
+
+function indexJavaClasses(sources: DependencySource[]): Map<string, string> {
+  const classes = new Map<string, string>();
+  for (const source of sources.filter(candidate => candidate.fileType === 'java')) {
+    const className = source.path.split('/').pop()?.replace(/\.java$/, '');
+    const packageName = readJavaPackage(source.content);
+    if (className) {
+      classes.set(packageName ? `${packageName}.${className}` : className, source.path);
+    }
+  }
+  return classes;
+}
+
+function readJavaPackage(content: string): string {
+  return /^\s*package\s+([\w.]+)\s*;/m.exec(content)?.[1] || '';
+}
+
+function pythonPaths(modulePath: string): string[] {
+  return [`${modulePath}.py`, `${modulePath}/__init__.py`];
+}
+
+/**
+ * Join a relative specifier onto a directory; undefined when it climbs above the project root
+ */
+function joinPath(directory: string[], specifier: string): string | undefined {
+  const segments = [...directory];
+  for (const segment of specifier.split('/')) {
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return undefined;
+      }
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function extractLeadingComment(content: string, fileType: string): string {
+  const text = content.trimStart();
+  let comment = '';
+
+  if (fileType === 'py') {
+    comment = /^(?:#![^\n]*\n\s*)?(?:[rRuU]?("""|''')([\s\S]*?)\1)/.exec(text)?.[2]
+      || (/^(?:#[^\n]*\n?)+/.exec(text)?.[0] || '').replace(/^#!.*$/m, '').replace(/^#\s?/gm, '');
+  } else if (fileType === 'rexx') {
+    comment = (/^(?:\/\*[\s\S]*?\*\/\s*)+/.exec(text)?.[0] || '').replace(/^\s*\/\*\s*REXX\s*\*\//i, '');
+  } else {
+    // Java and JS/TS: the file header, or the doc comment of the first declaration
+    comment = /\/\*\*?([\s\S]*?)\*\//.exec(text)?.[1] || (/^(?:\/\/[^\n]*\n?)+/.exec(text)?.[0] || '').replace(/^\/\/\s?/gm, '');
+  }
+
+  return comment
+    .replace(/\/\*|\*\//g, ' ')
+    .replace(/^\s*\*+/gm, ' ')
+    .replace(/\*{3,}|-{3,}|={3,}/g, ' ')
+    .replace(/@\w+[^\n]*/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findDefinedSymbols(content: string, fileType: string): string[] {
+  const patterns: Record<string, RegExp> = {
+    py: /^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/gm,
+    java: /^\s*public\s+(?:(?:static|final|abstract|synchronized|default)\s+)*(?:(?:class|interface|enum|record)\s+(\w+)|[\w<>[\],\s]+?\s+(\w+)\s*\()/gm,
+    js: /^\s*export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var)\s+(\w+)|^(?:async\s+)?function\s+(\w+)/gm,
+    ts: /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function|class|const|let|interface|type|enum)\s+(\w+)/gm,
+  };
+
+  if (fileType === 'rexx') {
+    return unique(findRexxLabels(stripBlockComments(content)));
+  }
+  const pattern = patterns[fileType];
+  return pattern ? unique([...content.matchAll(pattern)].map(match => match[1] || match[2]).filter(Boolean)) : [];
+}
+
+function findRexxLabels(code: string): string[] {
+  return [...code.matchAll(/^\s*([A-Za-z@#$!?_][\w@#$!?.]*)\s*:(?!=)/gm)].map(match => match[1]);
+}
+
+function stripBlockComments(content: string): string {
+  return content.replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ' '));
+}
+
+function escapeMermaidLabel(label: string): string {
+  return label.replace(/"/g, '#quot;');
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3).trimEnd()}...` : text;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
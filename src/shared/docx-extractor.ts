@@ -0,0 +1,461 @@
+/**
+ * DOCX (Office Open XML) to Markdown conversion for the S3 Specification Generator
+ * Preserves headings, numbered/bulleted lists, tables and review comments
+ */
+
+import { ProcessingError } from './types';
+import { createProcessingError } from './utils';
+import { isZipArchive, readZipEntries, ZipEntry } from './zip-reader';
+import { parseXml, childElement, childElements, descendantElements, textContent, XmlElement } from './xml-parser';
+
+export interface DocxExtractionResult {
+  markdown: string;
+  headingCount: number;
+  tableCount: number;
+  commentCount: number;
+}
+
+interface StyleInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+}
+
+interface DocxContext {
+  styles: Map<string, StyleInfo>;
+  numberingFormats: Map<string, Map<number, string>>;
+  listCounters: Map<string, number[]>;
+  comments: Map<string, { author: string; text: string }>;
+  referencedComments: string[];
+  headingCount: number;
+  tableCount: number;
+}
+
+interface RunFormat {
+  bold: boolean;
+  italic: boolean;
+}
+
+const OLE_COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const MAX_HEADING_LEVEL = 6;
+
+/**
+ * Check whether a buffer is an OLE2 compound file (legacy Word 97-2003 .doc, or encrypted OOXML)
+ */
+export function isOleCompoundFile(body: Buffer): boolean {
+  return body.length >= OLE_COMPOUND_FILE_SIGNATURE.length
+    && body.subarray(0, OLE_COMPOUND_FILE_SIGNATURE.length).equals(OLE_COMPOUND_FILE_SIGNATURE);
+}
+
+/**
+ * Convert a DOCX document to Markdown
+ * Legacy binary .doc files are detected by magic bytes and rejected with LEGACY_DOC_FORMAT
+ */
+export function extractDocxMarkdown(body: Buffer, filename: string): DocxExtractionResult | ProcessingError {
+  if (isOleCompoundFile(body)) {
+    // Password-protected OOXML documents are also wrapped in an OLE container
+    if (body.includes(Buffer.from('EncryptionInfo', 'utf16le'))) {
+      return createProcessingError(
+        'FILE_READ_ERROR',
+        'Document is password protected and its content cannot be extracted',
+        filename,
+        { retryable: false }
+      );
+    }
+    return createProcessingError(
+      'LEGACY_DOC_FORMAT',
+      'Legacy Word 97-2003 (.doc) documents are not supported. Save the document as .docx and upload it again.',
+      filename,
+      { detectedFormat: 'OLE2 compound document', retryable: false }
+    );
+  }
+
+  if (!isZipArchive(body)) {
+    return createProcessingError(
+      'FILE_READ_ERROR',
+      'File is not a valid DOCX (Office Open XML) document',
+      filename,
+      { header: body.subarray(0, 8).toString('hex'), retryable: false }
+    );
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  readZipEntries(body).forEach(entry => entries.set(entry.name, entry));
+
+  const documentEntry = entries.get('word/document.xml');
+  if (!documentEntry) {
+    return createProcessingError(
+      'FILE_READ_ERROR',
+      'DOCX package does not contain word/document.xml',
+      filename,
+      { entries: Array.from(entries.keys()).slice(0, 20), retryable: false }
+    );
+  }
+
+  const readPart = (name: string): XmlElement | undefined => {
+    const entry = entries.get(name);
+    return entry ? parseXml(entry.read().toString('utf-8')) : undefined;
+  };
+
+  const context: DocxContext = {
+    styles: parseStyles(readPart('word/styles.xml')),
+    numberingFormats: parseNumbering(readPart('word/numbering.xml')),
+    listCounters: new Map(),
+    comments: parseComments(readPart('word/comments.xml')),
+    referencedComments: [],
+    headingCount: 0,
+    tableCount: 0,
+  };
+
+  const document = parseXml(documentEntry.read().toString('utf-8'));
+  const bodyElement = childElement(document, 'w:body');
+  const blocks = bodyElement ? convertBlocks(childElements(bodyElement), context) : [];
+
+  if (context.referencedComments.length > 0) {
+    blocks.push('## Reviewer Comments');
+    context.referencedComments.forEach((id, index) => {
+      const comment = context.comments.get(id);
+      if (comment) {
+        blocks.push(`[^comment-${index + 1}]: ${comment.author ? `**${comment.author}:** ` : ''}${comment.text}`);
+      }
+    });
+  }
+
+  return {
+    markdown: blocks.filter(block => block.length > 0).join('\n\n'),
+    headingCount: context.headingCount,
+    tableCount: context.tableCount,
+    commentCount: context.referencedComments.length,
+  };
+}
+
+/**
+ * Convert body-level elements to Markdown blocks, keeping consecutive list items together
+ */
+function convertBlocks(elements: XmlElement[], context: DocxContext): string[] {
+  const blocks: string[] = [];
+  let listBuffer: string[] = [];
+
+  const flushList = () => {
+    if (listBuffer.length > 0) {
+      blocks.push(listBuffer.join('\n'));
+      listBuffer = [];
+    }
+  };
+
+  elements.forEach(element => {
+    switch (element.name) {
+      case 'w:p': {
+        const paragraph = convertParagraph(element, context);
+        if (paragraph.kind === 'list') {
+          listBuffer.push(paragraph.text);
+        } else {
+          flushList();
+          blocks.push(paragraph.text);
+        }
+        break;
+      }
+      case 'w:tbl':
+        flushList();
+        blocks.push(convertTable(element, context));
+        break;
+      case 'w:sdt': {
+        // Content controls wrap ordinary body content
+        const content = childElement(element, 'w:sdtContent');
+        if (content) {
+          flushList();
+          blocks.push(...convertBlocks(childElements(content), context));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  flushList();
+  return blocks;
+}
+
+/**
+ * Convert a paragraph to a heading, list item or plain Markdown paragraph
+ */
+function convertParagraph(paragraph: XmlElement, context: DocxContext): { kind: 'heading' | 'list' | 'text'; text: string } {
+  const properties = childElement(paragraph, 'w:pPr');
+  const text = convertInline(paragraph, context).trim();
+
+  const styleId = properties ? childElement(properties, 'w:pStyle')?.attributes['w:val'] : undefined;
+  const directOutline = properties ? childElement(properties, 'w:outlineLvl')?.attributes['w:val'] : undefined;
+  const headingLevel = directOutline !== undefined
+    ? parseInt(directOutline, 10) + 1
+    : resolveHeadingLevel(styleId, context.styles);
+
+  if (headingLevel !== undefined && text.length > 0) {
+    context.headingCount++;
+    return { kind: 'heading', text: `${'#'.repeat(Math.min(headingLevel, MAX_HEADING_LEVEL))} ${text}` };
+  }
+
+  const numbering = properties ? childElement(properties, 'w:numPr') : undefined;
+  const numId = numbering ? childElement(numbering, 'w:numId')?.attributes['w:val'] : undefined;
+  if (numbering && numId && numId !== '0') {
+    const level = parseInt(childElement(numbering, 'w:ilvl')?.attributes['w:val'] || '0', 10);
+    const format = context.numberingFormats.get(numId)?.get(level) || 'bullet';
+    const indent = '   '.repeat(level);
+
+    if (format === 'bullet' || format === 'none') {
+      return { kind: 'list', text: `${indent}- ${text}` };
+    }
+
+    const counters = context.listCounters.get(numId) || [];
+    counters[level] = (counters[level] || 0) + 1;
+    counters.length = level + 1; // Restart deeper levels
+    context.listCounters.set(numId, counters);
+    return { kind: 'list', text: `${indent}${counters[level]}. ${text}` };
+  }
+
+  return { kind: 'text', text };
+}
+
+/**
+ * Convert the runs of a paragraph (including hyperlinks and tracked insertions) to inline Markdown
+ */
+function convertInline(container: XmlElement, context: DocxContext): string {
+  const segments: Array<{ text: string; format: RunFormat }> = [];
+
+  const visit = (element: XmlElement) => {
+    childElements(element).forEach(child => {
+      switch (child.name) {
+        case 'w:r':
+          segments.push(...convertRun(child, context));
+          break;
+        case 'w:hyperlink':
+        case 'w:ins':
+        case 'w:smartTag':
+        case 'w:fldSimple':
+          visit(child);
+          break;
+        case 'w:sdt': {
+          const content = childElement(child, 'w:sdtContent');
+          if (content) visit(content);
+          break;
+        }
+        default:
+          // w:del (tracked deletions), bookmarks and proofing marks carry no visible text
+          break;
+      }
+    });
+  };
+  visit(container);
+
+  // Merge adjacent runs with identical formatting so emphasis markers are not fragmented
+  const merged: Array<{ text: string; format: RunFormat }> = [];
+  segments.forEach(segment => {
+    const last = merged[merged.length - 1];
+    if (last && last.format.bold === segment.format.bold && last.format.italic === segment.format.italic) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  });
+
+  return merged.map(({ text, format }) => applyEmphasis(text, format)).join('');
+}
+
+function convertRun(run: XmlElement, context: DocxContext): Array<{ text: string; format: RunFormat }> {
+  const properties = childElement(run, 'w:rPr');
+  const format: RunFormat = {
+    bold: isToggleOn(properties ? childElement(properties, 'w:b') : undefined),
+    italic: isToggleOn(properties ? childElement(properties, 'w:i') : undefined),
+  };
+  const plain: RunFormat = { bold: false, italic: false };
+  const segments: Array<{ text: string; format: RunFormat }> = [];
+
+  childElements(run).forEach(child => {
+    switch (child.name) {
+      case 'w:t':
+        segments.push({ text: textContent(child), format });
+        break;
+      case 'w:tab':
+        segments.push({ text: '\t', format: plain });
+        break;
+      case 'w:br':
+      case 'w:cr':
+        segments.push({ text: '  \n', format: plain });
+        break;
+      case 'w:noBreakHyphen':
+        segments.push({ text: '-', format });
+        break;
+      case 'w:commentReference': {
+        const id = child.attributes['w:id'];
+        if (id !== undefined && context.comments.has(id)) {
+          context.referencedComments.push(id);
+          segments.push({ text: `[^comment-${context.referencedComments.length}]`, format: plain });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Convert a table to a Markdown pipe table (the first row is treated as the header)
+ */
+function convertTable(table: XmlElement, context: DocxContext): string {
+  context.tableCount++;
+
+  const rows = childElements(table, 'w:tr').map(row =>
+    childElements(row, 'w:tc').flatMap(cell => {
+      const text = descendantElements(cell, 'w:p')
+        .map(paragraph => convertInline(paragraph, context).trim())
+        .filter(line => line.length > 0)
+        .join('<br>')
+        .replace(/\|/g, '\\|')
+        .replace(/\s*\n\s*/g, ' ');
+
+      const properties = childElement(cell, 'w:tcPr');
+      const span = parseInt((properties && childElement(properties, 'w:gridSpan')?.attributes['w:val']) || '1', 10);
+      return [text, ...Array(Math.max(0, span - 1)).fill('')];
+    })
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const formatRow = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [
+    formatRow(rows[0]),
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Resolve a paragraph style's heading level, following the basedOn chain
+ */
+function resolveHeadingLevel(styleId: string | undefined, styles: Map<string, StyleInfo>): number | undefined {
+  const visited = new Set<string>();
+  let current = styleId;
+
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const style = styles.get(current);
+    if (!style) {
+      break;
+    }
+    if (style.outlineLevel !== undefined) {
+      return style.outlineLevel + 1;
+    }
+    const nameMatch = /^heading\s*(\d)$/i.exec(style.name);
+    if (nameMatch) {
+      return parseInt(nameMatch[1], 10);
+    }
+    if (/^title$/i.test(style.name)) {
+      return 1;
+    }
+    current = style.basedOn;
+  }
+
+  return undefined;
+}
+
+function parseStyles(stylesPart: XmlElement | undefined): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!stylesPart) {
+    return styles;
+  }
+
+  childElements(stylesPart, 'w:style').forEach(style => {
+    const id = style.attributes['w:styleId'];
+    if (!id) {
+      return;
+    }
+    const properties = childElement(style, 'w:pPr');
+    const outline = properties ? childElement(properties, 'w:outlineLvl')?.attributes['w:val'] : undefined;
+    const level = outline !== undefined ? parseInt(outline, 10) : undefined;
+
+    styles.set(id, {
+      name: childElement(style, 'w:name')?.attributes['w:val'] || id,
+      basedOn: childElement(style, 'w:basedOn')?.attributes['w:val'],
+      // Outline level 9 means "body text"
+      outlineLevel: level !== undefined && level < 9 ? level : undefined,
+    });
+  });
+
+  return styles;
+}
+
+/**
+ * Map numId -> (level -> numFmt) from the numbering part
+ */
+function parseNumbering(numberingPart: XmlElement | undefined): Map<string, Map<number, string>> {
+  const formats = new Map<string, Map<number, string>>();
+  if (!numberingPart) {
+    return formats;
+  }
+
+  const abstractFormats = new Map<string, Map<number, string>>();
+  childElements(numberingPart, 'w:abstractNum').forEach(abstractNum => {
+    const levels = new Map<number, string>();
+    childElements(abstractNum, 'w:lvl').forEach(level => {
+      const index = parseInt(level.attributes['w:ilvl'] || '0', 10);
+      levels.set(index, childElement(level, 'w:numFmt')?.attributes['w:val'] || 'bullet');
+    });
+    abstractFormats.set(abstractNum.attributes['w:abstractNumId'], levels);
+  });
+
+  childElements(numberingPart, 'w:num').forEach(num => {
+    const abstractId = childElement(num, 'w:abstractNumId')?.attributes['w:val'];
+    const levels = abstractId !== undefined ? abstractFormats.get(abstractId) : undefined;
+    if (levels) {
+      formats.set(num.attributes['w:numId'], levels);
+    }
+  });
+
+  return formats;
+}
+
+function parseComments(commentsPart: XmlElement | undefined): Map<string, { author: string; text: string }> {
+  const comments = new Map<string, { author: string; text: string }>();
+  if (!commentsPart) {
+    return comments;
+  }
+
+  childElements(commentsPart, 'w:comment').forEach(comment => {
+    const text = descendantElements(comment, 'w:p')
+      .map(paragraph => descendantElements(paragraph, 'w:t').map(textContent).join(''))
+      .filter(line => line.trim().length > 0)
+      .join(' ');
+    comments.set(comment.attributes['w:id'], { author: comment.attributes['w:author'] || '', text });
+  });
+
+  return comments;
+}
+
+function isToggleOn(element: XmlElement | undefined): boolean {
+  if (!element) {
+    return false;
+  }
+  const value = element.attributes['w:val'];
+  return value === undefined || !['0', 'false', 'off', 'none'].includes(value);
+}
+
+function applyEmphasis(text: string, format: RunFormat): string {
+  if (!format.bold && !format.italic) {
+    return text;
+  }
+  // Keep surrounding whitespace outside the markers so Markdown recognises the emphasis
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || match[2].length === 0) {
+    return text;
+  }
+  const marker = format.bold && format.italic ? '***' : format.bold ? '**' : '*';
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
@@ -0,0 +1,81 @@
+/**
+ * EBCDIC decoding for the S3 Specification Generator
+ *
+ * Mainframe members transferred in binary mode arrive as EBCDIC (code page IBM-037), often as
+ * fixed-length 80-byte records without line separators. Formats flagged `ebcdic` in the format
+ * registry are sniffed here and decoded to text before normalisation.
+ */
+
+// IBM-037 code points for bytes 0x00-0xFF
+const IBM_037 =
+  '\u0000\u0001\u0002\u0003\u009c\u0009\u0086\u007f\u0097\u008d\u008e\u000b\u000c\u000d\u000e\u000f' +
+  '\u0010\u0011\u0012\u0013\u009d\u0085\u0008\u0087\u0018\u0019\u0092\u008f\u001c\u001d\u001e\u001f' +
+  '\u0080\u0081\u0082\u0083\u0084\u000a\u0017\u001b\u0088\u0089\u008a\u008b\u008c\u0005\u0006\u0007' +
+  '\u0090\u0091\u0016\u0093\u0094\u0095\u0096\u0004\u0098\u0099\u009a\u009b\u0014\u0015\u009e\u001a' +
+  ' \u00a0\u00e2\u00e4\u00e0\u00e1\u00e3\u00e5\u00e7\u00f1\u00a2.<(+|' +
+  '&\u00e9\u00ea\u00eb\u00e8\u00ed\u00ee\u00ef\u00ec\u00df!$*);\u00ac' +
+  '-/\u00c2\u00c4\u00c0\u00c1\u00c3\u00c5\u00c7\u00d1\u00a6,%_>?' +
+  '\u00f8\u00c9\u00ca\u00cb\u00c8\u00cd\u00ce\u00cf\u00cc`:#@\u0027="' +
+  '\u00d8abcdefghi\u00ab\u00bb\u00f0\u00fd\u00fe\u00b1' +
+  '\u00b0jklmnopqr\u00aa\u00ba\u00e6\u00b8\u00c6\u00a4' +
+  '\u00b5~stuvwxyz\u00a1\u00bf\u00d0\u00dd\u00de\u00ae' +
+  '^\u00a3\u00a5\u00b7\u00a9\u00a7\u00b6\u00bc\u00bd\u00be[]\u00af\u00a8\u00b4\u00d7' +
+  '{ABCDEFGHI\u00ad\u00f4\u00f6\u00f2\u00f3\u00f5' +
+  '}JKLMNOPQR\u00b9\u00fb\u00fc\u00f9\u00fa\u00ff' +
+  '\u005c\u00f7STUVWXYZ\u00b2\u00d4\u00d6\u00d2\u00d3\u00d5' +
+  '0123456789\u00b3\u00db\u00dc\u00d9\u00da\u009f';
+
+const EBCDIC_SPACE = 0x40;
+const ASCII_SPACE = 0x20;
+const NEXT_LINE = '\u0085'; // EBCDIC NL (0x15)
+
+export const DEFAULT_RECORD_LENGTH = 80;
+
+/**
+ * Whether a buffer looks like EBCDIC text rather than ASCII/UTF-8
+ * EBCDIC letters and digits are all above 0x80 and its space is 0x40, so EBCDIC text is invalid
+ * UTF-8, has more 0x40 than 0x20 bytes and consists mostly of letters, digits and spaces.
+ */
+export function isLikelyEbcdic(body: Buffer): boolean {
+  if (body.length === 0 || Buffer.from(body.toString('utf-8'), 'utf-8').equals(body)) {
+    return false;
+  }
+
+  let ebcdicSpaces = 0;
+  let asciiSpaces = 0;
+  let alphanumerics = 0;
+  for (const byte of body) {
+    if (byte === EBCDIC_SPACE) {
+      ebcdicSpaces++;
+    } else if (byte === ASCII_SPACE) {
+      asciiSpaces++;
+    } else if (isEbcdicAlphanumeric(byte)) {
+      alphanumerics++;
+    }
+  }
+
+  return ebcdicSpaces > asciiSpaces && (ebcdicSpaces + alphanumerics) / body.length > 0.6;
+}
+
+/**
+ * Decode IBM-037 text; content without line separators is split into fixed-length records
+ */
+export function decodeEbcdic(body: Buffer, recordLength: number = DEFAULT_RECORD_LENGTH): string {
+  const text = Array.from(body, byte => IBM_037[byte]).join('').split(NEXT_LINE).join('\n');
+
+  if (!/[\r\n]/.test(text) && text.length > recordLength && text.length % recordLength === 0) {
+    const records: string[] = [];
+    for (let offset = 0; offset < text.length; offset += recordLength) {
+      records.push(text.slice(offset, offset + recordLength).trimEnd());
+    }
+    return records.join('\n');
+  }
+
+  return text;
+}
+
+function isEbcdicAlphanumeric(byte: number): boolean {
+  return (byte >= 0x81 && byte <= 0x89) || (byte >= 0x91 && byte <= 0x99) || (byte >= 0xa2 && byte <= 0xa9)
+    || (byte >= 0xc1 && byte <= 0xc9) || (byte >= 0xd1 && byte <= 0xd9) || (byte >= 0xe2 && byte <= 0xe9)
+    || (byte >= 0xf0 && byte <= 0xf9);
+}
@@ -0,0 +1,312 @@
+/**
+ * File format registry for the S3 Specification Generator
+ *
+ * Single source of truth for the formats the pipeline accepts. The EventBridge suffix filter,
+ * ReadFileFunction's format check and extractor selection, the default prompt templates and
+ * user-facing messages are all derived from FILE_FORMATS. This module has no runtime
+ * dependencies so the CDK stack can import it as well.
+ */
+
+// How ReadFileFunction turns the uploaded bytes into text; project extractors enumerate files instead
+export type FileExtractor = 'text' | 'rtf' | 'pdf' | 'word' | ProjectExtractor;
+export type ProjectExtractor = 'zip' | 'tar' | 'manifest';
+
+const PROJECT_EXTRACTORS: readonly FileExtractor[] = ['zip', 'tar', 'manifest'];
+
+// Language-specific clean-up applied to extracted source text (see source-normalizers.ts)
+export type SourceNormalizer = 'cobol' | 'sequence-numbers';
+
+export interface FileFormat {
+  id: string; // Canonical file type passed through the pipeline (FileProcessingEvent.fileType)
+  name: string; // Human-readable name, also the {{language}} prompt variable
+  extensions: string[]; // Lower-case, without the leading dot; the first one is the primary extension
+  filenames?: string[]; // Exact file names matched instead of an extension
+  mimeTypes: string[];
+  extractor: FileExtractor;
+  promptTemplateId: string; // Built-in prompt template used unless a configured template matches
+  promptGuidance?: string; // Language-specific guideline, the {{languageGuidance}} prompt variable
+  normalizer?: SourceNormalizer;
+  ebcdic?: boolean; // May arrive as an EBCDIC mainframe export; detected and decoded to text
+  // Accepted only far enough to be identified by magic bytes and rejected with a specific error
+  legacy?: boolean;
+}
+
+export const FILE_FORMATS: readonly FileFormat[] = [
+  {
+    id: 'txt',
+    name: 'plain text',
+    extensions: ['txt', 'text'],
+    mimeTypes: ['text/plain'],
+    extractor: 'text',
+    promptTemplateId: 'generic',
+  },
+  {
+    id: 'md',
+    name: 'Markdown',
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown'],
+    extractor: 'text',
+    promptTemplateId: 'markdown-prd',
+  },
+  {
+    id: 'pdf',
+    name: 'PDF document',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    extractor: 'pdf',
+    promptTemplateId: 'generic',
+  },
+  {
+    id: 'docx',
+    name: 'Word document',
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extractor: 'word',
+    promptTemplateId: 'generic',
+  },
+  {
+    id: 'doc',
+    name: 'Word 97-2003 document',
+    extensions: ['doc'],
+    mimeTypes: ['application/msword'],
+    extractor: 'word', // Word also saves RTF content under a .doc name; binary documents are rejected
+    promptTemplateId: 'generic',
+    legacy: true,
+  },
+  {
+    id: 'rtf',
+    name: 'Rich Text document',
+    extensions: ['rtf'],
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    extractor: 'rtf',
+    promptTemplateId: 'generic',
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    extensions: ['java'],
+    mimeTypes: ['text/x-java-source'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover packages, classes and interfaces, annotations (e.g. Spring or JPA), checked exceptions and thread safety',
+  },
+  {
+    id: 'py',
+    name: 'Python',
+    extensions: ['py'],
+    mimeTypes: ['text/x-python'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover modules, classes and functions, decorators, type hints, raised exceptions and module-level configuration',
+  },
+  {
+    id: 'js',
+    name: 'JavaScript',
+    extensions: ['js', 'mjs', 'cjs'],
+    mimeTypes: ['text/javascript', 'application/javascript'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover modules and exports, callbacks, promises and async functions, events and the runtime (browser or Node.js)',
+  },
+  {
+    id: 'ts',
+    name: 'TypeScript',
+    extensions: ['ts'],
+    mimeTypes: ['application/typescript'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover modules and exports, types and interfaces, generics, decorators and async functions',
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    extensions: ['go'],
+    mimeTypes: ['text/x-go'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover packages, exported identifiers, structs and interfaces, error return values, goroutines and channels',
+  },
+  {
+    id: 'cs',
+    name: 'C#',
+    extensions: ['cs'],
+    mimeTypes: ['text/x-csharp'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover namespaces, classes and interfaces, properties, attributes, async/await, LINQ queries and dependency injection',
+  },
+  {
+    id: 'pli',
+    name: 'PL/I',
+    extensions: ['pli', 'pl1'],
+    mimeTypes: ['text/x-pli'],
+    extractor: 'text',
+    promptTemplateId: 'source-code',
+    promptGuidance: 'Cover PROCEDUREs and entry points, DECLAREd structures with their levels and attributes, file and record I/O, ON-units and CALLed programs',
+    normalizer: 'sequence-numbers',
+    ebcdic: true,
+  },
+  {
+    id: 'cbl',
+    name: 'COBOL',
+    extensions: ['cbl', 'cob'],
+    mimeTypes: ['text/x-cobol'],
+    extractor: 'text',
+    promptTemplateId: 'cobol-program',
+    normalizer: 'cobol',
+    ebcdic: true,
+  },
+  {
+    id: 'cpy',
+    name: 'COBOL copybook',
+    extensions: ['cpy'],
+    mimeTypes: ['text/x-cobol'],
+    extractor: 'text',
+    promptTemplateId: 'cobol-copybook',
+    normalizer: 'cobol',
+    ebcdic: true,
+  },
+  {
+    id: 'jcl',
+    name: 'JCL',
+    extensions: ['jcl'],
+    mimeTypes: ['text/x-jcl'],
+    extractor: 'text',
+    promptTemplateId: 'jcl-job',
+    normalizer: 'sequence-numbers',
+    ebcdic: true,
+  },
+  {
+    id: 'rexx',
+    name: 'REXX',
+    extensions: ['rexx', 'rex'],
+    mimeTypes: ['text/x-rexx'],
+    extractor: 'text',
+    promptTemplateId: 'rexx-batch',
+    normalizer: 'sequence-numbers',
+    ebcdic: true,
+  },
+  {
+    id: 'sql',
+    name: 'SQL',
+    extensions: ['sql'],
+    mimeTypes: ['application/sql'],
+    extractor: 'text',
+    promptTemplateId: 'sql-script',
+    normalizer: 'sequence-numbers', // DB2 members exported from SPUFI/DSNTEP2 libraries
+    ebcdic: true,
+  },
+  {
+    id: 'sh',
+    name: 'shell script',
+    extensions: ['sh', 'bash', 'ksh'],
+    mimeTypes: ['application/x-sh'],
+    extractor: 'text',
+    promptTemplateId: 'shell-script',
+  },
+  {
+    id: 'zip',
+    name: 'ZIP project archive',
+    extensions: ['zip'],
+    mimeTypes: ['application/zip'],
+    extractor: 'zip',
+    promptTemplateId: 'project-system',
+  },
+  {
+    id: 'tar',
+    name: 'tar project archive',
+    extensions: ['tar', 'tar.gz', 'tgz'],
+    mimeTypes: ['application/x-tar', 'application/gzip'],
+    extractor: 'tar',
+    promptTemplateId: 'project-system',
+  },
+  {
+    id: 'manifest',
+    name: 'project manifest',
+    extensions: [],
+    filenames: ['_manifest.json'], // Marks every supported file under its prefix as one project
+    mimeTypes: ['application/json'],
+    extractor: 'manifest',
+    promptTemplateId: 'project-system',
+  },
+];
+
+/**
+ * Look up the format of a file name or key by exact name or longest extension (case-insensitive)
+ */
+export function getFileFormat(filename: string): FileFormat | undefined {
+  const name = (filename.split('/').pop() || '').toLowerCase();
+  const named = FILE_FORMATS.find(format => format.filenames?.includes(name));
+  if (named) {
+    return named;
+  }
+
+  let match: { format: FileFormat; extension: string } | undefined;
+  for (const format of FILE_FORMATS) {
+    for (const extension of format.extensions) {
+      if (name.endsWith(`.${extension}`) && (!match || extension.length > match.extension.length)) {
+        match = { format, extension };
+      }
+    }
+  }
+  return match?.format;
+}
+
+/**
+ * Archives and manifests are processed as projects: one specification per file plus a system-level one
+ */
+export function isProjectFormat(format: FileFormat): boolean {
+  return PROJECT_EXTRACTORS.includes(format.extractor);
+}
+
+/**
+ * Look up a format by its canonical file type
+ */
+export function getFileFormatById(id: string): FileFormat | undefined {
+  return FILE_FORMATS.find(format => format.id === id.toLowerCase());
+}
+
+/**
+ * Formats that are fully supported, i.e. excluding legacy formats
+ */
+export function getSupportedFileFormats(): FileFormat[] {
+  return FILE_FORMATS.filter(format => !format.legacy);
+}
+
+/**
+ * Canonical file types served by a built-in prompt template
+ */
+export function getFileTypesForPromptTemplate(templateId: string): string[] {
+  return FILE_FORMATS.filter(format => format.promptTemplateId === templateId).map(format => format.id);
+}
+
+/**
+ * Object key suffixes that start a pipeline execution
+ * Legacy formats are included so they are rejected with a specific error instead of being ignored.
+ * EventBridge suffix matching is case-sensitive, so upper-case extensions are listed as well.
+ * Exact file names only match under a prefix (e.g. projects/payroll/_manifest.json).
+ */
+export function getEventKeySuffixes(): string[] {
+  return [
+    ...FILE_FORMATS.flatMap(format => format.extensions)
+      .flatMap(extension => [`.${extension}`, `.${extension.toUpperCase()}`]),
+    ...FILE_FORMATS.flatMap(format => format.filenames || []).map(filename => `/${filename}`),
+  ];
+}
+
+/**
+ * Object keys that start a pipeline execution on an exact match: file names at the bucket root
+ * No `/<name>` suffix matches them, and ReadFileFunction rejects a root manifest with a specific error.
+ */
+export function getEventKeyNames(): string[] {
+  return FILE_FORMATS.flatMap(format => format.filenames || []);
+}
+
+/**
+ * Supported formats for user-facing messages, e.g. "plain text (.txt, .text), Markdown (.md, .markdown), ..."
+ */
+export function describeSupportedFileFormats(): string {
+  return getSupportedFileFormats()
+    .map(format => `${format.name} (${[...format.extensions.map(extension => `.${extension}`), ...(format.filenames || [])].join(', ')})`)
+    .join(', ');
+}
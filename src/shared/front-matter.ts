@@ -0,0 +1,139 @@
+/**
+ * YAML front matter for the S3 Specification Generator
+ *
+ * Specifications start with a `---` delimited block of YAML holding the processing metadata,
+ * so static-site generators and docs tooling can read it. Only flat mappings of scalars are
+ * written; strings are always double-quoted so values such as `yes`, `1.0` or timestamps keep
+ * their type in any YAML parser.
+ */
+
+import { SpecificationFrontMatter } from './types';
+
+export type FrontMatterValue = string | number | boolean | null;
+
+export interface FrontMatterDocument {
+  frontMatter: Record<string, FrontMatterValue>;
+  body: string;
+  hasFrontMatter: boolean;
+}
+
+const DELIMITER = '---';
+const KEY_PATTERN = /^[A-Za-z_][\w-]*$/;
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Serialize a flat mapping as a front matter block; undefined values are omitted
+ */
+export function serializeFrontMatter(data: object): string {
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (!KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid front matter key: ${key}`);
+      }
+      return `${key}: ${serializeValue(key, value)}`;
+    });
+
+  return `${DELIMITER}\n${lines.join('\n')}\n${DELIMITER}\n`;
+}
+
+/**
+ * Prepend front matter to a Markdown document
+ */
+export function addFrontMatter(markdown: string, data: object): string {
+  return `${serializeFrontMatter(data)}\n${markdown}`;
+}
+
+/**
+ * Split a document into its front matter and body
+ * Documents without a front matter block are returned unchanged with an empty mapping.
+ * Nested YAML (sequences, block mappings, multi-line scalars) is not supported and skipped.
+ */
+export function parseFrontMatter(document: string): FrontMatterDocument {
+  const lines = document.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const end = lines[0]?.trim() === DELIMITER
+    ? lines.findIndex((line, index) => index > 0 && (line.trim() === DELIMITER || line.trim() === '...'))
+    : -1;
+  if (end < 0) {
+    return { frontMatter: {}, body: document, hasFrontMatter: false };
+  }
+
+  const frontMatter: Record<string, FrontMatterValue> = {};
+  for (const line of lines.slice(1, end)) {
+    const match = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/.exec(line);
+    if (match) {
+      frontMatter[match[1]] = parseValue((match[2] || '').trim());
+    }
+  }
+
+  const bodyLines = lines.slice(end + 1);
+  if (bodyLines[0]?.trim() === '') {
+    bodyLines.shift();
+  }
+
+  return { frontMatter, body: bodyLines.join('\n'), hasFrontMatter: true };
+}
+
+/**
+ * Read the processing metadata back from a generated specification
+ * frontMatter is undefined when the document has no specification front matter.
+ */
+export function parseSpecificationFrontMatter(
+  document: string
+): { frontMatter?: SpecificationFrontMatter; body: string } {
+  const parsed = parseFrontMatter(document);
+  if (typeof parsed.frontMatter.source_key !== 'string') {
+    return { body: parsed.body };
+  }
+  return {
+    frontMatter: parsed.frontMatter as unknown as SpecificationFrontMatter,
+    body: parsed.body
+  };
+}
+
+function serializeValue(key: string, value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Front matter value for ${key} must be a finite number`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    // JSON string escapes are valid YAML double-quoted escapes; YAML 1.1 also breaks lines on U+2028/U+2029
+    return JSON.stringify(value).replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+  }
+  throw new Error(`Front matter value for ${key} must be a string, number, boolean or null`);
+}
+
+function parseValue(raw: string): FrontMatterValue {
+  const doubleQuoted = /^("(?:[^"\\]|\\.)*")(\s+#.*)?$/.exec(raw);
+  if (doubleQuoted) {
+    try {
+      return JSON.parse(doubleQuoted[1]);
+    } catch {
+      return doubleQuoted[1].slice(1, -1);
+    }
+  }
+  const singleQuoted = /^'((?:[^']|'')*)'(\s+#.*)?$/.exec(raw);
+  if (singleQuoted) {
+    return singleQuoted[1].replace(/''/g, "'");
+  }
+
+  const value = raw.replace(/\s+#.*$/, '');
+  if (value === '' || value === '~' || /^null$/i.test(value)) {
+    return null;
+  }
+  if (/^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  if (NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
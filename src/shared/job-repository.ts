@@ -0,0 +1,217 @@
+/**
+ * Job table repository for the S3 Specification Generator
+ *
+ * Every Lambda records its progress in the DynamoDB job table (JOB_TABLE_NAME) through these
+ * functions. Jobs are keyed on the Step Functions execution name, or on the job id in the key for
+ * files submitted through the job API (see resolveJobId). Status updates are best
+ * effort: failures are logged and never fail processing, and updates without a table name or
+ * job id are skipped. Query functions throw, so callers can report the failure.
+ */
+
+import { DynamoDB } from 'aws-sdk';
+import { JOB_TABLE_CONFIG } from './constants';
+import { JobRecord, JobStatus } from './types';
+import { logError, logInfo } from './utils';
+
+// Attributes that may be set alongside a status change
+export type JobUpdate = Partial<Pick<JobRecord,
+  'fileType' | 'modelId' | 'inputTokens' | 'outputTokens' | 'outputLocation' | 'errorType' | 'errorMessage'>>;
+
+export interface NewJob {
+  jobId?: string;
+  sourceKey: string;
+  sourceBucket: string;
+  sourceEtag?: string;
+  queuedAt?: string; // Upload time; defaults to now
+}
+
+export interface JobQueryOptions {
+  since?: string; // Only jobs created at or after this ISO timestamp
+  limit?: number;
+  exclusiveStartKey?: DynamoDB.DocumentClient.Key;
+}
+
+export interface JobQueryResult {
+  jobs: JobRecord[];
+  lastEvaluatedKey?: DynamoDB.DocumentClient.Key;
+}
+
+const documentClient = new DynamoDB.DocumentClient();
+
+const UPLOAD_JOB_ID_PATTERN = new RegExp(`^${JOB_TABLE_CONFIG.UPLOAD_PREFIX}([A-Za-z0-9-]+)/[^/]+$`);
+
+/**
+ * Key for a file submitted through the job API
+ */
+export function getUploadKey(jobId: string, filename: string): string {
+  return `${JOB_TABLE_CONFIG.UPLOAD_PREFIX}${jobId}/${filename}`;
+}
+
+/**
+ * Job id for an execution: the id in the key for job API uploads, otherwise the execution name
+ */
+export function resolveJobId(sourceKey: string | undefined, executionName: string | undefined): string | undefined {
+  return sourceKey?.match(UPLOAD_JOB_ID_PATTERN)?.[1] || executionName;
+}
+
+/**
+ * Create the job record in the queued state; an existing record for the same job is kept
+ */
+export async function createJob(job: NewJob): Promise<void> {
+  const tableName = process.env.JOB_TABLE_NAME;
+  if (!tableName || !job.jobId) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const queuedAt = job.queuedAt && !isNaN(Date.parse(job.queuedAt)) ? new Date(job.queuedAt).toISOString() : now;
+  const retentionDays = Number(process.env.JOB_RETENTION_DAYS) || JOB_TABLE_CONFIG.DEFAULT_RETENTION_DAYS;
+  const record: JobRecord = {
+    jobId: job.jobId,
+    status: 'queued',
+    sourceKey: job.sourceKey,
+    sourceBucket: job.sourceBucket,
+    sourceEtag: job.sourceEtag,
+    day: queuedAt.slice(0, 10),
+    createdAt: queuedAt,
+    updatedAt: now,
+    queuedAt,
+    expiresAt: Math.floor(Date.parse(queuedAt) / 1000) + retentionDays * 24 * 60 * 60,
+  };
+
+  try {
+    await documentClient.put({
+      TableName: tableName,
+      Item: record,
+      ConditionExpression: 'attribute_not_exists(jobId)',
+    }).promise();
+    logInfo('Job created', { jobId: job.jobId, sourceKey: job.sourceKey });
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ConditionalCheckFailedException') {
+      logJobError('Failed to create job record', job.jobId, error);
+    }
+  }
+}
+
+/**
+ * Move a job to a new status, recording when it first entered that status
+ * Only existing jobs are updated, so a job whose creation failed is never recreated without its
+ * key attributes (sourceKey, day, createdAt). Jobs that already failed keep their failed status.
+ */
+export async function updateJobStatus(jobId: string | undefined, status: JobStatus, update: JobUpdate = {}): Promise<void> {
+  const tableName = process.env.JOB_TABLE_NAME;
+  if (!tableName || !jobId) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const names: Record<string, string> = { '#status': 'status', '#statusAt': `${status}At` };
+  const values: Record<string, unknown> = { ':status': status, ':now': now, ':failed': 'failed' };
+  const assignments = ['#status = :status', 'updatedAt = :now', '#statusAt = if_not_exists(#statusAt, :now)'];
+
+  Object.entries(update)
+    .filter(([, value]) => value !== undefined)
+    .forEach(([attribute, value], index) => {
+      names[`#a${index}`] = attribute;
+      values[`:a${index}`] = value;
+      assignments.push(`#a${index} = :a${index}`);
+    });
+
+  try {
+    await documentClient.update({
+      TableName: tableName,
+      Key: { jobId },
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ConditionExpression: status === 'failed' ? 'attribute_exists(jobId)' : 'attribute_exists(jobId) AND #status <> :failed',
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: status === 'failed' ? withoutFailedValue(values) : values,
+    }).promise();
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ConditionalCheckFailedException') {
+      logInfo('Job does not exist or already failed, status not updated', { jobId, status });
+      return;
+    }
+    logJobError('Failed to update job status', jobId, error);
+  }
+}
+
+/**
+ * Mark a job failed with the error that stopped it
+ */
+export async function markJobFailed(
+  jobId: string | undefined,
+  error: { errorType?: string; message?: string }
+): Promise<void> {
+  await updateJobStatus(jobId, 'failed', {
+    errorType: error.errorType || 'UNKNOWN_ERROR',
+    errorMessage: error.message,
+  });
+}
+
+/**
+ * Look up one job
+ */
+export async function getJob(jobId: string): Promise<JobRecord | undefined> {
+  const result = await documentClient.get({
+    TableName: getJobTableName(),
+    Key: { jobId },
+  }).promise();
+  return result.Item as JobRecord | undefined;
+}
+
+/**
+ * Jobs for one source key, newest first
+ */
+export async function queryJobsBySourceKey(sourceKey: string, options: JobQueryOptions = {}): Promise<JobQueryResult> {
+  return queryJobIndex(JOB_TABLE_CONFIG.SOURCE_KEY_INDEX, 'sourceKey', sourceKey, options);
+}
+
+/**
+ * Jobs created on one UTC day (YYYY-MM-DD), newest first
+ */
+export async function queryJobsByDay(day: string, options: JobQueryOptions = {}): Promise<JobQueryResult> {
+  return queryJobIndex(JOB_TABLE_CONFIG.DAY_INDEX, 'day', day, options);
+}
+
+async function queryJobIndex(
+  indexName: string,
+  partitionKey: string,
+  value: string,
+  options: JobQueryOptions
+): Promise<JobQueryResult> {
+  const result = await documentClient.query({
+    TableName: getJobTableName(),
+    IndexName: indexName,
+    KeyConditionExpression: options.since ? '#pk = :value AND createdAt >= :since' : '#pk = :value',
+    ExpressionAttributeNames: { '#pk': partitionKey },
+    ExpressionAttributeValues: options.since ? { ':value': value, ':since': options.since } : { ':value': value },
+    ScanIndexForward: false,
+    Limit: options.limit,
+    ExclusiveStartKey: options.exclusiveStartKey,
+  }).promise();
+
+  return {
+    jobs: (result.Items || []) as JobRecord[],
+    lastEvaluatedKey: result.LastEvaluatedKey,
+  };
+}
+
+function getJobTableName(): string {
+  const tableName = process.env.JOB_TABLE_NAME;
+  if (!tableName) {
+    throw new Error('JOB_TABLE_NAME environment variable not set');
+  }
+  return tableName;
+}
+
+function withoutFailedValue(values: Record<string, unknown>): Record<string, unknown> {
+  const { ':failed': _failed, ...rest } = values;
+  return rest;
+}
+
+function logJobError(message: string, jobId: string, error: unknown): void {
+  logError(message, {
+    jobId,
+    error: error instanceof Error ? error.message : String(error)
+  });
+}
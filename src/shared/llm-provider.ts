@@ -0,0 +1,236 @@
+/**
+ * LLM provider abstraction for the S3 Specification Generator
+ *
+ * ProcessWithClaudeFunction talks to an LLMProvider rather than to Bedrock directly. The
+ * provider is selected with LLM_PROVIDER: 'bedrock' (default) calls the Bedrock Converse API;
+ * 'local' is deterministic and offline, replaying recorded responses from LLM_FIXTURE_DIR
+ * and generating templated Markdown when no recording matches.
+ *
+ * A fixture is looked up by request (`<fixture key>.json`, see getFixtureKey), then by model
+ * (`<model id>.json` with ':' replaced by '_'), so a whole model can be scripted to fail.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { BedrockRuntimeClient, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { ConverseMessage, ConverseResponse } from './types';
+import { logInfo } from './utils';
+
+export interface LLMConverseRequest {
+  modelId: string;
+  messages: ConverseMessage[];
+  systemPrompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMModelInfo {
+  modelId: string;
+  provider: string;
+  contextWindowTokens: number;
+  maxOutputTokens: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  converse(request: LLMConverseRequest): Promise<ConverseResponse>;
+  countTokens(text: string): number;
+  getModelInfo(modelId: string): LLMModelInfo;
+}
+
+// Recorded response for the local provider; `error` replays a Bedrock failure instead
+export interface LLMFixture {
+  response?: ConverseResponse;
+  error?: {
+    name: string;
+    message: string;
+  };
+}
+
+// Context windows by model family; unknown models get the smallest window
+const MODEL_CONTEXT_WINDOWS: Array<{ pattern: RegExp; contextWindowTokens: number; maxOutputTokens: number }> = [
+  { pattern: /anthropic\.claude-3-5|anthropic\.claude-3-7|anthropic\.claude-(sonnet|opus|haiku)-4/, contextWindowTokens: 200000, maxOutputTokens: 8192 },
+  { pattern: /anthropic\.claude/, contextWindowTokens: 200000, maxOutputTokens: 4096 },
+  { pattern: /amazon\.nova-(pro|lite)/, contextWindowTokens: 300000, maxOutputTokens: 5000 },
+  { pattern: /amazon\.nova-micro/, contextWindowTokens: 128000, maxOutputTokens: 5000 },
+];
+
+const DEFAULT_MODEL_WINDOW = { contextWindowTokens: 128000, maxOutputTokens: 4096 };
+
+// Rough English/code average used when the provider has no tokenizer
+const CHARACTERS_PER_TOKEN = 4;
+
+let cachedProvider: { name: string; fixtureDir?: string; provider: LLMProvider } | undefined;
+
+/**
+ * Name of the provider selected by LLM_PROVIDER
+ */
+export function getLLMProviderName(): string {
+  return (process.env.LLM_PROVIDER || 'bedrock').toLowerCase();
+}
+
+/**
+ * Get the provider selected by LLM_PROVIDER, reused across invocations of the same container
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = getLLMProviderName();
+  const fixtureDir = process.env.LLM_FIXTURE_DIR;
+  if (cachedProvider && cachedProvider.name === name && cachedProvider.fixtureDir === fixtureDir) {
+    return cachedProvider.provider;
+  }
+
+  let provider: LLMProvider;
+  switch (name) {
+    case 'bedrock':
+      provider = createBedrockProvider();
+      break;
+    case 'local':
+      provider = createLocalProvider(fixtureDir);
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER '${name}' (expected 'bedrock' or 'local')`);
+  }
+
+  logInfo('LLM provider initialised', { provider: name, fixtureDir });
+  cachedProvider = { name, fixtureDir, provider };
+  return provider;
+}
+
+/**
+ * Bedrock Converse API provider; API errors are thrown unchanged so callers can fall back
+ */
+export function createBedrockProvider(
+  client: BedrockRuntimeClient = new BedrockRuntimeClient({ region: process.env.AWS_REGION || 'us-east-1' })
+): LLMProvider {
+  return {
+    name: 'bedrock',
+
+    async converse(request: LLMConverseRequest): Promise<ConverseResponse> {
+      const command = new ConverseCommand({
+        modelId: request.modelId,
+        messages: request.messages,
+        system: [{ text: request.systemPrompt }],
+        inferenceConfig: {
+          maxTokens: request.maxTokens,
+          temperature: request.temperature
+        }
+      });
+
+      return await client.send(command) as ConverseResponse;
+    },
+
+    countTokens: estimateTokens,
+    getModelInfo: modelId => getModelInfo(modelId, 'bedrock'),
+  };
+}
+
+/**
+ * Offline provider: replays a recorded fixture when one matches, otherwise returns a
+ * templated specification built from the prompt. Output depends only on the request.
+ */
+export function createLocalProvider(fixtureDir?: string): LLMProvider {
+  return {
+    name: 'local',
+
+    async converse(request: LLMConverseRequest): Promise<ConverseResponse> {
+      const fixtureKey = getFixtureKey(request);
+      const fixturePath = fixtureDir
+        ? [fixtureKey, request.modelId.replace(/[^\w.-]/g, '_')]
+          .map(name => join(fixtureDir, `${name}.json`))
+          .find(path => existsSync(path))
+        : undefined;
+
+      if (fixturePath) {
+        const fixture: LLMFixture = JSON.parse(readFileSync(fixturePath, 'utf-8'));
+        if (fixture.error) {
+          const error = new Error(fixture.error.message);
+          error.name = fixture.error.name;
+          throw error;
+        }
+        if (fixture.response) {
+          return fixture.response;
+        }
+      }
+
+      logInfo('No recorded LLM response, generating templated response', { fixtureKey, fixtureDir });
+      return createTemplatedResponse(request);
+    },
+
+    countTokens: estimateTokens,
+    getModelInfo: modelId => getModelInfo(modelId, 'local'),
+  };
+}
+
+/**
+ * Stable key for a request: the model, system prompt and conversation, hashed
+ */
+export function getFixtureKey(request: LLMConverseRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      modelId: request.modelId,
+      systemPrompt: request.systemPrompt,
+      messages: request.messages,
+    }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+}
+
+function getModelInfo(modelId: string, provider: string): LLMModelInfo {
+  const window = MODEL_CONTEXT_WINDOWS.find(entry => entry.pattern.test(modelId)) || DEFAULT_MODEL_WINDOW;
+  return {
+    modelId,
+    provider,
+    contextWindowTokens: window.contextWindowTokens,
+    maxOutputTokens: window.maxOutputTokens,
+  };
+}
+
+/**
+ * Summarise the prompt's original file and content block as a Markdown specification
+ */
+function createTemplatedResponse(request: LLMConverseRequest): ConverseResponse {
+  const prompt = request.messages
+    .filter(message => message.role === 'user')
+    .map(message => message.content.map(block => block.text).join('\n'))
+    .join('\n');
+
+  const originalFile = /^Original file: (.+)$/m.exec(prompt)?.[1] || 'unknown';
+  const fileType = /^File type: (.+)$/m.exec(prompt)?.[1] || 'unknown';
+  const contentMatch = /^---\n([\s\S]*)\n---$/m.exec(prompt);
+  const content = contentMatch ? contentMatch[1] : prompt;
+  const lines = content.split('\n');
+  const headings = lines.filter(line => /^#{1,3}\s/.test(line)).slice(0, 10);
+
+  const text = `# Specification: ${originalFile}
+
+## Overview
+Generated offline by the local LLM provider for ${originalFile} (${fileType}).
+
+## Source Summary
+- Lines: ${lines.length}
+- Characters: ${content.length}
+- Words: ${content.split(/\s+/).filter(Boolean).length}
+
+## Structure
+${headings.length > 0 ? headings.map(heading => `- ${heading.replace(/^#+\s*/, '')}`).join('\n') : '- No headings found in the source content'}
+`;
+
+  return {
+    output: {
+      message: {
+        role: 'assistant',
+        content: [{ text }],
+      },
+    },
+    stopReason: 'end_turn',
+    usage: {
+      inputTokens: estimateTokens(request.systemPrompt + prompt),
+      outputTokens: estimateTokens(text),
+    },
+  };
+}
@@ -0,0 +1,453 @@
+/**
+ * Markdown parser for the S3 Specification Generator
+ *
+ * Parses the Markdown subset that models produce for specifications (ATX headings, paragraphs,
+ * nested lists, fenced code, block quotes, pipe tables, rules, and emphasis/code/link inlines)
+ * into a small block tree that the output renderers walk.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; alignments: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^\s{0,3}>\s?/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Parse Markdown into blocks; heading ids are unique slugs suitable for anchors
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks = parseBlocks(lines);
+  assignHeadingIds(blocks, new Map());
+  return blocks;
+}
+
+/**
+ * Plain text of inline content, e.g. for titles and table of contents entries
+ */
+export function inlineText(inlines: MarkdownInline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+      case 'code':
+        return inline.text;
+      case 'break':
+        return ' ';
+      default:
+        return inlineText(inline.children);
+    }
+  }).join('');
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = line.length - line.trimStart().length;
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^\\s{0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        codeLines.push(lines[i].slice(Math.min(indent, lines[i].length - lines[i].trimStart().length)));
+        i++;
+      }
+      i++; // closing fence (or end of input)
+      blocks.push({ type: 'code', language: fence[2], text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, id: '', children: parseInlines(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[i + 1]).map(parseAlignment);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, index) => parseInlines(cells[index] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', alignments, header: header.map(cell => parseInlines(cell)), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '' && (BLOCKQUOTE_PATTERN.test(lines[i]) || quoteLines.length > 0)) {
+        if (!BLOCKQUOTE_PATTERN.test(lines[i]) && startsBlock(lines[i])) {
+          break;
+        }
+        quoteLines.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoteLines) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = parseList(lines, i);
+      blocks.push(list.block);
+      i = list.next;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraphLines: string[] = [line.replace(/^\s+/, '')];
+    i++;
+    while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines[i])) {
+      paragraphLines.push(lines[i].replace(/^\s+/, ''));
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInlines(paragraphLines.join('\n').trimEnd()) });
+  }
+
+  return blocks;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE_PATTERN.test(line)
+    || HEADING_PATTERN.test(line)
+    || RULE_PATTERN.test(line)
+    || BLOCKQUOTE_PATTERN.test(line)
+    || LIST_ITEM_PATTERN.test(line);
+}
+
+/**
+ * Parse a list starting at `start`; items continue while lines are indented past the marker
+ */
+function parseList(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const first = LIST_ITEM_PATTERN.exec(lines[start]) as RegExpExecArray;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_PATTERN.exec(line);
+
+    if (item && item[1].length === baseIndent && /\d/.test(item[2]) === ordered) {
+      contentIndent = baseIndent + item[2].length + Math.max(1, Math.min(item[3].length, 4));
+      items.push([item[4]]);
+      i++;
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const current = items[items.length - 1];
+
+    if (line.trim() === '') {
+      // A blank line continues the list only if the next content line belongs to it
+      let next = i + 1;
+      while (next < lines.length && lines[next].trim() === '') {
+        next++;
+      }
+      const nextLine = lines[next];
+      const nextItem = nextLine !== undefined ? LIST_ITEM_PATTERN.exec(nextLine) : null;
+      const nextIndent = nextLine !== undefined ? nextLine.length - nextLine.trimStart().length : 0;
+      if (nextLine === undefined
+        || !(nextIndent >= contentIndent || (nextItem && nextItem[1].length === baseIndent && /\d/.test(nextItem[2]) === ordered))) {
+        break;
+      }
+      current.push('');
+      i++;
+      continue;
+    }
+
+    if (indent > baseIndent) {
+      current.push(line.slice(Math.min(indent, contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    if (current[current.length - 1].trim() !== '' && !startsBlock(line)) {
+      current.push(line.trim());
+      i++;
+      continue;
+    }
+
+    break;
+  }
+
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map(itemLines => parseBlocks(itemLines)),
+    },
+    next: i,
+  };
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) {
+    row = row.slice(1);
+  }
+  if (row.endsWith('|') && !row.endsWith('\\|')) {
+    row = row.slice(0, -1);
+  }
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlignment(delimiter: string): TableAlignment {
+  const left = delimiter.startsWith(':');
+  const right = delimiter.endsWith(':');
+  if (left && right) {
+    return 'center';
+  }
+  return right ? 'right' : left ? 'left' : null;
+}
+
+/**
+ * Parse inline content: code spans, links, autolinks, strong/emphasis, escapes and hard breaks
+ */
+function parseInlines(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && text[i + 1] === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\\' && /[\\`*_{}[\]()#+\-.!|>~<]/.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      const hardBreak = / {2,}$/.test(buffer);
+      buffer = buffer.replace(/ +$/, '');
+      if (hardBreak) {
+        flush();
+        nodes.push({ type: 'break' });
+      } else {
+        buffer += '\n';
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const code = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest);
+      if (code) {
+        flush();
+        nodes.push({ type: 'code', text: code[2].replace(/\n/g, ' ').trim() });
+        i += code[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const link = matchInlineLink(rest);
+      if (link) {
+        flush();
+        nodes.push({ type: 'link', href: link.href, children: parseInlines(link.label) });
+        i += link.length;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = /^<((?:https?:\/\/|mailto:)[^\s>]+)>/.exec(rest);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_') {
+      const marker = text[i + 1] === ch ? ch + ch : ch;
+      const opensWord = !(ch === '_' && i > 0 && /\w/.test(text[i - 1]));
+      const close = opensWord && !/\s/.test(text[i + marker.length] || ' ')
+        ? findClosingMarker(text, i + marker.length, marker)
+        : -1;
+      if (close > i + marker.length) {
+        flush();
+        nodes.push({
+          type: marker.length === 2 ? 'strong' : 'emphasis',
+          children: parseInlines(text.slice(i + marker.length, close)),
+        });
+        i = close + marker.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Match `[label](destination "title")` at the start of text
+ * The destination may be wrapped in <...>, otherwise it may contain balanced parentheses
+ */
+function matchInlineLink(text: string): { label: string; href: string; length: number } | undefined {
+  const label = /^!?\[((?:\\.|[^\]])*)\]\(/.exec(text);
+  if (!label) {
+    return undefined;
+  }
+
+  let i = label[0].length;
+  const skipSpaces = () => {
+    while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+  };
+  skipSpaces();
+
+  let href = '';
+  if (text[i] === '<') {
+    const end = text.indexOf('>', i + 1);
+    if (end < 0 || /[\n<]/.test(text.slice(i + 1, end))) {
+      return undefined;
+    }
+    href = text.slice(i + 1, end);
+    i = end + 1;
+  } else {
+    let depth = 0;
+    while (i < text.length && !/\s/.test(text[i])) {
+      const ch = text[i];
+      if (ch === '\\' && /[()]/.test(text[i + 1] || '')) {
+        href += text[i + 1];
+        i += 2;
+        continue;
+      }
+      if (ch === '(') {
+        depth++;
+      } else if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      href += ch;
+      i++;
+    }
+    if (depth !== 0) {
+      return undefined;
+    }
+  }
+
+  const title = /^\s+(?:"[^"]*"|'[^']*'|\([^)]*\))/.exec(text.slice(i));
+  if (title) {
+    i += title[0].length;
+  }
+  skipSpaces();
+
+  if (text[i] !== ')') {
+    return undefined;
+  }
+  return { label: label[1], href, length: i + 1 };
+}
+
+function findClosingMarker(text: string, from: number, marker: string): number {
+  let position = text.indexOf(marker, from);
+  while (position !== -1) {
+    const before = text[position - 1];
+    const after = text[position + marker.length];
+    const doubled = marker.length === 1 && (after === marker || before === marker);
+    const closesWord = !(marker[0] === '_' && /\w/.test(after || ''));
+    if (!/\s/.test(before) && !doubled && closesWord && text[position - 1] !== '\\') {
+      return position;
+    }
+    position = text.indexOf(marker, position + (doubled ? 2 : 1));
+  }
+  return -1;
+}
+
+function assignHeadingIds(blocks: MarkdownBlock[], used: Map<string, number>): void {
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const slug = inlineText(block.children)
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, '')
+        .trim()
+        .replace(/[\s_]+/g, '-') || 'section';
+      const count = used.get(slug) || 0;
+      used.set(slug, count + 1);
+      block.id = count === 0 ? slug : `${slug}-${count}`;
+    } else if (block.type === 'blockquote') {
+      assignHeadingIds(block.children, used);
+    } else if (block.type === 'list') {
+      block.items.forEach(item => assignHeadingIds(item, used));
+    }
+  }
+}
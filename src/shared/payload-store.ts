@@ -0,0 +1,84 @@
+/**
+ * Claim-check payload store for the S3 Specification Generator
+ *
+ * Step Functions limits state to 256KB, so content above the inline limit is staged under
+ * the working prefix and only a reference (bucket/key/hash/length) travels between states.
+ */
+
+import { S3 } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { PayloadReference } from './types';
+import { S3_CONFIG } from './constants';
+import { logInfo } from './utils';
+
+/**
+ * Check whether content is too large to pass inline through the state machine
+ */
+export function exceedsInlineLimit(content: string): boolean {
+  return Buffer.byteLength(content, 'utf-8') > S3_CONFIG.STEP_FUNCTIONS_PAYLOAD_LIMIT;
+}
+
+/**
+ * Write content to the working prefix and return a reference to it
+ * Keys are content-addressed, so retries and re-runs overwrite the same object
+ */
+export async function stagePayload(s3: S3, bucket: string, content: string, sourceKey: string): Promise<PayloadReference> {
+  const body = Buffer.from(content, 'utf-8');
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  const key = `${S3_CONFIG.WORKING_PREFIX}${sha256}${S3_CONFIG.WORKING_PAYLOAD_SUFFIX}`;
+
+  await s3.putObject({
+    Bucket: bucket,
+    Key: key,
+    Body: body,
+    ContentType: 'text/plain; charset=utf-8',
+    Metadata: {
+      'source-key': encodeURIComponent(sourceKey),
+    },
+    ServerSideEncryption: 'AES256',
+  }).promise();
+
+  logInfo('Payload staged for claim check', { bucket, key, length: body.length, sourceKey });
+
+  return { bucket, key, sha256, length: body.length };
+}
+
+/**
+ * Read staged content back and verify it against the reference
+ */
+export async function resolvePayload(s3: S3, reference: PayloadReference): Promise<string> {
+  const s3Object = await s3.getObject({
+    Bucket: reference.bucket,
+    Key: reference.key,
+  }).promise();
+
+  if (!s3Object.Body) {
+    throw new Error(`Staged payload s3://${reference.bucket}/${reference.key} is empty`);
+  }
+
+  const body = Buffer.isBuffer(s3Object.Body) ? s3Object.Body : Buffer.from(s3Object.Body as string);
+  const sha256 = createHash('sha256').update(body).digest('hex');
+
+  if (body.length !== reference.length || sha256 !== reference.sha256) {
+    throw new Error(
+      `Staged payload s3://${reference.bucket}/${reference.key} does not match its reference ` +
+      `(expected ${reference.length} bytes/${reference.sha256}, got ${body.length} bytes/${sha256})`
+    );
+  }
+
+  return body.toString('utf-8');
+}
+
+/**
+ * Resolve content that may have been passed inline or by reference
+ */
+export async function resolveInlineOrReference(
+  s3: S3,
+  inline: string | undefined,
+  reference: PayloadReference | undefined
+): Promise<string | undefined> {
+  if (reference) {
+    return resolvePayload(s3, reference);
+  }
+  return inline;
+}
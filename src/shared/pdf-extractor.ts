@@ -0,0 +1,1141 @@
+/**
+ * Pure TypeScript PDF text extraction for the S3 Specification Generator
+ *
+ * Supports the subset of the PDF format needed to recover page text in reading order:
+ * direct and compressed (object stream) objects, Flate/ASCIIHex/ASCII85 stream filters,
+ * simple and composite fonts with ToUnicode CMaps, and Form XObjects.
+ */
+
+import { inflateSync, constants as zlibConstants } from 'zlib';
+import { ProcessingError, PageCharacterCount } from './types';
+import { createProcessingError, decodeWindows1252 } from './utils';
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+  characterCount: number;
+  imageCount: number;
+}
+
+export interface PdfExtractionResult {
+  text: string;
+  pageCount: number;
+  pages: PdfPageText[];
+  pageCharacterCounts: PageCharacterCount[];
+}
+
+interface PdfName { type: 'name'; value: string; }
+interface PdfString { type: 'string'; bytes: Buffer; }
+interface PdfRef { type: 'ref'; num: number; gen: number; }
+interface PdfDict { type: 'dict'; entries: Record<string, PdfValue>; }
+interface PdfOperator { type: 'op'; value: string; }
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface Cursor {
+  data: string;
+  pos: number;
+}
+
+interface FontDecoder {
+  bytesPerCode: number;
+  decode: (bytes: Buffer) => string;
+  measure: (bytes: Buffer) => number;
+}
+
+interface TextItem {
+  x: number;
+  y: number;
+  fontSize: number;
+  width: number;
+  text: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_XOBJECT_DEPTH = 5;
+const DEFAULT_GLYPH_WIDTH = 0.5;
+const PAGE_MARKER = (pageNumber: number, pageCount: number) => `[Page ${pageNumber} of ${pageCount}]`;
+
+/**
+ * Extract page text from a PDF document
+ * Returns a specific ProcessingError for encrypted or image-only documents
+ */
+export function extractPdfText(body: Buffer, filename: string): PdfExtractionResult | ProcessingError {
+  const data = body.toString('latin1');
+
+  if (!data.startsWith('%PDF-')) {
+    return createProcessingError(
+      'FILE_READ_ERROR',
+      'File does not have a valid PDF header',
+      filename,
+      { header: data.slice(0, 8) }
+    );
+  }
+
+  const objects = parseObjects(data);
+  const trailers = findTrailers(data, objects);
+
+  if (trailers.some(trailer => trailer.entries['Encrypt'] !== undefined)) {
+    return createProcessingError(
+      'PDF_ENCRYPTED',
+      'PDF is encrypted or password protected and its text cannot be extracted',
+      filename,
+      { retryable: false }
+    );
+  }
+
+  const pageDicts = findPages(objects, trailers);
+  if (pageDicts.length === 0) {
+    return createProcessingError(
+      'FILE_READ_ERROR',
+      'PDF does not contain any pages',
+      filename,
+      { objectCount: objects.size }
+    );
+  }
+
+  const pages: PdfPageText[] = pageDicts.map((page, index) => {
+    const { items, imageCount } = extractPageItems(page, objects);
+    const text = layoutPageText(items);
+    return {
+      pageNumber: index + 1,
+      text,
+      characterCount: text.length,
+      imageCount,
+    };
+  });
+
+  const totalCharacters = pages.reduce((sum, page) => sum + page.text.replace(/\s/g, '').length, 0);
+  if (totalCharacters === 0) {
+    const imageCount = pages.reduce((sum, page) => sum + page.imageCount, 0);
+    return createProcessingError(
+      'PDF_NO_TEXT_CONTENT',
+      imageCount > 0
+        ? 'PDF contains only images (scanned document); OCR is required to extract its text'
+        : 'PDF does not contain any extractable text',
+      filename,
+      { pageCount: pages.length, imageCount, retryable: false }
+    );
+  }
+
+  const text = pages
+    .map(page => `${PAGE_MARKER(page.pageNumber, pages.length)}\n${page.text}`)
+    .join('\n\n');
+
+  return {
+    text,
+    pageCount: pages.length,
+    pages,
+    pageCharacterCounts: pages.map(page => ({
+      pageNumber: page.pageNumber,
+      characterCount: page.characterCount,
+    })),
+  };
+}
+
+/**
+ * Scan the file for indirect objects, including those packed in object streams
+ */
+function parseObjects(data: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectPattern.exec(data)) !== null) {
+    const num = parseInt(match[1], 10);
+    const cursor: Cursor = { data, pos: match.index + match[0].length };
+
+    try {
+      const value = parseValue(cursor);
+      const object: PdfObject = { value };
+
+      skipWhitespace(cursor);
+      if (data.startsWith('stream', cursor.pos)) {
+        object.stream = readStreamData(cursor, value);
+        objectPattern.lastIndex = cursor.pos;
+      }
+
+      // Later definitions win (incremental updates append newer revisions)
+      objects.set(num, object);
+    } catch {
+      // Skip objects that cannot be parsed; the rest of the document may still be readable
+    }
+  }
+
+  // Expand compressed object streams (PDF 1.5+)
+  for (const object of Array.from(objects.values())) {
+    if (isDict(object.value) && nameOf(object.value.entries['Type']) === 'ObjStm' && object.stream) {
+      expandObjectStream(object.value, object.stream, objects);
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Read raw stream bytes following a stream dictionary
+ */
+function readStreamData(cursor: Cursor, dictValue: PdfValue): Buffer {
+  const { data } = cursor;
+  let start = cursor.pos + 'stream'.length;
+  if (data[start] === '\r') start++;
+  if (data[start] === '\n') start++;
+
+  const declaredLength = isDict(dictValue) ? dictValue.entries['Length'] : undefined;
+  let end = -1;
+
+  if (typeof declaredLength === 'number') {
+    const candidate = start + declaredLength;
+    const after = data.slice(candidate, candidate + 20);
+    if (/^\s*endstream/.test(after)) {
+      end = candidate;
+    }
+  }
+
+  if (end < 0) {
+    end = data.indexOf('endstream', start);
+    if (end < 0) {
+      end = data.length;
+    }
+    // Trim the EOL that precedes the endstream keyword
+    if (data[end - 1] === '\n') end--;
+    if (data[end - 1] === '\r') end--;
+  }
+
+  const endKeyword = data.indexOf('endstream', end);
+  cursor.pos = endKeyword >= 0 ? endKeyword + 'endstream'.length : data.length;
+
+  return Buffer.from(data.slice(start, end), 'latin1');
+}
+
+/**
+ * Parse the objects packed inside an object stream
+ */
+function expandObjectStream(dict: PdfDict, raw: Buffer, objects: Map<number, PdfObject>): void {
+  const decoded = decodeStream(dict, raw, objects).toString('latin1');
+  const count = resolveNumber(dict.entries['N'], objects);
+  const first = resolveNumber(dict.entries['First'], objects);
+
+  const header: Cursor = { data: decoded.slice(0, first), pos: 0 };
+  for (let i = 0; i < count; i++) {
+    const num = parseValue(header);
+    const offset = parseValue(header);
+    if (typeof num !== 'number' || typeof offset !== 'number') {
+      break;
+    }
+    if (objects.has(num)) {
+      continue;
+    }
+    try {
+      const value = parseValue({ data: decoded, pos: first + offset });
+      objects.set(num, { value });
+    } catch {
+      // Ignore malformed embedded objects
+    }
+  }
+}
+
+/**
+ * Collect trailer dictionaries from classic trailers and cross-reference streams
+ */
+function findTrailers(data: string, objects: Map<number, PdfObject>): PdfDict[] {
+  const trailers: PdfDict[] = [];
+  const trailerPattern = /trailer\s*<</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = trailerPattern.exec(data)) !== null) {
+    try {
+      const value = parseValue({ data, pos: match.index + 'trailer'.length });
+      if (isDict(value)) {
+        trailers.push(value);
+      }
+    } catch {
+      // Ignore malformed trailers
+    }
+  }
+
+  objects.forEach(object => {
+    if (isDict(object.value) && nameOf(object.value.entries['Type']) === 'XRef') {
+      trailers.push(object.value);
+    }
+  });
+
+  return trailers;
+}
+
+/**
+ * Resolve the ordered list of page dictionaries from the document catalog
+ */
+function findPages(objects: Map<number, PdfObject>, trailers: PdfDict[]): PdfDict[] {
+  let catalog: PdfDict | undefined;
+
+  for (const trailer of trailers) {
+    const root = resolve(trailer.entries['Root'], objects);
+    if (isDict(root)) {
+      catalog = root;
+    }
+  }
+
+  if (!catalog) {
+    objects.forEach(object => {
+      if (!catalog && isDict(object.value) && nameOf(object.value.entries['Type']) === 'Catalog') {
+        catalog = object.value;
+      }
+    });
+  }
+
+  const pages: PdfDict[] = [];
+  const rootPages = catalog ? resolve(catalog.entries['Pages'], objects) : undefined;
+
+  if (isDict(rootPages)) {
+    collectPages(rootPages, objects, pages, {}, new Set());
+    return pages;
+  }
+
+  // No usable catalog: fall back to every page object in object-number order
+  Array.from(objects.keys()).sort((a, b) => a - b).forEach(num => {
+    const value = objects.get(num)!.value;
+    if (isDict(value) && nameOf(value.entries['Type']) === 'Page') {
+      pages.push(value);
+    }
+  });
+  return pages;
+}
+
+/**
+ * Walk the page tree depth-first, propagating inherited resources
+ */
+function collectPages(
+  node: PdfDict,
+  objects: Map<number, PdfObject>,
+  pages: PdfDict[],
+  inherited: Record<string, PdfValue>,
+  visited: Set<PdfDict>
+): void {
+  if (visited.has(node)) {
+    return;
+  }
+  visited.add(node);
+
+  const inheritable: Record<string, PdfValue> = { ...inherited };
+  if (node.entries['Resources'] !== undefined) {
+    inheritable['Resources'] = node.entries['Resources'];
+  }
+
+  const kids = resolve(node.entries['Kids'], objects);
+  if (Array.isArray(kids)) {
+    kids.forEach(kid => {
+      const child = resolve(kid, objects);
+      if (isDict(child)) {
+        collectPages(child, objects, pages, inheritable, visited);
+      }
+    });
+    return;
+  }
+
+  pages.push({ type: 'dict', entries: { ...inheritable, ...node.entries } });
+}
+
+const WHITESPACE = '\x00\t\n\x0c\r ';
+const DELIMITERS = '()<>[]{}/%';
+
+function isWhitespace(ch: string): boolean {
+  return WHITESPACE.includes(ch);
+}
+
+function isRegular(ch: string | undefined): boolean {
+  return ch !== undefined && !isWhitespace(ch) && !DELIMITERS.includes(ch);
+}
+
+function skipWhitespace(cursor: Cursor): void {
+  const { data } = cursor;
+  while (cursor.pos < data.length) {
+    const ch = data[cursor.pos];
+    if (isWhitespace(ch)) {
+      cursor.pos++;
+    } else if (ch === '%') {
+      while (cursor.pos < data.length && data[cursor.pos] !== '\n' && data[cursor.pos] !== '\r') {
+        cursor.pos++;
+      }
+    } else {
+      break;
+    }
+  }
+}
+
+/**
+ * Read a single token; bare keywords are returned as operators
+ */
+function readToken(cursor: Cursor): PdfValue | PdfOperator | undefined {
+  skipWhitespace(cursor);
+  const { data } = cursor;
+  if (cursor.pos >= data.length) {
+    return undefined;
+  }
+
+  const ch = data[cursor.pos];
+
+  if (ch === '/') {
+    cursor.pos++;
+    const start = cursor.pos;
+    while (isRegular(data[cursor.pos])) cursor.pos++;
+    const raw = data.slice(start, cursor.pos);
+    return { type: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  if (ch === '(') {
+    return readLiteralString(cursor);
+  }
+
+  if (ch === '<') {
+    if (data[cursor.pos + 1] === '<') {
+      cursor.pos += 2;
+      return readDictionary(cursor);
+    }
+    cursor.pos++;
+    const end = data.indexOf('>', cursor.pos);
+    const hex = data.slice(cursor.pos, end < 0 ? data.length : end).replace(/[^0-9a-fA-F]/g, '');
+    cursor.pos = end < 0 ? data.length : end + 1;
+    return { type: 'string', bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex') };
+  }
+
+  if (ch === '[') {
+    cursor.pos++;
+    const items: PdfValue[] = [];
+    for (;;) {
+      skipWhitespace(cursor);
+      if (cursor.pos >= data.length) break;
+      if (data[cursor.pos] === ']') {
+        cursor.pos++;
+        break;
+      }
+      items.push(parseValue(cursor));
+    }
+    return items;
+  }
+
+  if (ch === ']' || ch === '>' || ch === ')' || ch === '{' || ch === '}') {
+    cursor.pos++;
+    return { type: 'op', value: ch };
+  }
+
+  const start = cursor.pos;
+  while (isRegular(data[cursor.pos])) cursor.pos++;
+  const word = data.slice(start, cursor.pos);
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+    const num = parseFloat(word);
+    // Indirect reference: "<num> <gen> R"
+    if (/^\d+$/.test(word)) {
+      const lookahead = /^\s+(\d+)\s+R(?![^\s\x00()<>[\]{}/%])/.exec(data.slice(cursor.pos, cursor.pos + 24));
+      if (lookahead) {
+        cursor.pos += lookahead[0].length;
+        return { type: 'ref', num, gen: parseInt(lookahead[1], 10) };
+      }
+    }
+    return num;
+  }
+
+  if (word === 'true') return true;
+  if (word === 'false') return false;
+  if (word === 'null') return null;
+
+  return { type: 'op', value: word };
+}
+
+/**
+ * Parse a value where only data (not operators) is expected
+ */
+function parseValue(cursor: Cursor): PdfValue {
+  const token = readToken(cursor);
+  if (token === undefined) {
+    throw new Error('Unexpected end of PDF data');
+  }
+  if (isOperator(token)) {
+    return null;
+  }
+  return token;
+}
+
+function readDictionary(cursor: Cursor): PdfDict {
+  const { data } = cursor;
+  const entries: Record<string, PdfValue> = {};
+
+  for (;;) {
+    skipWhitespace(cursor);
+    if (cursor.pos >= data.length) break;
+    if (data.startsWith('>>', cursor.pos)) {
+      cursor.pos += 2;
+      break;
+    }
+    const key = readToken(cursor);
+    if (!key || !isName(key)) {
+      // Skip stray tokens rather than failing the whole dictionary
+      continue;
+    }
+    entries[key.value] = parseValue(cursor);
+  }
+
+  return { type: 'dict', entries };
+}
+
+function readLiteralString(cursor: Cursor): PdfString {
+  const { data } = cursor;
+  const bytes: number[] = [];
+  let depth = 1;
+  cursor.pos++;
+
+  while (cursor.pos < data.length) {
+    const ch = data[cursor.pos++];
+    if (ch === '\\') {
+      const next = data[cursor.pos++];
+      switch (next) {
+        case 'n': bytes.push(0x0a); break;
+        case 'r': bytes.push(0x0d); break;
+        case 't': bytes.push(0x09); break;
+        case 'b': bytes.push(0x08); break;
+        case 'f': bytes.push(0x0c); break;
+        case '\r':
+          if (data[cursor.pos] === '\n') cursor.pos++;
+          break;
+        case '\n':
+          break;
+        default:
+          if (next >= '0' && next <= '7') {
+            let octal = next;
+            while (octal.length < 3 && data[cursor.pos] >= '0' && data[cursor.pos] <= '7') {
+              octal += data[cursor.pos++];
+            }
+            bytes.push(parseInt(octal, 8) & 0xff);
+          } else if (next !== undefined) {
+            bytes.push(next.charCodeAt(0));
+          }
+      }
+    } else if (ch === '(') {
+      depth++;
+      bytes.push(0x28);
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) break;
+      bytes.push(0x29);
+    } else {
+      bytes.push(ch.charCodeAt(0));
+    }
+  }
+
+  return { type: 'string', bytes: Buffer.from(bytes) };
+}
+
+function isOperator(value: PdfValue | PdfOperator): value is PdfOperator {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && value.type === 'op';
+}
+
+function isName(value: PdfValue | PdfOperator): value is PdfName {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && value.type === 'name';
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return value !== null && value !== undefined && typeof value === 'object' && !Array.isArray(value) && value.type === 'dict';
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return value !== null && value !== undefined && typeof value === 'object' && !Array.isArray(value) && value.type === 'string';
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return value !== null && value !== undefined && typeof value === 'object' && !Array.isArray(value) && value.type === 'ref';
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return value !== null && value !== undefined && typeof value === 'object' && !Array.isArray(value) && value.type === 'name'
+    ? value.value
+    : undefined;
+}
+
+function resolve(value: PdfValue | undefined, objects: Map<number, PdfObject>, depth = 0): PdfValue | undefined {
+  if (isRef(value) && depth < 32) {
+    const target = objects.get(value.num);
+    return target ? resolve(target.value, objects, depth + 1) : undefined;
+  }
+  return value;
+}
+
+function resolveNumber(value: PdfValue | undefined, objects: Map<number, PdfObject>): number {
+  const resolved = resolve(value, objects);
+  return typeof resolved === 'number' ? resolved : 0;
+}
+
+function resolveStream(value: PdfValue | undefined, objects: Map<number, PdfObject>): Buffer | undefined {
+  if (!isRef(value)) {
+    return undefined;
+  }
+  const target = objects.get(value.num);
+  if (!target || !target.stream || !isDict(target.value)) {
+    return undefined;
+  }
+  return decodeStream(target.value, target.stream, objects);
+}
+
+/**
+ * Apply the stream's filter chain
+ */
+function decodeStream(dict: PdfDict, raw: Buffer, objects: Map<number, PdfObject>): Buffer {
+  const filterValue = resolve(dict.entries['Filter'], objects);
+  const filters = Array.isArray(filterValue)
+    ? filterValue.map(filter => nameOf(resolve(filter, objects)) || '')
+    : [nameOf(filterValue) || ''].filter(filter => filter.length > 0);
+
+  return filters.reduce((buffer, filter) => {
+    switch (filter) {
+      case 'FlateDecode':
+      case 'Fl':
+        return inflate(buffer);
+      case 'ASCIIHexDecode':
+      case 'AHx':
+        return decodeAsciiHex(buffer);
+      case 'ASCII85Decode':
+      case 'A85':
+        return decodeAscii85(buffer);
+      default:
+        // Image filters (DCT, JPX, CCITT, JBIG2) and LZW carry no text we can use
+        return Buffer.alloc(0);
+    }
+  }, raw);
+}
+
+function inflate(buffer: Buffer): Buffer {
+  try {
+    return inflateSync(buffer);
+  } catch {
+    // Tolerate truncated streams by flushing whatever could be decoded
+    try {
+      return inflateSync(buffer, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+    } catch {
+      return Buffer.alloc(0);
+    }
+  }
+}
+
+function decodeAsciiHex(buffer: Buffer): Buffer {
+  const text = buffer.toString('latin1');
+  const end = text.indexOf('>');
+  const hex = (end >= 0 ? text.slice(0, end) : text).replace(/[^0-9a-fA-F]/g, '');
+  return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+}
+
+function decodeAscii85(buffer: Buffer): Buffer {
+  let text = buffer.toString('latin1').replace(/\s/g, '');
+  if (text.startsWith('<~')) text = text.slice(2);
+  const end = text.indexOf('~>');
+  if (end >= 0) text = text.slice(0, end);
+
+  const output: number[] = [];
+  let group: number[] = [];
+
+  const flush = (values: number[], length: number) => {
+    let value = 0;
+    for (const digit of values) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    output.push(...bytes.slice(0, length));
+  };
+
+  for (const ch of text) {
+    if (ch === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(group, 4);
+      group = [];
+    }
+  }
+
+  if (group.length > 0) {
+    const length = group.length - 1;
+    while (group.length < 5) group.push(84);
+    flush(group, length);
+  }
+
+  return Buffer.from(output);
+}
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  bullet: '•', endash: '–', emdash: '—', quoteleft: '‘', quoteright: '’', quotedblleft: '“',
+  quotedblright: '”', ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  trademark: '™', copyright: '©', registered: '®', degree: '°', minus: '−', multiply: '×',
+  divide: '÷', section: '§', paragraph: '¶', dagger: '†', daggerdbl: '‡',
+};
+
+/**
+ * Build a decoder for a font resource
+ */
+function createFontDecoder(fontValue: PdfValue | undefined, objects: Map<number, PdfObject>): FontDecoder {
+  const font = resolve(fontValue, objects);
+  if (!isDict(font)) {
+    return latin1Decoder();
+  }
+
+  const subtype = nameOf(font.entries['Subtype']);
+  const measure = subtype === 'Type0' ? cidWidths(font, objects) : simpleWidths(font, objects);
+
+  const toUnicode = resolveStream(font.entries['ToUnicode'], objects);
+  if (toUnicode) {
+    return { ...cmapDecoder(toUnicode.toString('latin1')), measure };
+  }
+
+  if (subtype === 'Type0') {
+    // Identity-encoded CID fonts without a ToUnicode map: best effort using the code as the code point
+    return {
+      bytesPerCode: 2,
+      decode: bytes => {
+        let text = '';
+        for (let i = 0; i + 1 < bytes.length; i += 2) {
+          const code = bytes.readUInt16BE(i);
+          text += code >= 0x20 ? String.fromCharCode(code) : '';
+        }
+        return text;
+      },
+      measure,
+    };
+  }
+
+  const encoding = resolve(font.entries['Encoding'], objects);
+  const differenceList = isDict(encoding) ? resolve(encoding.entries['Differences'], objects) : undefined;
+  const differences = new Map<number, string>();
+  if (Array.isArray(differenceList)) {
+    let code = 0;
+    differenceList.forEach(entry => {
+      if (typeof entry === 'number') {
+        code = entry;
+      } else if (isName(entry)) {
+        const glyph = entry.value;
+        const unicode = GLYPH_NAMES[glyph]
+          ?? (/^uni([0-9A-F]{4})$/i.test(glyph) ? String.fromCharCode(parseInt(glyph.slice(3), 16)) : undefined)
+          ?? (glyph.length === 1 ? glyph : undefined);
+        if (unicode !== undefined) {
+          differences.set(code, unicode);
+        }
+        code++;
+      }
+    });
+  }
+
+  const base = latin1Decoder();
+  return {
+    bytesPerCode: 1,
+    decode: differences.size === 0
+      ? base.decode
+      : bytes => Array.from(bytes).map(byte => differences.get(byte) ?? base.decode(Buffer.from([byte]))).join(''),
+    measure,
+  };
+}
+
+/**
+ * Decoder for simple fonts using WinAnsi (close enough to Standard/PDFDoc encodings for text)
+ */
+function latin1Decoder(): FontDecoder {
+  return {
+    bytesPerCode: 1,
+    decode: bytes => decodeWindows1252(bytes),
+    measure: bytes => bytes.length * DEFAULT_GLYPH_WIDTH,
+  };
+}
+
+/**
+ * Glyph widths (in text space units per em) for simple fonts from /FirstChar and /Widths
+ */
+function simpleWidths(font: PdfDict, objects: Map<number, PdfObject>): (bytes: Buffer) => number {
+  const firstChar = resolveNumber(font.entries['FirstChar'], objects);
+  const widths = resolve(font.entries['Widths'], objects);
+  const table = Array.isArray(widths) ? widths.map(width => resolveNumber(width, objects)) : [];
+
+  return bytes => Array.from(bytes).reduce((sum, byte) => {
+    const width = table[byte - firstChar];
+    return sum + (width ? width / 1000 : DEFAULT_GLYPH_WIDTH);
+  }, 0);
+}
+
+/**
+ * Glyph widths for composite (Type0) fonts from the descendant font's /DW and /W entries
+ */
+function cidWidths(font: PdfDict, objects: Map<number, PdfObject>): (bytes: Buffer) => number {
+  const descendants = resolve(font.entries['DescendantFonts'], objects);
+  const descendant = Array.isArray(descendants) ? resolve(descendants[0], objects) : undefined;
+  const widths = new Map<number, number>();
+  let defaultWidth = 1000;
+
+  if (isDict(descendant)) {
+    if (descendant.entries['DW'] !== undefined) {
+      defaultWidth = resolveNumber(descendant.entries['DW'], objects);
+    }
+    const w = resolve(descendant.entries['W'], objects);
+    if (Array.isArray(w)) {
+      let i = 0;
+      while (i < w.length) {
+        const first = resolveNumber(w[i], objects);
+        const next = resolve(w[i + 1], objects);
+        if (Array.isArray(next)) {
+          next.forEach((width, offset) => widths.set(first + offset, resolveNumber(width, objects)));
+          i += 2;
+        } else {
+          const last = resolveNumber(next, objects);
+          const width = resolveNumber(w[i + 2], objects);
+          for (let cid = first; cid <= last && cid - first < 65536; cid++) {
+            widths.set(cid, width);
+          }
+          i += 3;
+        }
+      }
+    }
+  }
+
+  return bytes => {
+    let sum = 0;
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      sum += (widths.get(bytes.readUInt16BE(i)) ?? defaultWidth) / 1000;
+    }
+    return sum;
+  };
+}
+
+/**
+ * Decoder driven by a ToUnicode CMap
+ */
+function cmapDecoder(cmap: string): Omit<FontDecoder, 'measure'> {
+  const mapping = new Map<number, string>();
+  let bytesPerCode = 1;
+
+  const codespace = /begincodespacerange([\s\S]*?)endcodespacerange/.exec(cmap);
+  if (codespace) {
+    const first = /<([0-9a-fA-F]+)>/.exec(codespace[1]);
+    if (first) {
+      bytesPerCode = Math.max(1, Math.ceil(first[1].length / 2));
+    }
+  }
+
+  const utf16 = (hex: string) => {
+    const buffer = Buffer.from(hex.length % 4 ? hex.padStart(Math.ceil(hex.length / 4) * 4, '0') : hex, 'hex');
+    let text = '';
+    for (let i = 0; i + 1 < buffer.length; i += 2) {
+      text += String.fromCharCode(buffer.readUInt16BE(i));
+    }
+    return text;
+  };
+
+  const charBlocks = cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+  charBlocks.forEach(block => {
+    const pairPattern = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g;
+    let pair: RegExpExecArray | null;
+    while ((pair = pairPattern.exec(block)) !== null) {
+      mapping.set(parseInt(pair[1], 16), utf16(pair[2]));
+    }
+  });
+
+  const rangeBlocks = cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+  rangeBlocks.forEach(block => {
+    const rangePattern = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+    let range: RegExpExecArray | null;
+    while ((range = rangePattern.exec(block)) !== null) {
+      const low = parseInt(range[1], 16);
+      const high = parseInt(range[2], 16);
+      const target = range[3];
+
+      if (target.startsWith('[')) {
+        const targets = target.match(/<([0-9a-fA-F]*)>/g) || [];
+        targets.forEach((hex, offset) => {
+          if (low + offset <= high) {
+            mapping.set(low + offset, utf16(hex.slice(1, -1)));
+          }
+        });
+      } else {
+        const base = utf16(target.slice(1, -1));
+        const lastChar = base.charCodeAt(base.length - 1);
+        for (let code = low; code <= high && code - low < 65536; code++) {
+          mapping.set(code, base.slice(0, -1) + String.fromCharCode(lastChar + (code - low)));
+        }
+      }
+    }
+  });
+
+  return {
+    bytesPerCode,
+    decode: bytes => {
+      let text = '';
+      for (let i = 0; i + bytesPerCode <= bytes.length; i += bytesPerCode) {
+        const code = bytesPerCode === 1 ? bytes[i] : bytes.readUIntBE(i, bytesPerCode);
+        text += mapping.get(code) ?? '';
+      }
+      return text;
+    },
+  };
+}
+
+/**
+ * Interpret a page's content streams and collect positioned text
+ */
+function extractPageItems(page: PdfDict, objects: Map<number, PdfObject>): { items: TextItem[]; imageCount: number } {
+  const items: TextItem[] = [];
+  const counters = { images: 0 };
+
+  const contents = resolve(page.entries['Contents'], objects);
+  const streamRefs = Array.isArray(contents) ? contents : [page.entries['Contents']];
+  const content = streamRefs
+    .map(ref => resolveStream(ref, objects))
+    .filter((buffer): buffer is Buffer => buffer !== undefined)
+    .map(buffer => buffer.toString('latin1'))
+    .join('\n');
+
+  runContentStream(content, resolve(page.entries['Resources'], objects), objects, IDENTITY, items, counters, 0);
+
+  return { items, imageCount: counters.images };
+}
+
+function runContentStream(
+  content: string,
+  resourcesValue: PdfValue | undefined,
+  objects: Map<number, PdfObject>,
+  initialCtm: Matrix,
+  items: TextItem[],
+  counters: { images: number },
+  depth: number
+): void {
+  const resources = isDict(resourcesValue) ? resourcesValue : undefined;
+  const fontResources = resources ? resolve(resources.entries['Font'], objects) : undefined;
+  const xObjectResources = resources ? resolve(resources.entries['XObject'], objects) : undefined;
+  const fontCache = new Map<string, FontDecoder>();
+
+  let ctm: Matrix = [...initialCtm] as Matrix;
+  const ctmStack: Matrix[] = [];
+  let textMatrix: Matrix = [...IDENTITY] as Matrix;
+  let lineMatrix: Matrix = [...IDENTITY] as Matrix;
+  let leading = 0;
+  let fontSize = 12;
+  let font: FontDecoder = latin1Decoder();
+  let operands: Array<PdfValue> = [];
+
+  const cursor: Cursor = { data: content, pos: 0 };
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = [...lineMatrix] as Matrix;
+  };
+
+  const showText = (text: string, emWidth: number) => {
+    const rendered = multiply(textMatrix, ctm);
+    if (text.length > 0) {
+      const size = fontSize * (Math.hypot(rendered[2], rendered[3]) || 1);
+      const width = emWidth * fontSize * (Math.hypot(rendered[0], rendered[1]) || 1);
+      items.push({ x: rendered[4], y: rendered[5], fontSize: size, width, text });
+    }
+
+    // Advance the text matrix past the shown glyphs (in text space)
+    textMatrix = multiply([1, 0, 0, 1, emWidth * fontSize, 0], textMatrix);
+  };
+
+  const showString = (value: PdfValue) => {
+    if (isString(value)) {
+      showText(font.decode(value.bytes), font.measure(value.bytes));
+    }
+  };
+
+  for (;;) {
+    let token: PdfValue | PdfOperator | undefined;
+    try {
+      token = readToken(cursor);
+    } catch {
+      break;
+    }
+    if (token === undefined) {
+      break;
+    }
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const args = operands;
+    operands = [];
+    const num = (index: number) => (typeof args[index] === 'number' ? args[index] as number : 0);
+
+    switch (token.value) {
+      case 'q':
+        ctmStack.push([...ctm] as Matrix);
+        break;
+      case 'Q':
+        ctm = ctmStack.pop() || ([...initialCtm] as Matrix);
+        break;
+      case 'cm':
+        ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], ctm);
+        break;
+      case 'BT':
+        textMatrix = [...IDENTITY] as Matrix;
+        lineMatrix = [...IDENTITY] as Matrix;
+        break;
+      case 'Tf': {
+        const fontName = nameOf(args[0]) || '';
+        fontSize = num(1) || fontSize;
+        if (!fontCache.has(fontName)) {
+          const fontValue = isDict(fontResources) ? fontResources.entries[fontName] : undefined;
+          fontCache.set(fontName, createFontDecoder(fontValue, objects));
+        }
+        font = fontCache.get(fontName)!;
+        break;
+      }
+      case 'TL':
+        leading = num(0);
+        break;
+      case 'Td':
+        moveLine(num(0), num(1));
+        break;
+      case 'TD':
+        leading = -num(1);
+        moveLine(num(0), num(1));
+        break;
+      case 'Tm':
+        lineMatrix = [num(0), num(1), num(2), num(3), num(4), num(5)];
+        textMatrix = [...lineMatrix] as Matrix;
+        break;
+      case 'T*':
+        moveLine(0, -leading);
+        break;
+      case 'Tj':
+        showString(args[0]);
+        break;
+      case "'":
+        moveLine(0, -leading);
+        showString(args[0]);
+        break;
+      case '"':
+        moveLine(0, -leading);
+        showString(args[2]);
+        break;
+      case 'TJ': {
+        const parts = Array.isArray(args[0]) ? args[0] : [];
+        let text = '';
+        let emWidth = 0;
+        parts.forEach(part => {
+          if (typeof part === 'number') {
+            // Large negative kerning adjustments are used in place of space characters
+            if (part < -200 && text.length > 0 && !text.endsWith(' ')) {
+              text += ' ';
+            }
+            emWidth -= part / 1000;
+          } else if (isString(part)) {
+            text += font.decode(part.bytes);
+            emWidth += font.measure(part.bytes);
+          }
+        });
+        showText(text, emWidth);
+        break;
+      }
+      case 'BI': {
+        // Skip inline image data entirely
+        const end = content.indexOf('EI', cursor.pos);
+        cursor.pos = end < 0 ? content.length : end + 2;
+        counters.images++;
+        break;
+      }
+      case 'Do': {
+        const xObjectName = nameOf(args[0]) || '';
+        const ref = isDict(xObjectResources) ? xObjectResources.entries[xObjectName] : undefined;
+        const target = isRef(ref) ? objects.get(ref.num) : undefined;
+        if (!target || !isDict(target.value)) {
+          break;
+        }
+        const subtype = nameOf(target.value.entries['Subtype']);
+        if (subtype === 'Image') {
+          counters.images++;
+        } else if (subtype === 'Form' && target.stream && depth < MAX_XOBJECT_DEPTH) {
+          const formMatrix = resolve(target.value.entries['Matrix'], objects);
+          const matrix: Matrix = Array.isArray(formMatrix) && formMatrix.length === 6
+            ? formMatrix.map(value => (typeof value === 'number' ? value : 0)) as Matrix
+            : [...IDENTITY] as Matrix;
+          const formContent = decodeStream(target.value, target.stream, objects).toString('latin1');
+          const formResources = resolve(target.value.entries['Resources'], objects) ?? resources ?? undefined;
+          runContentStream(formContent, formResources, objects, multiply(matrix, ctm), items, counters, depth + 1);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+/**
+ * Arrange positioned text items into lines in reading order (top-to-bottom, left-to-right)
+ */
+function layoutPageText(items: TextItem[]): string {
+  const visible = items.filter(item => item.text.trim().length > 0 || item.text === ' ');
+  if (visible.length === 0) {
+    return '';
+  }
+
+  const sorted = [...visible].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: TextItem[][] = [];
+
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    const tolerance = Math.max(2, item.fontSize * 0.4);
+    if (line && Math.abs(line[0].y - item.y) <= tolerance) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  });
+
+  const output: string[] = [];
+  let previousY: number | undefined;
+  let previousSize = 12;
+
+  lines.forEach(line => {
+    line.sort((a, b) => a.x - b.x);
+
+    let text = '';
+    let lineEnd: number | undefined;
+    line.forEach(item => {
+      if (lineEnd !== undefined) {
+        const gap = item.x - lineEnd;
+        if (gap > item.fontSize * 0.15 && !text.endsWith(' ') && !item.text.startsWith(' ')) {
+          text += ' ';
+        }
+      }
+      text += item.text;
+      lineEnd = item.x + item.width;
+    });
+
+    const y = line[0].y;
+    if (previousY !== undefined && previousY - y > Math.max(previousSize, line[0].fontSize) * 1.8) {
+      output.push('');
+    }
+    output.push(text.replace(/\s+$/, ''));
+    previousY = y;
+    previousSize = line[0].fontSize;
+  });
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,111 @@
+/**
+ * Pre-signed S3 URLs for the S3 Specification Generator
+ *
+ * Used by SendNotificationFunction for download links in notifications and by JobApiFunction
+ * for uploads and downloads through the HTTP API. URLs are signed with the calling Lambda's role.
+ */
+
+import { S3 } from 'aws-sdk';
+import { logError, logInfo } from './utils';
+
+export const DOWNLOAD_URL_EXPIRY_SECONDS = 24 * 60 * 60; // 24 hours
+export const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60; // 15 minutes
+
+// Headers the client must send with a pre-signed upload
+export const UPLOAD_HEADERS = {
+  'x-amz-server-side-encryption': 'AES256',
+} as const;
+
+/**
+ * Generate a pre-signed URL for downloading a specification file
+ */
+export async function generatePresignedUrl(
+  s3: S3,
+  bucketName: string,
+  keyOrUri: string,
+  expiresSeconds: number = DOWNLOAD_URL_EXPIRY_SECONDS
+): Promise<string> {
+  // Extract the key from S3 URI if provided in s3://bucket/key format
+  const key = extractS3KeyFromUri(keyOrUri, bucketName);
+
+  const params = {
+    Bucket: bucketName,
+    Key: key,
+    Expires: expiresSeconds,
+    ResponseContentDisposition: `attachment; filename="${extractFilenameFromKey(key)}"`,
+    ResponseContentType: 'text/markdown',
+  };
+
+  try {
+    const url = await s3.getSignedUrlPromise('getObject', params);
+    logInfo('Pre-signed URL generated', {
+      bucketName,
+      originalInput: keyOrUri,
+      extractedKey: key,
+      urlGenerated: true
+    });
+    return url;
+  } catch (error) {
+    logError('Failed to generate pre-signed URL', {
+      bucketName,
+      originalInput: keyOrUri,
+      extractedKey: key,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Generate a pre-signed URL for uploading a file with PUT
+ * The input bucket denies unencrypted uploads, so the client must send
+ * `x-amz-server-side-encryption: AES256` (see UPLOAD_HEADERS).
+ */
+export async function generatePresignedUploadUrl(
+  s3: S3,
+  bucketName: string,
+  key: string,
+  expiresSeconds: number = UPLOAD_URL_EXPIRY_SECONDS
+): Promise<string> {
+  return s3.getSignedUrlPromise('putObject', {
+    Bucket: bucketName,
+    Key: key,
+    Expires: expiresSeconds,
+    ServerSideEncryption: 'AES256',
+  });
+}
+
+/**
+ * Extract S3 key from URI or return as-is if already a key
+ */
+export function extractS3KeyFromUri(keyOrUri: string, expectedBucket: string): string {
+  // Check if it's an S3 URI (s3://bucket/key format)
+  if (keyOrUri.startsWith('s3://')) {
+    const uriParts = keyOrUri.replace('s3://', '').split('/');
+    const bucket = uriParts[0];
+    const key = uriParts.slice(1).join('/');
+
+    // Validate that the bucket matches what we expect
+    if (bucket !== expectedBucket) {
+      logError('S3 URI bucket mismatch', {
+        expectedBucket,
+        actualBucket: bucket,
+        fullUri: keyOrUri
+      });
+      throw new Error(`S3 URI bucket mismatch: expected ${expectedBucket}, got ${bucket}`);
+    }
+
+    return key;
+  }
+
+  // If it doesn't start with s3://, assume it's already a key
+  return keyOrUri;
+}
+
+/**
+ * Extract filename from S3 key path
+ */
+export function extractFilenameFromKey(key: string): string {
+  const parts = key.split('/');
+  return parts[parts.length - 1] || 'specification.md';
+}
@@ -0,0 +1,120 @@
+/**
+ * Project uploads for the S3 Specification Generator
+ *
+ * ZIP and tar archives, and prefixes marked with a _manifest.json, are processed as one project:
+ * ReadFileFunction extracts every supported file, each gets its own specification, and a
+ * system-level specification is synthesised from them. This module lists the files of a project.
+ */
+
+import { ProjectSkippedFile } from './types';
+import { readZipEntries } from './zip-reader';
+import { readTarEntries } from './tar-reader';
+import { PROJECT_CONFIG } from './constants';
+
+export interface ProjectMember {
+  path: string; // Relative to the archive root or the manifest prefix
+  size?: number; // Known up front for archive members and listed objects
+  read: () => Promise<Buffer>;
+}
+
+// Contents of a _manifest.json marker; without `files`, every object under the prefix is included
+export interface ProjectManifest {
+  name?: string;
+  files?: string[];
+}
+
+// Operating system metadata that archivers add and nobody wants a specification for
+const IGNORED_PATH_PATTERN = /(?:^|\/)(?:__MACOSX\/|\.[^/]*$|Thumbs\.db$)/;
+
+/**
+ * List the files of a ZIP or tar archive; unsafe, encrypted and metadata entries are left out
+ */
+export function listArchiveMembers(
+  body: Buffer,
+  extractor: 'zip' | 'tar'
+): { members: ProjectMember[]; skippedFiles: ProjectSkippedFile[] } {
+  const members: ProjectMember[] = [];
+  const skippedFiles: ProjectSkippedFile[] = [];
+
+  const entries = extractor === 'zip'
+    ? readZipEntries(body).map(entry => ({ ...entry, isFile: !entry.isDirectory, size: entry.uncompressedSize }))
+    : readTarEntries(body, PROJECT_CONFIG.MAX_TOTAL_BYTES).map(entry => ({ ...entry, isEncrypted: false }));
+
+  for (const entry of entries) {
+    if (!entry.isFile || entry.isDirectory || IGNORED_PATH_PATTERN.test(entry.name)) {
+      continue;
+    }
+
+    const path = normalizeProjectPath(entry.name);
+    if (!path) {
+      skippedFiles.push({ path: entry.name, reason: 'Path leaves the archive root' });
+    } else if (entry.isEncrypted) {
+      skippedFiles.push({ path, reason: 'Encrypted archive entry' });
+    } else {
+      members.push({ path, size: entry.size, read: async () => entry.read() });
+    }
+  }
+
+  return { members, skippedFiles };
+}
+
+/**
+ * Parse a _manifest.json marker
+ */
+export function parseProjectManifest(body: Buffer): ProjectManifest {
+  const text = body.toString('utf-8').trim();
+  if (!text) {
+    return {};
+  }
+
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Manifest must be a JSON object');
+  }
+  if (parsed.name !== undefined && typeof parsed.name !== 'string') {
+    throw new Error('Manifest name must be a string');
+  }
+  if (parsed.files !== undefined
+    && (!Array.isArray(parsed.files) || parsed.files.some((file: unknown) => typeof file !== 'string'))) {
+    throw new Error('Manifest files must be an array of paths relative to the manifest');
+  }
+
+  return { name: parsed.name, files: parsed.files };
+}
+
+/**
+ * Folder a _manifest.json marks as a project, or undefined when it is not under projects/<name>/
+ */
+export function getManifestMemberPrefix(key: string): string | undefined {
+  const prefix = key.slice(0, key.lastIndexOf('/') + 1);
+  return prefix.startsWith(PROJECT_CONFIG.MANIFEST_PREFIX) && prefix.length > PROJECT_CONFIG.MANIFEST_PREFIX.length
+    ? prefix
+    : undefined;
+}
+
+/**
+ * Relative path inside the project, or undefined when it would escape the project root
+ */
+export function normalizeProjectPath(name: string): string | undefined {
+  const segments = name.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    return undefined;
+  }
+  return segments.join('/');
+}
+
+/**
+ * Project name: the manifest name, else the archive file name or the manifest's folder
+ */
+export function getProjectName(key: string, manifest?: ProjectManifest): string {
+  if (manifest?.name?.trim()) {
+    return manifest.name.trim();
+  }
+
+  const segments = key.split('/');
+  const fileName = segments.pop() || key;
+  if (manifest) {
+    return segments.pop() || 'project';
+  }
+  return fileName.replace(/\.(?:zip|tar|tar\.gz|tgz)$/i, '') || fileName;
+}
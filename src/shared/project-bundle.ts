@@ -0,0 +1,78 @@
+/**
+ * Project spec bundles for the S3 Specification Generator
+ *
+ * A project (archive or manifest prefix) is written as the system-level specification plus a
+ * folder next to it holding one specification per file and an index page linking them:
+ *
+ *   <output>.md                 system-level specification
+ *   <output>/index.md           index of the bundle
+ *   <output>/files/<path>.md    per-file specifications, mirroring the project layout
+ */
+
+import { SpecificationBundle } from './types';
+import { PROJECT_CONFIG } from './constants';
+
+/**
+ * Folder of the bundle: the system specification's output path without its extension
+ */
+export function getProjectBundlePrefix(outputPath: string): string {
+  return outputPath.replace(/\.md$/, '');
+}
+
+/**
+ * Output key of a per-file specification inside the bundle
+ */
+export function getProjectFileSpecificationKey(outputPath: string, projectPath: string): string {
+  return `${getProjectBundlePrefix(outputPath)}/${PROJECT_CONFIG.BUNDLE_FILES_PREFIX}${projectPath}.md`;
+}
+
+/**
+ * Output key of the bundle index page
+ */
+export function getProjectIndexKey(outputPath: string): string {
+  return `${getProjectBundlePrefix(outputPath)}/${PROJECT_CONFIG.BUNDLE_INDEX_NAME}`;
+}
+
+/**
+ * Render the index page; links are relative so the bundle can be downloaded and browsed as-is
+ */
+export function renderProjectIndexMarkdown(
+  bundle: SpecificationBundle,
+  sourceKey: string,
+  outputPath: string,
+  generatedAt: string
+): string {
+  const systemSpecificationName = outputPath.split('/').pop() || outputPath;
+  const lines = [
+    `# ${bundle.name}`,
+    '',
+    `Source: \`${sourceKey}\``,
+    `Generated: ${generatedAt}`,
+    '',
+    `- [System specification](${encodeURI(`../${systemSpecificationName}`)})`,
+    '',
+    `## File Specifications (${bundle.files.length})`,
+    '',
+    '| File | Type |',
+    '| --- | --- |',
+    ...bundle.files.map(file =>
+      `| [${escapeTableCell(file.path)}](${encodeURI(`${PROJECT_CONFIG.BUNDLE_FILES_PREFIX}${file.path}.md`)}) | ${file.fileType} |`
+    ),
+  ];
+
+  if (bundle.failedFiles.length > 0) {
+    lines.push('', `## Failed Files (${bundle.failedFiles.length})`, '', '| File | Error |', '| --- | --- |');
+    lines.push(...bundle.failedFiles.map(file => `| ${escapeTableCell(file.path)} | ${escapeTableCell(file.message)} |`));
+  }
+
+  if (bundle.skippedFiles.length > 0) {
+    lines.push('', `## Skipped Files (${bundle.skippedFiles.length})`, '', '| File | Reason |', '| --- | --- |');
+    lines.push(...bundle.skippedFiles.map(file => `| ${escapeTableCell(file.path)} | ${escapeTableCell(file.reason)} |`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
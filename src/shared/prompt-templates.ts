@@ -0,0 +1,439 @@
+/**
+ * Prompt template registry for the S3 Specification Generator
+ *
+ * Templates are selected by file type and optionally by key prefix. Built-in templates ship
+ * with the code; JSON templates under the configuration bucket prefix override or extend them
+ * without a redeploy. Templates use {{variable}} placeholders.
+ */
+
+import { S3 } from 'aws-sdk';
+import { PromptTemplate } from './types';
+import { PROMPT_TEMPLATE_CONFIG } from './constants';
+import { logInfo, logError } from './utils';
+import { getFileFormatById, getFileTypesForPromptTemplate } from './file-formats';
+
+export interface PromptTemplateVariables {
+  fileName: string;
+  fileKey: string;
+  fileType: string;
+  language: string;
+  languageGuidance: string;
+  contentLength: number;
+  lineCount: number;
+  content: string;
+}
+
+const CONTENT_BLOCK = `Original file: {{fileKey}}
+File type: {{fileType}} ({{language}})
+Content length: {{contentLength}} characters
+
+Content to process:
+---
+{{content}}
+---`;
+
+const MARKDOWN_GUIDELINES = `- Use proper markdown formatting with headers, lists, and code blocks where appropriate
+- Be comprehensive but concise
+- Preserve important technical details and requirements
+- Structure the information logically
+- If the content is incomplete or unclear, note what additional information would be needed`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'generic',
+    version: '1',
+    description: 'Generic specification for any content',
+    fileTypes: ['*'],
+    template: `Generate a comprehensive technical specification document in markdown format from the following content.
+
+The specification should include:
+1. **Overview** - A clear summary of what the content describes
+2. **Requirements** - Functional and non-functional requirements extracted from the content
+3. **Technical Details** - Any technical specifications, architecture, or implementation details
+4. **Additional Sections** - Any other relevant sections based on the content type
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'source-code',
+    version: '2',
+    description: 'Reverse-engineered specification for application source code',
+    fileTypes: getFileTypesForPromptTemplate('source-code'),
+    template: `Reverse-engineer a technical specification document in markdown format from the following {{language}} source file ({{fileName}}, {{lineCount}} lines).
+
+The specification should include:
+1. **Overview** - The purpose of the module and where it fits in the application
+2. **Components** - Each class, interface, function and method with its responsibility
+3. **Functional Requirements** - Business rules, validations and calculations the code implements
+4. **Interfaces** - Public API, inputs and outputs, data structures, and external dependencies (libraries, services, files, databases)
+5. **Error Handling** - Exceptions, error codes and recovery behaviour
+6. **Non-Functional Notes** - Concurrency, performance, security and configuration concerns visible in the code
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Describe behaviour, not syntax; quote identifiers exactly as they appear in the code
+- {{languageGuidance}}
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'rexx-batch',
+    version: '1',
+    description: 'Specification for REXX batch scripts and execs',
+    fileTypes: getFileTypesForPromptTemplate('rexx-batch'),
+    template: `Document the following REXX exec ({{fileName}}, {{lineCount}} lines) as a batch job specification in markdown format.
+
+The specification should include:
+1. **Overview** - What the job does and when it runs
+2. **Invocation** - Arguments, parsed parameters and environment (TSO/ISPF/z/OS UNIX) assumptions
+3. **Processing Steps** - The main flow, step by step, including each label/procedure and when it is called
+4. **Datasets and Files** - Datasets, DD names and files read or written, and their record layouts where visible
+5. **External Calls** - Host commands, ADDRESS environments, called programs and utilities
+6. **Return Codes and Error Handling** - Exit codes, SIGNAL ON conditions and failure behaviour
+7. **Operational Notes** - Restart considerations, scheduling dependencies and open questions
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'markdown-prd',
+    version: '1',
+    description: 'Engineering specification derived from a Markdown product requirements document',
+    fileTypes: getFileTypesForPromptTemplate('markdown-prd'),
+    template: `Turn the following product requirements document ({{fileName}}) into an engineering specification in markdown format.
+
+The specification should include:
+1. **Overview** - Problem statement, goals and non-goals
+2. **User Stories** - Numbered user stories with acceptance criteria
+3. **Functional Requirements** - Numbered, testable requirements traced to the source sections
+4. **Non-Functional Requirements** - Performance, security, availability and compliance
+5. **Technical Approach** - Proposed components, data model and integrations implied by the requirements
+6. **Open Questions and Risks** - Ambiguities, missing decisions and assumptions made
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Keep the author's terminology; do not invent requirements that are not implied by the document
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'cobol-program',
+    version: '1',
+    description: 'Specification for COBOL programs',
+    fileTypes: getFileTypesForPromptTemplate('cobol-program'),
+    template: `Reverse-engineer a technical specification document in markdown format from the following COBOL program ({{fileName}}, {{lineCount}} lines).
+
+The specification should include:
+1. **Overview** - PROGRAM-ID, the business function of the program and whether it runs in batch or online (CICS/IMS)
+2. **Data Division** - FILE SECTION record layouts, WORKING-STORAGE and LINKAGE SECTION items as tables with level, name, PICTURE, USAGE and purpose; note REDEFINES, OCCURS and 88-level condition names
+3. **Copybooks** - Each COPY member used and what it contributes
+4. **Processing Logic** - The PROCEDURE DIVISION flow paragraph by paragraph (PERFORM structure), with the business rules and calculations each paragraph implements
+5. **Files and Databases** - Files opened with their access mode, and embedded SQL, DL/I or CICS commands
+6. **External Calls** - CALLed programs and their parameters
+7. **Error Handling** - FILE STATUS and SQLCODE checks, abend and RETURN-CODE behaviour
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Quote data names and paragraph names exactly as they appear in the code
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'cobol-copybook',
+    version: '1',
+    description: 'Data dictionary for COBOL copybooks',
+    fileTypes: getFileTypesForPromptTemplate('cobol-copybook'),
+    template: `Document the following COBOL copybook ({{fileName}}, {{lineCount}} lines) as a data dictionary in markdown format.
+
+The specification should include:
+1. **Overview** - The record or structure the copybook describes and where it is likely used
+2. **Field Layout** - A table of every field with level, name, PICTURE, USAGE, starting offset, length in bytes and meaning; include group items and FILLER
+3. **Condition Names** - 88-level values and what they signify
+4. **Redefinitions and Repeating Groups** - REDEFINES alternatives and OCCURS / OCCURS DEPENDING ON tables
+5. **Data Rules** - Signs, implied decimals, packed (COMP-3) and binary (COMP) fields, date formats and code values
+6. **Open Questions** - Fields whose purpose cannot be inferred from names or comments
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Compute offsets and lengths from the PICTURE and USAGE clauses; state the total record length
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'jcl-job',
+    version: '1',
+    description: 'Batch job specification for JCL',
+    fileTypes: getFileTypesForPromptTemplate('jcl-job'),
+    template: `Document the following JCL member ({{fileName}}, {{lineCount}} lines) as a batch job specification in markdown format.
+
+The specification should include:
+1. **Overview** - Job name, purpose, job class, MSGCLASS and scheduling assumptions
+2. **Steps** - A table of each step with the program (EXEC PGM=) or procedure it runs, its PARM and its purpose
+3. **Datasets** - Each DD statement per step with DSN, DISP, and whether it is input, output, temporary or a report; include SYSIN control cards
+4. **Step Dependencies** - COND, IF/THEN/ELSE and restart considerations
+5. **Symbolic Parameters and Procedures** - SET statements, PROC overrides and INCLUDE members
+6. **Operational Notes** - Generation data groups, space allocation, abend handling and open questions
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'sql-script',
+    version: '1',
+    description: 'Data and query specification for SQL scripts',
+    fileTypes: getFileTypesForPromptTemplate('sql-script'),
+    template: `Document the following SQL script ({{fileName}}, {{lineCount}} lines) as a data specification in markdown format.
+
+The specification should include:
+1. **Overview** - What the script does (schema definition, migration, reporting, batch update) and the likely database platform
+2. **Data Model** - Tables and views with columns, types, keys, constraints and indexes
+3. **Queries and Operations** - Each query, procedure, function or trigger with its purpose, inputs and affected tables
+4. **Business Rules** - Filters, joins, calculations and constraints that encode business logic
+5. **Transactions and Performance** - Commit points, locking, isolation and index usage
+6. **Open Questions** - Ambiguous columns, missing definitions and assumptions made
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Quote table and column names exactly as they appear in the script
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'shell-script',
+    version: '1',
+    description: 'Operational specification for shell scripts',
+    fileTypes: getFileTypesForPromptTemplate('shell-script'),
+    template: `Document the following shell script ({{fileName}}, {{lineCount}} lines) as an operational specification in markdown format.
+
+The specification should include:
+1. **Overview** - What the script does, its interpreter and when it is run
+2. **Invocation** - Arguments, options, environment variables and configuration files it reads
+3. **Processing Steps** - The main flow, step by step, including each function and when it is called
+4. **Files and Commands** - Files read or written and external commands, services and programs invoked
+5. **Exit Codes and Error Handling** - Exit statuses, traps, set -e/-u behaviour and cleanup
+6. **Operational Notes** - Scheduling, idempotency, permissions and open questions
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+
+${CONTENT_BLOCK}
+
+Generate the specification document:`,
+  },
+  {
+    id: 'project-system',
+    version: '2',
+    description: 'System-level specification synthesised from the per-file specifications of a project',
+    fileTypes: getFileTypesForPromptTemplate('project-system'),
+    template: `The content below is the set of specifications generated for the individual files of one project ({{fileName}}). Synthesise a system-level specification in markdown format that describes how the files work together.
+
+The specification should include:
+1. **System Overview** - What the system does, its users and its main capabilities
+2. **Module Inventory** - Each file with a one-line responsibility, grouped by layer or subsystem
+3. **Module Relationships** - Which modules call, include, schedule or depend on which, consistent with the resolved dependencies when they are listed
+4. **Data Flow** - How data moves through the system: inputs, intermediate files or tables, and outputs
+5. **External Interfaces** - Databases, files, queues, services and users the system interacts with
+6. **Cross-Cutting Concerns** - Error handling, security, configuration and operational behaviour shared across modules
+7. **Gaps and Open Questions** - References to modules that are not part of the project and behaviour no file explains
+
+Guidelines:
+${MARKDOWN_GUIDELINES}
+- Refer to modules by their project path so readers can find the per-file specification
+- Describe the system as a whole; do not repeat each file specification
+- A dependency diagram generated from the source is appended to the document; do not draw one
+
+Project: {{fileKey}}
+Content length: {{contentLength}} characters
+
+File specifications:
+---
+{{content}}
+---
+
+Generate the system specification document:`,
+  },
+];
+
+let cachedTemplates: { templates: PromptTemplate[]; loadedAt: number } | undefined;
+
+/**
+ * Load templates from the configuration bucket prefix, merged over the built-in templates
+ * Results are cached per Lambda container; load failures fall back to the built-ins and are
+ * not cached, so the next invocation tries the configuration bucket again
+ */
+export async function loadPromptTemplates(s3: S3): Promise<PromptTemplate[]> {
+  const now = Date.now();
+  if (cachedTemplates && now - cachedTemplates.loadedAt < PROMPT_TEMPLATE_CONFIG.CACHE_TTL_SECONDS * 1000) {
+    return cachedTemplates.templates;
+  }
+
+  const bucket = process.env.CONFIG_BUCKET_NAME;
+  const prefix = process.env.PROMPT_TEMPLATE_PREFIX || PROMPT_TEMPLATE_CONFIG.DEFAULT_PREFIX;
+  let configuredTemplates: PromptTemplate[] = [];
+  let loadFailed = false;
+
+  if (bucket) {
+    try {
+      configuredTemplates = await fetchConfiguredTemplates(s3, bucket, prefix);
+      logInfo('Prompt templates loaded from configuration bucket', {
+        bucket,
+        prefix,
+        templates: configuredTemplates.map(template => `${template.id}@${template.version}`)
+      });
+    } catch (error) {
+      loadFailed = true;
+      logError('Failed to load prompt templates from configuration bucket, using built-in templates', error);
+    }
+  }
+
+  // Configured templates replace built-ins with the same id
+  const configuredIds = new Set(configuredTemplates.map(template => template.id));
+  const templates = [
+    ...configuredTemplates,
+    ...BUILT_IN_PROMPT_TEMPLATES.filter(template => !configuredIds.has(template.id)),
+  ];
+
+  if (!loadFailed) {
+    cachedTemplates = { templates, loadedAt: now };
+  }
+  return templates;
+}
+
+/**
+ * Select the template for a file: a matching key prefix beats a plain file type match,
+ * the longest prefix wins, and the generic template is the fallback
+ */
+export function selectPromptTemplate(templates: PromptTemplate[], fileType: string, key: string): PromptTemplate {
+  const matchesType = (template: PromptTemplate) =>
+    template.fileTypes.includes(fileType.toLowerCase()) || template.fileTypes.includes('*');
+
+  const candidates = templates
+    .filter(template => matchesType(template) && (!template.keyPrefix || key.startsWith(template.keyPrefix)))
+    .sort((a, b) => score(b, fileType) - score(a, fileType));
+
+  return candidates[0]
+    || templates.find(template => template.id === 'generic')
+    || BUILT_IN_PROMPT_TEMPLATES[0];
+}
+
+/**
+ * Replace {{variable}} placeholders; unknown placeholders are left untouched
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: PromptTemplateVariables): string {
+  const values = variables as unknown as Record<string, string | number>;
+  return template.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Build the standard template variables for a file
+ */
+export function createPromptTemplateVariables(key: string, fileType: string, content: string): PromptTemplateVariables {
+  const format = getFileFormatById(fileType);
+  return {
+    fileName: key.split('/').pop() || key,
+    fileKey: key,
+    fileType,
+    language: format?.name || fileType,
+    languageGuidance: format?.promptGuidance || '',
+    contentLength: content.length,
+    lineCount: content.split('\n').length,
+    content,
+  };
+}
+
+/**
+ * Prefix length dominates; an exact file type beats the '*' wildcard
+ */
+function score(template: PromptTemplate, fileType: string): number {
+  const prefixScore = template.keyPrefix ? template.keyPrefix.length * 10 : 0;
+  return prefixScore + (template.fileTypes.includes(fileType.toLowerCase()) ? 1 : 0);
+}
+
+async function fetchConfiguredTemplates(s3: S3, bucket: string, prefix: string): Promise<PromptTemplate[]> {
+  const templates: PromptTemplate[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const listing = await s3.listObjectsV2({
+      Bucket: bucket,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }).promise();
+
+    for (const object of listing.Contents || []) {
+      if (!object.Key || !object.Key.endsWith('.json')) {
+        continue;
+      }
+
+      const s3Object = await s3.getObject({ Bucket: bucket, Key: object.Key }).promise();
+      const template = parsePromptTemplate(String(s3Object.Body), object.Key);
+      if (template) {
+        templates.push(template);
+      }
+    }
+
+    continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return templates;
+}
+
+/**
+ * Parse and validate a template definition; invalid definitions are logged and skipped
+ */
+function parsePromptTemplate(json: string, sourceKey: string): PromptTemplate | undefined {
+  try {
+    const parsed = JSON.parse(json);
+    const fileTypes = Array.isArray(parsed.fileTypes)
+      ? parsed.fileTypes.map((fileType: unknown) => String(fileType).toLowerCase())
+      : [];
+
+    if (typeof parsed.id !== 'string' || !parsed.id
+      || parsed.version === undefined
+      || fileTypes.length === 0
+      || typeof parsed.template !== 'string' || !/\{\{\s*content\s*\}\}/.test(parsed.template)) {
+      logError('Ignoring invalid prompt template definition', {
+        sourceKey,
+        reason: 'id, version, fileTypes and a template containing {{content}} are required'
+      });
+      return undefined;
+    }
+
+    return {
+      id: parsed.id,
+      version: String(parsed.version),
+      description: typeof parsed.description === 'string' ? parsed.description : undefined,
+      fileTypes,
+      keyPrefix: typeof parsed.keyPrefix === 'string' && parsed.keyPrefix ? parsed.keyPrefix : undefined,
+      template: parsed.template,
+    };
+  } catch (error) {
+    logError('Ignoring unparseable prompt template definition', { sourceKey, error });
+    return undefined;
+  }
+}
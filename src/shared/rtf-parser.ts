@@ -0,0 +1,331 @@
+/**
+ * RTF to plain text conversion for the S3 Specification Generator
+ *
+ * Tokenizes the RTF stream, skips destination groups (font/colour tables, stylesheets,
+ * pictures, field instructions and any \*\ destination), decodes \'hh and \uN escapes
+ * using the declared code page and keeps \par breaks as paragraphs.
+ */
+
+import { TextDecoder } from 'util';
+import { decodeWindows1252 } from './utils';
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number;
+  codePage: number;
+  inFontTable: boolean;
+}
+
+const SKIPPED_DESTINATIONS = new Set([
+  'author', 'buptim', 'colortbl', 'comment', 'company', 'creatim', 'datastore', 'docvar', 'doccomm',
+  'filetbl', 'fldinst', 'footer', 'footerf', 'footerl', 'footerr', 'ftncn', 'ftnsep', 'ftnsepc',
+  'generator', 'header', 'headerf', 'headerl', 'headerr', 'info', 'keywords', 'latentstyles',
+  'listoverridetable', 'listtable', 'listtext', 'nonshppict', 'object', 'objdata', 'operator',
+  'pict', 'pntext', 'pntxta', 'pntxtb', 'printim', 'private', 'revtbl', 'revtim', 'rsidtbl',
+  'stylesheet', 'subject', 'themedata', 'colorschememapping', 'title', 'xmlnstbl', 'xe', 'tc',
+  'bkmkstart', 'bkmkend', 'pgdsctbl', 'mmathPr', 'fontemb', 'fontfile',
+]);
+
+const SYMBOL_WORDS: Record<string, string> = {
+  bullet: '•',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  tab: '\t',
+  line: '\n',
+  cell: ' | ',
+  nestcell: ' | ',
+  row: '\n',
+  nestrow: '\n',
+};
+
+const PARAGRAPH_WORDS = new Set(['par', 'sect', 'page']);
+
+// Windows code pages for \fcharsetN font charsets
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  0: 1252,
+  128: 932,
+  129: 949,
+  134: 936,
+  136: 950,
+  161: 1253,
+  162: 1254,
+  163: 1258,
+  177: 1255,
+  178: 1256,
+  186: 1257,
+  204: 1251,
+  222: 874,
+  238: 1250,
+};
+
+const DEFAULT_CODE_PAGE = 1252;
+
+/**
+ * Convert an RTF document to plain text with paragraphs separated by blank lines
+ */
+export function extractRtfText(rtf: string | Buffer): string {
+  const data = typeof rtf === 'string' ? rtf : rtf.toString('latin1');
+  const output: string[] = [];
+  const pendingBytes: number[] = [];
+  const fontCodePages = new Map<number, number>();
+  const decoders = new Map<number, TextDecoder>();
+
+  let documentCodePage = DEFAULT_CODE_PAGE;
+  let state: GroupState = { skip: false, unicodeSkip: 1, codePage: DEFAULT_CODE_PAGE, inFontTable: false };
+  const stack: GroupState[] = [];
+  let pendingSkip = 0;
+  let fontTableFont: number | undefined;
+  let groupStart = false;
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) {
+      return;
+    }
+    output.push(decodeBytes(Buffer.from(pendingBytes), state.codePage, decoders));
+    pendingBytes.length = 0;
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) {
+      output.push(text);
+    }
+  };
+
+  const emitByte = (byte: number) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) {
+      pendingBytes.push(byte);
+    }
+  };
+
+  const consumeText = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    emit(text);
+  };
+
+  let pos = 0;
+  while (pos < data.length) {
+    const ch = data[pos];
+
+    if (ch === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      pendingSkip = 0;
+      pos++;
+      continue;
+    }
+
+    if (ch === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      groupStart = false;
+      pendingSkip = 0;
+      pos++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const next = data[pos + 1];
+
+      if (next !== undefined && /[a-zA-Z]/.test(next)) {
+        const match = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(data.slice(pos, pos + 48));
+        const word = match ? match[1] : next;
+        const param = match && match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+        pos += match ? match[0].length : 2;
+        const atGroupStart = groupStart;
+        groupStart = false;
+
+        if (word === 'bin' && param !== undefined) {
+          // Raw binary data follows; it is never text
+          pos += Math.max(0, param);
+          continue;
+        }
+
+        if (SKIPPED_DESTINATIONS.has(word) && (atGroupStart || word === 'pict')) {
+          flushBytes();
+          state.skip = true;
+          continue;
+        }
+
+        switch (word) {
+          case 'ansicpg':
+            documentCodePage = param || DEFAULT_CODE_PAGE;
+            state.codePage = documentCodePage;
+            break;
+          case 'pc':
+            documentCodePage = 437;
+            state.codePage = documentCodePage;
+            break;
+          case 'pca':
+            documentCodePage = 850;
+            state.codePage = documentCodePage;
+            break;
+          case 'mac':
+            documentCodePage = 10000;
+            state.codePage = documentCodePage;
+            break;
+          case 'fonttbl':
+            flushBytes();
+            state.inFontTable = true;
+            state.skip = true;
+            break;
+          case 'f':
+            if (state.inFontTable) {
+              fontTableFont = param;
+            } else if (param !== undefined) {
+              flushBytes();
+              state.codePage = fontCodePages.get(param) ?? documentCodePage;
+            }
+            break;
+          case 'fcharset':
+            if (state.inFontTable && fontTableFont !== undefined && param !== undefined && CHARSET_CODE_PAGES[param]) {
+              fontCodePages.set(fontTableFont, CHARSET_CODE_PAGES[param]);
+            }
+            break;
+          case 'cpg':
+            if (state.inFontTable && fontTableFont !== undefined && param) {
+              fontCodePages.set(fontTableFont, param);
+            }
+            break;
+          case 'plain':
+          case 'pard':
+            break;
+          case 'uc':
+            state.unicodeSkip = param ?? 1;
+            break;
+          case 'u':
+            if (param !== undefined) {
+              emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+              pendingSkip = state.unicodeSkip;
+            }
+            break;
+          default:
+            if (PARAGRAPH_WORDS.has(word)) {
+              emit('\n\n');
+            } else if (SYMBOL_WORDS[word] !== undefined) {
+              emit(SYMBOL_WORDS[word]);
+            }
+            break;
+        }
+        continue;
+      }
+
+      // Control symbols
+      groupStart = false;
+      switch (next) {
+        case "'": {
+          const hex = data.slice(pos + 2, pos + 4);
+          pos += 4;
+          if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+            emitByte(parseInt(hex, 16));
+          }
+          continue;
+        }
+        case '*':
+          // Ignorable destination: skip the whole group unless we understand it
+          flushBytes();
+          state.skip = true;
+          pos += 2;
+          continue;
+        case '\\':
+        case '{':
+        case '}':
+          pos += 2;
+          consumeText(next);
+          continue;
+        case '~':
+          pos += 2;
+          consumeText(' ');
+          continue;
+        case '_':
+          pos += 2;
+          consumeText('-');
+          continue;
+        case '-':
+          // Optional hyphen
+          pos += 2;
+          continue;
+        case '\n':
+        case '\r':
+          pos += 2;
+          emit('\n\n');
+          continue;
+        default:
+          pos += 2;
+          continue;
+      }
+    }
+
+    if (ch === '\r' || ch === '\n') {
+      // Raw line breaks in RTF source are not significant
+      pos++;
+      continue;
+    }
+
+    groupStart = false;
+    const code = ch.charCodeAt(0);
+    if (code >= 0x80) {
+      // Unescaped 8-bit bytes are interpreted in the active code page
+      emitByte(code);
+    } else {
+      consumeText(ch);
+    }
+    pos++;
+  }
+
+  flushBytes();
+  return normalizeParagraphs(output.join(''));
+}
+
+/**
+ * Decode bytes from a Windows/Mac code page, falling back to Latin-1
+ */
+function decodeBytes(bytes: Buffer, codePage: number, decoders: Map<number, TextDecoder>): string {
+  if (codePage === 1252) {
+    return decodeWindows1252(bytes);
+  }
+  if (!decoders.has(codePage)) {
+    decoders.set(codePage, createDecoder(codePage));
+  }
+  return decoders.get(codePage)!.decode(bytes);
+}
+
+function createDecoder(codePage: number): TextDecoder {
+  const labels = codePage === 10000 ? ['macintosh'] : codePage === 437 || codePage === 850 ? [`cp${codePage}`, `ibm${codePage}`] : [`windows-${codePage}`];
+  for (const label of [...labels, `cp${codePage}`]) {
+    try {
+      return new TextDecoder(label);
+    } catch {
+      // Unsupported label; try the next candidate
+    }
+  }
+  return new TextDecoder('latin1');
+}
+
+/**
+ * Trim trailing whitespace on each line and collapse runs of blank lines
+ */
+function normalizeParagraphs(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,70 @@
+/**
+ * Language-specific source normalisation for the S3 Specification Generator
+ *
+ * Applied by ReadFileFunction to extracted text for formats that declare a normalizer in the
+ * format registry. Mainframe sources carry fixed-column areas (sequence numbers, identification
+ * area) that are noise to the model and would otherwise be repeated on every line.
+ */
+
+import { SourceNormalizer } from './file-formats';
+
+// Share of non-blank lines that must match before a fixed-column layout is assumed
+const FIXED_LAYOUT_THRESHOLD = 0.8;
+
+// Column 7 of fixed-format COBOL: blank, comment, page eject, continuation or debugging line
+const COBOL_INDICATORS = new Set([' ', '*', '/', '-', 'D', 'd', '$']);
+const COBOL_FREE_FORMAT_DIRECTIVE = />>\s*SOURCE\s+(?:FORMAT\s+)?(?:IS\s+)?FREE/i;
+
+// Eight-digit sequence number in columns 73-80, as written by ISPF and most mainframe editors
+const SEQUENCE_NUMBER_PATTERN = /^.{72}\d{8}\s*$/;
+
+const NORMALIZERS: Record<SourceNormalizer, (content: string) => string> = {
+  'cobol': normalizeCobol,
+  'sequence-numbers': stripSequenceNumbers,
+};
+
+/**
+ * Normalise extracted source text with the normalizer declared for its format
+ */
+export function normalizeSourceContent(content: string, normalizer?: SourceNormalizer): string {
+  return normalizer ? NORMALIZERS[normalizer](content) : content;
+}
+
+/**
+ * Fixed-format COBOL: drop the sequence area (columns 1-6) and identification area (73-80),
+ * keeping the indicator column so comment and continuation lines stay recognisable
+ */
+function normalizeCobol(content: string): string {
+  if (COBOL_FREE_FORMAT_DIRECTIVE.test(content)) {
+    return content;
+  }
+
+  // Lines holding only a sequence number are padded so they count as blank fixed-format lines
+  const lines = content.split('\n');
+  const fixedFormat = matchesMostLines(lines, line => COBOL_INDICATORS.has(line.padEnd(7)[6]));
+  if (!fixedFormat) {
+    return content;
+  }
+
+  return lines.map(line => line.slice(6, 72).trimEnd()).join('\n');
+}
+
+/**
+ * JCL, PL/I, REXX and SQL members: drop sequence numbers in columns 73-80
+ */
+function stripSequenceNumbers(content: string): string {
+  const lines = content.split('\n');
+  if (!matchesMostLines(lines, line => SEQUENCE_NUMBER_PATTERN.test(line))) {
+    return content;
+  }
+
+  return lines
+    .map(line => SEQUENCE_NUMBER_PATTERN.test(line) ? line.slice(0, 72).trimEnd() : line)
+    .join('\n');
+}
+
+function matchesMostLines(lines: string[], predicate: (line: string) => boolean): boolean {
+  const nonBlank = lines.filter(line => line.trim() !== '');
+  return nonBlank.length > 0
+    && nonBlank.filter(predicate).length / nonBlank.length >= FIXED_LAYOUT_THRESHOLD;
+}
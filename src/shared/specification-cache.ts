@@ -0,0 +1,113 @@
+/**
+ * Content-hash specification cache for the S3 Specification Generator
+ *
+ * Specifications are cached as JSON objects in the cache bucket, keyed on a SHA-256 of the
+ * processed content, the prompt template version and the model. Re-uploading an unchanged
+ * file, or a copy under another name, reuses the cached specification instead of calling the LLM.
+ */
+
+import { S3 } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { CACHE_CONFIG } from './constants';
+import { logInfo, logError } from './utils';
+
+export interface SpecificationCacheKeyParts {
+  content: string;
+  promptTemplate: string; // `<id>@<version>`, or a fixed name for internal prompts
+  modelId: string;
+  provider: string;
+}
+
+export interface CachedSpecification {
+  cacheKey: string;
+  generatedSpecification: string;
+  inputTokens: number;
+  outputTokens: number;
+  continuationCount: number;
+  modelId: string;
+  fallbackCount: number;
+  originalFile: string;
+  cachedAt: string;
+}
+
+/**
+ * Hash the content and everything that changes the generated output
+ */
+export function createSpecificationCacheKey(parts: SpecificationCacheKeyParts): string {
+  return createHash('sha256')
+    .update(CACHE_CONFIG.SCHEMA_VERSION)
+    .update('\0')
+    .update(parts.provider)
+    .update('\0')
+    .update(parts.modelId)
+    .update('\0')
+    .update(parts.promptTemplate)
+    .update('\0')
+    .update(parts.content, 'utf-8')
+    .digest('hex');
+}
+
+/**
+ * Look up a cached specification; any failure is logged and treated as a miss
+ */
+export async function getCachedSpecification(
+  s3: S3,
+  bucket: string,
+  cacheKey: string
+): Promise<CachedSpecification | undefined> {
+  try {
+    const s3Object = await s3.getObject({
+      Bucket: bucket,
+      Key: getCacheObjectKey(cacheKey),
+    }).promise();
+
+    const cached: CachedSpecification = JSON.parse(String(s3Object.Body));
+    if (cached.cacheKey !== cacheKey || typeof cached.generatedSpecification !== 'string') {
+      logError('Ignoring malformed specification cache entry', { bucket, cacheKey });
+      return undefined;
+    }
+    return cached;
+
+  } catch (error) {
+    const missErrorCodes: readonly string[] = CACHE_CONFIG.MISS_ERROR_CODES;
+    if (!missErrorCodes.includes((error as { code?: string }).code || '')) {
+      logError('Specification cache lookup failed, treating as a miss', {
+        bucket,
+        cacheKey,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Store a generated specification; failures are logged and never fail the caller
+ */
+export async function putCachedSpecification(
+  s3: S3,
+  bucket: string,
+  entry: CachedSpecification
+): Promise<void> {
+  try {
+    await s3.putObject({
+      Bucket: bucket,
+      Key: getCacheObjectKey(entry.cacheKey),
+      Body: JSON.stringify(entry),
+      ContentType: 'application/json',
+      ServerSideEncryption: 'AES256',
+    }).promise();
+
+    logInfo('Specification cached', { bucket, cacheKey: entry.cacheKey, modelId: entry.modelId });
+  } catch (error) {
+    logError('Failed to write specification cache entry', {
+      bucket,
+      cacheKey: entry.cacheKey,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function getCacheObjectKey(cacheKey: string): string {
+  return `${CACHE_CONFIG.KEY_PREFIX}${cacheKey}.json`;
+}
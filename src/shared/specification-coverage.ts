@@ -0,0 +1,82 @@
+/**
+ * Specification coverage for the S3 Specification Generator
+ *
+ * Compares the public entries of a file's code outline (functions, labels, classes, methods) with
+ * the identifiers mentioned in the generated specification. ProcessWithClaudeFunction sends a
+ * follow-up prompt for the missing entries when coverage is below COVERAGE_THRESHOLD.
+ */
+
+import { CodeOutline, CodeOutlineEntry, SpecificationCoverage } from './types';
+import { COVERAGE_CONFIG } from './constants';
+import { describeOutlineEntry } from './code-outline';
+
+// Languages whose identifiers are case-insensitive; the specification may use any case
+const CASE_INSENSITIVE_FILE_TYPES = new Set(['rexx', 'pli']);
+
+/**
+ * Coverage of the outline's public entries; undefined when the outline has none to document
+ */
+export function measureSpecificationCoverage(
+  outline: CodeOutline,
+  specification: string,
+  threshold: number
+): Omit<SpecificationCoverage, 'followUp'> | undefined {
+  const entries = getDocumentableEntries(outline);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const missing = findUndocumentedEntries(outline, specification);
+  return {
+    percentage: Math.floor(((entries.length - missing.length) / entries.length) * 100),
+    documentedCount: entries.length - missing.length,
+    totalCount: entries.length,
+    missing: missing.slice(0, COVERAGE_CONFIG.MAX_REPORTED_MISSING).map(getEntryName),
+    threshold,
+  };
+}
+
+/**
+ * Public outline entries whose name does not appear in the specification
+ */
+export function findUndocumentedEntries(outline: CodeOutline, specification: string): CodeOutlineEntry[] {
+  const flags = CASE_INSENSITIVE_FILE_TYPES.has(outline.fileType) ? 'i' : '';
+  return getDocumentableEntries(outline).filter(entry => {
+    const name = entry.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return !new RegExp(`(?<![\\w$#@])${name}(?![\\w$#@])`, flags).test(specification);
+  });
+}
+
+/**
+ * Follow-up prompt asking only for the sections the specification is missing
+ * The original prompt is repeated so the model has the source of the missing entries.
+ */
+export function createCoverageFollowUpPrompt(originalPrompt: string, missing: CodeOutlineEntry[]): string {
+  const listed = missing.slice(0, COVERAGE_CONFIG.MAX_FOLLOW_UP_ENTRIES);
+  return `${originalPrompt}
+
+A specification has already been written for this file, but it does not document the following public definitions:
+${listed.map(entry => `- ${describeOutlineEntry(entry)}${entry.parent ? ` (in ${entry.parent})` : ''}`).join('\n')}
+
+Write only the additional markdown sections documenting these definitions: their purpose, inputs, outputs, business rules and error handling. Start with a "## Additional Components" heading, name each definition exactly as it appears in the source, and do not repeat anything else from the specification.`;
+}
+
+/**
+ * Entries the specification is expected to name; the program entry is the file itself
+ */
+function getDocumentableEntries(outline: CodeOutline): CodeOutlineEntry[] {
+  const seen = new Set<string>();
+  return outline.entries.filter(entry => {
+    // Overloaded methods are documented once
+    const name = getEntryName(entry);
+    if (!entry.public || entry.kind === 'program' || seen.has(name)) {
+      return false;
+    }
+    seen.add(name);
+    return true;
+  });
+}
+
+function getEntryName(entry: CodeOutlineEntry): string {
+  return entry.parent ? `${entry.parent}.${entry.name}` : entry.name;
+}
@@ -0,0 +1,252 @@
+/**
+ * Section-level diffs between two generations of a specification
+ *
+ * Specifications are split into sections at every Markdown heading and matched on their
+ * heading path (e.g. `Functional Requirements > FR-001: Intake`). Sections present in only one
+ * version are reported as added or removed; matched sections with different content get a line diff.
+ */
+
+import { SpecificationChangeSummary } from './types';
+
+export interface SpecificationSection {
+  key: string; // Heading path, unique within the document
+  title: string;
+  level: number; // 0 for content before the first heading
+  lines: string[];
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ChangedSection {
+  key: string;
+  lines: DiffLine[];
+}
+
+export interface SpecificationSectionDiff {
+  added: SpecificationSection[];
+  removed: SpecificationSection[];
+  changed: ChangedSection[];
+  unchangedCount: number;
+}
+
+export interface SpecificationDiffVersion {
+  processingId: string;
+  generatedAt: string;
+  location: string;
+}
+
+const PREAMBLE_KEY = '(before the first heading)';
+const CONTEXT_LINES = 2;
+const MAX_LCS_CELLS = 1_000_000; // Larger sections are shown as a full replacement
+
+/**
+ * Split Markdown into sections at each heading, ignoring headings inside code fences
+ */
+export function splitSections(markdown: string): SpecificationSection[] {
+  const sections: SpecificationSection[] = [];
+  const path: Array<{ level: number; title: string }> = [];
+  const keyCounts = new Map<string, number>();
+  let current: SpecificationSection = { key: PREAMBLE_KEY, title: PREAMBLE_KEY, level: 0, lines: [] };
+  let fence: string | undefined;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+    }
+
+    const heading = fence || fenceMatch ? null : /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      current.lines.push(line);
+      continue;
+    }
+
+    sections.push(current);
+    const level = heading[1].length;
+    while (path.length > 0 && path[path.length - 1].level >= level) {
+      path.pop();
+    }
+    path.push({ level, title: heading[2] });
+
+    // Repeated heading paths get a counter so every section key stays unique
+    const baseKey = path.map(entry => entry.title).join(' > ');
+    const count = (keyCounts.get(baseKey) || 0) + 1;
+    keyCounts.set(baseKey, count);
+    current = { key: count > 1 ? `${baseKey} (${count})` : baseKey, title: heading[2], level, lines: [] };
+  }
+  sections.push(current);
+
+  return sections
+    .map(section => ({ ...section, lines: trimBlankLines(section.lines) }))
+    .filter(section => section.level > 0 || section.lines.length > 0);
+}
+
+/**
+ * Compare two specifications section by section
+ */
+export function diffSpecificationSections(previous: string, current: string): SpecificationSectionDiff {
+  const previousSections = new Map(splitSections(previous).map(section => [section.key, section]));
+  const currentSections = splitSections(current);
+  const currentKeys = new Set(currentSections.map(section => section.key));
+
+  const diff: SpecificationSectionDiff = {
+    added: [],
+    removed: Array.from(previousSections.values()).filter(section => !currentKeys.has(section.key)),
+    changed: [],
+    unchangedCount: 0,
+  };
+
+  for (const section of currentSections) {
+    const previousSection = previousSections.get(section.key);
+    if (!previousSection) {
+      diff.added.push(section);
+    } else if (previousSection.lines.join('\n') === section.lines.join('\n')) {
+      diff.unchangedCount++;
+    } else {
+      diff.changed.push({ key: section.key, lines: diffLines(previousSection.lines, section.lines) });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Summary of a section diff for SpecificationOutput and the success notification
+ */
+export function summarizeSpecificationDiff(
+  diff: SpecificationSectionDiff,
+  previous: SpecificationDiffVersion
+): SpecificationChangeSummary {
+  return {
+    previousProcessingId: previous.processingId,
+    previousGeneratedAt: previous.generatedAt,
+    previousLocation: previous.location,
+    addedSections: diff.added.map(section => section.key),
+    removedSections: diff.removed.map(section => section.key),
+    changedSections: diff.changed.map(section => section.key),
+    unchangedSectionCount: diff.unchangedCount,
+  };
+}
+
+/**
+ * One-line description of a change summary, e.g. "2 sections changed, 1 added, 0 removed"
+ */
+export function describeSpecificationChanges(summary: SpecificationChangeSummary): string {
+  const { addedSections, removedSections, changedSections } = summary;
+  if (addedSections.length + removedSections.length + changedSections.length === 0) {
+    return 'No section changes';
+  }
+  return `${changedSections.length} ${changedSections.length === 1 ? 'section' : 'sections'} changed, `
+    + `${addedSections.length} added, ${removedSections.length} removed`;
+}
+
+/**
+ * Render a section diff as a Markdown document
+ */
+export function renderSpecificationDiffMarkdown(
+  sourceKey: string,
+  diff: SpecificationSectionDiff,
+  previous: SpecificationDiffVersion,
+  current: SpecificationDiffVersion
+): string {
+  const summary = summarizeSpecificationDiff(diff, previous);
+  const parts: string[] = [
+    `# Specification changes: ${sourceKey}`,
+    [
+      `- **Previous:** ${previous.location} (generated ${previous.generatedAt}, processing id \`${previous.processingId}\`)`,
+      `- **Current:** ${current.location} (generated ${current.generatedAt}, processing id \`${current.processingId}\`)`,
+      `- **Summary:** ${describeSpecificationChanges(summary)}; ${diff.unchangedCount} unchanged`,
+    ].join('\n'),
+  ];
+
+  if (diff.added.length > 0) {
+    parts.push(`## Added sections\n\n${diff.added.map(section => `- ${section.key}`).join('\n')}`);
+  }
+  if (diff.removed.length > 0) {
+    parts.push(`## Removed sections\n\n${diff.removed.map(section => `- ${section.key}`).join('\n')}`);
+  }
+  if (diff.changed.length > 0) {
+    parts.push('## Changed sections');
+    for (const section of diff.changed) {
+      parts.push(`### ${section.key}\n\n${renderDiffBlock(section.lines)}`);
+    }
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+function diffLines(previous: string[], current: string[]): DiffLine[] {
+  if (previous.length * current.length > MAX_LCS_CELLS) {
+    return [
+      ...previous.map(text => ({ type: 'removed' as const, text })),
+      ...current.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of previous[i..] and current[j..]
+  const lengths = Array.from({ length: previous.length + 1 }, () => new Array<number>(current.length + 1).fill(0));
+  for (let i = previous.length - 1; i >= 0; i--) {
+    for (let j = current.length - 1; j >= 0; j--) {
+      lengths[i][j] = previous[i] === current[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length || j < current.length) {
+    if (i < previous.length && j < current.length && previous[i] === current[j]) {
+      lines.push({ type: 'context', text: previous[i] });
+      i++;
+      j++;
+    } else if (j < current.length && (i >= previous.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push({ type: 'added', text: current[j++] });
+    } else {
+      lines.push({ type: 'removed', text: previous[i++] });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render changed lines with a little surrounding context; skipped runs are shown as `...`
+ */
+function renderDiffBlock(lines: DiffLine[]): string {
+  const visible = lines.map((line, index) => line.type !== 'context'
+    || lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(near => near.type !== 'context'));
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (visible[index]) {
+      output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${line.text}`);
+    } else if (index === 0 || visible[index - 1]) {
+      output.push('  ...');
+    }
+  });
+
+  // Fence must be longer than any backtick run in the content
+  const longestRun = Math.max(2, ...output.map(line => Math.max(0, ...(line.match(/`+/g) || []).map(run => run.length))));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}diff\n${output.join('\n')}\n${fence}`;
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end).map(line => line.trimEnd());
+}
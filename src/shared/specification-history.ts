@@ -0,0 +1,123 @@
+/**
+ * Per-source specification history for the S3 Specification Generator
+ *
+ * WriteSpecificationFunction keeps a JSON manifest per source key in the output bucket listing
+ * every specification generated for it. The newest entry locates the previous specification
+ * (by S3 version id when the bucket is versioned), which is diffed against each regeneration.
+ * Manifest updates are last-writer-wins; concurrent runs for the same source key may drop an entry.
+ */
+
+import { S3 } from 'aws-sdk';
+import { HISTORY_CONFIG } from './constants';
+import { parseFrontMatter } from './front-matter';
+import { logError } from './utils';
+
+export interface SpecificationVersion {
+  processingId: string;
+  sourceEtag?: string;
+  executionId?: string;
+  generatedAt: string;
+  location: string;
+  key: string;
+  versionId?: string;
+  diffLocation?: string;
+  modelId?: string;
+  wordCount: number;
+}
+
+export interface SpecificationHistoryManifest {
+  sourceKey: string;
+  sourceBucket: string;
+  updatedAt: string;
+  versions: SpecificationVersion[]; // Oldest first
+}
+
+/**
+ * Manifest object key for a source key
+ */
+export function getHistoryManifestKey(sourceKey: string): string {
+  return `${HISTORY_CONFIG.MANIFEST_PREFIX}${sourceKey}.json`;
+}
+
+/**
+ * Load the history manifest for a source key; undefined when none exists yet
+ */
+export async function getHistoryManifest(
+  s3: S3,
+  bucket: string,
+  sourceKey: string
+): Promise<SpecificationHistoryManifest | undefined> {
+  try {
+    const s3Object = await s3.getObject({
+      Bucket: bucket,
+      Key: getHistoryManifestKey(sourceKey),
+    }).promise();
+
+    const manifest: SpecificationHistoryManifest = JSON.parse(String(s3Object.Body));
+    return Array.isArray(manifest.versions) ? manifest : undefined;
+
+  } catch (error) {
+    if ((error as { code?: string }).code === 'NoSuchKey') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append a version to the manifest and store it; re-recording the same location replaces its entry
+ */
+export async function appendHistoryVersion(
+  s3: S3,
+  bucket: string,
+  manifest: SpecificationHistoryManifest,
+  version: SpecificationVersion
+): Promise<SpecificationHistoryManifest> {
+  const updated: SpecificationHistoryManifest = {
+    ...manifest,
+    updatedAt: new Date().toISOString(),
+    versions: [
+      ...manifest.versions.filter(existing =>
+        existing.location !== version.location || existing.versionId !== version.versionId),
+      version,
+    ],
+  };
+
+  await s3.putObject({
+    Bucket: bucket,
+    Key: getHistoryManifestKey(manifest.sourceKey),
+    Body: JSON.stringify(updated, null, 2),
+    ContentType: 'application/json',
+    ServerSideEncryption: 'AES256',
+  }).promise();
+
+  return updated;
+}
+
+/**
+ * Read the Markdown body of a recorded specification version, without its front matter
+ * Returns undefined when the object (or its version) no longer exists.
+ */
+export async function getSpecificationVersionBody(
+  s3: S3,
+  bucket: string,
+  version: SpecificationVersion
+): Promise<string | undefined> {
+  try {
+    const s3Object = await s3.getObject({
+      Bucket: bucket,
+      Key: version.key,
+      ...(version.versionId ? { VersionId: version.versionId } : {}),
+    }).promise();
+
+    return parseFrontMatter(String(s3Object.Body)).body;
+
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === 'NoSuchKey' || code === 'NoSuchVersion') {
+      logError('Previous specification no longer exists', { bucket, key: version.key, versionId: version.versionId });
+      return undefined;
+    }
+    throw error;
+  }
+}
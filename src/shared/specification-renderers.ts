@@ -0,0 +1,340 @@
+/**
+ * Output renderers for the S3 Specification Generator
+ *
+ * WriteSpecificationFunction always writes the Markdown specification; every format listed in
+ * OUTPUT_FORMATS is rendered from the same parsed Markdown and written next to it with its own
+ * extension and content type.
+ */
+
+import { inlineText, MarkdownBlock, MarkdownInline, parseMarkdown, TableAlignment } from './markdown-parser';
+
+export type OutputFormat = 'markdown' | 'html' | 'asciidoc' | 'confluence';
+
+export interface RenderOptions {
+  title: string;
+}
+
+export interface SpecificationRenderer {
+  format: OutputFormat;
+  extension: string;
+  contentType: string;
+  render(markdown: string, options: RenderOptions): string;
+}
+
+export const SPECIFICATION_RENDERERS: Record<OutputFormat, SpecificationRenderer> = {
+  markdown: {
+    format: 'markdown',
+    extension: 'md',
+    contentType: 'text/markdown',
+    render: markdown => markdown,
+  },
+  html: {
+    format: 'html',
+    extension: 'html',
+    contentType: 'text/html; charset=utf-8',
+    render: (markdown, options) => renderHtmlDocument(parseMarkdown(markdown), options),
+  },
+  asciidoc: {
+    format: 'asciidoc',
+    extension: 'adoc',
+    contentType: 'text/asciidoc; charset=utf-8',
+    render: (markdown, options) => renderAsciiDoc(parseMarkdown(markdown), options),
+  },
+  confluence: {
+    format: 'confluence',
+    extension: 'confluence.xhtml',
+    contentType: 'application/xhtml+xml; charset=utf-8',
+    render: markdown => renderConfluenceStorage(parseMarkdown(markdown)),
+  },
+};
+
+/**
+ * Parse OUTPUT_FORMATS (comma-separated); Markdown is always included and unknown names are ignored
+ */
+export function getOutputFormats(value: string | undefined): OutputFormat[] {
+  const requested = (value || '')
+    .split(',')
+    .map(format => format.trim().toLowerCase())
+    .filter((format): format is OutputFormat => format in SPECIFICATION_RENDERERS);
+  return Array.from(new Set<OutputFormat>(['markdown', ...requested]));
+}
+
+// --- HTML -----------------------------------------------------------------------------------
+
+const HTML_STYLES = `body{font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;line-height:1.6;max-width:960px;margin:2rem auto;padding:0 1rem;color:#1f2328}
+nav.toc{border:1px solid #d0d7de;border-radius:6px;padding:0.5rem 1.5rem;margin-bottom:2rem}
+pre{background:#f6f8fa;padding:1rem;overflow:auto;border-radius:6px}
+code{font-family:SFMono-Regular,Consolas,monospace;font-size:0.9em}
+table{border-collapse:collapse}th,td{border:1px solid #d0d7de;padding:0.4rem 0.8rem}
+blockquote{border-left:4px solid #d0d7de;margin:0;padding-left:1rem;color:#57606a}`;
+
+function renderHtmlDocument(blocks: MarkdownBlock[], options: RenderOptions): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(options.title)}</title>
+<style>
+${HTML_STYLES}
+</style>
+</head>
+<body>
+${renderHtmlTableOfContents(blocks)}<main>
+${renderHtmlBlocks(blocks)}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Nested table of contents for heading levels 1-3
+ */
+function renderHtmlTableOfContents(blocks: MarkdownBlock[]): string {
+  interface TocEntry {
+    heading: Extract<MarkdownBlock, { type: 'heading' }>;
+    children: TocEntry[];
+  }
+
+  const root: TocEntry[] = [];
+  const stack: Array<{ level: number; children: TocEntry[] }> = [{ level: 0, children: root }];
+
+  for (const block of blocks) {
+    if (block.type !== 'heading' || block.level > 3) {
+      continue;
+    }
+    while (stack.length > 1 && stack[stack.length - 1].level >= block.level) {
+      stack.pop();
+    }
+    const entry: TocEntry = { heading: block, children: [] };
+    stack[stack.length - 1].children.push(entry);
+    stack.push({ level: block.level, children: entry.children });
+  }
+
+  if (root.length === 0) {
+    return '';
+  }
+
+  const renderEntries = (entries: TocEntry[]): string => `<ul>\n${entries.map(entry =>
+    `<li><a href="#${escapeXml(entry.heading.id)}">${escapeXml(inlineText(entry.heading.children))}</a>` +
+    `${entry.children.length > 0 ? `\n${renderEntries(entry.children)}\n` : ''}</li>`
+  ).join('\n')}\n</ul>`;
+
+  return `<nav class="toc">\n<h2>Contents</h2>\n${renderEntries(root)}\n</nav>\n`;
+}
+
+function renderHtmlBlocks(blocks: MarkdownBlock[]): string {
+  return renderMarkupBlocks(blocks, {
+    heading: block => `<h${block.level} id="${escapeXml(block.id)}">${renderMarkupInlines(block.children, '<br>')}</h${block.level}>`,
+    code: block => `<pre><code${block.language ? ` class="language-${escapeXml(block.language)}"` : ''}>${escapeXml(block.text)}</code></pre>`,
+    rule: '<hr>',
+    lineBreak: '<br>',
+    tableOfContents: '',
+  });
+}
+
+// --- Confluence storage format --------------------------------------------------------------
+
+function renderConfluenceStorage(blocks: MarkdownBlock[]): string {
+  return renderMarkupBlocks(blocks, {
+    heading: block => `<h${block.level}>${renderMarkupInlines(block.children, '<br />')}</h${block.level}>`,
+    code: block => [
+      '<ac:structured-macro ac:name="code">',
+      block.language ? `<ac:parameter ac:name="language">${escapeXml(block.language)}</ac:parameter>` : '',
+      `<ac:plain-text-body><![CDATA[${block.text.replace(/]]>/g, ']]]]><![CDATA[>')}]]></ac:plain-text-body>`,
+      '</ac:structured-macro>',
+    ].join(''),
+    rule: '<hr />',
+    lineBreak: '<br />',
+    tableOfContents: '<ac:structured-macro ac:name="toc" />',
+  }) + '\n';
+}
+
+// --- Shared (X)HTML block rendering ---------------------------------------------------------
+
+interface MarkupDialect {
+  heading(block: Extract<MarkdownBlock, { type: 'heading' }>): string;
+  code(block: Extract<MarkdownBlock, { type: 'code' }>): string;
+  rule: string;
+  lineBreak: string;
+  tableOfContents: string;
+}
+
+function renderMarkupBlocks(blocks: MarkdownBlock[], dialect: MarkupDialect, nested = false): string {
+  const parts = nested || !dialect.tableOfContents ? [] : [dialect.tableOfContents];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        parts.push(dialect.heading(block));
+        break;
+      case 'paragraph':
+        parts.push(`<p>${renderMarkupInlines(block.children, dialect.lineBreak)}</p>`);
+        break;
+      case 'code':
+        parts.push(dialect.code(block));
+        break;
+      case 'rule':
+        parts.push(dialect.rule);
+        break;
+      case 'blockquote':
+        parts.push(`<blockquote>\n${renderMarkupBlocks(block.children, dialect, true)}\n</blockquote>`);
+        break;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        const items = block.items.map(item => {
+          // Tight items: a leading paragraph is rendered without <p>
+          const [first, ...rest] = item;
+          const lead = first && first.type === 'paragraph'
+            ? renderMarkupInlines(first.children, dialect.lineBreak)
+            : first ? renderMarkupBlocks([first], dialect, true) : '';
+          const tail = rest.length > 0 ? `\n${renderMarkupBlocks(rest, dialect, true)}\n` : '';
+          return `<li>${lead}${tail}</li>`;
+        });
+        parts.push(`<${tag}${start}>\n${items.join('\n')}\n</${tag}>`);
+        break;
+      }
+      case 'table': {
+        const cell = (tag: string, inlines: MarkdownInline[], alignment: TableAlignment) =>
+          `<${tag}${alignment ? ` style="text-align: ${alignment}"` : ''}>${renderMarkupInlines(inlines, dialect.lineBreak)}</${tag}>`;
+        const header = `<tr>${block.header.map((inlines, index) => cell('th', inlines, block.alignments[index])).join('')}</tr>`;
+        const rows = block.rows.map(row =>
+          `<tr>${row.map((inlines, index) => cell('td', inlines, block.alignments[index])).join('')}</tr>`);
+        parts.push(`<table>\n<tbody>\n${[header, ...rows].join('\n')}\n</tbody>\n</table>`);
+        break;
+      }
+    }
+  }
+
+  return parts.join('\n');
+}
+
+function renderMarkupInlines(inlines: MarkdownInline[], lineBreak: string): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return escapeXml(inline.text);
+      case 'strong':
+        return `<strong>${renderMarkupInlines(inline.children, lineBreak)}</strong>`;
+      case 'emphasis':
+        return `<em>${renderMarkupInlines(inline.children, lineBreak)}</em>`;
+      case 'code':
+        return `<code>${escapeXml(inline.text)}</code>`;
+      case 'link':
+        return isSafeHref(inline.href)
+          ? `<a href="${escapeXml(inline.href)}">${renderMarkupInlines(inline.children, lineBreak)}</a>`
+          : renderMarkupInlines(inline.children, lineBreak);
+      case 'break':
+        return lineBreak;
+    }
+  }).join('');
+}
+
+// --- AsciiDoc -------------------------------------------------------------------------------
+
+function renderAsciiDoc(blocks: MarkdownBlock[], options: RenderOptions): string {
+  return `= ${options.title}\n:toc:\n:toclevels: 3\n\n${renderAsciiDocBlocks(blocks, 0)}\n`;
+}
+
+function renderAsciiDocBlocks(blocks: MarkdownBlock[], listDepth: number): string {
+  const parts: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+        // Level 0 (=) is the document title, so Markdown levels shift down by one
+        parts.push(`[[${block.id}]]\n${'='.repeat(Math.min(block.level + 1, 6))} ${renderAsciiDocInlines(block.children)}`);
+        break;
+      case 'paragraph':
+        parts.push(renderAsciiDocInlines(block.children));
+        break;
+      case 'code':
+        parts.push(`${block.language ? `[source,${block.language}]\n` : ''}----\n${block.text}\n----`);
+        break;
+      case 'rule':
+        parts.push('\'\'\'');
+        break;
+      case 'blockquote':
+        parts.push(`____\n${renderAsciiDocBlocks(block.children, 0)}\n____`);
+        break;
+      case 'list': {
+        const marker = (block.ordered ? '.' : '*').repeat(listDepth + 1);
+        const items = block.items.map(item => {
+          const [first, ...rest] = item;
+          const lead = first && first.type === 'paragraph' ? renderAsciiDocInlines(first.children) : '';
+          const remaining = first && first.type === 'paragraph' ? rest : item;
+          // Nested lists attach directly; other blocks need a list continuation (+)
+          const attached = remaining.map(child => child.type === 'list'
+            ? renderAsciiDocBlocks([child], listDepth + 1)
+            : `+\n${renderAsciiDocBlocks([child], 0)}`);
+          return [`${marker} ${lead}`, ...attached].join('\n');
+        });
+        parts.push(items.join('\n'));
+        break;
+      }
+      case 'table': {
+        const columns = block.alignments.map(alignment => alignment === 'center' ? '^' : alignment === 'right' ? '>' : '<');
+        const row = (cells: MarkdownInline[][]) => cells.map(cell => `| ${renderAsciiDocInlines(cell).replace(/\|/g, '\\|')}`).join(' ');
+        parts.push([
+          `[cols="${columns.join(',')}",options="header"]`,
+          '|===',
+          row(block.header),
+          ...block.rows.map(row),
+          '|===',
+        ].join('\n'));
+        break;
+      }
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderAsciiDocInlines(inlines: MarkdownInline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return inline.text;
+      case 'strong':
+        return `*${renderAsciiDocInlines(inline.children)}*`;
+      case 'emphasis':
+        return `_${renderAsciiDocInlines(inline.children)}_`;
+      case 'code':
+        return `\`+${inline.text}+\``;
+      case 'link': {
+        const text = renderAsciiDocInlines(inline.children).replace(/]/g, '\\]');
+        if (!isSafeHref(inline.href)) {
+          return text;
+        }
+        if (inline.href.startsWith('#')) {
+          return `<<${inline.href.slice(1)},${text}>>`;
+        }
+        return /^(https?:|mailto:)/.test(inline.href) ? `${inline.href}[${text}]` : `link:${inline.href}[${text}]`;
+      }
+      case 'break':
+        return ' +\n';
+    }
+  }).join('');
+}
+
+// --- Helpers --------------------------------------------------------------------------------
+
+/**
+ * Escape text for HTML and XML content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Allow web, mail, anchor and relative links; drop script and data URLs the model may echo from input
+ */
+function isSafeHref(href: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(href.trim());
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
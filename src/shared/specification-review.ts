@@ -0,0 +1,141 @@
+/**
+ * Specification review for the S3 Specification Generator
+ *
+ * ReviewSpecificationTask asks the model to score a generated specification against its source on
+ * a rubric (faithfulness, completeness, clarity) and to flag statements the source does not support.
+ * The response is a JSON object validated here; specifications below the threshold are regenerated
+ * once with the feedback, then written under the needs-review prefix if they still fail.
+ */
+
+import { SpecificationReview } from './types';
+import { REVIEW_CONFIG } from './constants';
+
+const RUBRIC_CRITERIA = ['faithfulness', 'completeness', 'clarity'] as const;
+
+export interface SpecificationReviewParseResult {
+  review?: SpecificationReview;
+  errors: string[];
+}
+
+/**
+ * Prompt asking the reviewer to score a specification against the source it was generated from
+ */
+export function createReviewPrompt(originalFile: string, fileType: string, source: string, specification: string): string {
+  return `You are reviewing a technical specification that was generated from a source file. Compare the specification with the source and score it on this rubric, from 1 (poor) to 5 (excellent):
+- faithfulness: every requirement, rule and behaviour stated in the specification is supported by the source
+- completeness: the important components, rules, inputs, outputs and error handling of the source are covered
+- clarity: the specification is well organised, unambiguous and readable by someone who has not seen the source
+
+List every statement of the specification that appears nowhere in the source, or contradicts it, under hallucinations. Give actionable feedback for the author in a few sentences.
+
+Respond with a single JSON object and nothing else - no markdown fences and no commentary:
+{"faithfulness": 1-5, "completeness": 1-5, "clarity": 1-5, "hallucinations": [{"claim": "statement from the specification", "reason": "why the source does not support it"}], "feedback": "..."}
+
+Original file: ${originalFile}
+File type: ${fileType}
+
+Source:
+---
+${source}
+---
+
+Specification:
+---
+${specification}
+---`;
+}
+
+/**
+ * Prompt asking the reviewer to correct a response that does not match the rubric
+ */
+export function createReviewCorrectionPrompt(reviewPrompt: string, response: string, errors: string[]): string {
+  return `${reviewPrompt}
+
+Your previous response was not a valid review object:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${response}
+
+Return the corrected JSON object only.`;
+}
+
+/**
+ * Parse a reviewer response; hallucination flags and feedback are capped to keep the state small
+ */
+export function parseSpecificationReview(response: string): SpecificationReviewParseResult {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return { errors: ['Response does not contain a JSON object'] };
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(response.slice(start, end + 1));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = RUBRIC_CRITERIA
+    .filter(criterion => !Number.isInteger(parsed[criterion]) || (parsed[criterion] as number) < 1 || (parsed[criterion] as number) > 5)
+    .map(criterion => `$.${criterion} must be an integer from 1 to 5`);
+  const hallucinations = parsed.hallucinations;
+  if (!Array.isArray(hallucinations)) {
+    errors.push('$.hallucinations must be an array');
+  } else {
+    hallucinations.forEach((flag, index) => {
+      if (typeof flag?.claim !== 'string' || typeof flag?.reason !== 'string') {
+        errors.push(`$.hallucinations[${index}] must have string claim and reason`);
+      }
+    });
+  }
+  if (typeof parsed.feedback !== 'string') {
+    errors.push('$.feedback must be a string');
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    review: {
+      faithfulness: parsed.faithfulness as number,
+      completeness: parsed.completeness as number,
+      clarity: parsed.clarity as number,
+      hallucinations: (hallucinations as SpecificationReview['hallucinations'])
+        .slice(0, REVIEW_CONFIG.MAX_REPORTED_HALLUCINATIONS)
+        .map(({ claim, reason }) => ({ claim, reason })),
+      feedback: (parsed.feedback as string).slice(0, REVIEW_CONFIG.MAX_FEEDBACK_LENGTH),
+    },
+    errors,
+  };
+}
+
+/**
+ * A specification passes when every criterion reaches the threshold and nothing is flagged as hallucinated
+ */
+export function isReviewPassing(review: SpecificationReview, threshold: number): boolean {
+  return RUBRIC_CRITERIA.every(criterion => review[criterion] >= threshold) && review.hallucinations.length === 0;
+}
+
+/**
+ * Original generation prompt followed by the reviewer's scores, flags and feedback on the rejected attempt
+ */
+export function createRegenerationPrompt(originalPrompt: string, review: SpecificationReview, threshold: number): string {
+  const scores = RUBRIC_CRITERIA
+    .map(criterion => `- ${criterion}: ${review[criterion]}/5${review[criterion] < threshold ? ` (below ${threshold})` : ''}`)
+    .join('\n');
+  const hallucinations = review.hallucinations.length > 0
+    ? `\n\nStatements not supported by the source - remove or correct them:\n${review.hallucinations.map(flag => `- "${flag.claim}": ${flag.reason}`).join('\n')}`
+    : '';
+
+  return `${originalPrompt}
+
+A previous specification for this file was rejected by a reviewer. Write a new specification that addresses the review. Only state what the source supports.
+
+Review scores:
+${scores}${hallucinations}
+
+Reviewer feedback:
+${review.feedback}`;
+}
@@ -0,0 +1,223 @@
+/**
+ * Structured (JSON) specifications for the S3 Specification Generator
+ *
+ * The model is asked for a StructuredSpecification matching STRUCTURED_SPECIFICATION_SCHEMA.
+ * Responses are parsed and validated here; validation errors are fed back to the model, and
+ * the Markdown specification is rendered from the validated JSON.
+ */
+
+import { StructuredSpecification, STRUCTURED_SPECIFICATION_SCHEMA } from './types';
+
+interface SchemaNode {
+  type?: 'object' | 'array' | 'string';
+  required?: readonly string[];
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: readonly string[];
+  pattern?: string;
+  minLength?: number;
+}
+
+export interface StructuredSpecificationParseResult {
+  specification?: StructuredSpecification;
+  errors: string[];
+}
+
+/**
+ * Instructions appended to the rendered prompt template in structured mode
+ */
+export function createStructuredOutputInstructions(): string {
+  return `Respond with a single JSON object and nothing else - no markdown fences and no commentary. The object must match this JSON Schema:
+${JSON.stringify(STRUCTURED_SPECIFICATION_SCHEMA, null, 2)}
+
+Rules:
+- Number functional requirements FR-001, FR-002, ... and non-functional requirements NFR-001, NFR-002, ... without gaps or duplicates
+- Use empty arrays for sections the content does not support; do not invent requirements
+- Markdown formatting is allowed inside string values`;
+}
+
+/**
+ * Prompt asking the model to correct a response that failed validation
+ */
+export function createStructuredCorrectionPrompt(originalPrompt: string, response: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous response was not a valid specification object:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${response}
+
+Return the corrected JSON object only.`;
+}
+
+/**
+ * Parse a model response and validate it against the schema
+ */
+export function parseStructuredSpecification(response: string): StructuredSpecificationParseResult {
+  const json = extractJsonObject(response);
+  if (!json) {
+    return { errors: ['Response does not contain a JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateStructuredSpecification(parsed);
+  return errors.length > 0 ? { errors } : { specification: parsed as StructuredSpecification, errors };
+}
+
+/**
+ * Validate a value against STRUCTURED_SPECIFICATION_SCHEMA, plus requirement id uniqueness
+ */
+export function validateStructuredSpecification(value: unknown): string[] {
+  const errors = validateNode(value, STRUCTURED_SPECIFICATION_SCHEMA as SchemaNode, '$');
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const specification = value as StructuredSpecification;
+  const ids = [
+    ...specification.functionalRequirements.map(requirement => requirement.id),
+    ...specification.nonFunctionalRequirements.map(requirement => requirement.id),
+  ];
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate requirement ids: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Render a validated specification as Markdown
+ */
+export function renderStructuredSpecificationMarkdown(specification: StructuredSpecification): string {
+  const sections: string[] = [
+    `# ${specification.title}`,
+    `## Overview\n\n${specification.overview}`,
+  ];
+
+  sections.push(`## Functional Requirements\n\n${specification.functionalRequirements.length > 0
+    ? specification.functionalRequirements.map(requirement => {
+      const lines = [
+        `### ${requirement.id}: ${requirement.title}`,
+        '',
+        `**Priority:** ${requirement.priority}${requirement.source ? `  \n**Source:** ${requirement.source}` : ''}`,
+        '',
+        requirement.description,
+      ];
+      if (requirement.acceptanceCriteria && requirement.acceptanceCriteria.length > 0) {
+        lines.push('', '**Acceptance Criteria:**', '', ...requirement.acceptanceCriteria.map(criterion => `- ${criterion}`));
+      }
+      return lines.join('\n');
+    }).join('\n\n')
+    : '_None identified._'}`);
+
+  sections.push(`## Non-Functional Requirements\n\n${specification.nonFunctionalRequirements.length > 0
+    ? [
+      '| ID | Category | Description |',
+      '| --- | --- | --- |',
+      ...specification.nonFunctionalRequirements.map(requirement =>
+        `| ${requirement.id} | ${escapeTableCell(requirement.category)} | ${escapeTableCell(requirement.description)} |`),
+    ].join('\n')
+    : '_None identified._'}`);
+
+  sections.push(`## Interfaces\n\n${specification.interfaces.length > 0
+    ? specification.interfaces.map(specInterface => {
+      const lines = [`### ${specInterface.name} (${specInterface.type})`, '', specInterface.description];
+      if (specInterface.inputs && specInterface.inputs.length > 0) {
+        lines.push('', '**Inputs:**', '', ...specInterface.inputs.map(input => `- ${input}`));
+      }
+      if (specInterface.outputs && specInterface.outputs.length > 0) {
+        lines.push('', '**Outputs:**', '', ...specInterface.outputs.map(output => `- ${output}`));
+      }
+      return lines.join('\n');
+    }).join('\n\n')
+    : '_None identified._'}`);
+
+  sections.push(`## Data Entities\n\n${specification.dataEntities.length > 0
+    ? specification.dataEntities.map(entity => [
+      `### ${entity.name}`,
+      '',
+      entity.description,
+      '',
+      '| Field | Type | Description |',
+      '| --- | --- | --- |',
+      ...entity.fields.map(field =>
+        `| ${escapeTableCell(field.name)} | ${escapeTableCell(field.type)} | ${escapeTableCell(field.description || '')} |`),
+    ].join('\n')).join('\n\n')
+    : '_None identified._'}`);
+
+  sections.push(`## Open Questions\n\n${specification.openQuestions.length > 0
+    ? specification.openQuestions.map(question => `- ${question}`).join('\n')
+    : '_None._'}`);
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Take the outermost {...} of a response, tolerating markdown fences or stray prose around it
+ */
+function extractJsonObject(response: string): string | undefined {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  return start >= 0 && end > start ? response.slice(start, end + 1) : undefined;
+}
+
+function validateNode(value: unknown, schema: SchemaNode, path: string): string[] {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      const errors: string[] = [];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path} must not be empty`);
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path} must match ${schema.pattern}`);
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      const items = schema.items;
+      return items ? value.flatMap((item, index) => validateNode(item, items, `${path}[${index}]`)) : [];
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required || [])
+        .filter(property => record[property] === undefined)
+        .map(property => `${path}.${property} is required`);
+
+      for (const [property, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[property] !== undefined) {
+          errors.push(...validateNode(record[property], propertySchema, `${path}.${property}`));
+        }
+      }
+      return errors;
+    }
+
+    default:
+      return [];
+  }
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
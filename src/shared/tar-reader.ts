@@ -0,0 +1,119 @@
+/**
+ * Minimal tar archive reader for the S3 Specification Generator
+ * Reads ustar, GNU and pax archives, optionally gzip-compressed, for project uploads
+ */
+
+import { gunzipSync } from 'zlib';
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  isDirectory: boolean;
+  isFile: boolean;
+  read: () => Buffer;
+}
+
+const BLOCK_SIZE = 512;
+const CHECKSUM_OFFSET = 148;
+const CHECKSUM_LENGTH = 8;
+
+/**
+ * Check whether a buffer starts with the gzip magic bytes
+ */
+export function isGzipCompressed(body: Buffer): boolean {
+  return body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b;
+}
+
+/**
+ * List the entries of a tar archive; gzip-compressed archives are decompressed first,
+ * up to maxUncompressedBytes when given
+ */
+export function readTarEntries(body: Buffer, maxUncompressedBytes?: number): TarEntry[] {
+  const archive = isGzipCompressed(body)
+    ? gunzipSync(body, maxUncompressedBytes ? { maxOutputLength: maxUncompressedBytes } : {})
+    : body;
+
+  const entries: TarEntry[] = [];
+  let extendedName: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks end the archive
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    if (!hasValidChecksum(header)) {
+      throw new Error(`Corrupt tar header at offset ${offset}`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > archive.length) {
+      throw new Error('Truncated tar archive');
+    }
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    // GNU long names and pax headers carry the name of the entry that follows
+    if (type === 'L') {
+      extendedName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      extendedName = readPaxPath(data) || extendedName;
+      continue;
+    }
+    if (type === 'g') {
+      continue;
+    }
+
+    const prefix = header.toString('latin1', 257, 262) === 'ustar' ? readString(header, 345, 155) : '';
+    const shortName = readString(header, 0, 100);
+    const name = extendedName || (prefix ? `${prefix}/${shortName}` : shortName);
+    extendedName = undefined;
+
+    entries.push({
+      name,
+      size,
+      isDirectory: type === '5' || name.endsWith('/'),
+      isFile: type === '0' || type === '7',
+      read: () => Buffer.from(data),
+    });
+  }
+
+  return entries;
+}
+
+function hasValidChecksum(header: Buffer): boolean {
+  const expected = readOctal(header, CHECKSUM_OFFSET, CHECKSUM_LENGTH);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= CHECKSUM_OFFSET && i < CHECKSUM_OFFSET + CHECKSUM_LENGTH ? 0x20 : header[i];
+  }
+  return sum === expected;
+}
+
+function readOctal(buffer: Buffer, offset: number, length: number): number {
+  if (buffer[offset] & 0x80) {
+    throw new Error('Tar entries larger than 8GB are not supported');
+  }
+  const value = readString(buffer, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end < 0 ? field.length : end);
+}
+
+/**
+ * Pax records are "<length> <key>=<value>\n"
+ */
+function readPaxPath(data: Buffer): string | undefined {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'));
+  return match?.[1];
+}
@@ -8,8 +8,152 @@ export interface FileProcessingEvent {
   size: number;
   timestamp: string;
   etag: string;
-  content: string;
+  jobId?: string; // Key of the job table (see resolveJobId)
+  content?: string;
+  contentReference?: PayloadReference;
   fileType: string;
+  pageCount?: number;
+  pages?: PageCharacterCount[];
+  chunks?: ContentChunk[];
+  projectKey?: string; // Archive or manifest key when the file is a member of a project upload
+  projectPath?: string; // Path of the file within the project
+  dependencyGraphReference?: PayloadReference; // Staged DependencyGraph of the project
+  outlineReference?: PayloadReference; // Staged CodeOutline of a source file
+}
+
+// ReadFileFunction output for archives and manifest prefixes; each file is processed like a single upload
+export interface ProjectProcessingEvent extends FileProcessingEvent {
+  project: {
+    name: string;
+    files: FileProcessingEvent[]; // Content always staged (contentReference)
+    skippedFiles: ProjectSkippedFile[];
+    dependencyGraphReference?: PayloadReference; // Also set on every file
+  };
+}
+
+// Calls and imports between the files of a project, resolved by ReadFileFunction
+export interface DependencyGraph {
+  nodes: Array<{ path: string; fileType: string; summary: string }>;
+  edges: Array<{ from: string; to: string; reference: string }>;
+  unresolved: Array<{ from: string; reference: string }>; // Calls and relative imports with no file in the project
+}
+
+export interface ProjectSkippedFile {
+  path: string;
+  reason: string;
+}
+
+// Project-file Map state result: the ProcessWithClaude output, with the specification always staged
+export interface ProjectFileSpecification {
+  specificationReference: PayloadReference;
+  metadata: any;
+}
+
+// Synthesis input: the project event plus the Map state results in file order
+export interface ProjectSynthesisEvent extends ProjectProcessingEvent {
+  fileSpecifications: Array<ProjectFileSpecification | ProcessingError>;
+}
+
+// Per-file specifications handed to WriteSpecificationFunction with the system-level specification
+export interface ProjectBundleInput {
+  name: string;
+  files: Array<{ path: string; specificationReference: PayloadReference; metadata: any }>;
+  failedFiles: Array<{ path: string; message: string }>;
+  skippedFiles: ProjectSkippedFile[];
+  dependencyGraphReference?: PayloadReference;
+}
+
+// Static outline of a source file, extracted by ReadFileFunction before prompting
+export interface CodeOutline {
+  fileType: string;
+  entries: CodeOutlineEntry[];
+}
+
+export interface CodeOutlineEntry {
+  kind: 'program' | 'label' | 'procedure' | 'function' | 'class' | 'interface' | 'enum' | 'record' | 'annotation'
+    | 'type' | 'method' | 'constructor' | 'variable';
+  name: string;
+  line: number;
+  parameters?: string[];
+  parent?: string; // Enclosing class for methods and constructors
+  decorators?: string[]; // Python decorators and Java annotations
+  public: boolean; // Entry points the specification is expected to document
+}
+
+// Rubric returned by the reviewer model; scores range from 1 (poor) to 5 (excellent)
+export interface SpecificationReview {
+  faithfulness: number; // Everything stated is supported by the source
+  completeness: number; // Everything important in the source is covered
+  clarity: number;
+  hallucinations: Array<{ claim: string; reason: string }>; // Statements that appear nowhere in the source
+  feedback: string;
+}
+
+// Outcome of the review gate after ProcessWithClaudeTask
+export interface SpecificationReviewResult extends SpecificationReview {
+  passed: boolean;
+  threshold: number;
+  regenerated: boolean; // Regenerated once with the reviewer feedback
+  needsReview: boolean; // Still below threshold; written under REVIEW_CONFIG.NEEDS_REVIEW_PREFIX
+  modelId: string;
+}
+
+// How many public outline entries the generated specification mentions by name
+export interface SpecificationCoverage {
+  percentage: number;
+  documentedCount: number;
+  totalCount: number;
+  missing: string[]; // Capped at COVERAGE_CONFIG.MAX_REPORTED_MISSING
+  threshold: number;
+  followUp: boolean; // A follow-up prompt was sent for the missing entries
+  followUpModelId?: string; // Set when a different model than modelId answered the follow-up
+}
+
+// A structural slice of the extracted content, processed independently in the Map state
+export interface ContentChunk {
+  index: number;
+  total: number;
+  startOffset: number;
+  endOffset: number;
+  startLine: number;
+  endLine: number;
+  label?: string;
+}
+
+// Map iteration input: the file event plus the chunk to summarise
+export interface ChunkProcessingEvent extends FileProcessingEvent {
+  chunk: ContentChunk;
+}
+
+// Partial specification for one chunk, always staged in S3 to keep the Map output small
+export interface ChunkSpecificationResult {
+  chunkIndex: number;
+  partialReference: PayloadReference;
+  inputTokens: number;
+  outputTokens: number;
+  truncated: boolean;
+  modelId: string;
+  fallbackCount: number;
+  cacheHit: boolean;
+}
+
+// Reduce input: the file event plus the Map state results in chunk order
+export interface ReduceProcessingEvent extends FileProcessingEvent {
+  chunks: ContentChunk[];
+  partials: Array<ChunkSpecificationResult | ProcessingError>;
+}
+
+// Claim-check reference to content staged in S3 instead of passed through Step Functions
+export interface PayloadReference {
+  bucket: string;
+  key: string;
+  sha256: string;
+  length: number;
+}
+
+export interface PageCharacterCount {
+  pageNumber: number;
+  characterCount: number;
 }
 
 // Bedrock Converse API types (model-agnostic)
@@ -39,6 +183,135 @@ export interface ConverseResponse {
   };
 }
 
+// Prompt template from the registry; `fileTypes` may contain '*' to match any type
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description?: string;
+  fileTypes: string[];
+  keyPrefix?: string;
+  template: string;
+}
+
+// Typed specification requested from the model when SPECIFICATION_FORMAT=structured
+export interface StructuredSpecification {
+  title: string;
+  overview: string;
+  functionalRequirements: FunctionalRequirement[];
+  nonFunctionalRequirements: NonFunctionalRequirement[];
+  interfaces: SpecificationInterface[];
+  dataEntities: DataEntity[];
+  openQuestions: string[];
+}
+
+export interface FunctionalRequirement {
+  id: string; // FR-001
+  title: string;
+  description: string;
+  priority: 'must' | 'should' | 'could';
+  acceptanceCriteria?: string[];
+  source?: string;
+}
+
+export interface NonFunctionalRequirement {
+  id: string; // NFR-001
+  category: string;
+  description: string;
+}
+
+export interface SpecificationInterface {
+  name: string;
+  type: string;
+  description: string;
+  inputs?: string[];
+  outputs?: string[];
+}
+
+export interface DataEntity {
+  name: string;
+  description: string;
+  fields: Array<{
+    name: string;
+    type: string;
+    description?: string;
+  }>;
+}
+
+// JSON Schema (subset: type, required, properties, items, enum, pattern, minLength) for StructuredSpecification
+export const STRUCTURED_SPECIFICATION_SCHEMA = {
+  type: 'object',
+  required: ['title', 'overview', 'functionalRequirements', 'nonFunctionalRequirements', 'interfaces', 'dataEntities', 'openQuestions'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    overview: { type: 'string', minLength: 1 },
+    functionalRequirements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'description', 'priority'],
+        properties: {
+          id: { type: 'string', pattern: '^FR-\\d{3,}$' },
+          title: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          priority: { type: 'string', enum: ['must', 'should', 'could'] },
+          acceptanceCriteria: { type: 'array', items: { type: 'string' } },
+          source: { type: 'string' },
+        },
+      },
+    },
+    nonFunctionalRequirements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'category', 'description'],
+        properties: {
+          id: { type: 'string', pattern: '^NFR-\\d{3,}$' },
+          category: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+    interfaces: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'type', 'description'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          type: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          inputs: { type: 'array', items: { type: 'string' } },
+          outputs: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    dataEntities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description', 'fields'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          fields: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['name', 'type'],
+              properties: {
+                name: { type: 'string', minLength: 1 },
+                type: { type: 'string', minLength: 1 },
+                description: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+    openQuestions: { type: 'array', items: { type: 'string' } },
+  },
+} as const;
+
 export interface SpecificationOutput {
   originalFile: string;
   generatedAt: string;
@@ -49,10 +322,115 @@ export interface SpecificationOutput {
   fileType?: string;
   inputTokens?: number;
   outputTokens?: number;
+  promptTemplateId?: string;
+  promptTemplateVersion?: string;
+  continuationCount?: number;
+  truncated?: boolean;
+  modelId?: string;
+  fallbackCount?: number;
+  cacheHit?: boolean;
+  specificationFormat?: 'markdown' | 'structured';
+  structuredOutputLocation?: string;
+  outputLocations?: OutputLocation[];
+  diffLocation?: string;
+  changeSummary?: SpecificationChangeSummary;
+  historyManifestLocation?: string;
+  bundle?: SpecificationBundle;
+  coverage?: SpecificationCoverage;
+  review?: SpecificationReviewResult;
+}
+
+// Spec bundle written for a project: per-file specifications and an index page next to the system-level one
+export interface SpecificationBundle {
+  name: string;
+  indexLocation: string;
+  files: Array<{ path: string; sourceKey: string; fileType: string; location: string }>;
+  failedFiles: Array<{ path: string; message: string }>;
+  skippedFiles: ProjectSkippedFile[];
+}
+
+// Section-level changes against the previous specification for the same source key
+export interface SpecificationChangeSummary {
+  previousProcessingId: string;
+  previousGeneratedAt: string;
+  previousLocation: string;
+  addedSections: string[];
+  removedSections: string[];
+  changedSections: string[];
+  unchangedSectionCount: number;
+}
+
+// Lifecycle of a job in the job table; 'notified' and 'failed' are terminal
+export type JobStatus = 'queued' | 'reading' | 'generating' | 'writing' | 'notified' | 'failed';
+
+// One item in the DynamoDB job table
+export interface JobRecord {
+  jobId: string;
+  status: JobStatus;
+  sourceKey: string;
+  sourceBucket: string;
+  sourceEtag?: string;
+  day: string; // YYYY-MM-DD (UTC) of createdAt, partition key of the by-day index
+  createdAt: string;
+  updatedAt: string;
+  queuedAt?: string;
+  readingAt?: string;
+  generatingAt?: string;
+  writingAt?: string;
+  notifiedAt?: string;
+  failedAt?: string;
+  fileType?: string;
+  modelId?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  outputLocation?: string;
+  errorType?: string;
+  errorMessage?: string;
+  expiresAt?: number; // Epoch seconds, DynamoDB TTL attribute
+}
+
+// YAML front matter written at the top of every Markdown specification (snake_case keys)
+export interface SpecificationFrontMatter {
+  title: string;
+  source_key: string;
+  source_bucket: string;
+  source_etag?: string;
+  file_type: string;
+  generated_at: string;
+  processing_id: string;
+  execution_id?: string;
+  model_id?: string;
+  fallback_count?: number;
+  cache_hit?: boolean;
+  prompt_template_id?: string;
+  prompt_template_version?: string;
+  specification_format?: 'markdown' | 'structured';
+  input_tokens: number;
+  output_tokens: number;
+  processing_time_seconds: number;
+  word_count: number;
+  continuation_count?: number;
+  truncated?: boolean;
+  coverage_percentage?: number;
+  review_passed?: boolean;
+  needs_review?: boolean;
+}
+
+// One object written by WriteSpecificationFunction (Markdown, JSON and each rendered format)
+export interface OutputLocation {
+  format: string;
+  location: string;
+  contentType: string;
 }
 
 export interface ProcessingError {
-  errorType: 'FILE_READ_ERROR' | 'LLM_PROCESSING_ERROR' | 'OUTPUT_WRITE_ERROR' | 'FILE_TOO_LARGE_FOR_STEP_FUNCTIONS';
+  errorType:
+    | 'FILE_READ_ERROR'
+    | 'LLM_PROCESSING_ERROR'
+    | 'OUTPUT_WRITE_ERROR'
+    | 'PDF_ENCRYPTED'
+    | 'PDF_NO_TEXT_CONTENT'
+    | 'LEGACY_DOC_FORMAT';
   message: string;
   timestamp: string;
   originalFile?: string;
@@ -3,6 +3,7 @@
  */
 
 import { ProcessingError } from './types';
+import { getFileFormat } from './file-formats';
 
 // X-Ray tracing setup
 let AWSXRay: any;
@@ -35,13 +36,46 @@ export function generateDateBasedPath(): string {
   return `${year}/${month}/${day}`;
 }
 
+// How WriteSpecificationFunction names output objects (OUTPUT_PATH_STRATEGY)
+// - date:   YYYY/MM/DD/<name>-<timestamp>.md, one object per run (input directories are dropped)
+// - mirror: <input key without extension>-<timestamp>.md, one object per run under the input's prefix
+// - latest: <input key>.md, overwritten in place; earlier runs are kept as bucket object versions
+export type OutputPathStrategy = 'date' | 'mirror' | 'latest';
+
+const OUTPUT_TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}-\\d{9}';
+
+const OUTPUT_PATH_STRATEGIES: Record<OutputPathStrategy, {
+  generate(originalFile: string): string;
+  pattern(escapedExtension: string): string;
+}> = {
+  date: {
+    generate: originalFile =>
+      `${generateDateBasedPath()}/${generateOutputFilename(originalFile.split('/').pop() || originalFile)}`,
+    pattern: extension => `^\\d{4}\\/\\d{2}\\/\\d{2}\\/[^\\/]+\\.${extension}$`,
+  },
+  mirror: {
+    generate: originalFile => generateOutputFilename(originalFile),
+    pattern: extension => `^([^\\/]+\\/)*[^\\/]+-${OUTPUT_TIMESTAMP_PATTERN}\\.${extension}$`,
+  },
+  latest: {
+    generate: originalFile => `${originalFile}.md`,
+    pattern: extension => `^([^\\/]+\\/)*[^\\/]+\\.${extension}$`,
+  },
+};
+
+/**
+ * Resolve the output path strategy from its environment variable value, defaulting to date
+ */
+export function getOutputPathStrategy(value: string | undefined): OutputPathStrategy {
+  const strategy = (value || '').trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(OUTPUT_PATH_STRATEGIES, strategy) ? strategy as OutputPathStrategy : 'date';
+}
+
 /**
- * Generate complete S3 output path with date-based folder structure
+ * Generate complete S3 output path for the Markdown specification using the given strategy
  */
-export function generateOutputPath(originalFilename: string): string {
-  const datePath = generateDateBasedPath();
-  const outputFilename = generateOutputFilename(originalFilename);
-  return `${datePath}/${outputFilename}`;
+export function generateOutputPath(originalFilename: string, strategy: OutputPathStrategy = 'date'): string {
+  return OUTPUT_PATH_STRATEGIES[strategy].generate(originalFilename);
 }
 
 /**
@@ -58,13 +92,37 @@ export function getFileExtension(filename: string): string {
   return filename.split('.').pop()?.toLowerCase() || '';
 }
 
+/**
+ * Canonical file type of a file (see file-formats.ts); unknown formats fall back to the extension
+ */
+export function getFileType(filename: string): string {
+  return getFileFormat(filename)?.id || getFileExtension(filename);
+}
+
 /**
  * Check if file format is supported
  */
 export function isSupportedFileFormat(filename: string): boolean {
-  const { SUPPORTED_FILE_FORMATS } = require('./constants');
-  const extension = getFileExtension(filename);
-  return SUPPORTED_FILE_FORMATS.includes(extension);
+  const format = getFileFormat(filename);
+  return !!format && !format.legacy;
+}
+
+/**
+ * Check if file format is a legacy format that must be inspected before being rejected
+ */
+export function isLegacyFileFormat(filename: string): boolean {
+  return !!getFileFormat(filename)?.legacy;
+}
+
+// Characters for bytes 0x80-0x9F, where Windows-1252 differs from Latin-1
+const WINDOWS_1252_C1 = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Decode Windows-1252 bytes (Node's TextDecoder treats this label as Latin-1)
+ */
+export function decodeWindows1252(bytes: Buffer): string {
+  return bytes.toString('latin1').replace(/[\u0080-\u009f]/g, ch => WINDOWS_1252_C1[ch.charCodeAt(0) - 0x80]);
 }
 
 /**
@@ -259,10 +317,18 @@ export function extractS3Metadata(s3Object: any): Record<string, string> {
 /**
  * Validate output path format and structure
  */
-export function validateOutputPath(path: string): boolean {
-  // Check for date-based structure: YYYY/MM/DD/filename.md
-  const pathRegex = /^\d{4}\/\d{2}\/\d{2}\/[^\/]+\.md$/;
-  return pathRegex.test(path);
+export function validateOutputPath(
+  path: string,
+  extension: string = 'md',
+  strategy: OutputPathStrategy = 'date'
+): boolean {
+  // Mirrored keys come from user input: reject empty, '.' and '..' segments
+  if (path.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+    return false;
+  }
+
+  const escapedExtension = extension.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(OUTPUT_PATH_STRATEGIES[strategy].pattern(escapedExtension)).test(path);
 }
 
 /**
@@ -276,6 +342,7 @@ export function createProcessingMetadata(
   inputTokens: number,
   outputTokens: number,
   wordCount: number,
+  promptTemplate?: { id: string; version: string },
   additionalMetadata?: Record<string, any>
 ): Record<string, string> {
   const baseMetadata: Record<string, string> = {
@@ -290,6 +357,12 @@ export function createProcessingMetadata(
     'processing-id': generateProcessingId()
   };
 
+  // Record which prompt template produced the specification
+  if (promptTemplate) {
+    baseMetadata['prompt-template-id'] = promptTemplate.id;
+    baseMetadata['prompt-template-version'] = promptTemplate.version;
+  }
+
   // Add any additional metadata
   if (additionalMetadata) {
     Object.keys(additionalMetadata).forEach(key => {
@@ -0,0 +1,184 @@
+/**
+ * Minimal XML parser for the S3 Specification Generator
+ * Sufficient for well-formed OOXML parts; DTDs and processing instructions are skipped
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const tagStart = xml.indexOf('<', pos);
+    if (tagStart < 0) {
+      appendText(stack[stack.length - 1], xml.slice(pos));
+      break;
+    }
+
+    if (tagStart > pos) {
+      appendText(stack[stack.length - 1], xml.slice(pos, tagStart));
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart + 4);
+      pos = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart + 9);
+      const text = xml.slice(tagStart + 9, end < 0 ? xml.length : end);
+      stack[stack.length - 1].children.push(text);
+      pos = end < 0 ? xml.length : end + 3;
+      continue;
+    }
+
+    if (xml.startsWith('<?', tagStart) || xml.startsWith('<!', tagStart)) {
+      const end = xml.indexOf('>', tagStart + 2);
+      pos = end < 0 ? xml.length : end + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(xml, tagStart + 1);
+    const tag = xml.slice(tagStart + 1, tagEnd);
+    pos = tagEnd + 1;
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      // Pop back to the matching element, tolerating unclosed children
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const element = parseTag(selfClosing ? tag.slice(0, -1) : tag);
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  const rootElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!rootElement) {
+    throw new Error('XML document has no root element');
+  }
+  return rootElement;
+}
+
+/**
+ * Find direct child elements with the given name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (name === undefined || child.name === name)
+  );
+}
+
+/**
+ * Find the first direct child element with the given name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * Find all descendant elements with the given name (document order)
+ */
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  childElements(element).forEach(child => {
+    if (child.name === name) {
+      found.push(child);
+    }
+    found.push(...descendantElements(child, name));
+  });
+  return found;
+}
+
+/**
+ * Concatenate all text content beneath an element
+ */
+export function textContent(node: XmlNode): string {
+  if (typeof node === 'string') {
+    return node;
+  }
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * Decode XML character and entity references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function appendText(element: XmlElement, raw: string): void {
+  if (raw.length > 0) {
+    element.children.push(decodeEntities(raw));
+  }
+}
+
+/**
+ * Find the closing '>' of a tag, skipping over quoted attribute values
+ */
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | undefined;
+  for (let i = from; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return xml.length;
+}
+
+function parseTag(tag: string): XmlElement {
+  const nameMatch = /^\s*([^\s/>]+)/.exec(tag);
+  const name = nameMatch ? nameMatch[1] : '';
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  const rest = tag.slice(nameMatch ? nameMatch[0].length : 0);
+  while ((match = attributePattern.exec(rest)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+
+  return { name, attributes, children: [] };
+}
@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP archive reader for the S3 Specification Generator
+ * Used for OOXML documents (DOCX) and uploaded archives
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  isDirectory: boolean;
+  isEncrypted: boolean;
+  read: () => Buffer;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * Check whether a buffer starts with the ZIP local file header signature
+ */
+export function isZipArchive(body: Buffer): boolean {
+  return body.length >= 4 && body.readUInt32LE(0) === LOCAL_FILE_HEADER_SIGNATURE;
+}
+
+/**
+ * List the entries of a ZIP archive using its central directory
+ * Entry contents are decompressed lazily by calling read()
+ */
+export function readZipEntries(body: Buffer): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(body);
+  if (endOffset < 0) {
+    throw new Error('ZIP end of central directory record not found');
+  }
+
+  const entryCount = body.readUInt16LE(endOffset + 10);
+  let offset = body.readUInt32LE(endOffset + 16);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > body.length || body.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = body.readUInt16LE(offset + 8);
+    const method = body.readUInt16LE(offset + 10);
+    const compressedSize = body.readUInt32LE(offset + 20);
+    const uncompressedSize = body.readUInt32LE(offset + 24);
+    const nameLength = body.readUInt16LE(offset + 28);
+    const extraLength = body.readUInt16LE(offset + 30);
+    const commentLength = body.readUInt16LE(offset + 32);
+    const localHeaderOffset = body.readUInt32LE(offset + 42);
+    // Bit 11 marks UTF-8 names; older tools use CP437, for which latin1 is a close approximation
+    const name = body.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+    entries.push({
+      name,
+      compressedSize,
+      uncompressedSize,
+      isDirectory: name.endsWith('/'),
+      isEncrypted: (flags & 0x1) !== 0,
+      read: () => readEntryData(body, localHeaderOffset, method, compressedSize, uncompressedSize, name),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Locate the end of central directory record by scanning backwards over the optional comment
+ */
+function findEndOfCentralDirectory(body: Buffer): number {
+  const minOffset = Math.max(0, body.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = body.length - 22; offset >= minOffset; offset--) {
+    if (body.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read and decompress a single entry's data from its local file header
+ * Output is capped at the size in the central directory, so a forged entry cannot inflate without bound
+ */
+function readEntryData(
+  body: Buffer,
+  localHeaderOffset: number,
+  method: number,
+  compressedSize: number,
+  uncompressedSize: number,
+  name: string
+): Buffer {
+  if (body.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP local header for ${name}`);
+  }
+
+  const nameLength = body.readUInt16LE(localHeaderOffset + 26);
+  const extraLength = body.readUInt16LE(localHeaderOffset + 28);
+  const dataStart = localHeaderOffset + 30 + nameLength + extraLength;
+  const data = body.subarray(dataStart, dataStart + compressedSize);
+
+  switch (method) {
+    case 0:
+      return Buffer.from(data);
+    case 8:
+      return inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) });
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+  }
+}
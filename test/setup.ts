@@ -8,6 +8,7 @@ jest.mock('aws-sdk', () => ({
     getObject: jest.fn(),
     putObject: jest.fn(),
     headObject: jest.fn(),
+    listObjectsV2: jest.fn(),
   })),
   StepFunctions: jest.fn(() => ({
     startExecution: jest.fn(),
@@ -15,6 +16,17 @@ jest.mock('aws-sdk', () => ({
   SNS: jest.fn(() => ({
     publish: jest.fn(),
   })),
+  SQS: jest.fn(() => ({
+    sendMessage: jest.fn(),
+  })),
+  DynamoDB: {
+    DocumentClient: jest.fn(() => ({
+      put: jest.fn(),
+      update: jest.fn(),
+      get: jest.fn(),
+      query: jest.fn(),
+    })),
+  },
 }));
 
 // Mock Bedrock Runtime